@@ -28,6 +28,7 @@ import MediaDetail from "@/pages/MediaDetail"; // Import the new page
 import CampaignManagement from "@/pages/CampaignManagement";
 import PitchOutreach from "@/pages/PitchOutreach";
 import AdminPanel from "@/pages/AdminPanel"; // Admin only
+import MediaDuplicates from "@/pages/MediaDuplicates"; // Admin only
 import PitchTemplatesPage from "@/pages/PitchTemplates"; // Added for Phase 5
 
 // Shared Detail Page
@@ -46,6 +47,7 @@ import PrivacyPolicy from "@/pages/PrivacyPolicy"; // Privacy policy page
 import TermsOfService from "@/pages/TermsOfService"; // Terms of service page
 import Contact from "@/pages/Contact"; // Contact page
 import NylasCallback from "@/pages/NylasCallback"; // Nylas OAuth callback handler
+import TestimonialSubmit from "@/pages/TestimonialSubmit"; // Public host testimonial form
 
 
 function Router() {
@@ -65,6 +67,7 @@ function Router() {
     <Switch> {/* Outer Switch for auth state */}
       {/* Public routes accessible to everyone */}
       <Route path="/media-kit/:slug" component={PublicMediaKitPage} /> {/* Public media kit route - accessible to all users */}
+      <Route path="/testimonial/:token" component={TestimonialSubmit} /> {/* Tokenized host testimonial form */}
       <Route path="/onboarding" component={Onboarding} /> {/* Onboarding route - token-based auth */}
       <Route path="/verify-email" component={EmailVerification} /> {/* Email verification route */}
       <Route path="/nylas/callback" component={NylasCallback} /> {/* Nylas OAuth callback route */}
@@ -123,7 +126,10 @@ function Router() {
 
             {/* Admin-Only Routes */}
             {userRoleLower === 'admin' && (
-              <Route path="/admin" component={AdminPanel} />
+              <>
+                <Route path="/admin" component={AdminPanel} />
+                <Route path="/admin/media-duplicates" component={MediaDuplicates} /> {/* Duplicate detection and merge */}
+              </>
             )}
             
             {/* Fallback for authenticated users if no specific route matches their role or path */}
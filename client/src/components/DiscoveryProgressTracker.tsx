@@ -1,11 +1,12 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { useQueryClient } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { usePollingFallback } from "@/hooks/useRealtime";
 import { 
   Clock, 
   CheckCircle, 
@@ -22,6 +23,7 @@ interface DiscoveryItem {
   media_id: number;
   media_name: string;
   discovery_keyword: string;
+  source?: 'discovery' | 'manual'; // 'manual' = added by staff through Add Podcast rather than found by keyword
   enrichment_status: string;
   vetting_status: string;
   overall_status: string;
@@ -53,79 +55,53 @@ export default function DiscoveryProgressTracker({
   isActive, 
   onComplete 
 }: DiscoveryProgressTrackerProps) {
-  const [discoveryStatus, setDiscoveryStatus] = useState<DiscoveryStatus | null>(null);
-  const [isPolling, setIsPolling] = useState(false);
+  const [isComplete, setIsComplete] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  // Pushed discovery events invalidate this key; the interval only kicks in while the realtime connection is down
+  const pollingFallback = usePollingFallback(10000);
+  const isPolling = isActive && !!campaignId && !isComplete;
 
-  useEffect(() => {
-    if (!isActive || !campaignId) {
-      setIsPolling(false);
-      return;
-    }
-
-    let pollInterval: NodeJS.Timeout;
-    
-    const startPolling = () => {
-      setIsPolling(true);
-      
-      pollInterval = setInterval(async () => {
-        try {
-          const response = await apiRequest("GET", `/match-suggestions/campaigns/${campaignId}/discoveries/status`);
-          if (response.ok) {
-            const status: DiscoveryStatus = await response.json();
-            setDiscoveryStatus(status);
-            
-            // Check if discovery is complete
-            if (status.in_progress === 0 && status.total > 0) {
-              setIsPolling(false);
-              clearInterval(pollInterval);
-              
-              const reviewTasksCreated = status.items.filter(i => i.review_task_created).length;
-              toast({
-                title: "🎉 Discovery Complete!",
-                description: `Found ${status.completed} matches. ${reviewTasksCreated} review tasks created and ready for approval.`,
-                duration: 6000,
-              });
-              
-              // Invalidate relevant queries
-              queryClient.invalidateQueries({ queryKey: ["/review-tasks/enhanced"] });
-              queryClient.invalidateQueries({ queryKey: ["campaignMatchesDetail", campaignId] });
-              
-              // Call completion callback
-              onComplete?.(status);
-            }
-          }
-        } catch (error) {
-          console.error('Discovery polling error:', error);
-        }
-      }, 10000); // Poll every 10 seconds
-    };
+  const { data: discoveryStatus, dataUpdatedAt, refetch: refreshStatus } = useQuery<DiscoveryStatus>({
+    queryKey: [`/match-suggestions/campaigns/${campaignId}/discoveries/status`],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/match-suggestions/campaigns/${campaignId}/discoveries/status`);
+      if (!response.ok) throw new Error("Failed to fetch discovery status");
+      return response.json();
+    },
+    enabled: isActive && !!campaignId,
+    refetchInterval: isPolling ? pollingFallback : false,
+    staleTime: 0,
+  });
 
-    startPolling();
+  // Status cached from the last run already reads as complete, so only data fetched since activation counts
+  const activeSinceRef = useRef(0);
 
-    // Cleanup on unmount or when polling stops
-    return () => {
-      if (pollInterval) {
-        clearInterval(pollInterval);
-      }
-      setIsPolling(false);
-    };
-  }, [isActive, campaignId, onComplete, toast, queryClient]);
+  useEffect(() => {
+    setIsComplete(false);
+    activeSinceRef.current = Date.now();
+  }, [campaignId, isActive]);
 
-  const refreshStatus = async () => {
-    if (!campaignId) return;
-    
-    try {
-      const response = await apiRequest("GET", `/match-suggestions/campaigns/${campaignId}/discoveries/status`);
-      if (response.ok) {
-        const status: DiscoveryStatus = await response.json();
-        setDiscoveryStatus(status);
-      }
-    } catch (error) {
-      console.error('Failed to refresh discovery status:', error);
-    }
-  };
+  useEffect(() => {
+    // Check if discovery is complete
+    if (!isPolling || !discoveryStatus || dataUpdatedAt < activeSinceRef.current) return;
+    if (discoveryStatus.in_progress !== 0 || discoveryStatus.total === 0) return;
+    setIsComplete(true);
+
+    const reviewTasksCreated = discoveryStatus.items.filter(i => i.review_task_created).length;
+    toast({
+      title: "🎉 Discovery Complete!",
+      description: `Found ${discoveryStatus.completed} matches. ${reviewTasksCreated} review tasks created and ready for approval.`,
+      duration: 6000,
+    });
+
+    // Invalidate relevant queries
+    queryClient.invalidateQueries({ queryKey: ["/review-tasks/enhanced"] });
+    queryClient.invalidateQueries({ queryKey: ["campaignMatchesDetail", campaignId] });
+
+    // Call completion callback
+    onComplete?.(discoveryStatus);
+  }, [discoveryStatus, dataUpdatedAt, isPolling, campaignId, onComplete, toast, queryClient]);
 
   if (!isActive || !discoveryStatus) {
     return null;
@@ -159,7 +135,7 @@ export default function DiscoveryProgressTracker({
             <Button 
               variant="outline" 
               size="sm" 
-              onClick={refreshStatus}
+              onClick={() => refreshStatus()}
               className="h-8"
             >
               <RefreshCw className="h-3 w-3" />
@@ -208,7 +184,7 @@ export default function DiscoveryProgressTracker({
                       {item.media_name}
                     </div>
                     <div className="text-gray-500">
-                      Keyword: {item.discovery_keyword}
+                      {item.source === 'manual' ? 'Added manually' : `Keyword: ${item.discovery_keyword}`}
                     </div>
                   </div>
                   <div className="flex items-center gap-2 ml-2">
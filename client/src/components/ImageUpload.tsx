@@ -7,7 +7,7 @@ import { Input } from '@/components/ui/input';
 import { Progress } from '@/components/ui/progress';
 import { UploadCloud, CheckCircle, AlertTriangle, X, Image } from 'lucide-react';
 
-type UploadContext = 'media_kit_headshot' | 'media_kit_logo' | 'profile_picture';
+type UploadContext = 'media_kit_headshot' | 'media_kit_logo' | 'media_kit_cover' | 'profile_picture';
 
 interface ImageUploadProps {
   uploadContext: UploadContext;
@@ -32,11 +32,11 @@ export function ImageUpload({ uploadContext, onUploadComplete, currentImageUrl,
       if (uploadContext === 'profile_picture') {
         endpoint = '/users/me/profile-image';
         payload = { profile_image_url: finalUrl };
-      } else if (uploadContext === 'media_kit_headshot' || uploadContext === 'media_kit_logo') {
+      } else if (uploadContext.startsWith('media_kit_')) {
         if (!campaignId) throw new Error("Campaign ID is required for media kit uploads.");
         // Corrected endpoint and payload for media kit images
         endpoint = `/campaigns/${campaignId}/media-kit/images`;
-        payload = { image_url: finalUrl, image_type: uploadContext.replace('media_kit_', '') }; // Send 'headshot' or 'logo'
+        payload = { image_url: finalUrl, image_type: uploadContext.replace('media_kit_', '') }; // Send 'headshot', 'logo' or 'cover'
       } else {
         throw new Error("Invalid upload context");
       }
@@ -191,7 +191,7 @@ export function ImageUpload({ uploadContext, onUploadComplete, currentImageUrl,
       return;
     }
     
-    if ((uploadContext === 'media_kit_headshot' || uploadContext === 'media_kit_logo') && !campaignId) {
+    if (uploadContext.startsWith('media_kit_') && !campaignId) {
       toast({ title: "Missing Campaign", description: "Campaign ID is required for media kit uploads.", variant: "destructive" });
       return;
     }
@@ -3,6 +3,7 @@ import Sidebar from "./Sidebar";
 import Header from "./Header";
 import { Menu, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { useRealtimeConnection } from "@/hooks/useRealtime";
 
 interface LayoutProps {
   children: ReactNode;
@@ -10,6 +11,7 @@ interface LayoutProps {
 
 export default function Layout({ children }: LayoutProps) {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  useRealtimeConnection(true); // Layout only renders for signed-in users
 
   return (
     <div className="min-h-screen flex bg-gray-50">
@@ -1,7 +1,9 @@
 import React from 'react';
 import { Badge } from "@/components/ui/badge";
-import { ThumbsUp, ThumbsDown, Check, Globe, Twitter, Linkedin, Instagram, Facebook, Youtube } from "lucide-react";
+import { ThumbsUp, ThumbsDown, Check, Globe, Twitter, Linkedin, Instagram, Facebook, Youtube, Ban } from "lucide-react";
 import { Button } from './ui/button';
+import { describeBlocklistEntry } from '@/lib/blocklist';
+import type { BlocklistEntry } from '@/types/blocklist';
 
 // --- Interfaces (Should align with backend schemas) ---
 interface Media {
@@ -37,10 +39,19 @@ interface MatchIntelligenceCardProps {
   onApprove: (matchId: number) => void;
   onReject: (matchId: number) => void;
   isActionPending: boolean;
+  blockEntry?: BlocklistEntry | null; // Active do-not-pitch entry for this show, if any
 }
 
+const BlockedNotice = ({ entry }: { entry: BlocklistEntry }) => (
+  <div className="intelligence-item p-3 bg-red-50 border border-red-200 rounded-md mb-4">
+    <strong className="flex items-center text-red-800">
+      <Ban className="h-4 w-4 mr-2 text-red-600"/> Do Not Pitch
+    </strong>
+    <p className="text-xs text-red-900 mt-1 pl-6">{describeBlocklistEntry(entry)}</p>
+  </div>
+);
 
-export const MatchIntelligenceCard = ({ match, onApprove, onReject, isActionPending }: MatchIntelligenceCardProps) => {
+export const MatchIntelligenceCard = ({ match, onApprove, onReject, isActionPending, blockEntry }: MatchIntelligenceCardProps) => {
   const media = match.media;
   if (!media) {
     // Fallback: Show basic card with available information instead of error
@@ -51,6 +62,7 @@ export const MatchIntelligenceCard = ({ match, onApprove, onReject, isActionPend
           <p className="text-sm text-yellow-600">⚠️ Detailed media information is being loaded...</p>
         </div>
         <div className="p-4">
+          {blockEntry && <BlockedNotice entry={blockEntry} />}
           {match.vetting_score !== null && match.vetting_score !== undefined && (
             <div className="bg-blue-50 border border-blue-200 rounded-md p-3 mb-4">
               <strong className="text-blue-800">PGL Match Score: {Math.round(match.vetting_score)}/100</strong>
@@ -152,6 +164,8 @@ export const MatchIntelligenceCard = ({ match, onApprove, onReject, isActionPend
       <div className="match-intelligence p-4 space-y-4">
         <h4 className="text-sm font-semibold uppercase text-gray-500 tracking-wider">Match Intelligence</h4>
         
+        {blockEntry && <BlockedNotice entry={blockEntry} />}
+
         <div className="intelligence-item p-3 bg-blue-50 border border-blue-200 rounded-md">
           <strong className="flex items-center text-blue-800">
             <Check className="h-4 w-4 mr-2 text-blue-600"/> PGL Match Score: {match.vetting_score !== null && match.vetting_score !== undefined ? `${Math.round(match.vetting_score)}/100` : 'N/A'}
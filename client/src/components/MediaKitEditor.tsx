@@ -5,8 +5,14 @@ import { useToast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { MediaKitPdfExportButton } from '@/components/MediaKitPdfExportButton';
+import { MediaKitThemePicker } from '@/components/mediaKit/MediaKitThemePicker';
+import { SectionHistorySheet } from '@/components/mediaKit/SectionHistorySheet';
+import { MediaKitTestimonialsManager } from '@/components/mediaKit/MediaKitTestimonialsManager';
+import type { MediaKitAccessMode, MediaKitSectionKey, PublicMediaKitData } from '@/types/mediaKit';
+import { MEDIA_KIT_SECTIONS } from '@/lib/mediaKitVersions';
 import { 
   Edit, 
   Save, 
@@ -15,7 +21,8 @@ import {
   Trash2, 
   AlertCircle,
   Check,
-  Loader2
+  Loader2,
+  History
 } from 'lucide-react';
 
 interface TalkingPoint {
@@ -35,6 +42,7 @@ interface MediaKitData {
   campaign_id: string;
   person_id: number;
   slug: string;
+  access_mode?: MediaKitAccessMode | null;
   title: string;
   headline?: string | null;
   custom_intro?: string | null;
@@ -59,8 +67,14 @@ interface MediaKitData {
   }> | null;
   testimonials_section?: string | null;
   sample_questions?: string[] | null;
+  theme_preference?: string | null;
+  image_urls?: { headshot_url?: string | null; logo_url?: string | null; cover_image_url?: string | null } | null;
 }
 
+// Empty strings, empty lists and missing values all mean "not filled in"
+const normalizeFieldValue = (value: unknown) =>
+  value == null || value === '' || (Array.isArray(value) && value.length === 0) ? 'null' : JSON.stringify(value);
+
 interface MediaKitEditorProps {
   mediaKit: MediaKitData;
   isOwner: boolean;
@@ -73,6 +87,7 @@ export function MediaKitEditor({ mediaKit, isOwner, onSave }: MediaKitEditorProp
   const [isEditing, setIsEditing] = useState(false);
   const [editedData, setEditedData] = useState<Partial<MediaKitData>>({});
   const [editingSection, setEditingSection] = useState<string | null>(null);
+  const [historySection, setHistorySection] = useState<MediaKitSectionKey | null>(null);
 
   useEffect(() => {
     setEditedData({
@@ -93,12 +108,24 @@ export function MediaKitEditor({ mediaKit, isOwner, onSave }: MediaKitEditorProp
     });
   }, [mediaKit]);
 
+  const refreshAfterSave = () => {
+    // Invalidate queries to refresh data
+    queryClient.invalidateQueries({ queryKey: ['publicMediaKit', mediaKit.slug] });
+    queryClient.invalidateQueries({ queryKey: ['/campaigns/', mediaKit.campaign_id, '/media-kit'] });
+    queryClient.invalidateQueries({ queryKey: ['/media-kits/', mediaKit.media_kit_id, '/versions'] });
+
+    if (onSave) {
+      onSave();
+    }
+  };
+
   const updateMutation = useMutation({
-    mutationFn: async (data: Partial<MediaKitData>) => {
-      // Use PUT endpoint for updating all media kit fields
+    mutationFn: async ({ data, sections = [] }: { data: Partial<MediaKitData>; sections?: MediaKitSectionKey[] }) => {
+      // Use PUT endpoint for updating all media kit fields. Each named section is recorded by the backend as a version.
+      const params = new URLSearchParams(sections.map(section => ['section', section]));
       const response = await apiRequest(
         'PUT',
-        `/media-kits/${mediaKit.media_kit_id}`,
+        sections.length > 0 ? `/media-kits/${mediaKit.media_kit_id}?${params.toString()}` : `/media-kits/${mediaKit.media_kit_id}`,
         data
       );
       
@@ -116,14 +143,7 @@ export function MediaKitEditor({ mediaKit, isOwner, onSave }: MediaKitEditorProp
       });
       setEditingSection(null);
       setIsEditing(false);
-      
-      // Invalidate queries to refresh data
-      queryClient.invalidateQueries({ queryKey: ['publicMediaKit', mediaKit.slug] });
-      queryClient.invalidateQueries({ queryKey: ['/campaigns/', mediaKit.campaign_id, '/media-kit'] });
-      
-      if (onSave) {
-        onSave();
-      }
+      refreshAfterSave();
     },
     onError: (error: Error) => {
       toast({
@@ -176,10 +196,15 @@ export function MediaKitEditor({ mediaKit, isOwner, onSave }: MediaKitEditorProp
           break;
       }
       
-      updateMutation.mutate(sectionData);
+      updateMutation.mutate({ data: sectionData, sections: [section as MediaKitSectionKey] });
     } else {
-      // Save all changes
-      updateMutation.mutate(editedData);
+      // Save all changes, naming every section that changed so each one gets its own version
+      const saved = mediaKit as unknown as Record<string, unknown>;
+      const edited = editedData as Record<string, unknown>;
+      const changedSections = (Object.keys(MEDIA_KIT_SECTIONS) as MediaKitSectionKey[]).filter(key =>
+        MEDIA_KIT_SECTIONS[key].fields.some(field => normalizeFieldValue(edited[field]) !== normalizeFieldValue(saved[field]))
+      );
+      updateMutation.mutate({ data: editedData, sections: changedSections });
     }
   };
 
@@ -301,28 +326,47 @@ export function MediaKitEditor({ mediaKit, isOwner, onSave }: MediaKitEditorProp
     return null;
   }
 
+  // The theme preview renders with whatever is currently in the editor, not just what's saved
+  const previewKit = {
+    ...mediaKit,
+    ...editedData,
+    talking_points: (editedData.talking_points || []).map(point => ({
+      title: point.topic || (point as { title?: string }).title || '',
+      description: point.description,
+    })),
+  } as unknown as PublicMediaKitData;
+
+  const renderHistoryButton = (section: MediaKitSectionKey) => (
+    <Button variant="ghost" size="sm" onClick={() => setHistorySection(section)} title="Version history">
+      <History className="h-4 w-4" />
+    </Button>
+  );
+
   return (
     <div className="space-y-6">
       {/* Edit Mode Toggle */}
       <div className="flex justify-between items-center">
         <h3 className="text-lg font-semibold">Edit Media Kit</h3>
-        <Button
-          variant={isEditing ? 'secondary' : 'default'}
-          size="sm"
-          onClick={() => setIsEditing(!isEditing)}
-        >
-          {isEditing ? (
-            <>
-              <X className="mr-2 h-4 w-4" />
-              Cancel Editing
-            </>
-          ) : (
-            <>
-              <Edit className="mr-2 h-4 w-4" />
-              Enable Editing
-            </>
-          )}
-        </Button>
+        <div className="flex items-center gap-2">
+          <MediaKitPdfExportButton mediaKit={mediaKit} />
+          <Button
+            variant={isEditing ? 'secondary' : 'default'}
+            size="sm"
+            onClick={() => setIsEditing(!isEditing)}
+          >
+            {isEditing ? (
+              <>
+                <X className="mr-2 h-4 w-4" />
+                Cancel Editing
+              </>
+            ) : (
+              <>
+                <Edit className="mr-2 h-4 w-4" />
+                Enable Editing
+              </>
+            )}
+          </Button>
+        </div>
       </div>
 
       {isEditing && (
@@ -339,20 +383,29 @@ export function MediaKitEditor({ mediaKit, isOwner, onSave }: MediaKitEditorProp
         </Card>
       )}
 
+      <MediaKitThemePicker
+        mediaKit={previewKit}
+        onSaveTheme={(themeId) => updateMutation.mutate({ data: { theme_preference: themeId } })}
+        isSaving={updateMutation.isPending}
+      />
+
       {/* Header Section */}
       <Card className={isEditing && editingSection === 'header' ? 'ring-2 ring-primary' : ''}>
         <CardHeader>
           <div className="flex justify-between items-center">
             <CardTitle>Header Information</CardTitle>
-            {isEditing && (
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => setEditingSection(editingSection === 'header' ? null : 'header')}
-              >
-                <Edit className="h-4 w-4" />
-              </Button>
-            )}
+            <div className="flex items-center gap-1">
+              {renderHistoryButton('header')}
+              {isEditing && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setEditingSection(editingSection === 'header' ? null : 'header')}
+                >
+                  <Edit className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -402,15 +455,18 @@ export function MediaKitEditor({ mediaKit, isOwner, onSave }: MediaKitEditorProp
         <CardHeader>
           <div className="flex justify-between items-center">
             <CardTitle>Custom Introduction</CardTitle>
-            {isEditing && (
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => setEditingSection(editingSection === 'intro' ? null : 'intro')}
-              >
-                <Edit className="h-4 w-4" />
-              </Button>
-            )}
+            <div className="flex items-center gap-1">
+              {renderHistoryButton('intro')}
+              {isEditing && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setEditingSection(editingSection === 'intro' ? null : 'intro')}
+                >
+                  <Edit className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -456,15 +512,18 @@ export function MediaKitEditor({ mediaKit, isOwner, onSave }: MediaKitEditorProp
                 </Badge>
               )}
             </div>
-            {isEditing && (
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => setEditingSection(editingSection === 'bio' ? null : 'bio')}
-              >
-                <Edit className="h-4 w-4" />
-              </Button>
-            )}
+            <div className="flex items-center gap-1">
+              {renderHistoryButton('bio')}
+              {isEditing && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setEditingSection(editingSection === 'bio' ? null : 'bio')}
+                >
+                  <Edit className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -548,15 +607,18 @@ export function MediaKitEditor({ mediaKit, isOwner, onSave }: MediaKitEditorProp
                 </Badge>
               )}
             </div>
-            {isEditing && (
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => setEditingSection(editingSection === 'talking_points' ? null : 'talking_points')}
-              >
-                <Edit className="h-4 w-4" />
-              </Button>
-            )}
+            <div className="flex items-center gap-1">
+              {renderHistoryButton('talking_points')}
+              {isEditing && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setEditingSection(editingSection === 'talking_points' ? null : 'talking_points')}
+                >
+                  <Edit className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -644,15 +706,18 @@ export function MediaKitEditor({ mediaKit, isOwner, onSave }: MediaKitEditorProp
         <CardHeader>
           <div className="flex justify-between items-center">
             <CardTitle>Call to Action</CardTitle>
-            {isEditing && (
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => setEditingSection(editingSection === 'cta' ? null : 'cta')}
-              >
-                <Edit className="h-4 w-4" />
-              </Button>
-            )}
+            <div className="flex items-center gap-1">
+              {renderHistoryButton('cta')}
+              {isEditing && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setEditingSection(editingSection === 'cta' ? null : 'cta')}
+                >
+                  <Edit className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -703,15 +768,18 @@ export function MediaKitEditor({ mediaKit, isOwner, onSave }: MediaKitEditorProp
         <CardHeader>
           <div className="flex justify-between items-center">
             <CardTitle>Social Media Links</CardTitle>
-            {isEditing && (
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => setEditingSection(editingSection === 'social_links' ? null : 'social_links')}
-              >
-                <Edit className="h-4 w-4" />
-              </Button>
-            )}
+            <div className="flex items-center gap-1">
+              {renderHistoryButton('social_links')}
+              {isEditing && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setEditingSection(editingSection === 'social_links' ? null : 'social_links')}
+                >
+                  <Edit className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -800,15 +868,18 @@ export function MediaKitEditor({ mediaKit, isOwner, onSave }: MediaKitEditorProp
         <CardHeader>
           <div className="flex justify-between items-center">
             <CardTitle>Key Achievements</CardTitle>
-            {isEditing && (
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => setEditingSection(editingSection === 'achievements' ? null : 'achievements')}
-              >
-                <Edit className="h-4 w-4" />
-              </Button>
-            )}
+            <div className="flex items-center gap-1">
+              {renderHistoryButton('achievements')}
+              {isEditing && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setEditingSection(editingSection === 'achievements' ? null : 'achievements')}
+                >
+                  <Edit className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -873,15 +944,18 @@ export function MediaKitEditor({ mediaKit, isOwner, onSave }: MediaKitEditorProp
         <CardHeader>
           <div className="flex justify-between items-center">
             <CardTitle>Previous Appearances</CardTitle>
-            {isEditing && (
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => setEditingSection(editingSection === 'appearances' ? null : 'appearances')}
-              >
-                <Edit className="h-4 w-4" />
-              </Button>
-            )}
+            <div className="flex items-center gap-1">
+              {renderHistoryButton('appearances')}
+              {isEditing && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setEditingSection(editingSection === 'appearances' ? null : 'appearances')}
+                >
+                  <Edit className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -980,47 +1054,58 @@ export function MediaKitEditor({ mediaKit, isOwner, onSave }: MediaKitEditorProp
       <Card className={isEditing && editingSection === 'testimonials' ? 'ring-2 ring-primary' : ''}>
         <CardHeader>
           <div className="flex justify-between items-center">
-            <CardTitle>Testimonials</CardTitle>
-            {isEditing && (
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => setEditingSection(editingSection === 'testimonials' ? null : 'testimonials')}
-              >
-                <Edit className="h-4 w-4" />
-              </Button>
-            )}
+            <div>
+              <CardTitle>Testimonials</CardTitle>
+              <CardDescription>Approved testimonials show as cards on your media kit.</CardDescription>
+            </div>
+            <div className="flex items-center gap-1">
+              {renderHistoryButton('testimonials')}
+              {isEditing && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setEditingSection(editingSection === 'testimonials' ? null : 'testimonials')}
+                >
+                  <Edit className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
           </div>
         </CardHeader>
-        <CardContent>
-          {editingSection === 'testimonials' ? (
-            <div className="space-y-4">
-              <Textarea
-                value={editedData.testimonials_section || ''}
-                onChange={(e) => setEditedData({ ...editedData, testimonials_section: e.target.value })}
-                placeholder="Add testimonials (supports markdown formatting)..."
-                rows={8}
-              />
-              <p className="text-xs text-gray-500">Tip: You can use markdown formatting. Example: **Bold text** or *italic text*</p>
-              <div className="flex gap-2">
-                <Button onClick={() => handleSave('testimonials')} disabled={updateMutation.isPending}>
-                  {updateMutation.isPending ? (
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  ) : (
-                    <Save className="mr-2 h-4 w-4" />
-                  )}
-                  Save
-                </Button>
-                <Button variant="outline" onClick={handleCancel}>
-                  Cancel
-                </Button>
+        <CardContent className="space-y-6">
+          <MediaKitTestimonialsManager campaignId={mediaKit.campaign_id} mediaKitSlug={mediaKit.slug} />
+
+          <div className="border-t pt-4">
+            <p className="text-sm font-medium text-gray-700 mb-2">Additional notes (free text, shown below the cards)</p>
+            {editingSection === 'testimonials' ? (
+              <div className="space-y-4">
+                <Textarea
+                  value={editedData.testimonials_section || ''}
+                  onChange={(e) => setEditedData({ ...editedData, testimonials_section: e.target.value })}
+                  placeholder="Press mentions or other social proof (supports markdown formatting)..."
+                  rows={8}
+                />
+                <p className="text-xs text-gray-500">Tip: You can use markdown formatting. Example: **Bold text** or *italic text*</p>
+                <div className="flex gap-2">
+                  <Button onClick={() => handleSave('testimonials')} disabled={updateMutation.isPending}>
+                    {updateMutation.isPending ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Save className="mr-2 h-4 w-4" />
+                    )}
+                    Save
+                  </Button>
+                  <Button variant="outline" onClick={handleCancel}>
+                    Cancel
+                  </Button>
+                </div>
               </div>
-            </div>
-          ) : (
-            <div className="text-gray-700 whitespace-pre-wrap">
-              {mediaKit.testimonials_section || 'No testimonials added yet'}
-            </div>
-          )}
+            ) : (
+              <div className="text-gray-700 whitespace-pre-wrap">
+                {mediaKit.testimonials_section || <span className="text-sm text-gray-500">None</span>}
+              </div>
+            )}
+          </div>
         </CardContent>
       </Card>
 
@@ -1029,15 +1114,18 @@ export function MediaKitEditor({ mediaKit, isOwner, onSave }: MediaKitEditorProp
         <CardHeader>
           <div className="flex justify-between items-center">
             <CardTitle>Sample Interview Questions</CardTitle>
-            {isEditing && (
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => setEditingSection(editingSection === 'questions' ? null : 'questions')}
-              >
-                <Edit className="h-4 w-4" />
-              </Button>
-            )}
+            <div className="flex items-center gap-1">
+              {renderHistoryButton('questions')}
+              {isEditing && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setEditingSection(editingSection === 'questions' ? null : 'questions')}
+                >
+                  <Edit className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -1119,6 +1207,18 @@ export function MediaKitEditor({ mediaKit, isOwner, onSave }: MediaKitEditorProp
           </Button>
         </div>
       )}
+
+      <SectionHistorySheet
+        mediaKitId={mediaKit.media_kit_id}
+        section={historySection}
+        currentContent={mediaKit as unknown as Record<string, unknown>}
+        onClose={() => setHistorySection(null)}
+        onRestored={() => {
+          setHistorySection(null);
+          setEditingSection(null);
+          refreshAfterSave();
+        }}
+      />
     </div>
   );
 }
\ No newline at end of file
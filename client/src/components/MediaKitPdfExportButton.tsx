@@ -0,0 +1,47 @@
+import { useState } from 'react';
+import { Button, type ButtonProps } from '@/components/ui/button';
+import { FileDown, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { downloadMediaKitPdf, getMediaKitPdfLinkUrl, type MediaKitPdfSource } from '@/lib/mediaKitPdf';
+
+interface MediaKitPdfExportButtonProps {
+  mediaKit: MediaKitPdfSource;
+  accessToken?: string | null; // Share link the viewer came in with; links-only kits need one to include a link
+  variant?: ButtonProps['variant'];
+  size?: ButtonProps['size'];
+  className?: string;
+}
+
+export function MediaKitPdfExportButton({ mediaKit, accessToken, variant = 'outline', size = 'sm', className }: MediaKitPdfExportButtonProps) {
+  const { toast } = useToast();
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await downloadMediaKitPdf(mediaKit, accessToken);
+      if (mediaKit.slug && !getMediaKitPdfLinkUrl(mediaKit, accessToken)) {
+        toast({
+          title: 'PDF has no link',
+          description: 'This media kit only opens through share links, so the one-sheet leaves out the URL and QR code. Share a recipient link alongside it.',
+        });
+      }
+    } catch (error) {
+      console.error('Failed to export media kit PDF:', error);
+      toast({
+        title: 'Export failed',
+        description: 'The PDF one-sheet could not be generated. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Button variant={variant} size={size} onClick={handleExport} disabled={isExporting} className={className}>
+      {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileDown className="mr-2 h-4 w-4" />}
+      {isExporting ? 'Preparing PDF...' : 'Download PDF One-Sheet'}
+    </Button>
+  );
+}
@@ -0,0 +1,279 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Ban, Loader2, Plus, Trash2 } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { getBlocklistQueryKey, useBlocklist } from '@/hooks/useBlocklist';
+import { BLOCKLIST_MATCH_TYPE_LABELS, cancelBlockedScheduledSends, describeBlockedPitches, isBlocklistEntryActive } from '@/lib/blocklist';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import type { BlocklistEntry, BlocklistEntryInput, BlocklistMatchType } from '@/types/blocklist';
+
+interface BlocklistManagerProps {
+  campaigns: { campaign_id: string; campaign_name: string; client_name?: string }[];
+}
+
+type BlocklistForm = { match_type: BlocklistMatchType; value: string; campaign_id: string; reason: string; expires_at: string };
+
+const AGENCY_WIDE = 'all';
+const EMPTY_FORM: BlocklistForm = { match_type: 'media', value: '', campaign_id: AGENCY_WIDE, reason: '', expires_at: '' };
+
+const describeValue = (entry: BlocklistEntry) =>
+  entry.match_type === 'media' && entry.media_name ? `${entry.media_name} (ID ${entry.value})` : entry.value;
+
+// Admin list of shows, hosts, domains and emails we must never pitch, agency-wide or for one campaign
+export function BlocklistManager({ campaigns }: BlocklistManagerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: entries = [], isLoading, error } = useBlocklist();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<BlocklistForm>(EMPTY_FORM);
+
+  const createMutation = useMutation({
+    mutationFn: async (values: BlocklistForm) => {
+      const payload: BlocklistEntryInput = {
+        match_type: values.match_type,
+        value: values.value.trim(),
+        campaign_id: values.campaign_id === AGENCY_WIDE ? null : values.campaign_id,
+        reason: values.reason.trim(),
+        // The entry stays active through the whole chosen day
+        expires_at: values.expires_at ? new Date(`${values.expires_at}T23:59:59`).toISOString() : null,
+      };
+      const res = await apiRequest('POST', '/blocklist/', payload);
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({ detail: 'Failed to add blocklist entry' }));
+        throw new Error(errorData.detail || 'Failed to add blocklist entry');
+      }
+      return res.json();
+    },
+    onSuccess: async () => {
+      toast({ title: 'Added to the do-not-pitch list' });
+      setDialogOpen(false);
+      queryClient.invalidateQueries({ queryKey: getBlocklistQueryKey() });
+      await cancelNowBlockedSends();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const cancelNowBlockedSends = async () => {
+    try {
+      const { cancelled, failed } = await cancelBlockedScheduledSends();
+      if (cancelled.length > 0) {
+        queryClient.invalidateQueries({ queryKey: ['scheduledPitches'] });
+        queryClient.invalidateQueries({ queryKey: ['pitchesReadyToSend'] });
+        toast({
+          title: `Cancelled ${cancelled.length} scheduled send${cancelled.length === 1 ? '' : 's'}`,
+          description: describeBlockedPitches(cancelled),
+        });
+      }
+      if (failed.length > 0) {
+        toast({
+          title: 'Scheduled sends still queued',
+          description: `Couldn't cancel ${describeBlockedPitches(failed)}. Cancel ${failed.length === 1 ? 'it' : 'them'} from Pitch Outreach before the send time.`,
+          variant: 'destructive',
+        });
+      }
+    } catch (error) {
+      toast({
+        title: 'Check scheduled sends',
+        description: `${(error as Error).message}. Scheduled pitches to this entry may still go out; review them in Pitch Outreach.`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const deleteMutation = useMutation({
+    mutationFn: async (blocklistId: number) => {
+      const res = await apiRequest('DELETE', `/blocklist/${blocklistId}`);
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({ detail: 'Failed to remove blocklist entry' }));
+        throw new Error(errorData.detail || 'Failed to remove blocklist entry');
+      }
+    },
+    onSuccess: () => {
+      toast({ title: 'Removed from the do-not-pitch list' });
+      queryClient.invalidateQueries({ queryKey: getBlocklistQueryKey() });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const openDialog = () => {
+    setForm(EMPTY_FORM);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = (entry: BlocklistEntry) => {
+    if (window.confirm(`Remove "${describeValue(entry)}" from the do-not-pitch list?`)) {
+      deleteMutation.mutate(entry.blocklist_id);
+    }
+  };
+
+  const isMediaValueInvalid = form.match_type === 'media' && !!form.value.trim() && !/^\d+$/.test(form.value.trim());
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2"><Ban className="h-5 w-5 text-red-600" />Do-Not-Pitch List</CardTitle>
+          <CardDescription>Blocked shows are hidden from discovery previews, flagged in approvals and can't be drafted or sent.</CardDescription>
+        </div>
+        <Button onClick={openDialog}><Plus className="h-4 w-4 mr-2" />Add Entry</Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-12 w-full rounded-md" />)}
+          </div>
+        ) : error ? (
+          <p className="text-red-500">Error loading the do-not-pitch list: {(error as Error).message}</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">Nothing is blocked yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Blocked</TableHead>
+                <TableHead>Scope</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map(entry => {
+                const isActive = isBlocklistEntryActive(entry);
+                return (
+                  <TableRow key={entry.blocklist_id} className={isActive ? '' : 'opacity-60'}>
+                    <TableCell>
+                      <Badge variant="outline" className="mr-2 text-xs">{BLOCKLIST_MATCH_TYPE_LABELS[entry.match_type].label}</Badge>
+                      <span className="font-medium">{describeValue(entry)}</span>
+                    </TableCell>
+                    <TableCell className="text-sm">{entry.campaign_id ? entry.campaign_name || entry.campaign_id : 'Agency-wide'}</TableCell>
+                    <TableCell className="text-sm max-w-xs">
+                      <p className="line-clamp-2">{entry.reason}</p>
+                      {entry.created_by_name && <p className="text-xs text-gray-400">Added by {entry.created_by_name}</p>}
+                    </TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {entry.expires_at ? format(new Date(entry.expires_at), 'MMM d, yyyy') : 'Never'}
+                      {!isActive && <Badge variant="secondary" className="ml-2 text-xs">Expired</Badge>}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700"
+                        onClick={() => handleDelete(entry)}
+                        disabled={deleteMutation.isPending && deleteMutation.variables === entry.blocklist_id}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Add to Do-Not-Pitch List</DialogTitle>
+            <DialogDescription>Block a show, host, domain or contact email for every campaign or just one.</DialogDescription>
+          </DialogHeader>
+          <form
+            id="blocklist-form"
+            className="grid gap-3 sm:grid-cols-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              createMutation.mutate(form);
+            }}
+          >
+            <div className="space-y-1">
+              <Label>Block by</Label>
+              <Select value={form.match_type} onValueChange={(value) => setForm(prev => ({ ...prev, match_type: value as BlocklistMatchType }))}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(BLOCKLIST_MATCH_TYPE_LABELS) as BlocklistMatchType[]).map(type => (
+                    <SelectItem key={type} value={type}>{BLOCKLIST_MATCH_TYPE_LABELS[type].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="blocklist-value">Value *</Label>
+              <Input
+                id="blocklist-value"
+                placeholder={BLOCKLIST_MATCH_TYPE_LABELS[form.match_type].placeholder}
+                value={form.value}
+                onChange={(e) => setForm(prev => ({ ...prev, value: e.target.value }))}
+                required
+              />
+              {isMediaValueInvalid && <p className="text-xs text-red-600">Enter the numeric media ID.</p>}
+            </div>
+            <div className="space-y-1">
+              <Label>Scope</Label>
+              <Select value={form.campaign_id} onValueChange={(value) => setForm(prev => ({ ...prev, campaign_id: value }))}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AGENCY_WIDE}>Agency-wide</SelectItem>
+                  {campaigns.map(campaign => (
+                    <SelectItem key={campaign.campaign_id} value={campaign.campaign_id}>
+                      {campaign.campaign_name}{campaign.client_name ? ` (${campaign.client_name})` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="blocklist-expires">Expires</Label>
+              <Input
+                id="blocklist-expires"
+                type="date"
+                value={form.expires_at}
+                onChange={(e) => setForm(prev => ({ ...prev, expires_at: e.target.value }))}
+              />
+              <p className="text-xs text-gray-500">Leave empty to block indefinitely.</p>
+            </div>
+            <div className="space-y-1 sm:col-span-2">
+              <Label htmlFor="blocklist-reason">Reason *</Label>
+              <Textarea
+                id="blocklist-reason"
+                rows={3}
+                placeholder="e.g. Host asked us never to pitch them again"
+                value={form.reason}
+                onChange={(e) => setForm(prev => ({ ...prev, reason: e.target.value }))}
+                required
+              />
+            </div>
+          </form>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button
+              type="submit"
+              form="blocklist-form"
+              disabled={!form.value.trim() || !form.reason.trim() || isMediaValueInvalid || createMutation.isPending}
+            >
+              {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Add Entry
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -31,12 +31,14 @@ import {
 } from 'lucide-react';
 import { format } from 'date-fns';
 import type { PitchMetrics, CampaignMetrics } from '@/types/inbox';
+import TemplateComparison from './TemplateComparison';
 
 interface PitchAnalyticsDashboardProps {
   campaignId?: string;
+  highlightTemplateId?: string; // Opens the template comparison with this template's row highlighted
 }
 
-export default function PitchAnalyticsDashboard({ campaignId }: PitchAnalyticsDashboardProps) {
+export default function PitchAnalyticsDashboard({ campaignId, highlightTemplateId }: PitchAnalyticsDashboardProps) {
   // Fetch metrics
   const { data: metrics, isLoading } = useQuery<CampaignMetrics | PitchMetrics>({
     queryKey: campaignId 
@@ -156,13 +158,19 @@ export default function PitchAnalyticsDashboard({ campaignId }: PitchAnalyticsDa
         </Card>
       )}
 
-      <Tabs defaultValue="status" className="space-y-4">
+      <Tabs defaultValue={highlightTemplateId ? 'templates' : 'status'} className="space-y-4">
         <TabsList>
           <TabsTrigger value="status">Status Distribution</TabsTrigger>
           <TabsTrigger value="timeline">Timeline</TabsTrigger>
           <TabsTrigger value="performance">Performance</TabsTrigger>
+          <TabsTrigger value="templates">Templates</TabsTrigger>
         </TabsList>
 
+        {/* Template A/B Comparison */}
+        <TabsContent value="templates">
+          <TemplateComparison templates={pitchMetrics?.by_template || []} campaignId={campaignId} highlightTemplateId={highlightTemplateId} />
+        </TabsContent>
+
         {/* Status Distribution */}
         <TabsContent value="status">
           <Card>
@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { FlaskConical, Loader2, Trophy } from 'lucide-react';
+import { MIN_SAMPLE_SIZE, getSignificance, twoProportionPValue, type SignificanceLevel } from '@/lib/abTest';
+import type { PitchMetrics, TemplatePitchMetrics } from '@/types/inbox';
+
+interface TemplateComparisonProps {
+  templates: TemplatePitchMetrics[];
+  campaignId?: string;
+  highlightTemplateId?: string;
+}
+
+type ComparedMetric = 'opened' | 'replied' | 'accepted';
+
+const METRICS: { key: ComparedMetric; label: string; color: string }[] = [
+  { key: 'opened', label: 'Open rate', color: '#3b82f6' },
+  { key: 'replied', label: 'Reply rate', color: '#8b5cf6' },
+  { key: 'accepted', label: 'Acceptance rate', color: '#10b981' },
+];
+
+const significanceBadge: Record<SignificanceLevel, { label: string; className: string }> = {
+  leader: { label: 'Leader', className: 'bg-green-100 text-green-800' },
+  significant: { label: 'Significantly lower', className: 'bg-red-100 text-red-800' },
+  trending: { label: 'Trending lower', className: 'bg-yellow-100 text-yellow-800' },
+  not_significant: { label: 'No clear difference', className: 'bg-gray-100 text-gray-700' },
+  insufficient_data: { label: `Needs ${MIN_SAMPLE_SIZE}+ sends`, className: 'bg-gray-50 text-gray-500' },
+};
+
+const rate = (count: number, total: number) => (total > 0 ? (count / total) * 100 : 0);
+
+export default function TemplateComparison({ templates, campaignId, highlightTemplateId }: TemplateComparisonProps) {
+  const abTestIds = Array.from(new Set(templates.flatMap(t => t.ab_test_ids || [])));
+  const [abTestFilter, setAbTestFilter] = useState<string>('all');
+  const [primaryMetric, setPrimaryMetric] = useState<ComparedMetric>('replied');
+
+  // The all-time totals mix in sends from other batches, so a batch is compared on its own counts
+  const { data: batchMetrics, isLoading: isLoadingBatch } = useQuery<PitchMetrics>({
+    queryKey: ['/pitches/metrics', { ab_test_id: abTestFilter, campaign_id: campaignId }],
+    enabled: abTestFilter !== 'all',
+  });
+
+  const visible = abTestFilter === 'all' ? templates : batchMetrics?.by_template || [];
+  const leader = visible.reduce<TemplatePitchMetrics | null>((best, t) => (
+    !best || rate(t[primaryMetric], t.total_sent) > rate(best[primaryMetric], best.total_sent) ? t : best
+  ), null);
+
+  const getLevel = (template: TemplatePitchMetrics): SignificanceLevel => {
+    if (!leader) return 'insufficient_data';
+    if (template.template_id === leader.template_id) {
+      return leader.total_sent < MIN_SAMPLE_SIZE ? 'insufficient_data' : 'leader';
+    }
+    const pValue = twoProportionPValue(leader[primaryMetric], leader.total_sent, template[primaryMetric], template.total_sent);
+    return getSignificance(pValue, leader.total_sent, template.total_sent);
+  };
+
+  const chartData = visible.map(t => ({
+    name: t.template_id,
+    'Open rate': Number(rate(t.opened, t.total_sent).toFixed(1)),
+    'Reply rate': Number(rate(t.replied, t.total_sent).toFixed(1)),
+    'Acceptance rate': Number(rate(t.accepted, t.total_sent).toFixed(1)),
+  }));
+
+  if (templates.length === 0) {
+    return (
+      <Card>
+        <CardContent className="text-center py-8">
+          <FlaskConical className="mx-auto h-10 w-10 mb-2 text-gray-400" />
+          <p className="text-gray-500">No template results yet. Send pitches generated from templates to start comparing them.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+          <div>
+            <CardTitle>Template Comparison</CardTitle>
+            <CardDescription>
+              Each template is compared against the leader with a two-proportion z-test (significant at p &lt; 0.05).
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={primaryMetric} onValueChange={(value) => setPrimaryMetric(value as ComparedMetric)}>
+              <SelectTrigger className="w-[160px] h-9"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {METRICS.map(m => <SelectItem key={m.key} value={m.key}>{m.label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            {abTestIds.length > 0 && (
+              <Select value={abTestFilter} onValueChange={setAbTestFilter}>
+                <SelectTrigger className="w-[180px] h-9"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All pitches</SelectItem>
+                  {abTestIds.map(id => <SelectItem key={id} value={id}>A/B batch {id.replace(/^ab-/, '')}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {abTestFilter !== 'all' && isLoadingBatch ? (
+          <div className="flex items-center justify-center py-12 text-gray-500">
+            <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+            Loading batch results...
+          </div>
+        ) : (
+          <>
+            <div className="h-[260px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" />
+                  <YAxis unit="%" />
+                  <Tooltip />
+                  <Legend />
+                  {METRICS.map(m => <Bar key={m.key} dataKey={m.label} fill={m.color} />)}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Template</TableHead>
+                  <TableHead className="text-right">Sent (n)</TableHead>
+                  {METRICS.map(m => <TableHead key={m.key} className="text-right">{m.label}</TableHead>)}
+                  <TableHead>Significance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visible.map(template => {
+                  const level = getLevel(template);
+                  return (
+                    <TableRow
+                      key={template.template_id}
+                      className={template.template_id === highlightTemplateId ? 'bg-yellow-50' : undefined}
+                    >
+                      <TableCell className="font-medium">
+                        <span className="flex items-center gap-1.5">
+                          {level === 'leader' && <Trophy className="h-4 w-4 text-yellow-500" />}
+                          {template.template_id}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-right">{template.total_sent}</TableCell>
+                      {METRICS.map(m => (
+                        <TableCell key={m.key} className={`text-right ${m.key === primaryMetric ? 'font-semibold' : ''}`}>
+                          {rate(template[m.key], template.total_sent).toFixed(1)}%
+                          <span className="block text-xs text-gray-500 font-normal">{template[m.key]} / {template.total_sent}</span>
+                        </TableCell>
+                      ))}
+                      <TableCell>
+                        <Badge variant="outline" className={`font-normal ${significanceBadge[level].className}`}>
+                          {significanceBadge[level].label}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,10 +1,12 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useConversation } from '@/hooks/useConversation';
 import { MessageBubble } from './MessageBubble';
 import { TypingIndicator } from './TypingIndicator';
 import { QuickReplies } from './QuickReplies';
 import { ProgressIndicator } from './ProgressIndicator';
 import { ChatInput } from './ChatInput';
+import { KeywordReviewPanel } from './KeywordReviewPanel';
+import type { ExtractedData } from '@/lib/keywordReview';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
 import { AlertCircle, RefreshCw, CheckCircle, Loader2 } from 'lucide-react';
@@ -13,14 +15,17 @@ interface ChatInterfaceProps {
   campaignId: string;
   onComplete: (data: any) => void;
   isOnboarding?: boolean;
+  questionnaireDraft?: Record<string, unknown> | null; // Form answers the assistant shouldn't ask for again
+  onExtractedDataChange?: (data: ExtractedData) => void;
 }
 
-export function ChatInterface({ campaignId, onComplete, isOnboarding = false }: ChatInterfaceProps) {
+export function ChatInterface({ campaignId, onComplete, isOnboarding = false, questionnaireDraft, onExtractedDataChange }: ChatInterfaceProps) {
   const [isTyping, setIsTyping] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isCompleted, setIsCompleted] = useState(false);
   const [conversationAlreadyComplete, setConversationAlreadyComplete] = useState(false);
   const [showCompleteButton, setShowCompleteButton] = useState(false);
+  const [isKeywordReviewOpen, setIsKeywordReviewOpen] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   
   const {
@@ -29,6 +34,8 @@ export function ChatInterface({ campaignId, onComplete, isOnboarding = false }:
     progress,
     phase,
     keywordsCount,
+    extractedData,
+    keywordSources,
     startConversation,
     sendMessage,
     resumeConversation,
@@ -41,13 +48,18 @@ export function ChatInterface({ campaignId, onComplete, isOnboarding = false }:
   } = useConversation(campaignId, isOnboarding);
   
   const [isResumedConversation, setIsResumedConversation] = useState(false);
+  useEffect(() => {
+    if (extractedData) onExtractedDataChange?.(extractedData);
+  }, [extractedData, onExtractedDataChange]);
+
+  const userMessages = useMemo(() => messages.filter(m => m.sender === 'user').map(m => m.text), [messages]);
 
-  const handleComplete = useCallback(async () => {
+  const handleComplete = useCallback(async (approvedKeywords?: string[]) => {
     if (isCompleted) return; // Prevent multiple calls
     
     try {
       // Complete the conversation on the backend
-      await completeConversation.mutateAsync();
+      await completeConversation.mutateAsync(approvedKeywords);
       
       // Mark as completed
       setIsCompleted(true);
@@ -93,7 +105,7 @@ export function ChatInterface({ campaignId, onComplete, isOnboarding = false }:
     const timer = setTimeout(() => {
       if (!conversationId && connectionStatus === 'connected' && !isConversationComplete) {
         console.log('No existing conversation found after waiting, starting new one');
-        startConversation.mutate();
+        startConversation.mutate(questionnaireDraft);
       }
     }, 2000); // Give 2 seconds for history check and resume
     
@@ -200,7 +212,12 @@ export function ChatInterface({ campaignId, onComplete, isOnboarding = false }:
 
   return (
     <div className="flex flex-col h-[600px] bg-white rounded-lg shadow-lg chat-interface-container">
-      <ProgressIndicator progress={progress} phase={phase} keywordsFound={keywordsCount} />
+      <ProgressIndicator
+        progress={progress}
+        phase={phase}
+        keywordsFound={keywordsCount}
+        onReviewKeywords={!isCompleted && conversationId ? () => setIsKeywordReviewOpen(true) : undefined}
+      />
       
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
         {isResumedConversation && messages.length > 0 && (
@@ -259,10 +276,13 @@ export function ChatInterface({ campaignId, onComplete, isOnboarding = false }:
         <div className="p-4 border-t bg-green-50">
           <div className="flex flex-col items-center space-y-3">
             <p className="text-sm text-green-800 font-medium">
-              Your profile is ready! Click below to finalize your media kit.
+              {keywordsCount > 0
+                ? "Your profile is ready! Review your keywords, then we'll finalize your media kit."
+                : 'Your profile is ready! Click below to finalize your media kit.'}
             </p>
             <Button
-              onClick={handleComplete}
+              // Keywords get a last look before they feed podcast discovery
+              onClick={() => (keywordsCount > 0 ? setIsKeywordReviewOpen(true) : handleComplete())}
               disabled={completeConversation.isPending}
               className="bg-green-600 hover:bg-green-700 text-white"
               size="lg"
@@ -275,7 +295,7 @@ export function ChatInterface({ campaignId, onComplete, isOnboarding = false }:
               ) : (
                 <>
                   <CheckCircle className="mr-2 h-4 w-4" />
-                  Complete & Generate Media Kit
+                  {keywordsCount > 0 ? 'Review Keywords & Complete' : 'Complete & Generate Media Kit'}
                 </>
               )}
             </Button>
@@ -300,6 +320,17 @@ export function ChatInterface({ campaignId, onComplete, isOnboarding = false }:
           </div>
         </div>
       )}
+
+      <KeywordReviewPanel
+        open={isKeywordReviewOpen}
+        onOpenChange={setIsKeywordReviewOpen}
+        campaignId={campaignId}
+        extractedData={extractedData}
+        keywordSources={keywordSources}
+        userMessages={userMessages}
+        confirmLabel={showCompleteButton ? 'Save & Complete' : 'Save Keywords'}
+        onSaved={showCompleteButton ? (approved) => handleComplete(approved) : undefined}
+      />
     </div>
   );
 }
\ No newline at end of file
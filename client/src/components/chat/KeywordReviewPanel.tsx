@@ -0,0 +1,229 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Check, Combine, Loader2, MessageSquare, X } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Sheet, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { cn } from '@/lib/utils';
+import {
+  KEYWORD_TYPE_LABELS, KEYWORD_TYPE_ORDER, buildReviewKeywords, getApprovedKeywords, mergeReviewKeywords, normalizeKeyword,
+  type ExtractedData, type ReviewKeyword, type ReviewKeywordStatus,
+} from '@/lib/keywordReview';
+
+interface KeywordReviewPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  campaignId: string;
+  extractedData: ExtractedData | null;
+  keywordSources: Record<string, string>;
+  userMessages: string[];
+  confirmLabel?: string;
+  onSaved?: (approvedKeywords: string[]) => void;
+}
+
+// Lets the client curate what the chatbot extracted before it feeds discovery via campaign_keywords
+export function KeywordReviewPanel({
+  open, onOpenChange, campaignId, extractedData, keywordSources, userMessages, confirmLabel = 'Save Keywords', onSaved,
+}: KeywordReviewPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [items, setItems] = useState<ReviewKeyword[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingValue, setEditingValue] = useState('');
+  const [mergeName, setMergeName] = useState('');
+
+  useEffect(() => {
+    if (open) setItems(prev => buildReviewKeywords(extractedData, keywordSources, userMessages, prev));
+  }, [open, extractedData, keywordSources, userMessages]);
+
+  const approved = getApprovedKeywords(items);
+  const pendingCount = items.filter(item => item.status === 'pending').length;
+
+  const setStatus = (id: string, status: ReviewKeywordStatus) =>
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, status: item.status === status ? 'pending' : status } : item)));
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    const next = checked ? [...selectedIds, id] : selectedIds.filter(selected => selected !== id);
+    setSelectedIds(next);
+    if (next.length === 1 || (checked && !mergeName)) setMergeName(items.find(item => item.id === next[0])?.text || '');
+  };
+
+  const commitEdit = () => {
+    if (!editingId) return;
+    const text = editingValue.trim();
+    const duplicate = items.some(item => item.id !== editingId && normalizeKeyword(item.text) === normalizeKeyword(text));
+    if (text && duplicate) {
+      toast({ title: 'Duplicate keyword', description: 'Select both and use Merge instead.', variant: 'destructive' });
+      return;
+    }
+    // Editing a keyword counts as accepting it; clearing it rejects it
+    setItems(prev => prev.map(item => (item.id === editingId ? (text ? { ...item, text, status: 'accepted' } : { ...item, status: 'rejected' }) : item)));
+    setEditingId(null);
+  };
+
+  const handleMerge = () => {
+    if (selectedIds.length < 2 || !mergeName.trim()) return;
+    setItems(prev => mergeReviewKeywords(prev, selectedIds, mergeName));
+    setSelectedIds([]);
+    setMergeName('');
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const campaignRes = await apiRequest('GET', `/campaigns/${campaignId}`);
+      if (!campaignRes.ok) {
+        const errorData = await campaignRes.json().catch(() => ({ detail: 'Failed to load campaign' }));
+        throw new Error(errorData.detail || 'Failed to load campaign');
+      }
+      const campaign: { campaign_keywords?: string[] | null } = await campaignRes.json();
+      // Keep keywords added elsewhere, but drop any the client just rejected here
+      const rejected = new Set(items.filter(item => item.status === 'rejected').map(item => normalizeKeyword(item.text)));
+      const kept = (campaign.campaign_keywords || []).filter(keyword => !rejected.has(normalizeKeyword(keyword)));
+      const campaignKeywords = Array.from(new Set([...kept, ...approved]));
+
+      const res = await apiRequest('PATCH', `/campaigns/${campaignId}`, { campaign_keywords: campaignKeywords });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({ detail: 'Failed to save keywords' }));
+        throw new Error(errorData.detail || 'Failed to save keywords');
+      }
+      return approved;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['campaignDetail', campaignId] });
+      queryClient.invalidateQueries({ queryKey: ['campaignDetailsForAnglesGenerator', campaignId] });
+      queryClient.invalidateQueries({ queryKey: ['clientCampaignsForProfileSetupPage'] });
+      toast({ title: 'Keywords saved', description: `${saved.length} keyword${saved.length !== 1 ? 's' : ''} added to your campaign.` });
+      onOpenChange(false);
+      onSaved?.(saved);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const renderKeyword = (item: ReviewKeyword) => (
+    <li key={item.id} className={cn('rounded-md border p-2.5', item.status === 'rejected' && 'bg-gray-50 opacity-60')}>
+      <div className="flex items-center gap-2">
+        <Checkbox checked={selectedIds.includes(item.id)} onCheckedChange={(checked) => toggleSelected(item.id, checked as boolean)} aria-label={`Select ${item.text} to merge`} />
+        {editingId === item.id ? (
+          <Input
+            autoFocus
+            value={editingValue}
+            onChange={(e) => setEditingValue(e.target.value)}
+            onBlur={commitEdit}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitEdit();
+              if (e.key === 'Escape') setEditingId(null);
+            }}
+            className="h-7 flex-1 text-sm"
+          />
+        ) : (
+          <button
+            type="button"
+            className={cn('flex-1 text-left text-sm font-medium hover:underline', item.status === 'rejected' && 'line-through')}
+            onClick={() => { setEditingId(item.id); setEditingValue(item.text); }}
+            title="Click to edit"
+          >
+            {item.text}
+          </button>
+        )}
+        <Button
+          size="sm"
+          variant={item.status === 'accepted' ? 'default' : 'outline'}
+          className="h-7 w-7 p-0"
+          onClick={() => setStatus(item.id, 'accepted')}
+          title="Accept"
+        >
+          <Check className="h-3.5 w-3.5" />
+        </Button>
+        <Button
+          size="sm"
+          variant={item.status === 'rejected' ? 'destructive' : 'outline'}
+          className="h-7 w-7 p-0"
+          onClick={() => setStatus(item.id, 'rejected')}
+          title="Reject"
+        >
+          <X className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+      {item.mergedFrom && (
+        <p className="mt-1 pl-6 text-xs text-gray-500">Merged from {item.mergedFrom.join(', ')}</p>
+      )}
+      {item.sourceMessage ? (
+        <p className="mt-1 flex items-start gap-1 pl-6 text-xs text-gray-500" title={item.sourceMessage}>
+          <MessageSquare className="mt-0.5 h-3 w-3 flex-shrink-0" />
+          <span className="line-clamp-2 italic">"{item.sourceMessage}"</span>
+        </p>
+      ) : (
+        <p className="mt-1 pl-6 text-xs text-gray-400">Inferred from the conversation as a whole</p>
+      )}
+    </li>
+  );
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex w-full flex-col sm:max-w-xl">
+        <SheetHeader>
+          <SheetTitle>Review your keywords</SheetTitle>
+          <SheetDescription>
+            These drive which podcasts we find for you. Accept the ones that fit, reject the rest, click a keyword to reword it, or select several to merge them.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex flex-wrap items-center gap-2 border-b py-3">
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={pendingCount === 0}
+            onClick={() => setItems(prev => prev.map(item => (item.status === 'pending' ? { ...item, status: 'accepted' } : item)))}
+          >
+            Accept {pendingCount} pending
+          </Button>
+          {selectedIds.length >= 2 && (
+            <div className="flex flex-1 items-center gap-2">
+              <Input value={mergeName} onChange={(e) => setMergeName(e.target.value)} placeholder="Merged keyword" className="h-8 text-sm" />
+              <Button size="sm" onClick={handleMerge} disabled={!mergeName.trim()}>
+                <Combine className="mr-1.5 h-4 w-4" />Merge {selectedIds.length}
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 space-y-5 overflow-y-auto py-4">
+          {items.length === 0 && (
+            <p className="py-8 text-center text-sm text-gray-500">No keywords have been extracted yet. Keep chatting and they'll show up here.</p>
+          )}
+          {KEYWORD_TYPE_ORDER.map(type => {
+            const group = items.filter(item => item.type === type);
+            if (group.length === 0) return null;
+            return (
+              <section key={type}>
+                <div className="mb-2 flex items-center justify-between">
+                  <div>
+                    <h4 className="text-sm font-semibold">{KEYWORD_TYPE_LABELS[type].label}</h4>
+                    <p className="text-xs text-gray-500">{KEYWORD_TYPE_LABELS[type].description}</p>
+                  </div>
+                  <Badge variant="secondary" className="text-xs">{group.filter(item => item.status === 'accepted').length}/{group.length}</Badge>
+                </div>
+                <ul className="space-y-2">{group.map(renderKeyword)}</ul>
+              </section>
+            );
+          })}
+        </div>
+
+        <SheetFooter className="border-t pt-4 sm:items-center sm:justify-between">
+          <p className="text-sm text-gray-600">{approved.length} keyword{approved.length !== 1 ? 's' : ''} will be saved{pendingCount > 0 ? `, ${pendingCount} still undecided` : ''}</p>
+          <Button onClick={() => saveMutation.mutate()} disabled={approved.length === 0 || saveMutation.isPending}>
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {confirmLabel}
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -5,9 +5,10 @@ interface ProgressIndicatorProps {
   progress: number;
   phase: string;
   keywordsFound?: number;
+  onReviewKeywords?: () => void;
 }
 
-export function ProgressIndicator({ progress, phase, keywordsFound = 0 }: ProgressIndicatorProps) {
+export function ProgressIndicator({ progress, phase, keywordsFound = 0, onReviewKeywords }: ProgressIndicatorProps) {
   const phases = [
     { key: 'introduction', label: 'Introduction', threshold: 0 },
     { key: 'deep_discovery', label: 'Deep Discovery', threshold: 25 },
@@ -22,11 +23,15 @@ export function ProgressIndicator({ progress, phase, keywordsFound = 0 }: Progre
       <div className="flex justify-between items-center mb-2">
         <h3 className="text-sm font-medium">Profile Setup Progress</h3>
         <div className="flex items-center gap-3 text-sm">
-          {keywordsFound > 0 && (
+          {keywordsFound > 0 && (onReviewKeywords ? (
+            <button type="button" onClick={onReviewKeywords} className="text-primary font-medium hover:underline">
+              {keywordsFound} keywords found · Review
+            </button>
+          ) : (
             <span className="text-primary font-medium">
               {keywordsFound} keywords found
             </span>
-          )}
+          ))}
           <span className="text-muted-foreground">{Math.round(progress)}%</span>
         </div>
       </div>
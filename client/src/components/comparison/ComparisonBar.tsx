@@ -0,0 +1,46 @@
+import { Columns, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { MAX_COMPARISON_ITEMS, MIN_COMPARISON_ITEMS, type ComparisonItem } from '@/lib/podcastComparison';
+
+interface ComparisonBarProps {
+  items: ComparisonItem[];
+  onRemove: (item: ComparisonItem) => void;
+  onCompare: () => void;
+  onClear: () => void;
+}
+
+// Sticks to the bottom of the page while anything is picked for comparison
+export function ComparisonBar({ items, onRemove, onCompare, onClear }: ComparisonBarProps) {
+  if (items.length === 0) return null;
+  return (
+    <div className="fixed bottom-4 left-1/2 z-40 flex w-[calc(100%-2rem)] max-w-3xl -translate-x-1/2 items-center gap-3 rounded-lg border bg-white p-3 shadow-lg">
+      <div className="flex flex-1 flex-wrap items-center gap-1.5">
+        <span className="text-sm font-medium text-gray-700">Compare ({items.length}/{MAX_COMPARISON_ITEMS}):</span>
+        {items.map(item => (
+          <Badge key={item.media_id} variant="secondary" className="gap-1 text-xs">
+            {item.media_name || `Media ID: ${item.media_id}`}
+            <button type="button" onClick={() => onRemove(item)} aria-label="Remove from comparison">
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+      </div>
+      <Button variant="ghost" size="sm" onClick={onClear}>Clear</Button>
+      <Button size="sm" onClick={onCompare} disabled={items.length < MIN_COMPARISON_ITEMS}>
+        <Columns className="mr-1.5 h-4 w-4" />
+        Compare
+      </Button>
+    </div>
+  );
+}
+
+export function CompareToggle({ id, checked, onCheckedChange }: { id: string; checked: boolean; onCheckedChange: () => void }) {
+  return (
+    <label htmlFor={id} className="inline-flex cursor-pointer items-center gap-1.5 text-xs text-gray-600">
+      <Checkbox id={id} checked={checked} onCheckedChange={onCheckedChange} />
+      Compare
+    </label>
+  );
+}
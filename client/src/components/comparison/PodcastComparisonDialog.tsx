@@ -0,0 +1,172 @@
+import { useQueries, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import { ExternalLink, Loader2, ThumbsDown, ThumbsUp, Trophy } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import {
+  COMPARISON_ROWS, canDecideComparisonItem, decideComparisonItem, getBestColumns,
+  type ComparisonDecision, type ComparisonItem,
+} from '@/lib/podcastComparison';
+import type { Media } from '@/types/media';
+
+interface PodcastComparisonDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  items: ComparisonItem[];
+  allowDecisions?: boolean; // Off where the viewer can't approve, e.g. a client's discovery previews
+  onItemDecided?: (item: ComparisonItem, decision: ComparisonDecision) => void;
+}
+
+export function PodcastComparisonDialog({ open, onOpenChange, items, allowDecisions = true, onItemDecided }: PodcastComparisonDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Same key as MediaDetail, so shows opened there (or compared before) come straight from cache
+  const mediaQueries = useQueries({
+    queries: items.map(item => ({
+      queryKey: ['/media/', item.media_id],
+      queryFn: async (): Promise<Media> => {
+        const response = await apiRequest('GET', `/media/${item.media_id}`);
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({ detail: 'Failed to fetch media details' }));
+          throw new Error(errorData.detail || 'Failed to fetch media details');
+        }
+        return response.json();
+      },
+      enabled: open,
+    })),
+  });
+
+  const decisionMutation = useMutation({
+    mutationFn: async ({ item, decision }: { item: ComparisonItem; decision: ComparisonDecision }) => {
+      await decideComparisonItem(item, decision, `${decision === 'approved' ? 'Approved' : 'Rejected'} from podcast comparison`);
+      return { item, decision };
+    },
+    onSuccess: ({ item, decision }) => {
+      queryClient.invalidateQueries({ queryKey: ['/review-tasks/enhanced'] });
+      queryClient.invalidateQueries({ queryKey: ['/review-tasks/'] });
+      if (item.campaign_id) queryClient.invalidateQueries({ queryKey: ['campaignMatchesDetail', item.campaign_id] });
+      toast({ title: decision === 'approved' ? 'Match Approved' : 'Match Rejected', description: item.media_name || `Media ID: ${item.media_id}` });
+      onItemDecided?.(item, decision);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Action Failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const medias = mediaQueries.map(query => query.data);
+  const columnTemplate = { gridTemplateColumns: `minmax(140px, 180px) repeat(${items.length}, minmax(180px, 1fr))` };
+  let previousGroup = '';
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Compare Podcasts</DialogTitle>
+          <DialogDescription>
+            The strongest value in each row is highlighted. Approve or reject right from the column.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-x-auto">
+          <div className="grid min-w-max text-sm" style={columnTemplate}>
+            <div />
+            {items.map((item, index) => {
+              const media = medias[index];
+              return (
+                <div key={item.media_id} className="border-b p-3 text-center">
+                  {mediaQueries[index].isLoading ? (
+                    <Skeleton className="mx-auto h-16 w-16 rounded-md" />
+                  ) : media?.image_url ? (
+                    <img src={media.image_url} alt={media.name || ''} className="mx-auto h-16 w-16 rounded-md object-cover" />
+                  ) : (
+                    <div className="mx-auto h-16 w-16 rounded-md bg-gray-100" />
+                  )}
+                  <p className="mt-2 font-semibold leading-tight">{media?.name || item.media_name || `Media ID: ${item.media_id}`}</p>
+                  {item.status && <Badge variant="outline" className="mt-1 text-xs capitalize">{item.status.replace(/_/g, ' ')}</Badge>}
+                  {mediaQueries[index].isError && <p className="mt-1 text-xs text-red-600">{(mediaQueries[index].error as Error).message}</p>}
+                </div>
+              );
+            })}
+
+            {COMPARISON_ROWS.map(row => {
+              const best = getBestColumns(items.map((item, index) => row.value(medias[index], item)));
+              const showGroup = row.group !== previousGroup;
+              previousGroup = row.group;
+              return [
+                showGroup && (
+                  <div key={`${row.group}-heading`} className="col-span-full bg-gray-50 px-3 py-1.5 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                    {row.group}
+                  </div>
+                ),
+                <div key={`${row.key}-label`} className="border-b px-3 py-2 text-gray-600">{row.label}</div>,
+                ...items.map((item, index) => {
+                  const formatted = row.format(medias[index], item);
+                  const isBest = best.has(index);
+                  return (
+                    <div key={`${row.key}-${item.media_id}`} className={cn('border-b px-3 py-2 text-center', isBest && 'bg-green-50 font-semibold text-green-800')}>
+                      {mediaQueries[index].isLoading && row.group !== 'Match' ? (
+                        <Skeleton className="mx-auto h-4 w-16" />
+                      ) : Array.isArray(formatted) ? (
+                        <div className="flex flex-wrap justify-center gap-1">
+                          {formatted.map(value => <Badge key={value} variant="secondary" className="text-xs font-normal">{value}</Badge>)}
+                        </div>
+                      ) : (
+                        <span className="inline-flex items-center gap-1">
+                          {isBest && <Trophy className="h-3.5 w-3.5" />}
+                          {formatted}
+                        </span>
+                      )}
+                    </div>
+                  );
+                }),
+              ];
+            })}
+
+            <div />
+            {items.map(item => {
+              const isPending = decisionMutation.isPending && decisionMutation.variables?.item.media_id === item.media_id;
+              return (
+                <div key={`${item.media_id}-actions`} className="space-y-2 p-3">
+                  {allowDecisions && canDecideComparisonItem(item) && (
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        className="flex-1 bg-green-500 text-white hover:bg-green-600"
+                        disabled={decisionMutation.isPending}
+                        onClick={() => decisionMutation.mutate({ item, decision: 'approved' })}
+                      >
+                        {isPending && decisionMutation.variables?.decision === 'approved' ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <ThumbsUp className="mr-1 h-4 w-4" />}
+                        Approve
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="flex-1 border-red-300 text-red-600 hover:bg-red-50 hover:text-red-700"
+                        disabled={decisionMutation.isPending}
+                        onClick={() => decisionMutation.mutate({ item, decision: 'rejected' })}
+                      >
+                        {isPending && decisionMutation.variables?.decision === 'rejected' ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <ThumbsDown className="mr-1 h-4 w-4" />}
+                        Reject
+                      </Button>
+                    </div>
+                  )}
+                  <Link href={`/media/${item.media_id}`}>
+                    <Button size="sm" variant="ghost" className="w-full text-xs">
+                      View Podcast Details <ExternalLink className="ml-1 h-3 w-3" />
+                    </Button>
+                  </Link>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
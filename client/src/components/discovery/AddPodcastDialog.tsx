@@ -0,0 +1,193 @@
+import { useState, type ChangeEvent } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, CheckCircle, FileSpreadsheet, Link2, Loader2, Plus, XCircle } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  INTAKE_IDENTIFIER_LABELS, MAX_INTAKE_ITEMS, PODCAST_SOURCE_LABELS, parsePodcastCsv, parsePodcastLinks, type ParsedIntake,
+} from '@/lib/podcastIntake';
+import type { PodcastIntakeRequest, PodcastIntakeResponse, PodcastIntakeResult } from '@/types/podcastIntake';
+
+interface AddPodcastDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  campaignId: string;
+  campaignName?: string;
+  onPipelineStarted?: (response: PodcastIntakeResponse) => void;
+}
+
+const EMPTY_PARSE: ParsedIntake = { items: [], invalid: [], duplicates: 0 };
+
+function describeResult(result: PodcastIntakeResult) {
+  if (result.status === 'failed') return result.error || 'Could not be resolved';
+  const media = result.status === 'created' ? 'New podcast' : `Already in the database (${result.matched_on ? INTAKE_IDENTIFIER_LABELS[result.matched_on] : 'existing record'})`;
+  return result.match_already_existed ? `${media}; already suggested for this campaign` : media;
+}
+
+// Staff path for "get me on this show": resolves links into media records, then runs them through enrichment and vetting
+export function AddPodcastDialog({ open, onOpenChange, campaignId, campaignName, onPipelineStarted }: AddPodcastDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [mode, setMode] = useState<'links' | 'csv'>('links');
+  const [linksText, setLinksText] = useState('');
+  const [csvParse, setCsvParse] = useState<ParsedIntake>(EMPTY_PARSE);
+  const [csvFileName, setCsvFileName] = useState<string | null>(null);
+  const [response, setResponse] = useState<PodcastIntakeResponse | null>(null);
+
+  const parsed = mode === 'links' ? parsePodcastLinks(linksText) : csvParse;
+  const isOverLimit = parsed.items.length > MAX_INTAKE_ITEMS;
+
+  const reset = () => {
+    setLinksText('');
+    setCsvParse(EMPTY_PARSE);
+    setCsvFileName(null);
+    setResponse(null);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleCsvFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setCsvFileName(file.name);
+    setCsvParse(parsePodcastCsv(await file.text()));
+  };
+
+  const intakeMutation = useMutation({
+    mutationFn: async (payload: PodcastIntakeRequest): Promise<PodcastIntakeResponse> => {
+      const res = await apiRequest('POST', `/match-suggestions/campaigns/${campaignId}/intake`, payload);
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({ detail: 'Failed to add podcasts' }));
+        throw new Error(errorData.detail || 'Failed to add podcasts');
+      }
+      return res.json();
+    },
+    onSuccess: (data) => {
+      setResponse(data);
+      queryClient.invalidateQueries({ queryKey: ['campaignMatchesDetail', campaignId] });
+      queryClient.invalidateQueries({ queryKey: [`/match-suggestions/campaigns/${campaignId}/discoveries/status`] });
+      toast({
+        title: 'Podcasts Added',
+        description: `${data.created} new, ${data.existing} already known${data.failed ? `, ${data.failed} failed` : ''}.`,
+      });
+      if (data.pipeline_started) onPipelineStarted?.(data);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Intake Failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Add Podcasts{campaignName ? ` for ${campaignName}` : ''}</DialogTitle>
+          <DialogDescription>
+            Paste RSS feeds, Apple Podcasts or Spotify show links, or upload a CSV. Podcasts we already have are reused rather than duplicated.
+          </DialogDescription>
+        </DialogHeader>
+
+        {response ? (
+          <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-3 text-center">
+              <div><div className="text-2xl font-bold text-green-600">{response.created}</div><div className="text-xs text-gray-600">New podcasts</div></div>
+              <div><div className="text-2xl font-bold text-blue-600">{response.existing}</div><div className="text-xs text-gray-600">Already known</div></div>
+              <div><div className="text-2xl font-bold text-red-600">{response.failed}</div><div className="text-xs text-gray-600">Failed</div></div>
+            </div>
+            <div className="max-h-72 overflow-y-auto space-y-1">
+              {response.results.map((result, index) => (
+                <div key={`${result.url}-${index}`} className="flex items-start gap-2 rounded border bg-white p-2 text-xs">
+                  {result.status === 'failed'
+                    ? <XCircle className="h-4 w-4 flex-shrink-0 text-red-500" />
+                    : <CheckCircle className="h-4 w-4 flex-shrink-0 text-green-500" />}
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium text-gray-900 truncate">{result.media_name || result.url}</p>
+                    <p className={result.status === 'failed' ? 'text-red-700' : 'text-gray-500'}>{describeResult(result)}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+            {response.pipeline_started && (
+              <p className="text-xs text-gray-500">Enrichment and vetting are running; follow along in the Discovery Pipeline Status panel.</p>
+            )}
+          </div>
+        ) : (
+          <Tabs value={mode} onValueChange={(value) => setMode(value as typeof mode)}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="links"><Link2 className="mr-1.5 h-4 w-4" />Paste Links</TabsTrigger>
+              <TabsTrigger value="csv"><FileSpreadsheet className="mr-1.5 h-4 w-4" />Upload CSV</TabsTrigger>
+            </TabsList>
+            <TabsContent value="links" className="space-y-1">
+              <Label htmlFor="intake-links">One link per line</Label>
+              <Textarea
+                id="intake-links"
+                rows={6}
+                placeholder={'https://podcasts.apple.com/us/podcast/example/id123456789\nhttps://open.spotify.com/show/4rOoJ6Egrf8K2IrywzwOMk\nhttps://feeds.example.com/podcast.xml'}
+                value={linksText}
+                onChange={(e) => setLinksText(e.target.value)}
+              />
+            </TabsContent>
+            <TabsContent value="csv" className="space-y-1">
+              <Label htmlFor="intake-csv">CSV file</Label>
+              <Input id="intake-csv" type="file" accept=".csv,text/csv" onChange={handleCsvFile} />
+              <p className="text-xs text-gray-500">
+                Use a <code>url</code>, <code>rss_url</code>, <code>apple_url</code> or <code>spotify_url</code> column; other columns are ignored.
+                {csvFileName && <> Read from <span className="font-medium">{csvFileName}</span>.</>}
+              </p>
+            </TabsContent>
+
+            {(parsed.items.length > 0 || parsed.invalid.length > 0) && (
+              <div className="mt-3 space-y-2">
+                <div className="flex flex-wrap items-center gap-1.5 text-xs">
+                  <span className="font-medium text-gray-700">{parsed.items.length} podcast{parsed.items.length === 1 ? '' : 's'} ready</span>
+                  {(['apple', 'spotify', 'rss'] as const).map(type => {
+                    const count = parsed.items.filter(item => item.source_type === type).length;
+                    return count > 0 && <Badge key={type} variant="secondary" className="text-xs">{PODCAST_SOURCE_LABELS[type]}: {count}</Badge>;
+                  })}
+                  {parsed.duplicates > 0 && <Badge variant="outline" className="text-xs">{parsed.duplicates} repeated, skipped</Badge>}
+                </div>
+                {parsed.invalid.length > 0 && (
+                  <div className="rounded border border-yellow-200 bg-yellow-50 p-2 text-xs text-yellow-800">
+                    <p className="flex items-center gap-1 font-medium"><AlertTriangle className="h-3.5 w-3.5" />Not recognised as a podcast link ({parsed.invalid.length}):</p>
+                    <p className="mt-0.5 break-all">{parsed.invalid.slice(0, 5).join(', ')}{parsed.invalid.length > 5 ? ', …' : ''}</p>
+                  </div>
+                )}
+                {isOverLimit && <p className="text-xs text-red-600">Add at most {MAX_INTAKE_ITEMS} podcasts at a time.</p>}
+              </div>
+            )}
+          </Tabs>
+        )}
+
+        <DialogFooter>
+          {response ? (
+            <>
+              <Button variant="outline" onClick={reset}>Add More</Button>
+              <Button onClick={() => handleOpenChange(false)}>Done</Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>Cancel</Button>
+              <Button
+                onClick={() => intakeMutation.mutate({ podcasts: parsed.items })}
+                disabled={parsed.items.length === 0 || isOverLimit || intakeMutation.isPending}
+              >
+                {intakeMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+                Add {parsed.items.length || ''} Podcast{parsed.items.length === 1 ? '' : 's'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
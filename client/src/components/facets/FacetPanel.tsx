@@ -0,0 +1,228 @@
+import { useEffect, useState, type KeyboardEvent } from 'react';
+import { ChevronDown, Link2, SlidersHorizontal, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import {
+  AUDIENCE_BUCKETS, FACET_SORT_LABELS, POSTED_WITHIN_OPTIONS, SCORE_RANGE, countActiveFacets, orderScoreRange,
+  type FacetCount, type FacetCounts, type FacetFilters, type FacetSort,
+} from '@/lib/reviewFacets';
+
+interface FacetPanelProps {
+  filters: FacetFilters;
+  counts: FacetCounts;
+  onChange: (changes: Partial<FacetFilters>) => void;
+  onClear: () => void;
+  shareUrl: string;
+  sortOptions: FacetSort[];
+  totalCount: number;
+}
+
+const VISIBLE_KEYWORD_CHIPS = 12;
+
+const toggleValue = <T,>(values: T[], value: T) => (values.includes(value) ? values.filter(item => item !== value) : [...values, value]);
+
+function MultiSelectFacet({ label, options, selected, onChange }: {
+  label: string;
+  options: FacetCount[];
+  selected: string[];
+  onChange: (values: string[]) => void;
+}) {
+  // Keep chosen values listed even when the other facets have narrowed their count to zero
+  const missing = selected.filter(value => !options.some(option => option.value === value)).map(value => ({ value, count: 0 }));
+  const allOptions = [...options, ...missing];
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs text-gray-600">{label}</Label>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="w-full justify-between text-xs font-normal">
+            <span className="truncate">{selected.length ? selected.join(', ') : `Any ${label.toLowerCase()}`}</span>
+            <ChevronDown className="ml-1 h-3.5 w-3.5 flex-shrink-0 opacity-60" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 p-2" align="start">
+          {allOptions.length === 0 ? (
+            <p className="p-2 text-xs text-gray-500">No {label.toLowerCase()} data on these podcasts.</p>
+          ) : (
+            <div className="max-h-64 space-y-0.5 overflow-y-auto">
+              {allOptions.map(option => (
+                <label key={option.value} className="flex cursor-pointer items-center gap-2 rounded px-2 py-1.5 text-sm hover:bg-gray-50">
+                  <Checkbox checked={selected.includes(option.value)} onCheckedChange={() => onChange(toggleValue(selected, option.value))} />
+                  <span className="flex-1 truncate">{option.value}</span>
+                  <span className="text-xs text-gray-400">{option.count}</span>
+                </label>
+              ))}
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
+
+// Typing goes into local drafts and only reaches the filters on blur or Enter, so "75" doesn't briefly filter on "7"
+function ScoreRangeFacet({ scoreMin, scoreMax, onChange }: {
+  scoreMin: number;
+  scoreMax: number;
+  onChange: (changes: Pick<FacetFilters, 'scoreMin' | 'scoreMax'>) => void;
+}) {
+  const [minDraft, setMinDraft] = useState(String(scoreMin));
+  const [maxDraft, setMaxDraft] = useState(String(scoreMax));
+
+  useEffect(() => {
+    setMinDraft(String(scoreMin));
+    setMaxDraft(String(scoreMax));
+  }, [scoreMin, scoreMax]);
+
+  const parseScore = (raw: string, fallback: number) => {
+    const value = raw.trim() === '' ? fallback : Number(raw);
+    return Number.isFinite(value) ? Math.min(SCORE_RANGE.max, Math.max(SCORE_RANGE.min, value)) : fallback;
+  };
+
+  const commit = () => {
+    const next = orderScoreRange(parseScore(minDraft, SCORE_RANGE.min), parseScore(maxDraft, SCORE_RANGE.max));
+    setMinDraft(String(next.scoreMin));
+    setMaxDraft(String(next.scoreMax));
+    if (next.scoreMin !== scoreMin || next.scoreMax !== scoreMax) onChange(next);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') commit();
+  };
+
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs text-gray-600">Vetting score</Label>
+      <div className="flex items-center gap-1.5">
+        <Input
+          type="number" min={SCORE_RANGE.min} max={SCORE_RANGE.max} aria-label="Minimum vetting score"
+          className="h-8 text-xs" value={minDraft} onChange={(e) => setMinDraft(e.target.value)} onBlur={commit} onKeyDown={handleKeyDown}
+        />
+        <span className="text-xs text-gray-400">to</span>
+        <Input
+          type="number" min={SCORE_RANGE.min} max={SCORE_RANGE.max} aria-label="Maximum vetting score"
+          className="h-8 text-xs" value={maxDraft} onChange={(e) => setMaxDraft(e.target.value)} onBlur={commit} onKeyDown={handleKeyDown}
+        />
+      </div>
+    </div>
+  );
+}
+
+// Facets for a match review queue; state is owned by the caller (see useFacetFilters) so it can live in the URL
+export function FacetPanel({ filters, counts, onChange, onClear, shareUrl, sortOptions, totalCount }: FacetPanelProps) {
+  const { toast } = useToast();
+  const [showAllKeywords, setShowAllKeywords] = useState(false);
+  const activeCount = countActiveFacets(filters);
+  const keywordChips = showAllKeywords ? counts.keywords : counts.keywords.slice(0, VISIBLE_KEYWORD_CHIPS);
+  const hiddenSelectedKeywords = filters.keywords.filter(keyword => !keywordChips.some(chip => chip.value === keyword));
+
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(shareUrl);
+    toast({ title: 'Link copied', description: 'Anyone with access to this queue will see the same filters.' });
+  };
+
+  return (
+    <div className="mb-4 space-y-3 rounded-lg border bg-gray-50/60 p-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <SlidersHorizontal className="h-4 w-4" />
+          Filters
+          {activeCount > 0 && <Badge variant="secondary" className="text-xs">{activeCount} active</Badge>}
+          <span className="text-xs font-normal text-gray-500">{counts.matching} of {totalCount} shown</span>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={filters.sort} onValueChange={(value) => onChange({ sort: value as FacetSort })}>
+            <SelectTrigger className="h-8 w-[200px] text-xs">
+              <SelectValue placeholder="Sort" />
+            </SelectTrigger>
+            <SelectContent>
+              {sortOptions.map(option => <SelectItem key={option} value={option}>{FACET_SORT_LABELS[option]}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" className="h-8 text-xs" onClick={handleCopyLink}>
+            <Link2 className="mr-1 h-3.5 w-3.5" />Copy Link
+          </Button>
+          {activeCount > 0 && (
+            <Button variant="ghost" size="sm" className="h-8 text-xs" onClick={onClear}>
+              <X className="mr-1 h-3.5 w-3.5" />Clear
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+        <ScoreRangeFacet scoreMin={filters.scoreMin} scoreMax={filters.scoreMax} onChange={onChange} />
+        <MultiSelectFacet label="Category" options={counts.categories} selected={filters.categories} onChange={(categories) => onChange({ categories })} />
+        <MultiSelectFacet label="Language" options={counts.languages} selected={filters.languages} onChange={(languages) => onChange({ languages })} />
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-600">Last episode</Label>
+          <Select
+            value={filters.postedWithinDays ? String(filters.postedWithinDays) : 'any'}
+            onValueChange={(value) => onChange({ postedWithinDays: value === 'any' ? null : Number(value) })}
+          >
+            <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any time</SelectItem>
+              {POSTED_WITHIN_OPTIONS.map(days => (
+                <SelectItem key={days} value={String(days)}>Within {days} days ({counts.postedWithin[days] ?? 0})</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs text-gray-600">Audience size</Label>
+        <div className="flex flex-wrap gap-1.5">
+          {AUDIENCE_BUCKETS.map(bucket => {
+            const isActive = filters.audience.includes(bucket.value);
+            return (
+              <Button
+                key={bucket.value}
+                variant={isActive ? 'default' : 'outline'}
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => onChange({ audience: toggleValue(filters.audience, bucket.value) })}
+              >
+                {bucket.label} <span className={cn('ml-1', isActive ? 'opacity-80' : 'text-gray-400')}>{counts.audience[bucket.value]}</span>
+              </Button>
+            );
+          })}
+        </div>
+      </div>
+
+      {(counts.keywords.length > 0 || filters.keywords.length > 0) && (
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-600">Keywords</Label>
+          <div className="flex flex-wrap gap-1.5">
+            {[...keywordChips, ...hiddenSelectedKeywords.map(value => ({ value, count: 0 }))].map(chip => {
+              const isActive = filters.keywords.includes(chip.value);
+              return (
+                <Badge
+                  key={chip.value}
+                  variant={isActive ? 'default' : 'outline'}
+                  className="cursor-pointer text-xs font-normal"
+                  onClick={() => onChange({ keywords: toggleValue(filters.keywords, chip.value) })}
+                >
+                  {chip.value} <span className={cn('ml-1', isActive ? 'opacity-80' : 'text-gray-400')}>{chip.count}</span>
+                </Badge>
+              );
+            })}
+            {counts.keywords.length > VISIBLE_KEYWORD_CHIPS && (
+              <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => setShowAllKeywords(prev => !prev)}>
+                {showAllKeywords ? 'Show fewer' : `+${counts.keywords.length - VISIBLE_KEYWORD_CHIPS} more`}
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Plus, Trash2, Wand2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { CLASSIFICATION_OPTIONS, describeRule } from '@/lib/inboxRules';
+import type { InboxLabelRule } from '@/types/inbox';
+
+interface LabelRulesDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type RuleDraft = Omit<InboxLabelRule, 'id'>;
+
+const EMPTY_RULE: RuleDraft = {
+  name: '',
+  enabled: true,
+  conditions: { classification: 'booking_confirmation', min_confidence: 0.8 },
+  actions: { add_labels: [], star: false },
+};
+
+export default function LabelRulesDialog({ isOpen, onClose }: LabelRulesDialogProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const [labelsInput, setLabelsInput] = useState('');
+
+  const { data: rules = [] } = useQuery<InboxLabelRule[]>({
+    queryKey: ['/inbox/label-rules'],
+    enabled: isOpen,
+  });
+
+  const onError = (error: Error) => toast({ title: 'Rule not saved', description: error.message, variant: 'destructive' });
+
+  const createRuleMutation = useMutation({
+    mutationFn: async (rule: RuleDraft) => {
+      const res = await apiRequest('POST', '/inbox/label-rules', rule);
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({ detail: 'Failed to create rule' }));
+        throw new Error(errorData.detail || 'Failed to create rule');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/inbox/label-rules'] });
+      setDraft(null);
+      setLabelsInput('');
+    },
+    onError,
+  });
+
+  const updateRuleMutation = useMutation({
+    mutationFn: async (rule: InboxLabelRule) => {
+      const res = await apiRequest('PUT', `/inbox/label-rules/${rule.id}`, rule);
+      if (!res.ok) throw new Error('Failed to update rule');
+      return res.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/inbox/label-rules'] }),
+    onError,
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (ruleId: string) => {
+      const res = await apiRequest('DELETE', `/inbox/label-rules/${ruleId}`);
+      if (!res.ok) throw new Error('Failed to delete rule');
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/inbox/label-rules'] }),
+    onError,
+  });
+
+  const handleCreate = () => {
+    if (!draft) return;
+    const labels = labelsInput.split(',').map(label => label.trim()).filter(Boolean);
+    if (labels.length === 0 && !draft.actions.star) {
+      toast({ title: 'Add an action', description: 'A rule needs at least one label or the star action.', variant: 'destructive' });
+      return;
+    }
+    const rule = { ...draft, actions: { ...draft.actions, add_labels: labels } };
+    createRuleMutation.mutate({ ...rule, name: rule.name.trim() || describeRule({ ...rule, id: '' }) });
+  };
+
+  const updateConditions = (patch: Partial<RuleDraft['conditions']>) =>
+    setDraft(prev => prev && { ...prev, conditions: { ...prev.conditions, ...patch } });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2"><Wand2 className="w-5 h-5" />Auto-labelling rules</DialogTitle>
+          <DialogDescription>Rules run on threads as your inbox loads, using each thread's AI classification.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {rules.length === 0 && !draft && (
+            <p className="text-sm text-gray-500 py-4 text-center">No rules yet.</p>
+          )}
+          {rules.map(rule => (
+            <div key={rule.id} className="flex items-center gap-3 rounded-lg border p-3">
+              <Switch
+                checked={rule.enabled}
+                onCheckedChange={(enabled) => updateRuleMutation.mutate({ ...rule, enabled })}
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{rule.name}</p>
+                <p className="text-xs text-gray-500">{describeRule(rule)}</p>
+              </div>
+              {rule.actions.add_labels?.map(label => <Badge key={label} variant="secondary">{label}</Badge>)}
+              <Button variant="ghost" size="sm" onClick={() => deleteRuleMutation.mutate(rule.id)}>
+                <Trash2 className="w-4 h-4 text-red-500" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {draft ? (
+          <div className="rounded-lg border p-4 space-y-4 bg-gray-50">
+            <div className="space-y-2">
+              <Label htmlFor="rule-name">Rule name</Label>
+              <Input
+                id="rule-name"
+                placeholder="e.g. Label confirmed bookings"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Classification</Label>
+                <Select
+                  value={draft.conditions.classification || 'any'}
+                  onValueChange={(value) => updateConditions({ classification: value === 'any' ? undefined : value as RuleDraft['conditions']['classification'] })}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any</SelectItem>
+                    {CLASSIFICATION_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-confidence">Confidence above</Label>
+                <Input
+                  id="rule-confidence"
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={draft.conditions.min_confidence ?? ''}
+                  onChange={(e) => updateConditions({ min_confidence: e.target.value === '' ? undefined : Number(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-from">From contains</Label>
+                <Input
+                  id="rule-from"
+                  placeholder="optional"
+                  value={draft.conditions.from_contains || ''}
+                  onChange={(e) => updateConditions({ from_contains: e.target.value || undefined })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-subject">Subject contains</Label>
+                <Input
+                  id="rule-subject"
+                  placeholder="optional"
+                  value={draft.conditions.subject_contains || ''}
+                  onChange={(e) => updateConditions({ subject_contains: e.target.value || undefined })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="rule-labels">Apply labels (comma separated)</Label>
+                <Input id="rule-labels" placeholder="Booked" value={labelsInput} onChange={(e) => setLabelsInput(e.target.value)} />
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Switch
+                  id="rule-star"
+                  checked={!!draft.actions.star}
+                  onCheckedChange={(star) => setDraft({ ...draft, actions: { ...draft.actions, star } })}
+                />
+                <Label htmlFor="rule-star">Star the thread</Label>
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => { setDraft(null); setLabelsInput(''); }}>Cancel</Button>
+              <Button onClick={handleCreate} disabled={createRuleMutation.isPending}>Add rule</Button>
+            </div>
+          </div>
+        ) : (
+          <Button variant="outline" onClick={() => setDraft(EMPTY_RULE)}>
+            <Plus className="w-4 h-4 mr-2" />
+            New rule
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
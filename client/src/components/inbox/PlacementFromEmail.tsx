@@ -0,0 +1,218 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { CalendarCheck, Link2, RefreshCw, XCircle } from 'lucide-react';
+import { Link } from 'wouter';
+import { useToast } from '@/hooks/use-toast';
+import { extractEmailDates, htmlToText } from '@/lib/emailDates';
+import { getStatusConfig } from '@/lib/placementStatus';
+import type { EmailThread } from '@/types/inbox';
+
+interface LinkedPitch { // GET /pitches/?nylas_thread_id=
+  pitch_id: number;
+  campaign_id: string;
+  media_id: number;
+  media_name?: string | null;
+  campaign_name?: string | null;
+}
+
+interface LinkedPlacement {
+  placement_id: number;
+  campaign_id: string;
+  media_id: number;
+  pitch_id?: number | null;
+  current_status?: string | null;
+  recording_date?: string | null;
+  notes?: string | null;
+}
+
+interface PlacementFromEmailProps {
+  thread: EmailThread;
+}
+
+// Turns a booking confirmation or rejection into a placement update for the pitch this thread belongs to
+export default function PlacementFromEmail({ thread }: PlacementFromEmailProps) {
+  const { toast } = useToast();
+  const category = thread.classification?.category;
+  const isBooking = category === 'booking_confirmation';
+  const isPlacementEmail = isBooking || category === 'rejection';
+
+  // Sent pitches record the Nylas thread they went out in, which is the same id the inbox uses
+  const { data: pitches = [], isLoading: isLoadingPitch } = useQuery<LinkedPitch[]>({
+    queryKey: ['/pitches/', { nylas_thread_id: thread.id }],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/pitches/?nylas_thread_id=${encodeURIComponent(thread.id)}`);
+      if (!res.ok) throw new Error('Failed to look up pitch for thread');
+      return res.json();
+    },
+    enabled: isPlacementEmail,
+  });
+  const pitch = pitches[0];
+
+  const { data: placement, isLoading: isLoadingPlacement } = useQuery<LinkedPlacement | null>({
+    queryKey: ['/placements/', { campaign_id: pitch?.campaign_id, media_id: pitch?.media_id }],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/placements/?campaign_id=${pitch!.campaign_id}`);
+      if (!res.ok) throw new Error('Failed to fetch placements');
+      const data: { items: LinkedPlacement[] } = await res.json();
+      return data.items.find(p => p.pitch_id === pitch!.pitch_id)
+        || data.items.find(p => p.media_id === pitch!.media_id)
+        || null;
+    },
+    enabled: !!pitch,
+  });
+
+  const parsedDates = useMemo(() => {
+    const latest = thread.messages?.[thread.messages.length - 1];
+    if (!latest) return [];
+    return extractEmailDates(`${latest.subject} ${htmlToText(latest.body)}`, new Date(latest.date));
+  }, [thread.messages]);
+
+  const [recordingDate, setRecordingDate] = useState('');
+  useEffect(() => {
+    setRecordingDate(placement?.recording_date?.slice(0, 10) || parsedDates[0]?.dateKey || '');
+  }, [parsedDates, placement?.recording_date]);
+
+  const savePlacementMutation = useMutation({
+    mutationFn: async (status: 'recording_booked' | 'rejected') => {
+      const selected = parsedDates.find(d => d.dateKey === recordingDate);
+      const note = status === 'recording_booked'
+        ? `Recording booked via email "${thread.subject}"${selected?.time ? ` (time mentioned: ${selected.time})` : ''}.`
+        : `Rejected via email "${thread.subject}".`;
+      const payload: Record<string, unknown> = { current_status: status };
+      if (status === 'recording_booked') payload.recording_date = recordingDate || null;
+
+      const res = placement
+        ? await apiRequest('PUT', `/placements/${placement.placement_id}`, {
+            ...payload,
+            notes: [placement.notes, note].filter(Boolean).join('\n'),
+          })
+        : await apiRequest('POST', '/placements/', {
+            ...payload,
+            campaign_id: pitch!.campaign_id,
+            media_id: pitch!.media_id,
+            pitch_id: pitch!.pitch_id,
+            notes: note,
+          });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({ detail: 'Failed to save placement' }));
+        throw new Error(errorData.detail || 'Failed to save placement');
+      }
+      return res.json();
+    },
+    onSuccess: (_, status) => {
+      toast({
+        title: status === 'rejected' ? 'Placement marked rejected' : placement ? 'Placement advanced' : 'Placement created',
+        description: `${pitch?.media_name || 'Placement'} is now ${getStatusConfig(status).label.toLowerCase()}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/placements/'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not update placement', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (!isPlacementEmail) return null;
+
+  if (isLoadingPitch || (pitch && isLoadingPlacement)) {
+    return (
+      <Card className="p-4 mb-4 flex items-center text-sm text-gray-500">
+        <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+        Looking up the pitch for this thread...
+      </Card>
+    );
+  }
+
+  if (!pitch) {
+    return (
+      <Card className="p-4 mb-4 text-sm text-gray-600 flex items-center gap-2">
+        <Link2 className="w-4 h-4 text-gray-400" />
+        {isBooking ? 'Looks like a booking confirmation' : 'Looks like a rejection'}, but this thread isn't linked to a pitch sent from the app.
+      </Card>
+    );
+  }
+
+  const currentStatus = placement?.current_status;
+  const alreadyDone = isBooking ? currentStatus === 'recording_booked' : currentStatus === 'rejected';
+
+  return (
+    <Card className={`p-4 mb-4 ${isBooking ? 'border-green-200 bg-green-50/50' : 'border-red-200 bg-red-50/50'}`}>
+      <div className="flex items-start justify-between gap-3">
+        <div className="space-y-1">
+          <p className="text-sm font-medium flex items-center gap-2">
+            {isBooking ? <CalendarCheck className="w-4 h-4 text-green-600" /> : <XCircle className="w-4 h-4 text-red-600" />}
+            {isBooking ? 'Booking confirmation' : 'Rejection'} for {pitch.media_name || `media #${pitch.media_id}`}
+          </p>
+          <p className="text-xs text-gray-500">
+            {pitch.campaign_name && <>Campaign: {pitch.campaign_name} · </>}
+            {placement ? (
+              <>Placement <Badge className={`text-[10px] ${getStatusConfig(currentStatus).color}`}>{getStatusConfig(currentStatus).label}</Badge></>
+            ) : 'No placement yet'}
+            {' · '}
+            <Link href="/placement-tracking" className="text-primary hover:underline">View placements</Link>
+          </p>
+        </div>
+      </div>
+
+      {isBooking && !alreadyDone && (
+        <div className="mt-3 flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="placement-recording-date" className="text-xs">Recording date</Label>
+            <Input
+              id="placement-recording-date"
+              type="date"
+              className="h-8 w-44"
+              value={recordingDate}
+              onChange={(e) => setRecordingDate(e.target.value)}
+            />
+          </div>
+          {parsedDates.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {parsedDates.slice(0, 4).map(parsed => (
+                <Button
+                  key={parsed.dateKey}
+                  type="button"
+                  size="sm"
+                  variant={parsed.dateKey === recordingDate ? 'secondary' : 'ghost'}
+                  className="h-7 text-xs"
+                  onClick={() => setRecordingDate(parsed.dateKey)}
+                  title={`Found "${parsed.source}" in the email`}
+                >
+                  {parsed.source}{parsed.time ? ` · ${parsed.time}` : ''}
+                </Button>
+              ))}
+            </div>
+          )}
+          <Button
+            size="sm"
+            className="ml-auto"
+            onClick={() => savePlacementMutation.mutate('recording_booked')}
+            disabled={savePlacementMutation.isPending}
+          >
+            {savePlacementMutation.isPending && <RefreshCw className="w-4 h-4 mr-2 animate-spin" />}
+            {placement ? 'Advance placement' : 'Create placement'}
+          </Button>
+        </div>
+      )}
+
+      {!isBooking && !alreadyDone && (
+        <div className="mt-3 flex justify-end">
+          <Button
+            size="sm"
+            variant="destructive"
+            onClick={() => savePlacementMutation.mutate('rejected')}
+            disabled={savePlacementMutation.isPending}
+          >
+            {savePlacementMutation.isPending && <RefreshCw className="w-4 h-4 mr-2 animate-spin" />}
+            {placement ? 'Mark placement rejected' : 'Record as rejected'}
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { useMutation, useQueries, useQuery } from '@tanstack/react-query';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Bookmark, Plus, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { DATE_RANGE_LABELS, resolveViewFilters } from '@/lib/inboxRules';
+import type { EmailThread, InboxDateRange, InboxFilters, SavedInboxView } from '@/types/inbox';
+
+interface SavedViewsProps {
+  activeViewId: string | null;
+  currentFilters: InboxFilters;
+  onSelectView: (view: SavedInboxView) => void;
+  onDeleteView: (viewId: string) => void;
+}
+
+export default function SavedViews({ activeViewId, currentFilters, onSelectView, onDeleteView }: SavedViewsProps) {
+  const { toast } = useToast();
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [dateRange, setDateRange] = useState<InboxDateRange | 'none'>('none');
+
+  const { data: views = [] } = useQuery<SavedInboxView[]>({
+    queryKey: ['/inbox/views'],
+  });
+
+  // One lightweight unread-only query per view for the rail counts
+  const unreadCounts = useQueries({
+    queries: views.map(view => ({
+      queryKey: ['/inbox/threads', { ...resolveViewFilters(view), unread_only: true }],
+      staleTime: 60 * 1000,
+    })),
+  }).map(result => (Array.isArray(result.data) ? (result.data as EmailThread[]).length : undefined));
+
+  const saveViewMutation = useMutation({
+    mutationFn: async (payload: Omit<SavedInboxView, 'id' | 'created_at'>) => {
+      const res = await apiRequest('POST', '/inbox/views', payload);
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({ detail: 'Failed to save view' }));
+        throw new Error(errorData.detail || 'Failed to save view');
+      }
+      return res.json() as Promise<SavedInboxView>;
+    },
+    onSuccess: (view) => {
+      queryClient.invalidateQueries({ queryKey: ['/inbox/views'] });
+      toast({ title: 'View saved', description: `"${view.name}" was added to your inbox views.` });
+      setIsSaveOpen(false);
+      setName('');
+      setDateRange('none');
+      onSelectView(view);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not save view', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteViewMutation = useMutation({
+    mutationFn: async (viewId: string) => {
+      const res = await apiRequest('DELETE', `/inbox/views/${viewId}`);
+      if (!res.ok) throw new Error('Failed to delete view');
+    },
+    onSuccess: (_, viewId) => {
+      queryClient.invalidateQueries({ queryKey: ['/inbox/views'] });
+      onDeleteView(viewId);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not delete view', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    // Relative ranges are stored instead of fixed dates so "this week" stays current
+    const { search, date_from, date_to, ...filters } = currentFilters;
+    saveViewMutation.mutate({
+      name: name.trim(),
+      filters: dateRange === 'none' ? { ...filters, search, date_from, date_to } : { ...filters, search },
+      date_range: dateRange === 'none' ? undefined : dateRange,
+    });
+  };
+
+  return (
+    <div className="px-4 py-2 border-t">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-xs text-gray-500">Saved views</p>
+        <button
+          onClick={() => setIsSaveOpen(true)}
+          className="text-gray-400 hover:text-gray-700"
+          title="Save current filters as a view"
+        >
+          <Plus className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      <div className="space-y-1">
+        {views.length === 0 && (
+          <p className="px-3 text-xs text-gray-400">Save the current filters to get back to them quickly.</p>
+        )}
+        {views.map((view, index) => (
+          <div
+            key={view.id}
+            className={cn(
+              'group w-full flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm transition-colors',
+              activeViewId === view.id ? 'bg-primary text-primary-foreground' : 'hover:bg-gray-100 text-gray-700'
+            )}
+          >
+            <button onClick={() => onSelectView(view)} className="flex flex-1 items-center gap-2 min-w-0 text-left">
+              <Bookmark className="w-3.5 h-3.5 flex-shrink-0" />
+              <span className="flex-1 truncate">{view.name}</span>
+              {!!unreadCounts[index] && <span className="text-xs">{unreadCounts[index]}</span>}
+            </button>
+            <button
+              onClick={() => deleteViewMutation.mutate(view.id)}
+              className="opacity-0 group-hover:opacity-100 text-current"
+              title="Delete view"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <Dialog open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Save inbox view</DialogTitle>
+            <DialogDescription>Saves the current folder, classification and search filters.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="view-name">Name</Label>
+              <Input
+                id="view-name"
+                placeholder="e.g. Unread pitch responses"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Date range</Label>
+              <Select value={dateRange} onValueChange={(value) => setDateRange(value as InboxDateRange | 'none')}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Any time</SelectItem>
+                  {Object.entries(DATE_RANGE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsSaveOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={!name.trim() || saveViewMutation.isPending}>Save view</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -35,6 +35,7 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import PlacementFromEmail from './PlacementFromEmail';
 
 interface ThreadViewProps {
   threadId: string;
@@ -246,6 +247,7 @@ export default function ThreadView({ threadId, onClose, onReply }: ThreadViewPro
 
       {/* Messages */}
       <ScrollArea className="flex-1 px-6 py-4" ref={scrollAreaRef}>
+        <PlacementFromEmail thread={thread} />
         <div className="space-y-4">
           {thread.messages?.map((message, index) => {
             const isExpanded = expandedMessages.has(message.id);
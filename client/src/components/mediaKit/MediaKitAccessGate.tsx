@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Clock, Link2Off, Loader2, Lock, ShieldX } from 'lucide-react';
+import { unlockMediaKit } from '@/lib/mediaKitAccess';
+import type { MediaKitGateReason } from '@/types/mediaKit';
+
+interface MediaKitAccessGateProps {
+  slug: string;
+  accessToken: string | null;
+  reason: MediaKitGateReason;
+  onUnlocked: () => void;
+}
+
+const GATE_COPY: Record<Exclude<MediaKitGateReason, 'password_required'>, { icon: typeof Lock; title: string; description: string }> = {
+  link_required: {
+    icon: Lock,
+    title: 'This media kit is shared privately',
+    description: 'It can only be opened from a personal share link. Please use the link you were sent, or ask the sender for one.',
+  },
+  invalid_link: {
+    icon: Link2Off,
+    title: 'This link is not valid',
+    description: 'The share link may have been copied incompletely. Please check the link you were sent.',
+  },
+  expired: {
+    icon: Clock,
+    title: 'This link has expired',
+    description: 'Share links for this media kit are time-limited. Ask the sender for a new link.',
+  },
+  revoked: {
+    icon: ShieldX,
+    title: 'This link is no longer active',
+    description: 'Access through this link has been turned off. Ask the sender for a new link if you still need it.',
+  },
+};
+
+export function MediaKitAccessGate({ slug, accessToken, reason, onUnlocked }: MediaKitAccessGateProps) {
+  const [password, setPassword] = useState('');
+
+  const unlockMutation = useMutation({
+    mutationFn: () => unlockMediaKit(slug, accessToken, password),
+    onSuccess: () => {
+      setPassword('');
+      onUnlocked();
+    },
+  });
+
+  const copy = reason === 'password_required' ? null : GATE_COPY[reason];
+  const Icon = copy?.icon ?? Lock;
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md shadow-xl">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-3 flex h-12 w-12 items-center justify-center rounded-full bg-primary/10">
+            <Icon className="h-6 w-6 text-primary" />
+          </div>
+          <CardTitle>{copy ? copy.title : 'This media kit is password protected'}</CardTitle>
+          <CardDescription>{copy ? copy.description : 'Enter the password you were given to view it.'}</CardDescription>
+        </CardHeader>
+        {!copy && (
+          <CardContent>
+            <form
+              className="space-y-3"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (password) unlockMutation.mutate();
+              }}
+            >
+              <Input
+                type="password"
+                autoFocus
+                placeholder="Password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+              {unlockMutation.isError && <p className="text-sm text-red-600">{(unlockMutation.error as Error).message}</p>}
+              <Button type="submit" className="w-full" disabled={!password || unlockMutation.isPending}>
+                {unlockMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                View Media Kit
+              </Button>
+            </form>
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Area, AreaChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { format, formatDistanceStrict, formatDistanceToNow, parseISO } from 'date-fns';
+import { BarChart2, Clock, Eye, Link as LinkIcon, MousePointerClick, Send, Users } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { MediaKitAnalytics, MediaKitAnalyticsVisitor } from '@/types/mediaKit';
+
+interface MediaKitAnalyticsCardProps {
+  mediaKitId: string;
+}
+
+const RANGE_OPTIONS = [7, 30, 90];
+
+const SECTION_LABELS: Record<string, string> = {
+  about: 'About',
+  at_a_glance: 'At-a-Glance',
+  social: 'Social Reach',
+  appearances: 'Previous Appearances',
+  talking_points: 'Talking Points',
+  questions: 'Sample Questions',
+  testimonials: 'Testimonials',
+  cta: 'Call to Action',
+};
+
+const formatSeconds = (seconds: number) => {
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${Math.round(seconds % 60)}s`;
+};
+
+const getReferrerHost = (referrer?: string | null) => {
+  if (!referrer) return null;
+  try {
+    return new URL(referrer).hostname.replace(/^www\./, '');
+  } catch {
+    return referrer;
+  }
+};
+
+function VisitorSource({ visitor }: { visitor: MediaKitAnalyticsVisitor }) {
+  if (visitor.pitch) {
+    const { pitch } = visitor;
+    return (
+      <div className="space-y-0.5">
+        <div className="flex items-center gap-1.5 font-medium text-gray-800">
+          <Send className="h-3.5 w-3.5 text-primary" />
+          {pitch.media_name || `Match #${pitch.match_id}`}
+        </div>
+        {pitch.subject_line && <p className="text-xs text-gray-500 truncate max-w-[260px]" title={pitch.subject_line}>{pitch.subject_line}</p>}
+        {pitch.sent_at && (
+          <p className="text-xs text-gray-500">
+            Opened {formatDistanceStrict(new Date(visitor.first_seen_at), new Date(pitch.sent_at))} after the pitch was sent
+          </p>
+        )}
+      </div>
+    );
+  }
+  const host = getReferrerHost(visitor.referrer);
+  return <span className="text-gray-500">{host ? `Via ${host}` : 'Direct / unknown'}</span>;
+}
+
+export function MediaKitAnalyticsCard({ mediaKitId }: MediaKitAnalyticsCardProps) {
+  const [days, setDays] = useState(30);
+
+  const { data: analytics, isLoading, error } = useQuery<MediaKitAnalytics>({
+    queryKey: ['/media-kits/', mediaKitId, '/analytics', { days }],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/media-kits/${mediaKitId}/analytics?days=${days}`);
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({ detail: 'Failed to load media kit analytics' }));
+        throw new Error(errorData.detail || 'Failed to load media kit analytics');
+      }
+      return res.json();
+    },
+  });
+
+  const totals = analytics?.totals;
+  const chartData = (analytics?.daily || []).map(day => ({ ...day, label: format(parseISO(day.date), 'MMM d') }));
+  const sections = [...(analytics?.sections || [])].sort((a, b) => b.views - a.views);
+  const maxSectionViews = Math.max(1, totals?.views || 0);
+  // Pitched visitors first, then most recent
+  const visitors = [...(analytics?.visitors || [])].sort((a, b) =>
+    Number(!!b.pitch) - Number(!!a.pitch) || new Date(b.last_seen_at).getTime() - new Date(a.last_seen_at).getTime()
+  );
+
+  const stats = totals ? [
+    { label: 'Views', value: totals.views, icon: Eye },
+    { label: 'Unique visitors', value: totals.unique_visitors, icon: Users },
+    { label: 'Avg. time on page', value: formatSeconds(totals.avg_seconds_on_page), icon: Clock },
+    { label: 'CTA clicks', value: totals.cta_clicks, icon: MousePointerClick },
+    { label: 'Appearance link-outs', value: totals.appearance_clicks, icon: LinkIcon },
+    {
+      label: 'Pitched hosts who viewed',
+      value: totals.pitches_sent > 0 ? `${totals.attributed_visitors} / ${totals.pitches_sent}` : totals.attributed_visitors,
+      icon: Send,
+    },
+  ] : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2"><BarChart2 className="h-5 w-5" />Visitor Analytics</CardTitle>
+            <CardDescription>Who opened your public media kit, what they read and whether they clicked through. Visits from signed-in users aren't counted.</CardDescription>
+          </div>
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="w-[140px]"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {RANGE_OPTIONS.map(option => <SelectItem key={option} value={String(option)}>Last {option} days</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-20 w-full" />
+            <Skeleton className="h-56 w-full" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-500">Error loading analytics: {(error as Error).message}</p>
+        ) : !totals || totals.views === 0 ? (
+          <p className="py-8 text-center text-sm text-gray-500">No visits in the last {days} days. Views are recorded once your media kit link is opened.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+              {stats.map(stat => (
+                <div key={stat.label} className="rounded-lg border p-3">
+                  <div className="flex items-center gap-1.5 text-xs text-gray-500"><stat.icon className="h-3.5 w-3.5" />{stat.label}</div>
+                  <div className="mt-1 text-xl font-semibold">{stat.value}</div>
+                </div>
+              ))}
+            </div>
+
+            <div className="h-[220px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="label" fontSize={12} />
+                  <YAxis allowDecimals={false} fontSize={12} />
+                  <Tooltip />
+                  <Area type="monotone" dataKey="views" name="Views" stroke="#3b82f6" fill="#3b82f6" fillOpacity={0.15} />
+                  <Area type="monotone" dataKey="unique_visitors" name="Unique visitors" stroke="#10b981" fill="#10b981" fillOpacity={0.15} />
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+
+            {sections.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold text-gray-700">Section engagement</h4>
+                {sections.map(section => (
+                  <div key={section.section} className="grid grid-cols-[160px_1fr_48px] items-center gap-3 text-sm">
+                    <span className="text-gray-600">{SECTION_LABELS[section.section] || section.section}</span>
+                    <Progress value={(section.views / maxSectionViews) * 100} className="h-2" />
+                    <span className="text-right text-gray-500">{Math.round((section.views / maxSectionViews) * 100)}%</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold text-gray-700">Who viewed</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Source</TableHead>
+                    <TableHead>Last visit</TableHead>
+                    <TableHead className="text-right">Visits</TableHead>
+                    <TableHead className="text-right">Time</TableHead>
+                    <TableHead>Activity</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visitors.map(visitor => (
+                    <TableRow key={visitor.visitor_id}>
+                      <TableCell className="text-sm"><VisitorSource visitor={visitor} /></TableCell>
+                      <TableCell className="text-sm text-gray-600" title={format(new Date(visitor.last_seen_at), 'PPpp')}>
+                        {formatDistanceToNow(new Date(visitor.last_seen_at), { addSuffix: true })}
+                      </TableCell>
+                      <TableCell className="text-right text-sm">{visitor.visit_count}</TableCell>
+                      <TableCell className="text-right text-sm">{formatSeconds(visitor.total_seconds)}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {visitor.cta_clicks > 0 && <Badge className="bg-green-100 text-green-800 hover:bg-green-100 text-xs">Clicked CTA</Badge>}
+                          {visitor.appearance_clicks > 0 && <Badge variant="outline" className="text-xs">{visitor.appearance_clicks} link-out{visitor.appearance_clicks === 1 ? '' : 's'}</Badge>}
+                          <Badge variant="outline" className="text-xs text-gray-500">{visitor.sections_viewed.length} sections</Badge>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
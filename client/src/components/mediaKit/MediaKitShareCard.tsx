@@ -0,0 +1,98 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { EyeOff, Globe, ImageIcon, Loader2, Share2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { getMediaKitSeo } from '@/lib/mediaKitSeo';
+import { renderMediaKitShareImage, uploadMediaKitShareImage } from '@/lib/mediaKitShareImage';
+import type { PublicMediaKitData } from '@/types/mediaKit';
+
+interface MediaKitShareCardProps {
+  mediaKit: PublicMediaKitData;
+}
+
+// Shows how the kit unfurls in LinkedIn/Slack/email and (re)generates the share image
+export function MediaKitShareCard({ mediaKit }: MediaKitShareCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draftImageUrl, setDraftImageUrl] = useState<string | null>(null);
+
+  const pageUrl = `${window.location.origin}/media-kit/${mediaKit.slug}`;
+  const seo = getMediaKitSeo(mediaKit, pageUrl);
+  const shareImageUrl = mediaKit.image_urls?.share_image_url;
+  const previewImage = draftImageUrl || seo.imageUrl;
+  // Restricted kits are noindex and unfurl without details, same as private ones
+  const isIndexable = !!seo.jsonLd;
+
+  useEffect(() => () => {
+    if (draftImageUrl) URL.revokeObjectURL(draftImageUrl);
+  }, [draftImageUrl]);
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const blob = await renderMediaKitShareImage(mediaKit);
+      setDraftImageUrl(URL.createObjectURL(blob));
+      return uploadMediaKitShareImage(blob, mediaKit.campaign_id, mediaKit.slug);
+    },
+    onSuccess: () => {
+      toast({ title: 'Share image updated', description: 'Link previews will use the new card. Some sites cache previews for a few days.' });
+      queryClient.invalidateQueries({ queryKey: ['/campaigns/', mediaKit.campaign_id, '/media-kit'] });
+      queryClient.invalidateQueries({ queryKey: ['publicMediaKit', mediaKit.slug] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Share image failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2"><Share2 className="h-5 w-5" />Link Preview & Search</CardTitle>
+            <CardDescription>How your media kit link looks when pasted into LinkedIn, Slack or an email.</CardDescription>
+          </div>
+          {isIndexable ? (
+            <Badge variant="outline" className="gap-1 text-green-700 border-green-300"><Globe className="h-3 w-3" />Indexable</Badge>
+          ) : (
+            <Badge variant="outline" className="gap-1 text-gray-600"><EyeOff className="h-3 w-3" />{mediaKit.is_public ? 'Share links only' : 'Private'} · noindex</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-[1fr_220px] items-start">
+        <div className="max-w-lg overflow-hidden rounded-lg border bg-white shadow-sm">
+          {previewImage ? (
+            <img src={previewImage} alt={seo.imageAlt} className="aspect-[1200/630] w-full object-cover bg-gray-100" />
+          ) : (
+            <div className="flex aspect-[1200/630] items-center justify-center bg-gray-100 text-sm text-gray-400">
+              <ImageIcon className="mr-2 h-5 w-5" /> No preview image
+            </div>
+          )}
+          <div className="space-y-1 border-t bg-gray-50 p-3">
+            <p className="text-xs uppercase text-gray-500">{window.location.host}</p>
+            <p className="font-semibold text-gray-900 line-clamp-1">{isIndexable ? seo.title : `${mediaKit.title || 'Media Kit'} | Podcast Guest Media Kit`}</p>
+            <p className="text-sm text-gray-600 line-clamp-2">{isIndexable ? seo.description : 'No description is shown while the media kit is private or restricted to share links.'}</p>
+          </div>
+        </div>
+
+        <div className="space-y-3 text-sm">
+          <p className="text-gray-600">
+            {shareImageUrl
+              ? 'A share card with your name, headline and headshot is in use.'
+              : 'Previews currently fall back to your headshot. Generate a share card for a proper wide image.'}
+          </p>
+          <Button onClick={() => generateMutation.mutate()} disabled={generateMutation.isPending} className="w-full">
+            {generateMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ImageIcon className="mr-2 h-4 w-4" />}
+            {shareImageUrl ? 'Regenerate Share Image' : 'Generate Share Image'}
+          </Button>
+          <p className="text-xs text-muted-foreground">Regenerate after changing your name, headline, headshot or theme.</p>
+          {!isIndexable && (
+            <p className="text-xs text-amber-700">Private and link-only kits are hidden from search engines and show no details in link previews.</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,274 @@
+import { useState, type ChangeEvent } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Ban, Copy, KeyRound, Link2, Loader2, Plus, ShieldCheck } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { getShareLinkStatus, getShareLinkUrl } from '@/lib/mediaKitAccess';
+import type { MediaKitAccessMode, MediaKitShareLink } from '@/types/mediaKit';
+
+interface MediaKitShareLinksCardProps {
+  mediaKitId: string;
+  campaignId: string;
+  slug: string;
+  isPublic: boolean;
+  accessMode?: MediaKitAccessMode | null;
+}
+
+interface NewLinkForm {
+  recipient_name: string;
+  recipient_email: string;
+  password: string;
+  expires_on: string; // yyyy-MM-dd from the date input
+}
+
+const EMPTY_FORM: NewLinkForm = { recipient_name: '', recipient_email: '', password: '', expires_on: '' };
+
+const STATUS_BADGES = {
+  active: 'bg-green-100 text-green-800 hover:bg-green-100',
+  expired: 'bg-amber-100 text-amber-800 hover:bg-amber-100',
+  revoked: 'bg-gray-200 text-gray-700 hover:bg-gray-200',
+};
+
+export function MediaKitShareLinksCard({ mediaKitId, campaignId, slug, isPublic, accessMode }: MediaKitShareLinksCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<NewLinkForm>(EMPTY_FORM);
+  const linksOnly = accessMode === 'links_only';
+  const linksQueryKey = ['/media-kits/', mediaKitId, '/share-links'];
+
+  const { data: links = [], isLoading } = useQuery<MediaKitShareLink[]>({
+    queryKey: linksQueryKey,
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/media-kits/${mediaKitId}/share-links`);
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({ detail: 'Failed to load share links' }));
+        throw new Error(errorData.detail || 'Failed to load share links');
+      }
+      return res.json();
+    },
+  });
+
+  const copyLink = (link: MediaKitShareLink) => {
+    navigator.clipboard.writeText(getShareLinkUrl(slug, link.token));
+    toast({ title: 'Link copied', description: link.recipient_name ? `Share link for ${link.recipient_name} copied to clipboard.` : 'Share link copied to clipboard.' });
+  };
+
+  const accessModeMutation = useMutation({
+    mutationFn: async (mode: MediaKitAccessMode) => {
+      const res = await apiRequest('PATCH', `/campaigns/${campaignId}/media-kit/settings`, { access_mode: mode });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({ detail: 'Failed to update access settings' }));
+        throw new Error(errorData.detail || 'Failed to update access settings');
+      }
+      return res.json();
+    },
+    onSuccess: (_, mode) => {
+      toast({
+        title: 'Access updated',
+        description: mode === 'links_only' ? 'Only people with a share link can open the media kit now.' : 'Anyone with the media kit URL can open it now.',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/campaigns/', campaignId, '/media-kit'] });
+      queryClient.invalidateQueries({ queryKey: ['publicMediaKit', slug] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (values: NewLinkForm) => {
+      const res = await apiRequest('POST', `/media-kits/${mediaKitId}/share-links`, {
+        recipient_name: values.recipient_name.trim() || null,
+        recipient_email: values.recipient_email.trim() || null,
+        password: values.password || null,
+        // Links stay valid until the end of the chosen day
+        expires_at: values.expires_on ? new Date(`${values.expires_on}T23:59:59`).toISOString() : null,
+      });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({ detail: 'Failed to create share link' }));
+        throw new Error(errorData.detail || 'Failed to create share link');
+      }
+      return res.json() as Promise<MediaKitShareLink>;
+    },
+    onSuccess: (link) => {
+      setForm(EMPTY_FORM);
+      setShowForm(false);
+      queryClient.invalidateQueries({ queryKey: linksQueryKey });
+      copyLink(link);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (linkId: string) => {
+      const res = await apiRequest('PATCH', `/media-kits/${mediaKitId}/share-links/${linkId}`, { revoked: true });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({ detail: 'Failed to revoke share link' }));
+        throw new Error(errorData.detail || 'Failed to revoke share link');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'Link revoked', description: 'The link no longer opens the media kit.' });
+      queryClient.invalidateQueries({ queryKey: linksQueryKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const handleRevoke = (link: MediaKitShareLink) => {
+    const who = link.recipient_name || link.recipient_email || 'this recipient';
+    if (window.confirm(`Revoke the share link for ${who}? They won't be able to open the media kit with it anymore.`)) {
+      revokeMutation.mutate(link.link_id);
+    }
+  };
+
+  const setField = (field: keyof NewLinkForm) => (e: ChangeEvent<HTMLInputElement>) => setForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2"><ShieldCheck className="h-5 w-5" />Share Links & Access</CardTitle>
+            <CardDescription>Mint a link per recipient, optionally with a password or an expiry date, and revoke it at any time.</CardDescription>
+          </div>
+          <Button size="sm" onClick={() => setShowForm(!showForm)}>
+            <Plus className="mr-1.5 h-4 w-4" />New Link
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+          <div className="space-y-0.5">
+            <Label>Require a share link</Label>
+            <p className="text-sm text-muted-foreground">
+              {linksOnly
+                ? 'The plain media kit URL shows a locked screen; only the links below open it.'
+                : 'Anyone with the media kit URL can view it. Share links still work and show who viewed.'}
+            </p>
+            {!isPublic && <p className="text-xs text-amber-700">The media kit is not public yet, so no link opens it until you make it public above.</p>}
+          </div>
+          <Switch
+            checked={linksOnly}
+            disabled={accessModeMutation.isPending}
+            onCheckedChange={(checked) => accessModeMutation.mutate(checked ? 'links_only' : 'open')}
+          />
+        </div>
+
+        {showForm && (
+          <form
+            className="grid gap-3 rounded-lg border bg-gray-50 p-4 md:grid-cols-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              createMutation.mutate(form);
+            }}
+          >
+            <div className="space-y-1">
+              <Label htmlFor="share-recipient-name">Recipient name</Label>
+              <Input id="share-recipient-name" placeholder="e.g., Sarah at The Growth Show" value={form.recipient_name} onChange={setField('recipient_name')} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="share-recipient-email">Recipient email (optional)</Label>
+              <Input id="share-recipient-email" type="email" placeholder="host@example.com" value={form.recipient_email} onChange={setField('recipient_email')} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="share-password">Password (optional)</Label>
+              <Input id="share-password" type="password" autoComplete="new-password" value={form.password} onChange={setField('password')} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="share-expires">Expires on (optional)</Label>
+              <Input id="share-expires" type="date" min={format(new Date(), 'yyyy-MM-dd')} value={form.expires_on} onChange={setField('expires_on')} />
+            </div>
+            <div className="flex justify-end gap-2 md:col-span-2">
+              <Button type="button" variant="ghost" onClick={() => { setShowForm(false); setForm(EMPTY_FORM); }}>Cancel</Button>
+              <Button type="submit" disabled={createMutation.isPending}>
+                {createMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Link2 className="mr-2 h-4 w-4" />}
+                Create & Copy Link
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6 text-sm text-gray-500"><Loader2 className="mr-2 h-4 w-4 animate-spin" />Loading links...</div>
+        ) : links.length === 0 ? (
+          <p className="py-6 text-center text-sm text-gray-500">No share links yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Recipient</TableHead>
+                <TableHead>Protection</TableHead>
+                <TableHead>Views</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {links.map(link => {
+                const status = getShareLinkStatus(link);
+                return (
+                  <TableRow key={link.link_id} className={status !== 'active' ? 'opacity-60' : undefined}>
+                    <TableCell>
+                      <p className="text-sm font-medium">{link.recipient_name || link.label || 'Unnamed link'}</p>
+                      {link.recipient_email && <p className="text-xs text-gray-500">{link.recipient_email}</p>}
+                      <p className="text-xs text-gray-400">Created {format(new Date(link.created_at), 'MMM d, yyyy')}</p>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {link.has_password && <Badge variant="outline" className="gap-1 text-xs"><KeyRound className="h-3 w-3" />Password</Badge>}
+                        {link.expires_at && (
+                          <Badge variant="outline" className="text-xs">
+                            {status === 'expired' ? 'Expired' : 'Expires'} {format(new Date(link.expires_at), 'MMM d')}
+                          </Badge>
+                        )}
+                        {!link.has_password && !link.expires_at && <span className="text-xs text-gray-400">Link only</span>}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {link.view_count}
+                      {link.last_viewed_at && (
+                        <p className="text-xs text-gray-500">last {formatDistanceToNow(new Date(link.last_viewed_at), { addSuffix: true })}</p>
+                      )}
+                    </TableCell>
+                    <TableCell><Badge className={`text-xs capitalize ${STATUS_BADGES[status]}`}>{status}</Badge></TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => copyLink(link)} disabled={status !== 'active'} title="Copy link">
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRevoke(link)}
+                          disabled={status === 'revoked' || revokeMutation.isPending}
+                          title="Revoke link"
+                          className="text-red-600 hover:text-red-700"
+                        >
+                          <Ban className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
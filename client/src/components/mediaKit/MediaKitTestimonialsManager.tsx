@@ -0,0 +1,289 @@
+import { useEffect, useState, type ChangeEvent } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { Check, Edit, ExternalLink, Loader2, Plus, Quote, Trash2, X } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { isWebUrl, validateTestimonialUrls } from '@/lib/testimonials';
+import { useToast } from '@/hooks/use-toast';
+import { getTestimonialsQueryKey, useTestimonials } from '@/hooks/useTestimonials';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import type { MediaKitTestimonial, TestimonialSource, TestimonialStatus } from '@/types/mediaKit';
+
+interface MediaKitTestimonialsManagerProps {
+  campaignId: string;
+  mediaKitSlug?: string; // Refreshes the public kit when an approval changes what it shows
+}
+
+type TestimonialForm = Pick<MediaKitTestimonial, 'quote' | 'author_name'> & {
+  author_role: string;
+  media_name: string;
+  media_url: string;
+  avatar_url: string;
+};
+
+const EMPTY_FORM: TestimonialForm = { quote: '', author_name: '', author_role: '', media_name: '', media_url: '', avatar_url: '' };
+
+const SOURCE_LABELS: Record<TestimonialSource, string> = {
+  host_form: 'Submitted by host',
+  questionnaire: 'From questionnaire',
+  manual: 'Added manually',
+};
+
+const STATUS_TABS: { value: TestimonialStatus; label: string }[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Rejected' },
+];
+
+// Moderation queue for a campaign's testimonials; only approved ones appear on the public media kit
+export function MediaKitTestimonialsManager({ campaignId, mediaKitSlug }: MediaKitTestimonialsManagerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: testimonials = [], isLoading } = useTestimonials(campaignId);
+  const [activeStatus, setActiveStatus] = useState<TestimonialStatus>('pending');
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<MediaKitTestimonial | null>(null);
+  const [form, setForm] = useState<TestimonialForm>(EMPTY_FORM);
+
+  const counts = STATUS_TABS.reduce<Record<TestimonialStatus, number>>(
+    (acc, tab) => ({ ...acc, [tab.value]: testimonials.filter(item => item.status === tab.value).length }),
+    { pending: 0, approved: 0, rejected: 0 },
+  );
+  const visible = testimonials.filter(item => item.status === activeStatus);
+
+  // Land on the queue when something is waiting, otherwise on what's live
+  useEffect(() => {
+    if (!isLoading && counts.pending === 0 && activeStatus === 'pending' && counts.approved > 0) setActiveStatus('approved');
+  }, [isLoading, counts.pending, counts.approved, activeStatus]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: getTestimonialsQueryKey(campaignId) });
+    if (mediaKitSlug) queryClient.invalidateQueries({ queryKey: ['publicMediaKit', mediaKitSlug] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: TestimonialForm) => {
+      const payload = {
+        quote: values.quote.trim(),
+        author_name: values.author_name.trim(),
+        author_role: values.author_role.trim() || null,
+        media_name: values.media_name.trim() || null,
+        media_url: values.media_url.trim() || null,
+        avatar_url: values.avatar_url.trim() || null,
+      };
+      const invalidUrl = validateTestimonialUrls(payload);
+      if (invalidUrl) throw new Error(invalidUrl);
+      const res = editing
+        ? await apiRequest('PATCH', `/testimonials/${editing.testimonial_id}`, payload)
+        // Testimonials the team types in themselves skip the queue
+        : await apiRequest('POST', `/campaigns/${campaignId}/testimonials`, { ...payload, source: 'manual', status: 'approved' });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({ detail: 'Failed to save testimonial' }));
+        throw new Error(errorData.detail || 'Failed to save testimonial');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: editing ? 'Testimonial updated' : 'Testimonial added' });
+      setDialogOpen(false);
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ testimonial, status }: { testimonial: MediaKitTestimonial; status: TestimonialStatus }) => {
+      const res = await apiRequest('PATCH', `/testimonials/${testimonial.testimonial_id}`, { status });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({ detail: 'Failed to update testimonial' }));
+        throw new Error(errorData.detail || 'Failed to update testimonial');
+      }
+      return res.json();
+    },
+    onSuccess: (_, { testimonial, status }) => {
+      toast({
+        title: status === 'approved' ? 'Testimonial approved' : 'Testimonial rejected',
+        description: status === 'approved'
+          ? `${testimonial.author_name}'s testimonial now shows on the media kit.`
+          : `${testimonial.author_name}'s testimonial is hidden from the media kit.`,
+      });
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (testimonialId: string) => {
+      const res = await apiRequest('DELETE', `/testimonials/${testimonialId}`);
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({ detail: 'Failed to delete testimonial' }));
+        throw new Error(errorData.detail || 'Failed to delete testimonial');
+      }
+    },
+    onSuccess: () => {
+      toast({ title: 'Testimonial deleted' });
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const openDialog = (testimonial: MediaKitTestimonial | null) => {
+    setEditing(testimonial);
+    setForm(testimonial ? {
+      quote: testimonial.quote,
+      author_name: testimonial.author_name,
+      author_role: testimonial.author_role || '',
+      media_name: testimonial.media_name || '',
+      media_url: testimonial.media_url || '',
+      avatar_url: testimonial.avatar_url || '',
+    } : EMPTY_FORM);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = (testimonial: MediaKitTestimonial) => {
+    if (window.confirm(`Delete the testimonial from ${testimonial.author_name}? This can't be undone.`)) {
+      deleteMutation.mutate(testimonial.testimonial_id);
+    }
+  };
+
+  const setField = (field: keyof TestimonialForm) => (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  const isUpdatingStatus = (testimonial: MediaKitTestimonial) =>
+    statusMutation.isPending && statusMutation.variables?.testimonial.testimonial_id === testimonial.testimonial_id;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <Tabs value={activeStatus} onValueChange={(value) => setActiveStatus(value as TestimonialStatus)}>
+          <TabsList>
+            {STATUS_TABS.map(tab => (
+              <TabsTrigger key={tab.value} value={tab.value} className="gap-1.5">
+                {tab.label}
+                {counts[tab.value] > 0 && (
+                  <Badge variant={tab.value === 'pending' ? 'default' : 'secondary'} className="h-5 px-1.5 text-xs">{counts[tab.value]}</Badge>
+                )}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+        <Button size="sm" variant="outline" onClick={() => openDialog(null)}>
+          <Plus className="mr-1.5 h-4 w-4" />Add Testimonial
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6 text-sm text-gray-500"><Loader2 className="mr-2 h-4 w-4 animate-spin" />Loading testimonials...</div>
+      ) : visible.length === 0 ? (
+        <p className="py-6 text-center text-sm text-gray-500">
+          {activeStatus === 'pending'
+            ? 'Nothing waiting for review. Hosts can submit one from the link on a recorded or live placement.'
+            : activeStatus === 'approved' ? 'No approved testimonials yet.' : 'No rejected testimonials.'}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {visible.map(testimonial => (
+            <div key={testimonial.testimonial_id} className="rounded-lg border p-4">
+              <div className="flex gap-3">
+                <Quote className="h-5 w-5 flex-shrink-0 text-gray-300" />
+                <div className="min-w-0 flex-1 space-y-2">
+                  <p className="text-sm italic text-gray-800 whitespace-pre-wrap">{testimonial.quote}</p>
+                  <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-xs text-gray-500">
+                    <span className="font-medium text-gray-700">{testimonial.author_name}</span>
+                    {testimonial.author_role && <span>· {testimonial.author_role}</span>}
+                    {isWebUrl(testimonial.media_url) && (
+                      <a href={testimonial.media_url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center text-primary hover:underline">
+                        {testimonial.media_name || 'Episode'}<ExternalLink className="ml-0.5 h-3 w-3" />
+                      </a>
+                    )}
+                    <Badge variant="outline" className="text-xs">{SOURCE_LABELS[testimonial.source]}</Badge>
+                    <span>{formatDistanceToNow(new Date(testimonial.created_at), { addSuffix: true })}</span>
+                  </div>
+                </div>
+              </div>
+              <div className="mt-3 flex flex-wrap justify-end gap-1">
+                {testimonial.status !== 'approved' && (
+                  <Button size="sm" variant="outline" className="text-green-700" disabled={isUpdatingStatus(testimonial)} onClick={() => statusMutation.mutate({ testimonial, status: 'approved' })}>
+                    <Check className="mr-1 h-4 w-4" />Approve
+                  </Button>
+                )}
+                {testimonial.status !== 'rejected' && (
+                  <Button size="sm" variant="outline" className="text-red-600" disabled={isUpdatingStatus(testimonial)} onClick={() => statusMutation.mutate({ testimonial, status: 'rejected' })}>
+                    <X className="mr-1 h-4 w-4" />{testimonial.status === 'approved' ? 'Unpublish' : 'Reject'}
+                  </Button>
+                )}
+                <Button size="sm" variant="ghost" title="Edit" onClick={() => openDialog(testimonial)}><Edit className="h-4 w-4" /></Button>
+                <Button size="sm" variant="ghost" title="Delete" className="text-red-600 hover:text-red-700" disabled={deleteMutation.isPending} onClick={() => handleDelete(testimonial)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Testimonial' : 'Add Testimonial'}</DialogTitle>
+            <DialogDescription>
+              {editing ? 'Fix typos or trim the quote. The author sees no notification.' : 'Testimonials you add yourself are approved straight away.'}
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            id="testimonial-form"
+            className="grid gap-3 sm:grid-cols-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveMutation.mutate(form);
+            }}
+          >
+            <div className="space-y-1 sm:col-span-2">
+              <Label htmlFor="testimonial-quote">Quote *</Label>
+              <Textarea id="testimonial-quote" rows={4} value={form.quote} onChange={setField('quote')} required />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="testimonial-author">Author *</Label>
+              <Input id="testimonial-author" placeholder="Jane Smith" value={form.author_name} onChange={setField('author_name')} required />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="testimonial-role">Role</Label>
+              <Input id="testimonial-role" placeholder="Host, The Growth Show" value={form.author_role} onChange={setField('author_role')} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="testimonial-media-name">Podcast / outlet</Label>
+              <Input id="testimonial-media-name" value={form.media_name} onChange={setField('media_name')} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="testimonial-media-url">Podcast or episode link</Label>
+              <Input id="testimonial-media-url" type="url" placeholder="https://" value={form.media_url} onChange={setField('media_url')} />
+            </div>
+            <div className="space-y-1 sm:col-span-2">
+              <Label htmlFor="testimonial-avatar">Avatar image URL</Label>
+              <Input id="testimonial-avatar" type="url" placeholder="https://" value={form.avatar_url} onChange={setField('avatar_url')} />
+            </div>
+          </form>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button type="submit" form="testimonial-form" disabled={!form.quote.trim() || !form.author_name.trim() || saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {editing ? 'Save' : 'Add Testimonial'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Check, Eye, Loader2, Palette, Save } from 'lucide-react';
+import { ImageUpload } from '@/components/ImageUpload';
+import { MediaKitView } from '@/components/mediaKit/MediaKitView';
+import { cn } from '@/lib/utils';
+import { DEFAULT_MEDIA_KIT_THEME_ID, MEDIA_KIT_THEMES, getMediaKitTheme } from '@/lib/mediaKitThemes';
+import type { PublicMediaKitData } from '@/types/mediaKit';
+
+interface MediaKitThemePickerProps {
+  mediaKit: PublicMediaKitData; // Current content, so the preview shows the client's own kit
+  onSaveTheme: (themeId: string) => void;
+  isSaving?: boolean;
+}
+
+export function MediaKitThemePicker({ mediaKit, onSaveTheme, isSaving }: MediaKitThemePickerProps) {
+  const savedTheme = getMediaKitTheme(mediaKit.theme_preference);
+  const [draftThemeId, setDraftThemeId] = useState(savedTheme.id);
+  // Uploads are saved straight away by ImageUpload; this just lets the preview show the new banner immediately
+  const [bannerUrl, setBannerUrl] = useState(mediaKit.image_urls?.cover_image_url || null);
+
+  useEffect(() => {
+    setDraftThemeId(getMediaKitTheme(mediaKit.theme_preference).id);
+  }, [mediaKit.theme_preference]);
+
+  useEffect(() => {
+    setBannerUrl(mediaKit.image_urls?.cover_image_url || null);
+  }, [mediaKit.image_urls?.cover_image_url]);
+
+  const draftTheme = getMediaKitTheme(draftThemeId);
+  // Compared with the stored value so legacy preferences (e.g. 'dark_banner_only') can be replaced
+  const isDirty = draftThemeId !== (mediaKit.theme_preference || DEFAULT_MEDIA_KIT_THEME_ID);
+  const previewKit: PublicMediaKitData = {
+    ...mediaKit,
+    image_urls: { ...mediaKit.image_urls, cover_image_url: bannerUrl },
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2"><Palette className="h-5 w-5" />Theme & Banner</CardTitle>
+            <CardDescription>Pick how your public media kit looks. The preview updates as you choose.</CardDescription>
+          </div>
+          <Button size="sm" onClick={() => onSaveTheme(draftThemeId)} disabled={!isDirty || isSaving}>
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save Theme
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="grid gap-6 lg:grid-cols-[260px_1fr]">
+        <div className="space-y-4">
+          <div className="space-y-2">
+            {MEDIA_KIT_THEMES.map(theme => (
+              <button
+                key={theme.id}
+                type="button"
+                onClick={() => setDraftThemeId(theme.id)}
+                className={cn(
+                  'w-full rounded-lg border p-3 text-left transition-colors',
+                  draftThemeId === theme.id ? 'border-primary ring-2 ring-primary/30 bg-primary/5' : 'hover:bg-gray-50'
+                )}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-sm">{theme.name}</span>
+                  <div className="flex items-center gap-1">
+                    {theme.swatches.map(color => (
+                      <span key={color} className="h-4 w-4 rounded-full border border-gray-300" style={{ backgroundColor: color }} />
+                    ))}
+                    {savedTheme.id === theme.id && <Check className="ml-1 h-4 w-4 text-green-600" />}
+                  </div>
+                </div>
+                <p className="mt-1 text-xs text-gray-500">{theme.description}</p>
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Banner image</label>
+            <ImageUpload
+              campaignId={mediaKit.campaign_id}
+              uploadContext="media_kit_cover"
+              currentImageUrl={bannerUrl}
+              onUploadComplete={(url) => setBannerUrl(url || null)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Wide images work best (at least 1600×600px). {draftTheme.hero === 'minimal'
+                ? `The ${draftTheme.name} theme shows it as a thin strip above your name.`
+                : 'Without one, a stock studio photo is used.'}
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-2 min-w-0">
+          <div className="flex items-center gap-2 text-xs text-gray-500">
+            <Eye className="h-3.5 w-3.5" />
+            Preview
+            {isDirty && <Badge variant="outline" className="text-xs">Unsaved</Badge>}
+          </div>
+          <div className="h-[560px] overflow-y-auto overflow-x-hidden rounded-lg border shadow-inner bg-gray-100">
+            {/* zoom (unlike transform) shrinks the layout box too, so the preview scrolls naturally */}
+            <div style={{ zoom: 0.5 }} className="pointer-events-none select-none">
+              <MediaKitView mediaKit={previewKit} theme={draftTheme} className="min-h-0" />
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
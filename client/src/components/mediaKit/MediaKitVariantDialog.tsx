@@ -0,0 +1,225 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { getMediaKitVariantsQueryKey } from '@/hooks/useMediaKitVariants';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { MEDIA_KIT_SECTIONS, pickSectionContent } from '@/lib/mediaKitVersions';
+import { VARIANT_SECTIONS, slugifyVariantName } from '@/lib/mediaKitVariants';
+import type { MediaKitSectionKey, MediaKitVariant } from '@/types/mediaKit';
+
+interface MediaKitVariantDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  campaignId: string;
+  baseKit: Record<string, unknown> & { slug: string }; // Overrides start as a copy of these sections
+  variant: MediaKitVariant | null; // null creates a new variant
+}
+
+type SectionContent = Record<string, unknown>;
+type TalkingPointDraft = { topic: string; description: string };
+
+const asText = (value: unknown) => (typeof value === 'string' ? value : '');
+
+export function MediaKitVariantDialog({ open, onOpenChange, campaignId, baseKit, variant }: MediaKitVariantDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [slug, setSlug] = useState('');
+  const [slugEdited, setSlugEdited] = useState(false);
+  const [audience, setAudience] = useState('');
+  const [overrides, setOverrides] = useState<MediaKitVariant['overrides']>({});
+
+  useEffect(() => {
+    if (!open) return;
+    setName(variant?.name || '');
+    setSlug(variant?.slug || '');
+    setSlugEdited(!!variant);
+    setAudience(variant?.audience || '');
+    setOverrides(variant?.overrides || {});
+  }, [open, variant]);
+
+  const handleNameChange = (value: string) => {
+    setName(value);
+    if (!slugEdited) setSlug(value.trim() ? slugifyVariantName(baseKit.slug, value) : '');
+  };
+
+  const toggleSection = (section: MediaKitSectionKey, enabled: boolean) => {
+    setOverrides(prev => {
+      const next = { ...prev };
+      if (enabled) next[section] = pickSectionContent(section, baseKit);
+      else delete next[section];
+      return next;
+    });
+  };
+
+  const updateSection = (section: MediaKitSectionKey, patch: SectionContent) => {
+    setOverrides(prev => ({ ...prev, [section]: { ...prev[section], ...patch } }));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = { name: name.trim(), slug: slug.trim(), audience: audience.trim() || null, overrides };
+      const res = variant
+        ? await apiRequest('PATCH', `/campaigns/${campaignId}/media-kit/variants/${variant.variant_id}`, payload)
+        : await apiRequest('POST', `/campaigns/${campaignId}/media-kit/variants`, payload);
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({ detail: 'Failed to save variant' }));
+        throw new Error(errorData.detail || 'Failed to save variant');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: variant ? 'Variant updated' : 'Variant created', description: `"${name.trim()}" is live at /media-kit/${slug.trim()}.` });
+      queryClient.invalidateQueries({ queryKey: getMediaKitVariantsQueryKey(campaignId) });
+      queryClient.invalidateQueries({ queryKey: ['publicMediaKit', slug.trim()] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const renderTalkingPoints = (content: SectionContent) => {
+    const points: TalkingPointDraft[] = Array.isArray(content.talking_points)
+      ? (content.talking_points as Array<Record<string, unknown>>).map(point => ({ topic: asText(point.topic ?? point.title), description: asText(point.description) }))
+      : [];
+    const setPoints = (next: TalkingPointDraft[]) => updateSection('talking_points', { talking_points: next });
+    return (
+      <div className="space-y-2">
+        {points.map((point, index) => (
+          <div key={index} className="flex gap-2 items-start">
+            <div className="flex-1 space-y-1">
+              <Input
+                placeholder="Topic"
+                value={point.topic}
+                onChange={(e) => setPoints(points.map((p, i) => (i === index ? { ...p, topic: e.target.value } : p)))}
+              />
+              <Textarea
+                rows={2}
+                placeholder="Why it matters to this audience"
+                value={point.description}
+                onChange={(e) => setPoints(points.map((p, i) => (i === index ? { ...p, description: e.target.value } : p)))}
+              />
+            </div>
+            <Button type="button" variant="ghost" size="sm" onClick={() => setPoints(points.filter((_, i) => i !== index))}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button type="button" variant="outline" size="sm" onClick={() => setPoints([...points, { topic: '', description: '' }])}>
+          <Plus className="mr-1 h-3 w-3" />Add Talking Point
+        </Button>
+      </div>
+    );
+  };
+
+  const renderSectionFields = (section: MediaKitSectionKey, content: SectionContent) => {
+    const field = (key: string, label: string, multiline?: number) => (
+      <div key={key} className="space-y-1">
+        <Label className="text-xs text-gray-600">{label}</Label>
+        {multiline ? (
+          <Textarea rows={multiline} value={asText(content[key])} onChange={(e) => updateSection(section, { [key]: e.target.value })} />
+        ) : (
+          <Input value={asText(content[key])} onChange={(e) => updateSection(section, { [key]: e.target.value })} />
+        )}
+      </div>
+    );
+
+    switch (section) {
+      case 'header':
+        return [field('title', 'Title'), field('headline', 'Headline')];
+      case 'intro':
+        return field('custom_intro', 'Introduction', 3);
+      case 'bio':
+        return [field('short_bio_content', 'Short bio', 2), field('summary_bio_content', 'Summary bio', 4), field('full_bio_content', 'Full bio', 6)];
+      case 'talking_points':
+        return renderTalkingPoints(content);
+      case 'questions':
+        return (
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-600">One question per line</Label>
+            <Textarea
+              rows={5}
+              value={Array.isArray(content.sample_questions) ? (content.sample_questions as string[]).join('\n') : ''}
+              onChange={(e) => updateSection('questions', { sample_questions: e.target.value.split('\n').filter(line => line.trim()) })}
+            />
+          </div>
+        );
+      case 'cta':
+        return [field('call_to_action_text', 'Button text'), field('call_to_action_url', 'Button URL')];
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{variant ? `Edit "${variant.name}"` : 'New Media Kit Variant'}</DialogTitle>
+          <DialogDescription>
+            A variant shares everything with the base media kit except the sections you override below.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-3 md:grid-cols-2">
+          <div className="space-y-1">
+            <Label htmlFor="variant-name">Name</Label>
+            <Input id="variant-name" placeholder="e.g., Founders" value={name} onChange={(e) => handleNameChange(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="variant-slug">Link</Label>
+            <div className="flex items-center gap-1 text-sm text-gray-500">
+              <span className="whitespace-nowrap">/media-kit/</span>
+              <Input
+                id="variant-slug"
+                value={slug}
+                onChange={(e) => {
+                  setSlug(e.target.value.toLowerCase().replace(/[^a-z0-9-]/g, '-'));
+                  setSlugEdited(true);
+                }}
+              />
+            </div>
+          </div>
+          <div className="space-y-1 md:col-span-2">
+            <Label htmlFor="variant-audience">Audience (internal note)</Label>
+            <Input id="variant-audience" placeholder="e.g., B2B SaaS founder shows, 10k+ downloads" value={audience} onChange={(e) => setAudience(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          {VARIANT_SECTIONS.map(section => {
+            const content = overrides[section];
+            return (
+              <div key={section} className="rounded-lg border p-3">
+                <div className="flex items-center justify-between">
+                  <Label className="font-medium">{MEDIA_KIT_SECTIONS[section].label}</Label>
+                  <div className="flex items-center gap-2 text-xs text-gray-500">
+                    {content ? 'Overridden' : 'Inherits from base'}
+                    <Switch checked={!!content} onCheckedChange={(checked) => toggleSection(section, checked)} />
+                  </div>
+                </div>
+                {content && <div className="mt-3 space-y-2">{renderSectionFields(section, content)}</div>}
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={!name.trim() || !slug.trim() || saveMutation.isPending}>
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {variant ? 'Save Variant' : 'Create Variant'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,33 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useMediaKitVariants } from '@/hooks/useMediaKitVariants';
+import { cn } from '@/lib/utils';
+
+interface MediaKitVariantSelectProps {
+  campaignId: string | null | undefined;
+  value: string | null; // variant_id, null for the base kit
+  onChange: (variantId: string | null) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const BASE_VALUE = 'base';
+
+// Picks which media kit link a pitch includes; renders nothing when the campaign has no variants
+export function MediaKitVariantSelect({ campaignId, value, onChange, disabled, className }: MediaKitVariantSelectProps) {
+  const { data: variants = [] } = useMediaKitVariants(campaignId);
+  if (variants.length === 0) return null;
+
+  return (
+    <Select value={value || BASE_VALUE} onValueChange={(next) => onChange(next === BASE_VALUE ? null : next)} disabled={disabled}>
+      <SelectTrigger className={cn('h-8 w-[180px] text-xs', className)} title="Media kit link in this pitch">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={BASE_VALUE}>Media kit: Base</SelectItem>
+        {variants.map(variant => (
+          <SelectItem key={variant.variant_id} value={variant.variant_id}>Media kit: {variant.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
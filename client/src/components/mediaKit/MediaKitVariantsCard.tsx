@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Copy, Edit, ExternalLink, Layers, Loader2, Plus, Trash2 } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { getMediaKitVariantsQueryKey, useMediaKitVariants } from '@/hooks/useMediaKitVariants';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { MediaKitVariantDialog } from '@/components/mediaKit/MediaKitVariantDialog';
+import { MEDIA_KIT_SECTIONS } from '@/lib/mediaKitVersions';
+import { getOverriddenSections } from '@/lib/mediaKitVariants';
+import type { MediaKitVariant } from '@/types/mediaKit';
+
+interface MediaKitVariantsCardProps {
+  campaignId: string;
+  baseKit: Record<string, unknown> & { slug: string };
+}
+
+export function MediaKitVariantsCard({ campaignId, baseKit }: MediaKitVariantsCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: variants = [], isLoading } = useMediaKitVariants(campaignId);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingVariant, setEditingVariant] = useState<MediaKitVariant | null>(null);
+
+  const deleteMutation = useMutation({
+    mutationFn: async (variantId: string) => {
+      const res = await apiRequest('DELETE', `/campaigns/${campaignId}/media-kit/variants/${variantId}`);
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({ detail: 'Failed to delete variant' }));
+        throw new Error(errorData.detail || 'Failed to delete variant');
+      }
+    },
+    onSuccess: () => {
+      toast({ title: 'Variant deleted', description: 'Its link now shows the base media kit.' });
+      queryClient.invalidateQueries({ queryKey: getMediaKitVariantsQueryKey(campaignId) });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const openDialog = (variant: MediaKitVariant | null) => {
+    setEditingVariant(variant);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = (variant: MediaKitVariant) => {
+    if (window.confirm(`Delete the "${variant.name}" variant? Pitches that already link to it will fall back to the base media kit.`)) {
+      deleteMutation.mutate(variant.variant_id);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2"><Layers className="h-5 w-5" />Audience Variants</CardTitle>
+            <CardDescription>Tailor the headline, talking points and questions for a different audience, each with its own link.</CardDescription>
+          </div>
+          <Button size="sm" onClick={() => openDialog(null)}>
+            <Plus className="mr-1.5 h-4 w-4" />New Variant
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6 text-sm text-gray-500"><Loader2 className="mr-2 h-4 w-4 animate-spin" />Loading variants...</div>
+        ) : variants.length === 0 ? (
+          <p className="py-6 text-center text-sm text-gray-500">No variants yet. Every pitch links to the base media kit.</p>
+        ) : (
+          <div className="space-y-2">
+            {variants.map(variant => {
+              const overridden = getOverriddenSections(variant);
+              const url = `${window.location.origin}/media-kit/${variant.slug}`;
+              return (
+                <div key={variant.variant_id} className="flex flex-col gap-2 rounded-lg border p-3 sm:flex-row sm:items-center sm:justify-between">
+                  <div className="min-w-0 space-y-1">
+                    <p className="font-medium">{variant.name}</p>
+                    <p className="truncate text-xs text-gray-500">/media-kit/{variant.slug}{variant.audience ? ` · ${variant.audience}` : ''}</p>
+                    <div className="flex flex-wrap gap-1">
+                      {overridden.length === 0 ? (
+                        <Badge variant="outline" className="text-xs text-gray-500">Same as base</Badge>
+                      ) : overridden.map(section => (
+                        <Badge key={section} variant="secondary" className="text-xs">{MEDIA_KIT_SECTIONS[section].label}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex shrink-0 gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Copy link"
+                      onClick={() => {
+                        navigator.clipboard.writeText(url);
+                        toast({ title: 'Link copied', description: `Link to the ${variant.name} variant copied to clipboard.` });
+                      }}
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <a href={url} target="_blank" rel="noopener noreferrer">
+                      <Button variant="ghost" size="sm" title="Open"><ExternalLink className="h-4 w-4" /></Button>
+                    </a>
+                    <Button variant="ghost" size="sm" title="Edit" onClick={() => openDialog(variant)}><Edit className="h-4 w-4" /></Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Delete"
+                      className="text-red-600 hover:text-red-700"
+                      onClick={() => handleDelete(variant)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <MediaKitVariantDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        campaignId={campaignId}
+        baseKit={baseKit}
+        variant={editingVariant}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,562 @@
+import { Fragment, type ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import {
+  Mail, Twitter, Linkedin, Instagram, Facebook, Youtube, ExternalLink, Mic, Sparkles, CheckCircle, ArrowRight, Quote,
+} from "lucide-react";
+import { Link as RouterLink } from "wouter";
+import { MarkdownRenderer } from "@/components/MarkdownRenderer";
+import { cn } from "@/lib/utils";
+import { getMediaKitBannerUrl, getMediaKitTheme, type MediaKitSectionId, type MediaKitTheme } from "@/lib/mediaKitThemes";
+import { isWebUrl } from "@/lib/testimonials";
+import type { PublicMediaKitData } from "@/types/mediaKit";
+
+interface MediaKitViewProps {
+  mediaKit: PublicMediaKitData;
+  theme?: MediaKitTheme; // Overrides mediaKit.theme_preference, used by the editor preview
+  toolbar?: ReactNode; // Rendered at the top of the main content (export/edit controls)
+  className?: string;
+}
+
+const getInitials = (name?: string | null) => {
+  if (!name) return "P";
+  const parts = name.split(" ");
+  if (parts.length > 1) return `${parts[0][0]}${parts[parts.length - 1][0]}`.toUpperCase();
+  return name[0].toUpperCase();
+};
+
+// Helper function to extract the main bio from full_bio_content
+const getMainBio = (fullBio?: string | null): string => {
+  if (!fullBio) return "";
+  // Assuming the main bio is the part before "**Summary Bio:**" or "**Short Bio:**"
+  // Or, if these markers are not present, use the whole content.
+  const summaryMarker = "\\n\\n**Summary Bio:**";
+  const shortMarker = "\\n\\n**Short Bio:**";
+
+  let mainBio = fullBio;
+  const summaryIndex = fullBio.indexOf(summaryMarker);
+  const shortIndex = fullBio.indexOf(shortMarker);
+
+  if (summaryIndex !== -1) {
+    mainBio = fullBio.substring(0, summaryIndex);
+  } else if (shortIndex !== -1) {
+    mainBio = fullBio.substring(0, shortIndex);
+  }
+
+  // Remove the "**Full Bio:**" prefix if present
+  if (mainBio.startsWith("**Full Bio:**")) {
+    mainBio = mainBio.substring("**Full Bio:**".length).trim();
+  }
+  return mainBio;
+};
+
+type AtAGlanceStats = PublicMediaKitData['at_a_glance_stats_custom'];
+
+// Extracting At-a-Glance stats from custom_sections
+function getAtAGlanceStats(content: any): AtAGlanceStats | undefined {
+  if (!content) return undefined;
+  let atAGlanceStats: AtAGlanceStats | undefined;
+
+  // Handle different possible data structures
+  if (Array.isArray(content)) {
+    // If content is an array, try to map the items to our expected structure
+    atAGlanceStats = {};
+    content.forEach((item: any) => {
+      if (typeof item === 'object' && item.label && item.value) {
+        const label = item.label.toLowerCase();
+        if (label.includes('podcast') || label.includes('appearance')) {
+          atAGlanceStats!.keynoteEngagements = item.value;
+        } else if (label.includes('year') || label.includes('experience')) {
+          atAGlanceStats!.yearsOfExperience = item.value;
+        } else if (label.includes('email') || label.includes('subscriber') || label.includes('automation')) {
+          atAGlanceStats!.emailSubscribers = item.value;
+        }
+      }
+    });
+  } else if (typeof content === 'object') {
+    // If content is an object, use it directly or map its properties
+    atAGlanceStats = content as AtAGlanceStats;
+
+    // Also check for alternative property names
+    if (!atAGlanceStats?.keynoteEngagements && (content.podcastAppearances || content.appearances)) {
+      atAGlanceStats = { ...atAGlanceStats, keynoteEngagements: content.podcastAppearances || content.appearances };
+    }
+    if (!atAGlanceStats?.yearsOfExperience && content.experience) {
+      atAGlanceStats = { ...atAGlanceStats, yearsOfExperience: content.experience };
+    }
+    if (!atAGlanceStats?.emailSubscribers && (content.subscribers || content.emailList)) {
+      atAGlanceStats = { ...atAGlanceStats, emailSubscribers: content.subscribers || content.emailList };
+    }
+  }
+  return atAGlanceStats;
+}
+
+// Parsing contact_information_for_booking
+function getBookingInfo(raw?: string | null) {
+  let bookingInfo: { booking_email?: string; website?: string; phone?: string; preferred_contact_for_hosts?: string; } = {};
+  if (!raw) return bookingInfo;
+  try {
+    bookingInfo = JSON.parse(raw);
+  } catch (e) {
+    // Fallback or default behavior if parsing fails
+    if (raw.startsWith('mailto:')) {
+      bookingInfo.booking_email = raw.substring('mailto:'.length);
+    } else if (raw.startsWith('http')) {
+      bookingInfo.website = raw;
+    }
+  }
+  return bookingInfo;
+}
+
+export function MediaKitView({ mediaKit, theme: themeOverride, toolbar, className }: MediaKitViewProps) {
+  const theme = themeOverride || getMediaKitTheme(mediaKit.theme_preference);
+  const t = theme.classes;
+  const bannerUrl = getMediaKitBannerUrl(mediaKit, theme);
+  const firstName = mediaKit.client_full_name && mediaKit.client_full_name.split(' ')[0];
+
+  // Handle multiple possible headshot URL structures
+  const primaryHeadshot = mediaKit.headshot_image_url || // New backend format
+                          mediaKit.headshot_image_urls?.[0]?.url || // Array format
+                          mediaKit.image_urls?.headshot_url; // Object format
+
+  // Use tagline from mediaKit if available, otherwise fallback to a generic or empty string
+  const tagline = mediaKit.tagline || mediaKit.headline || "Podcast Guest"; // Fallback for tagline
+
+  const atAGlanceSection = mediaKit.custom_sections?.find(section => section.title === "At a Glance Stats");
+  const atAGlanceStats = getAtAGlanceStats(atAGlanceSection?.content);
+  const bookingInfo = getBookingInfo(mediaKit.contact_information_for_booking);
+  // The public endpoint already filters to approved ones; re-checked so a pending quote can never render
+  const testimonials = (mediaKit.testimonials || []).filter(item => item.status === 'approved');
+
+  const socialLinks = mediaKit.person_social_links?.map(link => {
+    let IconComponent;
+    const platformLower = link.platform.toLowerCase();
+
+    if (platformLower.includes('linkedin')) IconComponent = Linkedin;
+    else if (platformLower.includes('twitter') || platformLower.includes('x.com')) IconComponent = Twitter;
+    else if (platformLower.includes('instagram')) IconComponent = Instagram;
+    else if (platformLower.includes('facebook')) IconComponent = Facebook;
+    else if (platformLower.includes('youtube')) IconComponent = Youtube;
+    // Add more platform checks and icons as needed
+
+    const targetUrl = link.url || link.handle;
+
+    if (IconComponent && targetUrl) {
+      return {
+        platform: link.platform,
+        url: targetUrl,
+        Icon: IconComponent,
+      };
+    }
+    return null;
+  }).filter(Boolean) as Array<{ platform: string; url: string; Icon: React.ElementType }> || [];
+
+  const statCardClass = cn("hover:shadow-lg p-6 rounded-lg border transition-all duration-300 text-center", t.card);
+
+  const headshot = primaryHeadshot ? (
+    <img
+      src={primaryHeadshot}
+      alt={mediaKit.client_full_name || "Headshot"}
+      className={cn("w-40 h-40 md:w-52 md:h-52 object-cover transform hover:scale-105 transition-transform duration-300", t.headshot)}
+    />
+  ) : (
+    <Avatar className={cn("w-40 h-40 md:w-52 md:h-52", t.headshot)}>
+      <AvatarFallback className="bg-slate-600 text-white text-4xl md:text-6xl font-bold">
+        {getInitials(mediaKit.client_full_name)}
+      </AvatarFallback>
+    </Avatar>
+  );
+
+  const heroText = (centered: boolean) => (
+    <div className="flex-grow">
+      {mediaKit.client_full_name && <h1 className={t.heroName}>{mediaKit.client_full_name}</h1>}
+      {tagline && (
+        <p className={cn("mt-3", t.heroTagline)}>
+          <MarkdownRenderer content={tagline} prose={false} className="inline" />
+        </p>
+      )}
+      {socialLinks.length > 0 && (
+        <div className={cn("mt-6 flex space-x-5", centered ? "justify-center" : "justify-center md:justify-start")}>
+          {socialLinks.map(({ Icon, url, platform }) => (
+            <a
+              key={platform}
+              href={url!}
+              target="_blank"
+              rel="noopener noreferrer"
+              className={cn("transform hover:scale-110 transition-transform duration-200", t.heroSocial)}
+              aria-label={`Link to ${platform}`}
+            >
+              <Icon className="h-7 w-7" />
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  const renderHero = () => {
+    switch (theme.hero) {
+      case "split":
+        return (
+          <header className={cn("relative shadow-xl md:flex md:min-h-[22rem]", t.hero)}>
+            <div className="relative md:w-3/5 px-6 lg:px-12 py-14 flex flex-col md:flex-row items-center text-center md:text-left gap-8">
+              <div className="flex-shrink-0">{headshot}</div>
+              {heroText(false)}
+            </div>
+            {bannerUrl && (
+              <div className="hidden md:block md:w-2/5 relative bg-cover bg-center" style={{ backgroundImage: `url('${bannerUrl}')` }}>
+                <div className={cn("absolute inset-0", t.heroOverlay)} />
+              </div>
+            )}
+          </header>
+        );
+      case "minimal":
+        return (
+          <header className={t.hero}>
+            {mediaKit.image_urls?.cover_image_url && (
+              <div className="h-32 md:h-40 bg-cover bg-center" style={{ backgroundImage: `url('${mediaKit.image_urls.cover_image_url}')` }} />
+            )}
+            <div className="max-w-3xl mx-auto px-6 py-12 md:py-16 flex flex-col items-center text-center gap-6">
+              {headshot}
+              {heroText(true)}
+            </div>
+          </header>
+        );
+      default: {
+        // image_overlay and solid share a layout; solid simply has no photo behind it
+        const showImage = theme.hero === "image_overlay" && !!bannerUrl;
+        return (
+          <header
+            className={cn("relative py-16 md:py-24 bg-cover bg-center shadow-xl", t.hero)}
+            style={{ backgroundImage: showImage ? `url('${bannerUrl}')` : 'none' }}
+          >
+            {showImage && <div className={cn("absolute inset-0", t.heroOverlay)}></div>}
+            <div className="relative max-w-6xl mx-auto px-6 lg:px-8 flex flex-col md:flex-row items-center text-center md:text-left gap-8 md:gap-10">
+              <div className="flex-shrink-0">{headshot}</div>
+              {heroText(false)}
+            </div>
+          </header>
+        );
+      }
+    }
+  };
+
+  // data-kit-section / data-kit-track attributes are picked up by the visitor analytics tracker (lib/mediaKitAnalytics)
+  const sections: Record<MediaKitSectionId, () => ReactNode> = {
+    about: () => mediaKit.full_bio_content && (
+      <section data-kit-section="about" className="py-4">
+        <h2 className={cn("mb-5", t.heading)}>About {firstName}</h2>
+        <MarkdownRenderer content={getMainBio(mediaKit.full_bio_content)} className={cn("prose-lg", t.body)} />
+      </section>
+    ),
+
+    at_a_glance: () => (atAGlanceStats || atAGlanceSection || (mediaKit.key_achievements && mediaKit.key_achievements.length > 0)) && (
+      <section data-kit-section="at_a_glance" className="py-4">
+        <h2 className={cn("mb-8 text-center", t.heading)}>At-a-Glance</h2>
+
+        {/* Render structured stats if available */}
+        {atAGlanceStats && (atAGlanceStats.keynoteEngagements || atAGlanceStats.yearsOfExperience || atAGlanceStats.emailSubscribers) && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
+            {atAGlanceStats?.keynoteEngagements && (
+              <Card className={statCardClass}>
+                <CardContent className="p-0">
+                  <div className={cn("text-3xl font-bold mb-2", t.accent)}>{atAGlanceStats.keynoteEngagements}</div>
+                  <div className={cn("text-base font-medium mb-1", t.body)}>Podcast Appearances</div>
+                  <div className={cn("text-sm", t.muted)}>Keynote Engagements</div>
+                </CardContent>
+              </Card>
+            )}
+            {atAGlanceStats?.yearsOfExperience && (
+              <Card className={statCardClass}>
+                <CardContent className="p-0">
+                  <div className={cn("text-3xl font-bold mb-2", t.accent)}>{atAGlanceStats.yearsOfExperience}</div>
+                  <div className={cn("text-base font-medium mb-1", t.body)}>Years in Remote First Digital Operations</div>
+                  <div className={cn("text-sm", t.muted)}>Years of Experience</div>
+                </CardContent>
+              </Card>
+            )}
+            {atAGlanceStats?.emailSubscribers && (
+              <Card className={statCardClass}>
+                <CardContent className="p-0">
+                  <div className={cn("text-3xl font-bold mb-2", t.accent)}>{atAGlanceStats.emailSubscribers}</div>
+                  <div className={cn("text-base font-medium mb-1", t.body)}>AI Automation Email Newsletter Subscribers</div>
+                  <div className={cn("text-sm", t.muted)}>Email Subscribers</div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+
+        {/* Fallback: Render raw content if structured data is not available */}
+        {!atAGlanceStats && atAGlanceSection?.content && (
+          <div className="mb-8">
+            {Array.isArray(atAGlanceSection.content) ? (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                {atAGlanceSection.content.map((item: any, index: number) => (
+                  <Card key={index} className={statCardClass}>
+                    <CardContent className="p-0">
+                      {typeof item === 'object' ? (
+                        <>
+                          <div className={cn("text-3xl font-bold mb-2", t.accent)}>
+                            {item.value || item.count || item.number || 'N/A'}
+                          </div>
+                          <div className={cn("text-base font-medium mb-1", t.body)}>
+                            {item.label || item.title || item.name || 'Stat'}
+                          </div>
+                          {item.description && <div className={cn("text-sm", t.muted)}>{item.description}</div>}
+                        </>
+                      ) : (
+                        <div className={cn("text-base", t.body)}>{String(item)}</div>
+                      )}
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            ) : typeof atAGlanceSection.content === 'object' ? (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                {Object.entries(atAGlanceSection.content).map(([key, value]) => (
+                  <Card key={key} className={statCardClass}>
+                    <CardContent className="p-0">
+                      <div className={cn("text-3xl font-bold mb-2", t.accent)}>{String(value)}</div>
+                      <div className={cn("text-base font-medium", t.body)}>
+                        {key.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase())}
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            ) : (
+              <div className={cn("text-center p-6 rounded-xl border", t.card)}>
+                <div className={cn("text-lg", t.body)}>{String(atAGlanceSection.content)}</div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {mediaKit.key_achievements && mediaKit.key_achievements.length > 0 && (
+          <Card className={cn("p-6 rounded-xl shadow-lg border", t.card)}>
+            <CardHeader>
+              <CardTitle className={cn("text-2xl font-semibold text-center", t.body)}>Key Achievements</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ul className={cn("list-disc list-inside space-y-2 marker:text-purple-600", t.body)}>
+                {mediaKit.key_achievements.map((achievement, index) => (
+                  <li key={index} className="ml-2">{achievement}</li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+      </section>
+    ),
+
+    social: () => !!(mediaKit.social_media_stats?.linkedin_followers_count || mediaKit.social_media_stats?.twitter_followers_count) && (
+      <section data-kit-section="social" className="py-4">
+        <h2 className={cn("mb-6", t.heading)}>Social Snapshot</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-5">
+          {mediaKit.social_media_stats?.linkedin_followers_count && (
+            <Card className={cn("p-5 rounded-xl shadow-lg border transition-all duration-300 flex items-center space-x-4", t.card)}>
+              <Linkedin className={cn("h-10 w-10 flex-shrink-0", t.accent)} />
+              <div>
+                <p className={cn("text-3xl font-extrabold", t.body)}>
+                  {mediaKit.social_media_stats.linkedin_followers_count.toLocaleString()}
+                </p>
+                <p className={cn("text-sm", t.muted)}>LinkedIn Followers</p>
+              </div>
+            </Card>
+          )}
+          {mediaKit.social_media_stats?.twitter_followers_count && (
+            <Card className={cn("p-5 rounded-xl shadow-lg border transition-all duration-300 flex items-center space-x-4", t.card)}>
+              <Twitter className={cn("h-10 w-10 flex-shrink-0", t.accent)} />
+              <div>
+                <p className={cn("text-3xl font-extrabold", t.body)}>
+                  {mediaKit.social_media_stats.twitter_followers_count.toLocaleString()}
+                </p>
+                <p className={cn("text-sm", t.muted)}>Twitter Followers</p>
+              </div>
+            </Card>
+          )}
+        </div>
+      </section>
+    ),
+
+    appearances: () => mediaKit.previous_appearances && mediaKit.previous_appearances.length > 0 && (
+      <section data-kit-section="appearances" className="py-4">
+        <h2 className={cn("mb-6", t.heading)}>Previous Appearances</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-5">
+          {mediaKit.previous_appearances.map((app, index) => (
+            <Card key={index} className={cn("hover:shadow-xl transition-shadow duration-300", t.card)}>
+              <CardHeader>
+                <CardTitle className={cn("text-xl", t.body)}>{app.title || app.outlet || "Appearance"}</CardTitle>
+                {app.outlet && app.title !== app.outlet && <CardDescription className={cn("text-sm", t.muted)}>{app.outlet}</CardDescription>}
+              </CardHeader>
+              <CardContent>
+                {app.description && <p className={cn("text-sm mb-3", t.body)}>{app.description}</p>}
+                {app.url && (
+                  <Button variant="outline" asChild className="text-primary border-primary hover:bg-primary/10 hover:text-primary">
+                    <a href={app.url} target="_blank" rel="noopener noreferrer" data-kit-track="appearance_click">
+                      {app.type === 'speaking_clip' ? "Watch Clip" : "Listen/View"} <ExternalLink className="ml-2 h-4 w-4"/>
+                    </a>
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </section>
+    ),
+
+    talking_points: () => mediaKit.talking_points && mediaKit.talking_points.length > 0 && (
+      <section data-kit-section="talking_points" className="py-4">
+        <h2 className={cn("mb-6", t.heading)}>Talking Points</h2>
+        <div className="space-y-4">
+          {mediaKit.talking_points.map((point, index) => (
+            <Card key={index} className={cn("shadow-md hover:shadow-lg transition-shadow", t.card)}>
+              <CardHeader>
+                <CardTitle className={cn("text-lg", t.body)}>
+                  <MarkdownRenderer content={point.title} prose={false} />
+                </CardTitle>
+              </CardHeader>
+              {point.description && (
+                <CardContent>
+                  <MarkdownRenderer content={point.description} prose={false} className={cn("text-sm", t.body)} />
+                </CardContent>
+              )}
+            </Card>
+          ))}
+        </div>
+      </section>
+    ),
+
+    questions: () => mediaKit.sample_questions && mediaKit.sample_questions.length > 0 && (
+      <section data-kit-section="questions" className="py-4">
+        <h2 className={cn("mb-6 flex items-center", t.heading)}>
+          <Mic className={cn("h-8 w-8 mr-3", t.accent)}/>Sample Questions
+        </h2>
+        <div className="columns-1 md:columns-2 gap-x-8">
+          <ul className={cn("list-none space-y-3 pl-0", t.body)}>
+            {mediaKit.sample_questions.map((question, index) => (
+              <li key={index} className={cn("mb-2 p-3 rounded-md border flex items-start", t.card)}>
+                <CheckCircle className={cn("h-5 w-5 mr-3 flex-shrink-0 mt-1", t.accent)} />
+                <span>{question}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </section>
+    ),
+
+    testimonials: () => (testimonials.length > 0 || mediaKit.testimonials_section) && (
+      <section data-kit-section="testimonials" className="py-4">
+        <h2 className={cn("mb-6", t.heading)}>Testimonials</h2>
+        {testimonials.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+            {testimonials.map(testimonial => (
+              <Card key={testimonial.testimonial_id} className={cn("flex flex-col shadow-md", t.card)}>
+                <CardContent className="flex-1 pt-6">
+                  <Quote className={cn("h-6 w-6 mb-3", t.accent)} />
+                  <p className={cn("italic leading-relaxed", t.body)}>{testimonial.quote}</p>
+                </CardContent>
+                <div className="flex items-center gap-3 px-6 pb-6">
+                  <Avatar className="h-10 w-10">
+                    {isWebUrl(testimonial.avatar_url) && <AvatarImage src={testimonial.avatar_url} alt={testimonial.author_name} />}
+                    <AvatarFallback>{getInitials(testimonial.author_name)}</AvatarFallback>
+                  </Avatar>
+                  <div className="min-w-0">
+                    <p className={cn("font-semibold text-sm", t.body)}>{testimonial.author_name}</p>
+                    {(testimonial.author_role || testimonial.media_name) && (
+                      <p className={cn("text-xs truncate", t.muted)}>
+                        {isWebUrl(testimonial.media_url) ? (
+                          <a href={testimonial.media_url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                            {testimonial.author_role || testimonial.media_name}
+                          </a>
+                        ) : testimonial.author_role || testimonial.media_name}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+        {mediaKit.testimonials_section && (
+          <div className={cn("p-6 md:p-8 rounded-xl shadow-xl border", testimonials.length > 0 && "mt-5", t.card)}>
+            <MarkdownRenderer content={mediaKit.testimonials_section} className="prose-lg" />
+          </div>
+        )}
+      </section>
+    ),
+
+    cta: () => (bookingInfo.booking_email || bookingInfo.website || mediaKit.call_to_action_text || mediaKit.call_to_action_url) && (
+      <section data-kit-section="cta" className={cn("text-center py-10 md:py-12 my-8", t.cta)}>
+        <h2 className={cn("text-3xl md:text-4xl font-bold mb-4 px-4", t.ctaHeading)}>
+          {mediaKit.call_to_action_text || `Interested in Booking ${firstName || "This Guest"}?`}
+        </h2>
+        {bookingInfo.preferred_contact_for_hosts && (
+          <p className={cn("mb-8 max-w-lg mx-auto px-4", t.ctaText)}>{bookingInfo.preferred_contact_for_hosts}</p>
+        )}
+        <Button
+          size="lg"
+          className={cn("font-semibold px-12 py-4 text-lg rounded-lg shadow-lg transform hover:scale-105 transition-transform duration-300", t.ctaButton)}
+          asChild={!!(mediaKit.call_to_action_url || bookingInfo.website || bookingInfo.booking_email)}
+        >
+          {mediaKit.call_to_action_url ? (
+            <a href={mediaKit.call_to_action_url.startsWith('http') ? mediaKit.call_to_action_url : `https://${mediaKit.call_to_action_url}`} target="_blank" rel="noopener noreferrer" data-kit-track="cta_click">
+              {mediaKit.call_to_action_text || "Book Now"} <ExternalLink className="ml-2 h-5 w-5"/>
+            </a>
+          ) : bookingInfo.website ? (
+            <a href={bookingInfo.website.startsWith('http') ? bookingInfo.website : `https://${bookingInfo.website}`} target="_blank" rel="noopener noreferrer" data-kit-track="cta_click">
+              Visit Website <ExternalLink className="ml-2 h-5 w-5"/>
+            </a>
+          ) : bookingInfo.booking_email ? (
+            <a href={`mailto:${bookingInfo.booking_email}?subject=Podcast Booking Inquiry for ${mediaKit.client_full_name || "Guest"}`} data-kit-track="cta_click">
+              Send Email <Mail className="ml-2 h-5 w-5"/>
+            </a>
+          ) : (
+            <span>{mediaKit.call_to_action_text || `Book ${mediaKit.client_full_name || "Guest"}`}</span>
+          )}
+        </Button>
+      </section>
+    ),
+  };
+
+  return (
+    <div className={cn("min-h-screen", t.page, className)}>
+      {renderHero()}
+
+      <main className={cn("max-w-5xl mx-auto py-10 md:py-16 px-4 sm:px-6 lg:px-8", t.main)}>
+        <div className="space-y-12 md:space-y-16 p-4 md:p-6">
+          {toolbar}
+
+          {theme.sectionOrder.map(sectionId => (
+            <Fragment key={sectionId}>{sections[sectionId]()}</Fragment>
+          ))}
+
+          {mediaKit.client_role === 'prospect' && (
+            <section className="px-6 md:px-10 py-10 bg-primary/10 border-t-4 border-primary text-center mt-12 rounded-xl shadow-lg">
+              <Sparkles className="h-10 w-10 mx-auto mb-4 text-primary" />
+              <h2 className="text-2xl font-semibold mb-3 text-slate-800">Activate Your Full Media Kit</h2>
+              <p className="mb-6 max-w-xl mx-auto text-md text-slate-600">
+                This is a preview of your media kit. Sign up to save your progress, unlock full editing capabilities, add GDoc content, get automated social stats, and much more!
+              </p>
+              <RouterLink href={`/signup?prospect_person_id=${mediaKit.person_id}&prospect_campaign_id=${mediaKit.campaign_id}`}>
+                <Button size="default" variant="default" className="bg-primary hover:bg-primary/90 text-primary-foreground font-semibold px-6 py-2.5 shadow-md transition-transform hover:scale-105">
+                  Sign Up & Unlock Features <ArrowRight className="ml-2 h-4 w-4" />
+                </Button>
+              </RouterLink>
+            </section>
+          )}
+        </div>
+      </main>
+
+      <footer className={cn("text-center py-10 mt-0 border-t", t.footer)}>
+        <p className="text-sm">&copy; {new Date().getFullYear()} {mediaKit.client_full_name || "Your Name"}. All Rights Reserved.</p>
+        {mediaKit.logo_image_url && (
+          <img src={mediaKit.logo_image_url} alt={`${mediaKit.client_full_name || "Client"} Logo`} className="h-10 mx-auto my-4 opacity-80"/>
+        )}
+        <p className="text-xs mt-2">Media Kit powered by PGL System</p>
+      </footer>
+    </div>
+  );
+}
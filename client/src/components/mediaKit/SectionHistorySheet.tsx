@@ -0,0 +1,192 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Bot, History, Loader2, RotateCcw, User } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { countChangedWords, diffWords } from '@/lib/wordDiff';
+import { MEDIA_KIT_SECTIONS, getVersionSourceLabel, pickSectionContent, sectionContentToText } from '@/lib/mediaKitVersions';
+import type { MediaKitSectionKey, MediaKitSectionVersion } from '@/types/mediaKit';
+
+interface SectionHistorySheetProps {
+  mediaKitId: string;
+  section: MediaKitSectionKey | null; // null keeps the sheet closed
+  currentContent: Record<string, unknown>; // The saved media kit; the relevant fields are picked out per section
+  onClose: () => void;
+  onRestored: () => void;
+}
+
+type CompareMode = 'current' | 'previous';
+
+export function SectionHistorySheet({ mediaKitId, section, currentContent, onClose, onRestored }: SectionHistorySheetProps) {
+  const { toast } = useToast();
+  const [selectedVersionId, setSelectedVersionId] = useState<string | null>(null);
+  const [compareMode, setCompareMode] = useState<CompareMode>('current');
+
+  const { data: versions = [], isLoading } = useQuery<MediaKitSectionVersion[]>({
+    queryKey: ['/media-kits/', mediaKitId, '/versions', { section }],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/media-kits/${mediaKitId}/versions?section=${section}`);
+      if (!res.ok) throw new Error('Failed to load version history');
+      return res.json();
+    },
+    enabled: !!section,
+    staleTime: 0,
+  });
+
+  useEffect(() => {
+    setSelectedVersionId(null);
+    setCompareMode('current');
+  }, [section]);
+
+  const currentText = section ? sectionContentToText(section, pickSectionContent(section, currentContent)) : '';
+  const sortedVersions = useMemo(
+    () => [...versions].sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()),
+    [versions]
+  );
+  const selectedIndex = sortedVersions.findIndex(v => v.version_id === selectedVersionId);
+  const selected = sortedVersions[selectedIndex] ?? sortedVersions[0];
+  const effectiveIndex = selected ? sortedVersions.indexOf(selected) : -1;
+
+  // Diff reads as "what restoring would do" against current, or "what this save changed" against the one before
+  const diff = useMemo(() => {
+    if (!section || !selected) return [];
+    const versionText = sectionContentToText(section, selected.content);
+    if (compareMode === 'current') return diffWords(currentText, versionText);
+    const previous = sortedVersions[effectiveIndex + 1];
+    return diffWords(previous ? sectionContentToText(section, previous.content) : '', versionText);
+  }, [section, selected, compareMode, currentText, sortedVersions, effectiveIndex]);
+  const changes = countChangedWords(diff);
+
+  const restoreMutation = useMutation({
+    mutationFn: async (version: MediaKitSectionVersion) => {
+      const params = new URLSearchParams({ section: version.section, restored_from: version.version_id });
+      const res = await apiRequest('PUT', `/media-kits/${mediaKitId}?${params.toString()}`, pickSectionContent(version.section, version.content));
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({ detail: 'Failed to restore version' }));
+        throw new Error(errorData.detail || 'Failed to restore version');
+      }
+      return res.json();
+    },
+    onSuccess: (_, version) => {
+      toast({
+        title: 'Version restored',
+        description: `${MEDIA_KIT_SECTIONS[version.section].label} is back to the version from ${format(new Date(version.created_at), 'MMM d, h:mm a')}.`,
+      });
+      onRestored();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Restore failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const isCurrent = (version: MediaKitSectionVersion) =>
+    !!section && sectionContentToText(section, version.content) === currentText;
+
+  return (
+    <Sheet open={!!section} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="right" className="w-full sm:max-w-2xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            {section ? MEDIA_KIT_SECTIONS[section].label : ''} history
+          </SheetTitle>
+          <SheetDescription>Every save and AI regeneration of this section. Pick a version to compare or restore it.</SheetDescription>
+        </SheetHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12 text-sm text-gray-500">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Loading history...
+          </div>
+        ) : sortedVersions.length === 0 ? (
+          <p className="py-12 text-center text-sm text-gray-500">No saved versions yet. Versions are recorded from the next save on.</p>
+        ) : (
+          <div className="grid flex-1 min-h-0 gap-4 mt-4 md:grid-cols-[220px_1fr]">
+            <ScrollArea className="md:h-full max-h-48 md:max-h-none pr-2">
+              <div className="space-y-1">
+                {sortedVersions.map(version => (
+                  <button
+                    key={version.version_id}
+                    type="button"
+                    onClick={() => setSelectedVersionId(version.version_id)}
+                    className={cn(
+                      'w-full rounded-md border p-2 text-left text-xs transition-colors',
+                      selected?.version_id === version.version_id ? 'border-primary bg-primary/5' : 'hover:bg-gray-50'
+                    )}
+                  >
+                    <div className="flex items-center gap-1.5 font-medium text-gray-800">
+                      {version.source === 'ai' ? <Bot className="h-3.5 w-3.5 text-purple-600" /> : <User className="h-3.5 w-3.5 text-gray-500" />}
+                      <span className="truncate">{version.author_name || (version.source === 'ai' ? 'AI generation' : 'Unknown')}</span>
+                    </div>
+                    <p className="mt-0.5 text-gray-500" title={format(new Date(version.created_at), 'PPpp')}>
+                      {formatDistanceToNow(new Date(version.created_at), { addSuffix: true })}
+                    </p>
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      <Badge variant="outline" className="text-[10px]">{getVersionSourceLabel(version)}</Badge>
+                      {isCurrent(version) && <Badge className="text-[10px] bg-green-100 text-green-800 hover:bg-green-100">Current</Badge>}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {selected && (
+              <div className="flex min-h-0 flex-col gap-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex rounded-md border p-0.5 text-xs">
+                    {(['current', 'previous'] as CompareMode[]).map(mode => (
+                      <button
+                        key={mode}
+                        type="button"
+                        onClick={() => setCompareMode(mode)}
+                        className={cn('rounded px-2 py-1', compareMode === mode ? 'bg-gray-900 text-white' : 'text-gray-600')}
+                      >
+                        {mode === 'current' ? 'vs. current' : 'vs. previous version'}
+                      </button>
+                    ))}
+                  </div>
+                  <span className="text-xs text-gray-500">
+                    <span className="text-green-700">+{changes.added}</span> / <span className="text-red-700">−{changes.removed}</span> words
+                  </span>
+                </div>
+                <ScrollArea className="flex-1 rounded-md border bg-gray-50 p-3">
+                  {changes.added === 0 && changes.removed === 0 ? (
+                    <p className="text-sm text-gray-500">No differences.</p>
+                  ) : (
+                    <p className="whitespace-pre-wrap text-sm leading-relaxed text-gray-800">
+                      {diff.map((part, index) => (
+                        <span
+                          key={index}
+                          className={cn(
+                            part.type === 'added' && 'bg-green-100 text-green-900',
+                            part.type === 'removed' && 'bg-red-100 text-red-900 line-through'
+                          )}
+                        >
+                          {part.text}
+                        </span>
+                      ))}
+                    </p>
+                  )}
+                </ScrollArea>
+                <div className="flex justify-end">
+                  <Button
+                    onClick={() => restoreMutation.mutate(selected)}
+                    disabled={restoreMutation.isPending || isCurrent(selected)}
+                  >
+                    {restoreMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+                    Restore this version
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
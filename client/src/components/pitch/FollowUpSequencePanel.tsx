@@ -0,0 +1,331 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { differenceInDays } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { usePitchSending } from '@/hooks/usePitchSending';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Clock, Loader2, Plus, Reply, Send, Settings2, Trash2 } from 'lucide-react';
+
+export interface FollowUpStep {
+  name: string;
+  delay_days: number; // Days after the original send with no reply
+  body_template: string;
+}
+
+export interface FollowUpCandidate {
+  pitch_id: number;
+  pitch_gen_id?: number | null;
+  media_id: number;
+  pitch_state?: string | null;
+  send_ts?: string | null;
+  reply_ts?: string | null;
+  subject_line?: string | null;
+  media_name?: string | null;
+  campaign_name?: string | null;
+  client_name?: string | null;
+  nylas_thread_id?: string | null;
+  follow_ups_sent?: number | null; // How many sequence steps have already gone out
+}
+
+interface FollowUpSequencePanelProps {
+  pitches: FollowUpCandidate[];
+  isLoadingPitches: boolean;
+}
+
+const DEFAULT_FOLLOW_UP_STEPS: FollowUpStep[] = [
+  {
+    name: 'Day 4 nudge',
+    delay_days: 4,
+    body_template: 'Hi there,\n\nJust bumping this up in case it got buried. I think {{client_name}} would be a great fit for {{podcast_name}} and would love to hear your thoughts.\n\nThanks!',
+  },
+  {
+    name: 'Day 10 final note',
+    delay_days: 10,
+    body_template: 'Hi again,\n\nI know inboxes get busy, so this will be my last note on this. If {{client_name}} isn\'t a fit for {{podcast_name}} right now, no worries at all. Happy to reconnect down the line.\n\nBest,',
+  },
+];
+
+const REPLIED_STATES = ['replied', 'replied_interested', 'live', 'paid', 'lost'];
+
+function renderFollowUpTemplate(template: string, pitch: FollowUpCandidate): string {
+  const values: Record<string, string> = {
+    podcast_name: pitch.media_name || 'your show',
+    client_name: pitch.client_name || 'my client',
+    campaign_name: pitch.campaign_name || '',
+    original_subject: pitch.subject_line || '',
+  };
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key) => values[key] ?? match);
+}
+
+function getReplySubject(subject?: string | null): string {
+  if (!subject) return 'Following up';
+  return /^re:/i.test(subject) ? subject : `Re: ${subject}`;
+}
+
+export function FollowUpSequencePanel({ pitches, isLoadingPitches }: FollowUpSequencePanelProps) {
+  const { toast } = useToast();
+  const { sendFollowUp, isPitchSending, isEmailConnected } = usePitchSending();
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [draft, setDraft] = useState<{ pitch: FollowUpCandidate; stepIndex: number; subject: string; body: string } | null>(null);
+
+  const { data: steps = DEFAULT_FOLLOW_UP_STEPS, isLoading: isLoadingSteps } = useQuery<FollowUpStep[]>({
+    queryKey: ['/pitches/follow-up-sequence'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/pitches/follow-up-sequence');
+      // No saved sequence yet, fall back to the defaults
+      if (response.status === 404) return DEFAULT_FOLLOW_UP_STEPS;
+      if (!response.ok) throw new Error('Failed to fetch follow-up sequence');
+      const data = await response.json();
+      return data.steps?.length ? data.steps : DEFAULT_FOLLOW_UP_STEPS;
+    },
+  });
+
+  const sortedSteps = useMemo(() => [...steps].sort((a, b) => a.delay_days - b.delay_days), [steps]);
+
+  // A pitch is due for step N when it has no reply, N-1 follow-ups have gone out and the delay has elapsed
+  const dueByStep = useMemo(() => {
+    return sortedSteps.map((step, stepIndex) => ({
+      step,
+      stepIndex,
+      pitches: pitches.filter(pitch => {
+        if (!pitch.send_ts || pitch.reply_ts) return false;
+        if (pitch.pitch_state && REPLIED_STATES.includes(pitch.pitch_state)) return false;
+        if ((pitch.follow_ups_sent ?? 0) !== stepIndex) return false;
+        return differenceInDays(new Date(), new Date(pitch.send_ts)) >= step.delay_days;
+      }),
+    }));
+  }, [sortedSteps, pitches]);
+
+  const totalDue = dueByStep.reduce((sum, group) => sum + group.pitches.length, 0);
+
+  const openDraft = (pitch: FollowUpCandidate, stepIndex: number) => {
+    setDraft({
+      pitch,
+      stepIndex,
+      subject: getReplySubject(pitch.subject_line),
+      body: renderFollowUpTemplate(sortedSteps[stepIndex].body_template, pitch),
+    });
+  };
+
+  const handleSend = () => {
+    if (!draft) return;
+    if (!draft.pitch.pitch_gen_id) {
+      toast({ title: 'Cannot Send', description: 'This pitch has no generation record to reply from.', variant: 'destructive' });
+      return;
+    }
+    sendFollowUp(
+      {
+        pitchGenId: draft.pitch.pitch_gen_id,
+        stepIndex: draft.stepIndex,
+        subject: draft.subject,
+        body: draft.body,
+        threadId: draft.pitch.nylas_thread_id,
+      },
+      { onSuccess: () => setDraft(null) }
+    );
+  };
+
+  if (isLoadingPitches || isLoadingSteps) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-base flex items-center">
+              <Reply className="h-4 w-4 mr-2 text-primary" />
+              Follow-up Sequence
+              {totalDue > 0 && <Badge className="ml-2">{totalDue} due</Badge>}
+            </CardTitle>
+            <CardDescription>
+              {sortedSteps.map(s => `${s.name} (day ${s.delay_days})`).join(' → ')}. Sequences stop as soon as a reply lands.
+            </CardDescription>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => setIsEditorOpen(true)}>
+            <Settings2 className="h-3.5 w-3.5 mr-1.5" /> Edit Steps
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {totalDue === 0 ? (
+          <p className="text-sm text-gray-500">No unanswered pitches are due for a follow-up right now.</p>
+        ) : dueByStep.filter(group => group.pitches.length > 0).map(group => (
+          <div key={group.stepIndex}>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">
+              {group.step.name} <span className="text-gray-400 font-normal">· {group.pitches.length} pitch{group.pitches.length !== 1 ? 'es' : ''}</span>
+            </h4>
+            <div className="space-y-2">
+              {group.pitches.map(pitch => (
+                <div key={pitch.pitch_id} className="flex items-center justify-between gap-3 rounded-md border p-2.5">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-800 truncate">{pitch.media_name || `Media ID: ${pitch.media_id}`}</p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {pitch.subject_line || 'No subject'} · <Clock className="inline h-3 w-3" /> sent {differenceInDays(new Date(), new Date(pitch.send_ts!))} days ago
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => openDraft(pitch, group.stepIndex)}
+                    disabled={!!pitch.pitch_gen_id && isPitchSending(pitch.pitch_gen_id)}
+                  >
+                    <Reply className="h-3.5 w-3.5 mr-1.5" /> Draft Follow-up
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Follow-up to {draft?.pitch.media_name || 'podcast'}</DialogTitle>
+            <DialogDescription>
+              {draft && sortedSteps[draft.stepIndex]?.name}. This will be sent as a reply in the original email thread.
+            </DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="follow-up-subject">Subject</Label>
+                <Input id="follow-up-subject" value={draft.subject} onChange={(e) => setDraft({ ...draft, subject: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="follow-up-body">Message</Label>
+                <Textarea id="follow-up-body" rows={10} value={draft.body} onChange={(e) => setDraft({ ...draft, body: e.target.value })} />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button
+              onClick={handleSend}
+              disabled={!draft?.body.trim() || !isEmailConnected || (!!draft?.pitch.pitch_gen_id && isPitchSending(draft.pitch.pitch_gen_id))}
+            >
+              {draft?.pitch.pitch_gen_id && isPitchSending(draft.pitch.pitch_gen_id)
+                ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                : <Send className="h-4 w-4 mr-2" />}
+              {isEmailConnected ? 'Send Follow-up' : 'Connect Gmail to Send'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <FollowUpStepsEditor open={isEditorOpen} onOpenChange={setIsEditorOpen} steps={sortedSteps} />
+    </Card>
+  );
+}
+
+function FollowUpStepsEditor({ open, onOpenChange, steps }: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  steps: FollowUpStep[];
+}) {
+  const { toast } = useToast();
+  const [editedSteps, setEditedSteps] = useState<FollowUpStep[]>(steps);
+
+  useEffect(() => {
+    if (open) setEditedSteps(steps);
+  }, [open, steps]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (newSteps: FollowUpStep[]) => {
+      const response = await apiRequest('PUT', '/pitches/follow-up-sequence', { steps: newSteps });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ detail: 'Failed to save follow-up sequence' }));
+        throw new Error(errorData.detail || 'Failed to save follow-up sequence');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'Sequence Saved', description: 'Follow-up steps have been updated.' });
+      queryClient.invalidateQueries({ queryKey: ['/pitches/follow-up-sequence'] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Save Failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const updateStep = (index: number, changes: Partial<FollowUpStep>) => {
+    setEditedSteps(prev => prev.map((step, i) => i === index ? { ...step, ...changes } : step));
+  };
+
+  const handleSave = () => {
+    const invalid = editedSteps.some(step => !step.name.trim() || !step.body_template.trim() || step.delay_days < 1);
+    if (invalid) {
+      toast({ title: 'Incomplete Steps', description: 'Every step needs a name, a template and a delay of at least one day.', variant: 'destructive' });
+      return;
+    }
+    saveMutation.mutate([...editedSteps].sort((a, b) => a.delay_days - b.delay_days));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Follow-up Steps</DialogTitle>
+          <DialogDescription>
+            Each step is offered once a pitch has gone that many days without a reply.
+            Templates can use {'{{podcast_name}}'}, {'{{client_name}}'}, {'{{campaign_name}}'} and {'{{original_subject}}'}.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {editedSteps.map((step, index) => (
+            <div key={index} className="rounded-md border p-3 space-y-3">
+              <div className="flex items-end gap-3">
+                <div className="flex-1 space-y-1">
+                  <Label>Step name</Label>
+                  <Input value={step.name} onChange={(e) => updateStep(index, { name: e.target.value })} />
+                </div>
+                <div className="w-28 space-y-1">
+                  <Label>Day</Label>
+                  <Input type="number" min={1} value={step.delay_days} onChange={(e) => updateStep(index, { delay_days: Number(e.target.value) })} />
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setEditedSteps(prev => prev.filter((_, i) => i !== index))}
+                  title="Remove step"
+                >
+                  <Trash2 className="h-4 w-4 text-red-500" />
+                </Button>
+              </div>
+              <Textarea rows={5} value={step.body_template} onChange={(e) => updateStep(index, { body_template: e.target.value })} />
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setEditedSteps(prev => [...prev, {
+              name: `Follow-up ${prev.length + 1}`,
+              delay_days: (prev[prev.length - 1]?.delay_days || 0) + 5,
+              body_template: '',
+            }])}
+          >
+            <Plus className="h-3.5 w-3.5 mr-1.5" /> Add Step
+          </Button>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saveMutation.isPending}>
+            {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Steps
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,20 +1,31 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
-import { Loader2, Send } from 'lucide-react';
+import { Eye, EyeOff, Loader2, Send } from 'lucide-react';
+import { VariableTextField } from '@/components/pitch/VariableTextField';
+import { RenderedVariableText } from '@/components/pitch/TemplatePreviewPanel';
+import { usePitchVariableContext } from '@/hooks/usePitchVariableContext';
+import { renderTemplate, templateLinksMediaKit } from '@/lib/pitchVariables';
+import { mintPitchRefToken } from '@/lib/mediaKitAnalytics';
+import { createRecipientShareLink, revokeShareLink } from '@/lib/mediaKitAccess';
+import type { MediaKitShareLink } from '@/types/mediaKit';
+import { MediaKitVariantSelect } from '@/components/mediaKit/MediaKitVariantSelect';
 
 interface ManualPitchEditorProps {
   isOpen: boolean;
   onClose: () => void;
   match: {
     match_id: number;
+    media_id?: number;
+    campaign_id?: string;
     media_name?: string;
     campaign_name?: string;
+    client_name?: string | null;
+    media_kit_variant_id?: string | null;
   };
   onSuccess: () => void;
 }
@@ -24,7 +35,18 @@ export function ManualPitchEditor({ isOpen, onClose, match, onSuccess }: ManualP
   const [bodyText, setBodyText] = useState('');
   const [recipientEmail, setRecipientEmail] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+  const [mediaKitVariantId, setMediaKitVariantId] = useState<string | null>(match.media_kit_variant_id ?? null);
+  // Kept across failed attempts so a retry reuses the tracking token instead of minting another
+  const refTokenRef = useRef<{ matchId: number; token: string } | null>(null);
   const { toast } = useToast();
+  const { context: variableContext, isLoading: isLoadingVariables } = usePitchVariableContext(
+    isOpen ? { ...match, media_kit_variant_id: mediaKitVariantId } : null
+  );
+
+  useEffect(() => {
+    if (isOpen) setMediaKitVariantId(match.media_kit_variant_id ?? null);
+  }, [isOpen, match.match_id, match.media_kit_variant_id]);
 
   const handleSubmit = async () => {
     // Validate inputs
@@ -46,13 +68,51 @@ export function ManualPitchEditor({ isOpen, onClose, match, onSuccess }: ManualP
       return;
     }
 
+    const renderedSubject = renderTemplate(subjectLine, variableContext);
+    const renderedBody = renderTemplate(bodyText, variableContext);
+    const unresolved = Array.from(new Set([...renderedSubject.unresolved, ...renderedBody.unresolved]));
+    if (unresolved.length > 0) {
+      toast({
+        title: 'Unfilled Variables',
+        description: `No value for ${unresolved.map(key => `{{${key}}}`).join(', ')}. Replace ${unresolved.length === 1 ? 'it' : 'them'} with text before creating the pitch.`,
+        variant: 'destructive',
+      });
+      setShowPreview(true);
+      return;
+    }
+
     setIsSubmitting(true);
 
+    // A media kit link gets its own tracking token, which the backend ties to the pitch created below.
+    // Links-only kits also need a share link for this recipient, or the host lands on the access gate.
+    const mediaKit = variableContext.mediaKit;
+    const linksMediaKit = !!mediaKit?.slug && (templateLinksMediaKit(subjectLine) || templateLinksMediaKit(bodyText));
+    const shareLinkKitId = linksMediaKit && mediaKit?.access_mode === 'links_only' ? mediaKit.media_kit_id ?? null : null;
+    let shareLink: MediaKitShareLink | null = null;
+
     try {
+      let mediaKitRefToken: string | null = null;
+      if (linksMediaKit) {
+        if (refTokenRef.current?.matchId !== match.match_id) {
+          refTokenRef.current = { matchId: match.match_id, token: await mintPitchRefToken(match.match_id) };
+        }
+        mediaKitRefToken = refTokenRef.current.token;
+      }
+      if (shareLinkKitId) {
+        shareLink = await createRecipientShareLink(shareLinkKitId, {
+          name: variableContext.media?.host_names?.[0] || match.media_name,
+          email: recipientEmail.trim() || variableContext.media?.contact_email,
+        });
+      }
+      const sendContext = { ...variableContext, mediaKitRefToken, mediaKitAccessToken: shareLink?.token ?? null };
+
       const requestBody: any = {
         match_id: match.match_id,
-        subject_line: subjectLine,
-        body_text: bodyText,
+        subject_line: renderTemplate(subjectLine, sendContext).text,
+        body_text: renderTemplate(bodyText, sendContext).text,
+        media_kit_variant_id: mediaKitVariantId,
+        media_kit_ref_token: mediaKitRefToken,
+        media_kit_share_link_id: shareLink?.link_id ?? null,
       };
       
       // Only include recipient_email if it's provided
@@ -66,6 +126,7 @@ export function ManualPitchEditor({ isOpen, onClose, match, onSuccess }: ManualP
         const errorData = await response.json().catch(() => ({ detail: 'Failed to create pitch' }));
         throw new Error(errorData.detail || 'Failed to create pitch');
       }
+      refTokenRef.current = null;
 
       toast({
         title: 'Pitch Created',
@@ -76,11 +137,17 @@ export function ManualPitchEditor({ isOpen, onClose, match, onSuccess }: ManualP
       setSubjectLine('');
       setBodyText('');
       setRecipientEmail('');
+      setShowPreview(false);
       
       // Notify parent of success
       onSuccess();
       onClose();
     } catch (error: any) {
+      // No pitch was created, so the recipient's share link would otherwise stay live with nothing pointing at it
+      if (shareLinkKitId && shareLink) {
+        revokeShareLink(shareLinkKitId, shareLink.link_id).catch(revokeError =>
+          console.error('Failed to revoke unused media kit share link', revokeError));
+      }
       toast({
         title: 'Creation Failed',
         description: error.message || 'Failed to create manual pitch.',
@@ -100,10 +167,10 @@ export function ManualPitchEditor({ isOpen, onClose, match, onSuccess }: ManualP
   // Sample templates for inspiration
   const templates = {
     friendly: {
-      subject: `Love what you're doing with ${match.media_name || 'your podcast'}!`,
-      body: `Hi [Host Name],
+      subject: `Love what you're doing with {{podcast_name}}!`,
+      body: `Hi {{host_first_name}},
 
-I've been following ${match.media_name || 'your podcast'} and really enjoyed your recent episode about [topic]. Your insights on [specific point] really resonated with me.
+I've been following {{podcast_name}} and really enjoyed your recent episode "{{recent_episode_title}}". Your insights on [specific point] really resonated with me.
 
 [Your introduction and value proposition]
 
@@ -113,19 +180,19 @@ Best regards,
 [Your name]`,
     },
     professional: {
-      subject: `Partnership Opportunity with ${match.media_name || 'your podcast'}`,
-      body: `Dear [Host Name],
+      subject: `Partnership Opportunity with {{podcast_name}}`,
+      body: `Dear {{host_first_name}},
 
-I'm reaching out regarding a potential collaboration with ${match.media_name || 'your podcast'}.
+I'm reaching out regarding a potential collaboration with {{podcast_name}}.
 
 [Your credentials and expertise]
 
 I believe I could provide valuable insights on:
-• [Topic 1]
+• {{client_top_angle}}
 • [Topic 2]
 • [Topic 3]
 
-Would you be interested in having me as a guest?
+Would you be interested in having me as a guest? You can find my media kit here: {{media_kit_url}}
 
 Sincerely,
 [Your name]`,
@@ -187,15 +254,30 @@ Sincerely,
             <p className="text-xs text-gray-500">Override the default contact email for this podcast</p>
           </div>
 
+          {/* Media kit variant behind {{media_kit_url}} */}
+          <MediaKitVariantSelect
+            campaignId={match.campaign_id}
+            value={mediaKitVariantId}
+            onChange={setMediaKitVariantId}
+            disabled={isSubmitting}
+            className="w-full sm:w-[260px]"
+          />
+          {variableContext.mediaKit?.access_mode === 'links_only' && (
+            <p className="text-xs text-gray-500">
+              This media kit only opens through share links. Creating the pitch adds a share link for this recipient, which you can revoke from the media kit's share links.
+            </p>
+          )}
+
           {/* Subject Line */}
           <div className="space-y-2">
-            <Label htmlFor="subject">Subject Line *</Label>
-            <Input
+            <VariableTextField
               id="subject"
+              label={<Label htmlFor="subject">Subject Line *</Label>}
               placeholder="Enter an engaging subject line..."
               value={subjectLine}
-              onChange={(e) => setSubjectLine(e.target.value)}
+              onChange={setSubjectLine}
               disabled={isSubmitting}
+              includeAiVariables={false}
               maxLength={200}
             />
             <p className="text-xs text-gray-500">{subjectLine.length}/200 characters</p>
@@ -203,20 +285,45 @@ Sincerely,
 
           {/* Email Body */}
           <div className="space-y-2">
-            <Label htmlFor="body">Email Body *</Label>
-            <Textarea
+            <VariableTextField
               id="body"
-              placeholder="Write your pitch here..."
+              label={<Label htmlFor="body">Email Body *</Label>}
+              placeholder={"Hi {{host_first_name}},\n\nWrite your pitch here..."}
               value={bodyText}
-              onChange={(e) => setBodyText(e.target.value)}
+              onChange={setBodyText}
               disabled={isSubmitting}
+              multiline
+              includeAiVariables={false}
               className="min-h-[300px] font-mono text-sm"
             />
             <p className="text-xs text-gray-500">
-              Tip: Personalize your pitch by mentioning specific episodes or topics from the podcast.
+              Tip: Type {'{{'} to insert podcast and client details, or personalize by mentioning specific episodes or topics from the podcast.
             </p>
           </div>
 
+          {/* Rendered Preview */}
+          {(subjectLine.includes('{{') || bodyText.includes('{{')) && (
+            <div className="border rounded-lg">
+              <button
+                type="button"
+                className="flex w-full items-center justify-between px-3 py-2 text-sm font-medium text-gray-700"
+                onClick={() => setShowPreview(prev => !prev)}
+              >
+                <span className="flex items-center">
+                  {showPreview ? <EyeOff className="h-4 w-4 mr-2" /> : <Eye className="h-4 w-4 mr-2" />}
+                  Preview with {match.media_name || 'this podcast'}'s details
+                </span>
+                {isLoadingVariables && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+              </button>
+              {showPreview && !isLoadingVariables && (
+                <div className="border-t bg-gray-50 p-3 space-y-2 text-sm">
+                  <p className="font-medium"><RenderedVariableText text={subjectLine} context={variableContext} /></p>
+                  <RenderedVariableText text={bodyText} context={variableContext} />
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Writing Tips */}
           <div className="border-l-4 border-blue-500 bg-blue-50 p-3">
             <h4 className="font-medium text-sm mb-2">💡 Tips for a great pitch:</h4>
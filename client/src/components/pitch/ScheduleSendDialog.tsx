@@ -0,0 +1,176 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { CalendarClock, Loader2 } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { usePitchSending } from '@/hooks/usePitchSending';
+import {
+  formatInTimezone, getNextWeekdayMorning, getSenderTimezone, guessHostTimezone,
+  parseLocalDateTimeInput, staggerSendTimes, toLocalDateTimeInput,
+} from '@/lib/sendSchedule';
+
+export interface SchedulablePitch {
+  pitch_gen_id: number;
+  media_name?: string | null;
+  recipient_email?: string | null;
+  host_timezone?: string | null;
+  scheduled_send_at?: string | null;
+}
+
+interface ScheduleSendDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  pitches: SchedulablePitch[];
+  mode?: 'schedule' | 'reschedule';
+  onScheduled?: () => void;
+}
+
+type ScheduleMode = 'specific' | 'host_morning';
+
+export function ScheduleSendDialog({ open, onOpenChange, pitches, mode = 'schedule', onScheduled }: ScheduleSendDialogProps) {
+  const { user } = useAuth();
+  const { schedulePitches, reschedulePitch, isScheduling } = usePitchSending();
+  const senderTimezone = getSenderTimezone(user?.timezone);
+
+  const [scheduleMode, setScheduleMode] = useState<ScheduleMode>('host_morning');
+  const [specificTime, setSpecificTime] = useState('');
+  const [stagger, setStagger] = useState(true);
+  const [minGap, setMinGap] = useState(4);
+  const [maxGap, setMaxGap] = useState(15);
+  const [seed, setSeed] = useState(0); // Bumped to re-roll the random gaps
+
+  const existingSendAt = pitches[0]?.scheduled_send_at;
+
+  useEffect(() => {
+    if (!open) return;
+    const initial = existingSendAt ? new Date(existingSendAt) : getNextWeekdayMorning(senderTimezone);
+    setSpecificTime(toLocalDateTimeInput(initial, senderTimezone));
+    setScheduleMode(mode === 'reschedule' ? 'specific' : 'host_morning');
+    setSeed(s => s + 1);
+  }, [open, mode, existingSendAt, senderTimezone]);
+
+  const isBatch = pitches.length > 1;
+  // Callers usually pass a freshly mapped array, so key the plan on content rather than identity
+  const pitchesKey = pitches.map(p => `${p.pitch_gen_id}:${p.recipient_email || ''}:${p.host_timezone || ''}`).join('|');
+
+  // Each host gets their own morning; within a timezone the batch is staggered from that start
+  const plannedTimes = useMemo(() => {
+    if (pitches.length === 0) return [];
+    if (scheduleMode === 'specific') {
+      const start = parseLocalDateTimeInput(specificTime, senderTimezone);
+      if (!start) return [];
+      const times = stagger && isBatch ? staggerSendTimes(start, pitches.length, minGap, maxGap) : pitches.map(() => start);
+      return pitches.map((pitch, i) => ({ pitch, sendAt: times[i], hostTimezone: null as string | null }));
+    }
+
+    const byTimezone = new Map<string, SchedulablePitch[]>();
+    pitches.forEach(pitch => {
+      const tz = guessHostTimezone({ hostTimezone: pitch.host_timezone, recipientEmail: pitch.recipient_email, fallback: senderTimezone });
+      byTimezone.set(tz, [...(byTimezone.get(tz) || []), pitch]);
+    });
+    const planned: { pitch: SchedulablePitch; sendAt: Date; hostTimezone: string | null }[] = [];
+    byTimezone.forEach((group, tz) => {
+      const start = getNextWeekdayMorning(tz);
+      const times = stagger && group.length > 1 ? staggerSendTimes(start, group.length, minGap, maxGap) : group.map(() => start);
+      group.forEach((pitch, i) => planned.push({ pitch, sendAt: times[i], hostTimezone: tz }));
+    });
+    return planned;
+  }, [pitchesKey, scheduleMode, specificTime, stagger, minGap, maxGap, senderTimezone, isBatch, seed]);
+
+  const hasPastTime = plannedTimes.some(p => p.sendAt.getTime() <= Date.now());
+
+  const handleConfirm = () => {
+    if (plannedTimes.length === 0 || hasPastTime) return;
+    const done = { onSuccess: () => { onOpenChange(false); onScheduled?.(); } };
+    if (mode === 'reschedule') {
+      const [first] = plannedTimes;
+      reschedulePitch({ pitch_gen_id: first.pitch.pitch_gen_id, send_at: first.sendAt.toISOString() }, done);
+      return;
+    }
+    schedulePitches({
+      items: plannedTimes.map(p => ({ pitch_gen_id: p.pitch.pitch_gen_id, send_at: p.sendAt.toISOString() })),
+      senderTimezone,
+    }, done);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <CalendarClock className="h-5 w-5 mr-2 text-primary" />
+            {mode === 'reschedule' ? 'Reschedule Pitch' : `Schedule ${pitches.length} Pitch${pitches.length !== 1 ? 'es' : ''}`}
+          </DialogTitle>
+          <DialogDescription>Times are entered in your timezone ({senderTimezone}).</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={scheduleMode} onValueChange={(value) => setScheduleMode(value as ScheduleMode)} className="space-y-2">
+            <div className="flex items-start space-x-2">
+              <RadioGroupItem value="host_morning" id="schedule-host-morning" className="mt-0.5" />
+              <Label htmlFor="schedule-host-morning" className="font-normal leading-snug">
+                Next weekday morning (9:00) in the host's likely timezone
+              </Label>
+            </div>
+            <div className="flex items-start space-x-2">
+              <RadioGroupItem value="specific" id="schedule-specific" className="mt-0.5" />
+              <Label htmlFor="schedule-specific" className="font-normal">Specific date and time</Label>
+            </div>
+          </RadioGroup>
+
+          {scheduleMode === 'specific' && (
+            <Input type="datetime-local" value={specificTime} onChange={(e) => setSpecificTime(e.target.value)} />
+          )}
+
+          {isBatch && mode === 'schedule' && (
+            <div className="rounded-md border p-3 space-y-3">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="schedule-stagger" className="font-normal">Stagger sends with random gaps</Label>
+                <Switch id="schedule-stagger" checked={stagger} onCheckedChange={setStagger} />
+              </div>
+              {stagger && (
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="text-gray-600">Between</span>
+                  <Input type="number" min={0} className="w-20 h-8" value={minGap} onChange={(e) => setMinGap(Number(e.target.value))} />
+                  <span className="text-gray-600">and</span>
+                  <Input type="number" min={0} className="w-20 h-8" value={maxGap} onChange={(e) => setMaxGap(Number(e.target.value))} />
+                  <span className="text-gray-600">minutes</span>
+                  <Button type="button" variant="ghost" size="sm" onClick={() => setSeed(s => s + 1)}>Re-roll</Button>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="max-h-48 overflow-y-auto rounded-md border divide-y text-sm">
+            {plannedTimes.length === 0 ? (
+              <p className="p-3 text-gray-500">Pick a valid date and time.</p>
+            ) : plannedTimes.map(({ pitch, sendAt, hostTimezone }) => (
+              <div key={pitch.pitch_gen_id} className="flex items-center justify-between gap-2 px-3 py-2">
+                <span className="truncate text-gray-800">{pitch.media_name || pitch.recipient_email || `Pitch #${pitch.pitch_gen_id}`}</span>
+                <span className="text-xs text-gray-500 text-right flex-shrink-0">
+                  {formatInTimezone(sendAt, senderTimezone)}
+                  {hostTimezone && hostTimezone !== senderTimezone && (
+                    <span className="block">host: {formatInTimezone(sendAt, hostTimezone)}</span>
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+          {hasPastTime && <p className="text-sm text-red-600">Scheduled times must be in the future.</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleConfirm} disabled={isScheduling || plannedTimes.length === 0 || hasPastTime}>
+            {isScheduling ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CalendarClock className="h-4 w-4 mr-2" />}
+            {mode === 'reschedule' ? 'Reschedule' : 'Schedule'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
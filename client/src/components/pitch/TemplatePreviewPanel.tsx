@@ -0,0 +1,119 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Eye, Sparkles } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { renderTemplateSegments, type PitchVariableContext, type RenderedSegment } from '@/lib/pitchVariables';
+import { usePitchVariableContext, type PitchVariableMatch } from '@/hooks/usePitchVariableContext';
+
+// Renders text with resolved variables highlighted and unresolved ones flagged
+export function RenderedVariableText({ text, context }: { text: string; context: PitchVariableContext }) {
+  const segments = renderTemplateSegments(text, context);
+  const segmentClass: Record<RenderedSegment['kind'], string> = {
+    text: '',
+    value: 'bg-green-50 text-green-900 rounded px-0.5',
+    missing: 'bg-amber-100 text-amber-800 rounded px-0.5 font-mono text-xs',
+    unknown: 'bg-red-100 text-red-700 rounded px-0.5 font-mono text-xs line-through',
+    ai: 'bg-purple-50 text-purple-700 rounded px-0.5 font-mono text-xs',
+  };
+  const segmentTitle = (segment: RenderedSegment) => {
+    if (segment.kind === 'text') return undefined;
+    if (segment.kind === 'value') return `{{${segment.key}}}`;
+    if (segment.kind === 'missing') return 'No value for this match';
+    if (segment.kind === 'ai') return 'Filled in by AI during generation';
+    return 'Unknown variable';
+  };
+  return (
+    <span className="whitespace-pre-wrap">
+      {segments.map((segment, i) => (
+        <span key={i} className={segmentClass[segment.kind]} title={segmentTitle(segment)}>{segment.text}</span>
+      ))}
+    </span>
+  );
+}
+
+interface TemplatePreviewPanelProps {
+  text: string;
+  subject?: string;
+}
+
+// Side-by-side preview of a template rendered against a real approved match
+export function TemplatePreviewPanel({ text, subject }: TemplatePreviewPanelProps) {
+  const [selectedMatchId, setSelectedMatchId] = useState<string>('');
+
+  const { data: matches = [], isLoading: isLoadingMatches } = useQuery<PitchVariableMatch[]>({
+    queryKey: ['approvedMatchesForPitching', null, false],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/match-suggestions/approved-without-pitches');
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ detail: 'Failed to fetch approved matches' }));
+        throw new Error(errorData.detail || 'Failed to fetch approved matches');
+      }
+      return response.json();
+    },
+  });
+
+  useEffect(() => {
+    if (!selectedMatchId && matches.length > 0) setSelectedMatchId(String(matches[0].match_id));
+  }, [matches, selectedMatchId]);
+
+  const selectedMatch = matches.find(m => String(m.match_id) === selectedMatchId) || null;
+  const { context, isLoading } = usePitchVariableContext(selectedMatch);
+
+  return (
+    <div className="flex h-full flex-col rounded-md border bg-gray-50">
+      <div className="flex items-center justify-between gap-2 border-b bg-white px-3 py-2">
+        <span className="flex items-center text-sm font-medium text-gray-700">
+          <Eye className="h-4 w-4 mr-1.5" />
+          Preview
+        </span>
+        <Select value={selectedMatchId} onValueChange={setSelectedMatchId} disabled={matches.length === 0}>
+          <SelectTrigger className="h-8 w-56 text-xs">
+            <SelectValue placeholder={isLoadingMatches ? 'Loading matches...' : 'No approved matches'} />
+          </SelectTrigger>
+          <SelectContent>
+            {matches.map(match => (
+              <SelectItem key={match.match_id} value={String(match.match_id)} className="text-xs">
+                {match.media_name || `Media #${match.media_id}`}{match.campaign_name ? ` · ${match.campaign_name}` : ''}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex-1 overflow-y-auto p-3 text-sm text-gray-800">
+        {!selectedMatch ? (
+          <p className="text-gray-500">
+            {isLoadingMatches ? 'Loading...' : 'Approve a podcast match to preview this template against real data.'}
+          </p>
+        ) : isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-4 w-3/4" />
+            <Skeleton className="h-4 w-full" />
+            <Skeleton className="h-4 w-5/6" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {subject !== undefined && (
+              <div>
+                <p className="text-xs font-medium text-gray-500 mb-0.5">Subject</p>
+                <RenderedVariableText text={subject} context={context} />
+              </div>
+            )}
+            <RenderedVariableText text={text} context={context} />
+          </div>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-1.5 border-t bg-white px-3 py-2 text-[11px]">
+        <Badge variant="outline" className="bg-green-50 text-green-800 font-normal">Filled</Badge>
+        <Badge variant="outline" className="bg-amber-100 text-amber-800 font-normal">No value</Badge>
+        <Badge variant="outline" className="bg-red-100 text-red-700 font-normal">Unknown</Badge>
+        <Badge variant="outline" className="bg-purple-50 text-purple-700 font-normal">
+          <Sparkles className="h-3 w-3 mr-1" />
+          AI fills
+        </Badge>
+      </div>
+    </div>
+  );
+}
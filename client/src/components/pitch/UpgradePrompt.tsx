@@ -8,6 +8,8 @@ interface UpgradePromptProps {
   message?: string;
   features?: string[];
   onUpgrade?: () => void;
+  upgradeUrl?: string; // Plan-specific upgrade page; absolute URLs leave the app
+  title?: string;
   variant?: 'inline' | 'banner' | 'modal';
 }
 
@@ -15,6 +17,8 @@ export function UpgradePrompt({
   message = 'Upgrade to Premium for advanced features',
   features = [],
   onUpgrade,
+  upgradeUrl = '/settings/subscription',
+  title = 'Premium Feature',
   variant = 'banner'
 }: UpgradePromptProps) {
   const [, setLocation] = useLocation();
@@ -22,8 +26,10 @@ export function UpgradePrompt({
   const handleUpgrade = () => {
     if (onUpgrade) {
       onUpgrade();
+    } else if (/^https?:\/\//i.test(upgradeUrl)) {
+      window.location.href = upgradeUrl;
     } else {
-      setLocation('/settings/subscription');
+      setLocation(upgradeUrl);
     }
   };
 
@@ -34,7 +40,7 @@ export function UpgradePrompt({
           <div className="flex-1">
             <div className="flex items-center gap-2 mb-2">
               <Sparkles className="h-5 w-5 text-purple-600" />
-              <h4 className="font-semibold text-gray-900">Premium Feature</h4>
+              <h4 className="font-semibold text-gray-900">{title}</h4>
               <Badge variant="secondary" className="text-xs">Upgrade Required</Badge>
             </div>
             <p className="text-sm text-gray-600 mb-3">{message}</p>
@@ -0,0 +1,210 @@
+import { forwardRef, useImperativeHandle, useMemo, useRef, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { AlertTriangle, Braces, Sparkles } from 'lucide-react';
+import { PITCH_VARIABLES, formatVariableToken, lintTemplate, type PitchVariable } from '@/lib/pitchVariables';
+
+const VARIABLE_GROUPS: PitchVariable['group'][] = ['Podcast', 'Client', 'Campaign', 'AI'];
+
+interface VariableInsertMenuProps {
+  onInsert: (key: string) => void;
+  includeAiVariables?: boolean;
+  disabled?: boolean;
+}
+
+export function VariableInsertMenu({ onInsert, includeAiVariables = true, disabled }: VariableInsertMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button type="button" variant="outline" size="sm" className="h-7 text-xs" disabled={disabled}>
+          <Braces className="h-3.5 w-3.5 mr-1" />
+          Insert variable
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-72 max-h-80 overflow-y-auto">
+        {VARIABLE_GROUPS.filter(group => includeAiVariables || group !== 'AI').map((group, index) => (
+          <div key={group}>
+            {index > 0 && <DropdownMenuSeparator />}
+            <DropdownMenuLabel className="text-xs text-gray-500">{group}</DropdownMenuLabel>
+            {PITCH_VARIABLES.filter(v => v.group === group).map(variable => (
+              <DropdownMenuItem key={variable.key} onSelect={() => onInsert(variable.key)} className="flex flex-col items-start">
+                <span className="font-mono text-xs">{formatVariableToken(variable.key)}</span>
+                <span className="text-xs text-gray-500">{variable.description}</span>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+export interface VariableTextFieldHandle {
+  insertVariable: (key: string) => void;
+}
+
+interface VariableTextFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+  multiline?: boolean;
+  rows?: number;
+  placeholder?: string;
+  className?: string;
+  id?: string;
+  disabled?: boolean;
+  includeAiVariables?: boolean; // AI-only variables are meaningless in hand-written pitches
+  showInsertMenu?: boolean;
+  label?: React.ReactNode;
+  maxLength?: number;
+}
+
+// Text input that autocompletes `{{` into known merge variables and flags unknown ones
+export const VariableTextField = forwardRef<VariableTextFieldHandle, VariableTextFieldProps>(function VariableTextField(
+  { value, onChange, multiline = false, rows, placeholder, className, id, disabled, includeAiVariables = true, showInsertMenu = true, label, maxLength },
+  ref,
+) {
+  const fieldRef = useRef<HTMLInputElement & HTMLTextAreaElement>(null);
+  const [query, setQuery] = useState<{ text: string; start: number } | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const available = useMemo(
+    () => PITCH_VARIABLES.filter(v => includeAiVariables || !v.aiOnly),
+    [includeAiVariables],
+  );
+  const suggestions = query
+    ? available.filter(v => v.key.includes(query.text.toLowerCase()) || v.label.toLowerCase().includes(query.text.toLowerCase())).slice(0, 8)
+    : [];
+  const issues = useMemo(() => lintTemplate(value, { allowAiVariables: includeAiVariables }), [value, includeAiVariables]);
+
+  const updateQuery = (text: string, caret: number) => {
+    const match = /\{\{\s*(\w*)$/.exec(text.slice(0, caret));
+    setQuery(match ? { text: match[1], start: match.index } : null);
+    setHighlighted(0);
+  };
+
+  const replaceRange = (start: number, end: number, key: string) => {
+    const token = formatVariableToken(key);
+    const next = value.slice(0, start) + token + value.slice(end);
+    if (maxLength !== undefined && next.length > maxLength) return; // The native limit only covers typing
+    onChange(next);
+    setQuery(null);
+    const caret = start + token.length;
+    requestAnimationFrame(() => {
+      fieldRef.current?.focus();
+      fieldRef.current?.setSelectionRange(caret, caret);
+    });
+  };
+
+  const insertVariable = (key: string) => {
+    const el = fieldRef.current;
+    const start = el?.selectionStart ?? value.length;
+    const end = el?.selectionEnd ?? value.length;
+    replaceRange(start, end, key);
+  };
+
+  useImperativeHandle(ref, () => ({ insertVariable }));
+
+  const applySuggestion = (key: string) => {
+    if (!query) return;
+    const caret = fieldRef.current?.selectionStart ?? value.length;
+    // Swallow closing braces the user may already have typed
+    const closing = /^\s*\}{0,2}/.exec(value.slice(caret))?.[0].length ?? 0;
+    replaceRange(query.start, caret + closing, key);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (suggestions.length === 0) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted(i => (i + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(i => (i - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      applySuggestion(suggestions[highlighted].key);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setQuery(null);
+    }
+  };
+
+  const fieldProps = {
+    id,
+    value,
+    placeholder,
+    disabled,
+    className,
+    maxLength,
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+      onChange(e.target.value);
+      updateQuery(e.target.value, e.target.selectionStart ?? e.target.value.length);
+    },
+    onKeyDown: handleKeyDown,
+    onClick: (e: React.MouseEvent<HTMLInputElement | HTMLTextAreaElement>) => updateQuery(value, e.currentTarget.selectionStart ?? value.length),
+    onBlur: () => setTimeout(() => setQuery(null), 150), // Let clicks on a suggestion land first
+  };
+
+  return (
+    <div className="space-y-1.5">
+      {(label || showInsertMenu) && (
+        <div className="flex items-center justify-between gap-2">
+          {label ?? <span />}
+          {showInsertMenu && <VariableInsertMenu onInsert={insertVariable} includeAiVariables={includeAiVariables} disabled={disabled} />}
+        </div>
+      )}
+      <div className="relative">
+        {multiline
+          ? <Textarea ref={fieldRef} rows={rows} {...fieldProps} />
+          : <Input ref={fieldRef} {...fieldProps} />}
+        {suggestions.length > 0 && (
+          <div className="absolute left-0 right-0 top-full z-50 mt-1 max-h-56 overflow-y-auto rounded-md border bg-white shadow-md">
+            {suggestions.map((variable, index) => (
+              <button
+                key={variable.key}
+                type="button"
+                className={`flex w-full items-center justify-between gap-2 px-3 py-1.5 text-left text-sm ${index === highlighted ? 'bg-gray-100' : 'hover:bg-gray-50'}`}
+                onMouseDown={(e) => { e.preventDefault(); applySuggestion(variable.key); }}
+              >
+                <span className="font-mono text-xs">{formatVariableToken(variable.key)}</span>
+                <span className="flex items-center text-xs text-gray-500 truncate">
+                  {variable.aiOnly && <Sparkles className="h-3 w-3 mr-1 text-purple-500" />}
+                  {variable.label}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      {issues.length > 0 && (
+        <div className="space-y-0.5">
+          {issues.map(issue => (
+            <p key={`${issue.index}-${issue.raw}`} className="flex items-center text-xs text-amber-700">
+              <AlertTriangle className="h-3 w-3 mr-1 flex-shrink-0" />
+              <span>
+                {issue.reason === 'ai_only' ? 'Only filled during AI generation: ' : issue.reason === 'single_brace' ? 'Needs double braces: ' : 'Unknown variable '}
+                <code className="font-mono">{issue.raw}</code>
+                {issue.suggestion && (
+                  <>
+                    {' '}— use{' '}
+                    <button
+                      type="button"
+                      className="font-mono underline"
+                      onClick={() => onChange(value.slice(0, issue.index) + formatVariableToken(issue.suggestion!) + value.slice(issue.index + issue.raw.length))}
+                    >
+                      {formatVariableToken(issue.suggestion)}
+                    </button>
+                  </>
+                )}
+              </span>
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,154 @@
+// client/src/components/placements/PlacementCalendar.tsx
+import { useMemo, useState } from "react";
+import {
+  addMonths, addWeeks, eachDayOfInterval, endOfMonth, endOfWeek, format,
+  isSameMonth, startOfMonth, startOfWeek,
+} from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ChevronLeft, ChevronRight, CalendarDays, Download } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { statusConfig, getStatusConfig } from "@/lib/placementStatus";
+import {
+  buildPlacementEvents, buildPlacementIcs, downloadIcsFile, formatEventTime, getBrowserTimezone,
+  getEventTitle, toDayKey, type CalendarPlacement, type PlacementCalendarEvent,
+} from "@/lib/placementCalendar";
+
+interface PlacementCalendarProps {
+  placements: CalendarPlacement[];
+  calendarName: string; // Used for the .ics calendar name and file name
+  compact?: boolean;
+}
+
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export function PlacementCalendar({ placements, calendarName, compact = false }: PlacementCalendarProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const timezone = user?.timezone || getBrowserTimezone();
+
+  const [mode, setMode] = useState<'month' | 'week'>('month');
+  const [cursor, setCursor] = useState(() => new Date());
+
+  const events = useMemo(() => buildPlacementEvents(placements, timezone), [placements, timezone]);
+  const eventsByDay = useMemo(() => {
+    const map = new Map<string, PlacementCalendarEvent[]>();
+    events.forEach(event => {
+      const dayEvents = map.get(event.dayKey) || [];
+      dayEvents.push(event);
+      map.set(event.dayKey, dayEvents);
+    });
+    return map;
+  }, [events]);
+
+  const days = mode === 'month'
+    ? eachDayOfInterval({ start: startOfWeek(startOfMonth(cursor)), end: endOfWeek(endOfMonth(cursor)) })
+    : eachDayOfInterval({ start: startOfWeek(cursor), end: endOfWeek(cursor) });
+  const todayKey = toDayKey(new Date(), timezone);
+
+  const handlePrev = () => setCursor(prev => mode === 'month' ? addMonths(prev, -1) : addWeeks(prev, -1));
+  const handleNext = () => setCursor(prev => mode === 'month' ? addMonths(prev, 1) : addWeeks(prev, 1));
+
+  const handleExport = () => {
+    if (events.length === 0) {
+      toast({ title: "Nothing to export", description: "None of these placements have dates set yet." });
+      return;
+    }
+    const ics = buildPlacementIcs(events, { calendarName, timezone });
+    downloadIcsFile(ics, calendarName.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "placements");
+  };
+
+  const title = mode === 'month'
+    ? format(cursor, "MMMM yyyy")
+    : `${format(days[0], "MMM d")} – ${format(days[days.length - 1], "MMM d, yyyy")}`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" className="h-8 w-8 p-0" onClick={handlePrev} title="Previous">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" className="h-8" onClick={() => setCursor(new Date())}>Today</Button>
+          <Button variant="outline" size="sm" className="h-8 w-8 p-0" onClick={handleNext} title="Next">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <h3 className="ml-2 font-semibold text-gray-900">{title}</h3>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex items-center rounded-md border p-0.5">
+            <Button variant={mode === 'month' ? 'secondary' : 'ghost'} size="sm" className="h-7 px-2" onClick={() => setMode('month')}>Month</Button>
+            <Button variant={mode === 'week' ? 'secondary' : 'ghost'} size="sm" className="h-7 px-2" onClick={() => setMode('week')}>Week</Button>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleExport} title="Download an .ics file to import into Google Calendar, Outlook or Apple Calendar">
+            <Download className="h-4 w-4 mr-2" />
+            Export .ics
+          </Button>
+        </div>
+      </div>
+
+      <div className="border rounded-lg overflow-hidden">
+        <div className="grid grid-cols-7 bg-gray-50 border-b">
+          {WEEKDAY_LABELS.map(label => (
+            <div key={label} className="px-2 py-1.5 text-xs font-medium text-gray-500 text-center">{label}</div>
+          ))}
+        </div>
+        <div className="grid grid-cols-7">
+          {days.map(day => {
+            const dayKey = format(day, "yyyy-MM-dd");
+            const dayEvents = eventsByDay.get(dayKey) || [];
+            const isToday = dayKey === todayKey;
+            const outsideMonth = mode === 'month' && !isSameMonth(day, cursor);
+            return (
+              <div
+                key={dayKey}
+                className={`border-b border-r p-1.5 ${mode === 'week' ? 'min-h-[220px]' : compact ? 'min-h-[72px]' : 'min-h-[104px]'} ${outsideMonth ? 'bg-gray-50/60' : 'bg-white'}`}
+              >
+                <div className={`text-xs mb-1 ${isToday ? 'inline-flex h-5 w-5 items-center justify-center rounded-full bg-primary text-primary-foreground font-semibold' : outsideMonth ? 'text-gray-400' : 'text-gray-600'}`}>
+                  {format(day, "d")}
+                </div>
+                <div className="space-y-1">
+                  {dayEvents.slice(0, mode === 'week' ? undefined : 3).map(event => {
+                    const config = getStatusConfig(event.placement.current_status);
+                    const time = formatEventTime(event, timezone);
+                    return (
+                      <div
+                        key={event.id}
+                        className={`rounded px-1.5 py-0.5 text-[11px] leading-tight truncate ${config.color}`}
+                        title={`${getEventTitle(event)} (${config.label})${time ? ` at ${time}` : ''}`}
+                      >
+                        {time && <span className="font-medium mr-1">{time}</span>}
+                        {getEventTitle(event)}
+                      </div>
+                    );
+                  })}
+                  {mode === 'month' && dayEvents.length > 3 && (
+                    <button
+                      type="button"
+                      className="text-[11px] text-primary hover:underline"
+                      onClick={() => { setCursor(day); setMode('week'); }}
+                    >
+                      +{dayEvents.length - 3} more
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+        <CalendarDays className="h-3.5 w-3.5" />
+        <span>Times shown in {timezone}.</span>
+        {Object.entries(statusConfig).filter(([key]) => key !== 'default').map(([key, conf]) => (
+          <Badge key={key} variant="outline" className="font-normal text-[11px]">
+            <span className={`h-2 w-2 rounded-full mr-1.5 ${conf.dotColor}`} />
+            {conf.label}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useEffect, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Check, Copy, Loader2, Send } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { getTestimonialFormUrl } from '@/lib/testimonials';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+interface TestimonialRequestDialogProps {
+  placement: { placement_id: number; media_name?: string | null; client_name?: string | null } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface TestimonialRequestResponse { // POST /placements/{id}/testimonial-request
+  token: string;
+  recipient_email?: string | null;
+  email_sent: boolean;
+}
+
+// Mints (or reuses) the host's one-time testimonial link for a recorded/live placement
+export function TestimonialRequestDialog({ placement, open, onOpenChange }: TestimonialRequestDialogProps) {
+  const { toast } = useToast();
+  const [recipientEmail, setRecipientEmail] = useState('');
+  const [sendEmail, setSendEmail] = useState(true);
+  const [request, setRequest] = useState<TestimonialRequestResponse | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setRecipientEmail('');
+    setSendEmail(true);
+    setRequest(null);
+    setCopied(false);
+  }, [open, placement?.placement_id]);
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/placements/${placement!.placement_id}/testimonial-request`, {
+        // Blank falls back to the podcast's contact email on the backend
+        recipient_email: recipientEmail.trim() || null,
+        send_email: sendEmail,
+      });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({ detail: 'Failed to create testimonial request' }));
+        throw new Error(errorData.detail || 'Failed to create testimonial request');
+      }
+      return res.json() as Promise<TestimonialRequestResponse>;
+    },
+    onSuccess: (data) => {
+      setRequest(data);
+      if (data.email_sent) {
+        toast({ title: 'Request sent', description: `Emailed the testimonial form to ${data.recipient_email || 'the host'}.` });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const formUrl = request ? getTestimonialFormUrl(request.token) : '';
+
+  const copyLink = () => {
+    navigator.clipboard.writeText(formUrl);
+    setCopied(true);
+    toast({ title: 'Link copied', description: 'Paste it into your thank-you note to the host.' });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Request a Testimonial</DialogTitle>
+          <DialogDescription>
+            Ask {placement?.media_name ? `the host of ${placement.media_name}` : 'the host'} for a few words about {placement?.client_name || 'the guest'}.
+            Submissions wait in the media kit's moderation queue until approved.
+          </DialogDescription>
+        </DialogHeader>
+
+        {request ? (
+          <div className="space-y-2">
+            <Label>Testimonial form link</Label>
+            <div className="flex gap-2">
+              <Input readOnly value={formUrl} onFocus={(e) => e.target.select()} />
+              <Button variant="outline" onClick={copyLink} title="Copy link">
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500">The link works once and doesn't need a login.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="testimonial-recipient">Host email</Label>
+              <Input
+                id="testimonial-recipient"
+                type="email"
+                placeholder="Leave blank to use the podcast's contact email"
+                value={recipientEmail}
+                onChange={(e) => setRecipientEmail(e.target.value)}
+              />
+            </div>
+            <div className="flex items-center justify-between rounded-lg border p-3">
+              <div>
+                <Label htmlFor="testimonial-send-email">Email the link now</Label>
+                <p className="text-xs text-gray-500">Turn off to just copy the link and send it yourself.</p>
+              </div>
+              <Switch id="testimonial-send-email" checked={sendEmail} onCheckedChange={setSendEmail} />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>{request ? 'Done' : 'Cancel'}</Button>
+          {!request && (
+            <Button onClick={() => requestMutation.mutate()} disabled={!placement || requestMutation.isPending}>
+              {requestMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+              {sendEmail ? 'Send Request' : 'Create Link'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -17,6 +17,11 @@ import { ExternalLink, Image as ImageIcon, Users, BarChart2, Save, Info, Link as
 import { Link as RouterLink } from 'wouter';
 import { ImageUpload } from '@/components/ImageUpload';
 import { MediaKitEditor } from '@/components/MediaKitEditor';
+import { MediaKitAnalyticsCard } from '@/components/mediaKit/MediaKitAnalyticsCard';
+import { MediaKitShareCard } from '@/components/mediaKit/MediaKitShareCard';
+import { MediaKitShareLinksCard } from '@/components/mediaKit/MediaKitShareLinksCard';
+import { MediaKitVariantsCard } from '@/components/mediaKit/MediaKitVariantsCard';
+import type { MediaKitAccessMode, PublicMediaKitData } from '@/types/mediaKit';
 
 // --- Zod Schema for Editable Media Kit Content (MediaKitEditableContentSchema) ---
 const mediaKitEditableContentSchema = z.object({
@@ -58,12 +63,13 @@ interface MediaKitData {
   summary_bio_content?: string | null;
   short_bio_content?: string | null;
   talking_points?: TalkingPoint[] | null;
-  image_urls?: { headshot_url?: string | null; logo_url?: string | null; cover_image_url?: string | null; gallery_image_urls?: string[] | null } | null;
+  image_urls?: { headshot_url?: string | null; logo_url?: string | null; cover_image_url?: string | null; share_image_url?: string | null; gallery_image_urls?: string[] | null } | null;
   social_media_stats?: SocialMediaStat[] | null;
   call_to_action_text?: string | null;
   call_to_action_url?: string | null;
   show_contact_form?: boolean;
   is_public?: boolean;
+  access_mode?: MediaKitAccessMode | null;
   theme_preference?: string;
   bio_source?: string | null; // NEW
   angles_source?: string | null; // NEW
@@ -267,6 +273,25 @@ export default function MediaKitTab({ campaignId }: MediaKitTabProps) {
             </CardContent>
           </Card>
 
+          <MediaKitShareCard
+            mediaKit={{
+              ...mediaKitData,
+              talking_points: mediaKitData.talking_points?.map(point => ({ title: point.topic, description: point.description })),
+            } as unknown as PublicMediaKitData}
+          />
+
+          <MediaKitVariantsCard campaignId={campaignId} baseKit={mediaKitData as unknown as Record<string, unknown> & { slug: string }} />
+
+          <MediaKitShareLinksCard
+            mediaKitId={mediaKitData.media_kit_id}
+            campaignId={campaignId}
+            slug={mediaKitData.slug}
+            isPublic={!!mediaKitData.is_public}
+            accessMode={mediaKitData.access_mode}
+          />
+
+          <MediaKitAnalyticsCard mediaKitId={mediaKitData.media_kit_id} />
+
           <Card className="mt-6">
             <CardHeader>
               <div className="flex justify-between items-center">
@@ -0,0 +1,24 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import type { BlocklistEntry } from '@/types/blocklist';
+
+export function getBlocklistQueryKey() {
+  return ['/blocklist/'];
+}
+
+// Every blocklist entry, expired ones included; callers match with findBlocklistMatch, which skips expired entries
+export function useBlocklist(enabled: boolean = true) {
+  return useQuery<BlocklistEntry[]>({
+    queryKey: getBlocklistQueryKey(),
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/blocklist/');
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ detail: 'Failed to fetch the do-not-pitch list.' }));
+        throw new Error(errorData.detail || 'Failed to fetch the do-not-pitch list.');
+      }
+      return response.json();
+    },
+    enabled,
+    staleTime: 60000,
+  });
+}
@@ -3,6 +3,7 @@ import { useMutation, useQuery } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { mockChatAPI, shouldUseMockAPI } from '@/mocks/chatApi';
+import { diffExtractedKeywords, type ExtractedData } from '@/lib/keywordReview';
 
 interface Message {
   id?: string;
@@ -13,18 +14,6 @@ interface Message {
   quickReplies?: string[];
 }
 
-interface ExtractedData {
-  keywords?: {
-    explicit: string[];
-    implicit: string[];
-    contextual: string[];
-  };
-  entities?: {
-    companies: string[];
-    roles: string[];
-  };
-}
-
 interface ConversationState {
   conversationId: string | null;
   messages: Message[];
@@ -42,6 +31,8 @@ export function useConversation(campaignId: string, isOnboarding: boolean = fals
   const [connectionStatus, setConnectionStatus] = useState<'connecting' | 'connected' | 'error'>('connecting');
   const [lastSaveTime, setLastSaveTime] = useState(Date.now());
   const [keywordsCount, setKeywordsCount] = useState(0);
+  const [extractedData, setExtractedData] = useState<ExtractedData | null>(null);
+  const [keywordSources, setKeywordSources] = useState<Record<string, string>>({}); // normalized keyword -> user message
   const [isConversationComplete, setIsConversationComplete] = useState(false);
 
   // Check for completed conversations first (only in onboarding mode)
@@ -149,13 +140,14 @@ export function useConversation(campaignId: string, isOnboarding: boolean = fals
 
   // Start new conversation
   const startConversation = useMutation({
-    mutationFn: async () => {
+    mutationFn: async (questionnaireDraft?: Record<string, unknown> | null) => {
       // Use mock API if configured
       if (shouldUseMockAPI()) {
         return mockChatAPI.startConversation(campaignId);
       }
       
-      const response = await apiRequest('POST', `/campaigns/${campaignId}/chatbot/start`, {});
+      const response = await apiRequest('POST', `/campaigns/${campaignId}/chatbot/start`,
+        questionnaireDraft ? { questionnaire_draft: questionnaireDraft } : {});
       
       if (!response.ok) {
         throw new Error('Failed to start conversation');
@@ -224,7 +216,7 @@ export function useConversation(campaignId: string, isOnboarding: boolean = fals
       
       return response.json();
     },
-    onSuccess: (data) => {
+    onSuccess: (data, text) => {
       // Add bot response
       const botMessage: Message = {
         id: `bot-${Date.now()}`,
@@ -256,7 +248,12 @@ export function useConversation(campaignId: string, isOnboarding: boolean = fals
         setKeywordsCount(data.keywords_found);
       }
       if (data.extracted_data) {
-        console.log('Extracted data:', data.extracted_data);
+        // Whatever is new since the last reply came from the message just sent
+        const newKeywords = diffExtractedKeywords(extractedData, data.extracted_data);
+        if (newKeywords.length > 0) {
+          setKeywordSources(prev => newKeywords.reduce((acc, key) => ({ ...acc, [key]: acc[key] || text }), prev));
+        }
+        setExtractedData(data.extracted_data);
       }
       
       // Auto-save progress
@@ -356,6 +353,10 @@ export function useConversation(campaignId: string, isOnboarding: boolean = fals
         setPhase(data.phase || 'introduction');
         setConnectionStatus('connected');
         
+        if (data.extracted_data) {
+          setExtractedData(data.extracted_data);
+        }
+
         // Update keywords count if available
         if (data.extracted_data?.keywords) {
           const totalKeywords = 
@@ -404,11 +405,13 @@ export function useConversation(campaignId: string, isOnboarding: boolean = fals
 
   // Complete conversation
   const completeConversation = useMutation({
-    mutationFn: async () => {
+    mutationFn: async (approvedKeywords?: string[]) => {
       if (!conversationId) throw new Error('No active conversation');
       
       const response = await apiRequest('POST', `/campaigns/${campaignId}/chatbot/complete`, {
-        conversation_id: conversationId
+        conversation_id: conversationId,
+        // Reviewed keywords replace the raw extraction when seeding discovery
+        ...(approvedKeywords ? { approved_keywords: approvedKeywords } : {})
       });
       
       if (!response.ok) throw new Error('Failed to complete conversation');
@@ -484,6 +487,8 @@ export function useConversation(campaignId: string, isOnboarding: boolean = fals
     progress,
     phase,
     keywordsCount,
+    extractedData,
+    keywordSources,
     startConversation,
     sendMessage,
     resumeConversation,
@@ -0,0 +1,21 @@
+import { useMemo } from 'react';
+import { useLocation, useSearch } from 'wouter';
+import { parseFacetFilters, serializeFacetFilters, createEmptyFacetFilters, type FacetFilters, type FacetSort } from '@/lib/reviewFacets';
+
+// Facet state lives in the query string, so a filtered queue can be shared or bookmarked as-is
+export function useFacetFilters(defaultSort: FacetSort = 'default') {
+  const search = useSearch();
+  const [location, navigate] = useLocation();
+  const filters = useMemo(() => parseFacetFilters(search, defaultSort), [search, defaultSort]);
+
+  const setFilters = (changes: Partial<FacetFilters>) => {
+    const query = serializeFacetFilters({ ...filters, ...changes }, search, defaultSort);
+    navigate(query ? `${location}?${query}` : location, { replace: true });
+  };
+
+  const clearFilters = () => setFilters({ ...createEmptyFacetFilters(defaultSort), sort: filters.sort });
+
+  const shareUrl = `${window.location.origin}${location}${search ? `?${search}` : ''}`;
+
+  return { filters, setFilters, clearFilters, shareUrl };
+}
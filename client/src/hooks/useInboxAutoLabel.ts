@@ -0,0 +1,56 @@
+import { useEffect, useRef } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useAuth } from '@/hooks/useAuth';
+import { getPendingRuleActions, loadProcessedRuleRuns, saveProcessedRuleRuns } from '@/lib/inboxRules';
+import type { EmailThread, InboxLabelRule } from '@/types/inbox';
+
+const MAX_RULE_ATTEMPTS = 3;
+
+// Applies the user's auto-labelling rules to threads as they load, each rule at most once per thread
+export function useInboxAutoLabel(threads: EmailThread[], enabled: boolean) {
+  const { user } = useAuth();
+  const personId = user?.person_id ?? null;
+  const { data: rules = [] } = useQuery<InboxLabelRule[]>({
+    queryKey: ['/inbox/label-rules'],
+    enabled,
+  });
+  // Failed actions are retried on a later refetch, up to a limit
+  const failuresRef = useRef(new Map<string, number>());
+  const isApplyingRef = useRef(false);
+
+  useEffect(() => {
+    if (!enabled || personId === null || isApplyingRef.current || threads.length === 0 || rules.length === 0) return;
+    const pending = getPendingRuleActions(threads, rules, loadProcessedRuleRuns(personId))
+      .map(action => ({ action, key: `${action.threadId}:${action.ruleIds.join(',')}` }))
+      .filter(({ key }) => (failuresRef.current.get(key) || 0) < MAX_RULE_ATTEMPTS);
+    if (pending.length === 0) return;
+
+    isApplyingRef.current = true;
+    (async () => {
+      let changed = false;
+      for (const { action, key } of pending) {
+        try {
+          if (action.addLabels.length > 0) {
+            const res = await apiRequest('POST', `/inbox/threads/${action.threadId}/labels`, { add: action.addLabels });
+            if (!res.ok) throw new Error(`Labelling failed with status ${res.status}`);
+          }
+          if (action.star) {
+            const res = await apiRequest('POST', `/inbox/threads/${action.threadId}/star`, { starred: true });
+            if (!res.ok) throw new Error(`Starring failed with status ${res.status}`);
+          }
+          // Re-read before writing so runs recorded by another tab aren't lost
+          const runs = loadProcessedRuleRuns(personId);
+          runs[action.threadId] = Array.from(new Set([...(runs[action.threadId] || []), ...action.ruleIds]));
+          saveProcessedRuleRuns(personId, runs);
+          changed = changed || action.addLabels.length > 0 || action.star;
+        } catch (error) {
+          failuresRef.current.set(key, (failuresRef.current.get(key) || 0) + 1);
+          console.error('Failed to apply inbox rule to thread', action.threadId, error);
+        }
+      }
+      isApplyingRef.current = false;
+      if (changed) queryClient.invalidateQueries({ queryKey: ['/inbox/threads'] });
+    })();
+  }, [threads, rules, enabled, personId]);
+}
@@ -0,0 +1,37 @@
+import { useEffect } from 'react';
+import { getMediaKitHeadTags, getMediaKitSeo, serializeJsonLd } from '@/lib/mediaKitSeo';
+import type { PublicMediaKitData } from '@/types/mediaKit';
+
+// Keeps <head> in sync with the kit being viewed. Pass undefined while loading and null when the kit is missing or private.
+// Tags from the prerendered snapshot are replaced rather than duplicated.
+export function useMediaKitHead(kit: PublicMediaKitData | null | undefined, slug: string | undefined) {
+  useEffect(() => {
+    if (kit === undefined || !slug) return;
+
+    const previousTitle = document.title;
+    const seo = getMediaKitSeo(kit, `${window.location.origin}/media-kit/${slug}`);
+    document.head.querySelectorAll('[data-kit-head]').forEach(el => el.remove());
+
+    const elements: HTMLElement[] = getMediaKitHeadTags(seo).map(({ tag, attrs }) => {
+      const el = document.createElement(tag);
+      Object.entries(attrs).forEach(([key, value]) => el.setAttribute(key, value));
+      return el;
+    });
+    if (seo.jsonLd) {
+      const script = document.createElement('script');
+      script.type = 'application/ld+json';
+      script.textContent = serializeJsonLd(seo.jsonLd);
+      elements.push(script);
+    }
+    elements.forEach(el => {
+      el.setAttribute('data-kit-head', '');
+      document.head.appendChild(el);
+    });
+    document.title = seo.title;
+
+    return () => {
+      elements.forEach(el => el.remove());
+      document.title = previousTitle;
+    };
+  }, [kit, slug]);
+}
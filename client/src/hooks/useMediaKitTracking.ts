@@ -0,0 +1,11 @@
+import { useEffect, type RefObject } from 'react';
+import { MEDIA_KIT_REF_PARAM, startMediaKitTracking } from '@/lib/mediaKitAnalytics';
+
+// Records one anonymous visit per page load; pass enabled=false for owners and signed-in team members
+export function useMediaKitTracking(rootRef: RefObject<HTMLElement>, slug: string | undefined, enabled: boolean, accessToken?: string | null) {
+  useEffect(() => {
+    if (!enabled || !slug || !rootRef.current) return;
+    const pitchToken = new URLSearchParams(window.location.search).get(MEDIA_KIT_REF_PARAM);
+    return startMediaKitTracking(rootRef.current, { slug, pitchToken, accessToken });
+  }, [rootRef, slug, enabled, accessToken]);
+}
@@ -0,0 +1,25 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import type { MediaKitVariant } from '@/types/mediaKit';
+
+export function getMediaKitVariantsQueryKey(campaignId: string | null | undefined) {
+  return ['/campaigns/', campaignId, '/media-kit/variants'];
+}
+
+// Audience variants of a campaign's media kit; an empty list when the campaign has none (or no kit yet)
+export function useMediaKitVariants(campaignId: string | null | undefined) {
+  return useQuery<MediaKitVariant[]>({
+    queryKey: getMediaKitVariantsQueryKey(campaignId),
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/campaigns/${campaignId}/media-kit/variants`);
+      if (response.status === 404) return [];
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ detail: 'Failed to fetch media kit variants.' }));
+        throw new Error(errorData.detail || 'Failed to fetch media kit variants.');
+      }
+      return response.json();
+    },
+    enabled: !!campaignId,
+    staleTime: 60_000,
+  });
+}
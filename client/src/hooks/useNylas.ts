@@ -1,6 +1,7 @@
 import { useMutation, useQuery } from '@tanstack/react-query';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { usePollingFallback } from '@/hooks/useRealtime';
 import type { NylasAuthStatus } from '@/types/inbox';
 
 export function useNylas() {
@@ -9,7 +10,7 @@ export function useNylas() {
   // Check Nylas connection status
   const { data: nylasStatus, isLoading } = useQuery<NylasAuthStatus>({
     queryKey: ['/inbox/nylas-status'],
-    refetchInterval: 30000, // Check every 30 seconds
+    refetchInterval: usePollingFallback(30000), // Check every 30 seconds while realtime updates are unavailable
   });
 
   // Send pitch via Nylas
@@ -2,7 +2,10 @@ import { useState } from 'react';
 import { useMutation, useQuery } from '@tanstack/react-query';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { usePollingFallback } from '@/hooks/useRealtime';
+import { checkPitchesAgainstBlocklist, describeBlockedPitches } from '@/lib/blocklist';
 import type { NylasAuthStatus } from '@/types/inbox';
+import type { BlockedPitch } from '@/types/blocklist';
 
 interface SendPitchResult {
   success: boolean;
@@ -14,21 +17,44 @@ interface SendPitchResult {
   pitch_gen_id?: number;
 }
 
+export interface FollowUpSendPayload {
+  pitchGenId: number;
+  stepIndex: number;
+  subject: string;
+  body: string;
+  threadId?: string | null;
+}
+
+export interface ScheduledSendItem {
+  pitch_gen_id: number;
+  send_at: string; // ISO timestamp (UTC)
+}
+
 interface BatchSendResult {
   total: number;
   successful: number;
   failed: number;
   results: SendPitchResult[];
+  blocked?: BlockedPitch[]; // Skipped client-side because they hit the do-not-pitch list
+}
+
+// Hard stop before anything leaves the outbox; the list can change between drafting and sending
+async function assertNotBlocked(pitchGenIds: number[]) {
+  const blocked = await checkPitchesAgainstBlocklist(pitchGenIds);
+  if (blocked.length > 0) {
+    throw new Error(`Blocked by the do-not-pitch list. ${describeBlockedPitches(blocked)}`);
+  }
 }
 
 export function usePitchSending() {
   const { toast } = useToast();
   const [sendingPitchIds, setSendingPitchIds] = useState<Set<number>>(new Set());
+  const nylasStatusPolling = usePollingFallback(60000);
 
   // Check Nylas connection status
   const { data: nylasStatus, isLoading: isLoadingStatus } = useQuery<NylasAuthStatus>({
     queryKey: ['/inbox/nylas-status'],
-    refetchInterval: 60000, // Check every minute
+    refetchInterval: nylasStatusPolling, // Check every minute unless status changes are being pushed
   });
 
   const isEmailConnected = nylasStatus?.connected === true;
@@ -42,6 +68,7 @@ export function usePitchSending() {
       }
 
       setSendingPitchIds(prev => new Set(prev).add(pitchGenId));
+      await assertNotBlocked([pitchGenId]);
       
       const body = recipientEmail ? { recipient_email: recipientEmail } : {};
       
@@ -101,10 +128,18 @@ export function usePitchSending() {
         setSendingPitchIds(prev => new Set(prev).add(id))
       );
 
+      // Send the rest of the batch, but never the blocked ones
+      const blocked = await checkPitchesAgainstBlocklist(pitchGenIds);
+      const blockedIds = new Set(blocked.map(item => item.pitch_gen_id));
+      const allowedIds = pitchGenIds.filter(id => !blockedIds.has(id));
+      if (allowedIds.length === 0) {
+        throw new Error(`Blocked by the do-not-pitch list. ${describeBlockedPitches(blocked)}`);
+      }
+
       const response = await apiRequest(
         'POST',
         '/pitches/send-batch-nylas',
-        { pitch_gen_ids: pitchGenIds }
+        { pitch_gen_ids: allowedIds }
       );
 
       if (!response.ok) {
@@ -114,10 +149,11 @@ export function usePitchSending() {
         throw new Error(errorData.message || errorData.detail || 'Failed to send pitches');
       }
 
-      return response.json() as Promise<BatchSendResult>;
+      const result: BatchSendResult = await response.json();
+      return { ...result, blocked };
     },
     onSuccess: (data) => {
-      const { successful, failed, results } = data;
+      const { successful, failed, results, blocked = [] } = data;
       
       // Show individual results
       results.forEach(result => {
@@ -140,6 +176,14 @@ export function usePitchSending() {
         variant: failed > 0 ? 'default' : 'default',
       });
 
+      if (blocked.length > 0) {
+        toast({
+          title: `${blocked.length} pitch${blocked.length !== 1 ? 'es' : ''} not sent`,
+          description: `On the do-not-pitch list. ${describeBlockedPitches(blocked)}`,
+          variant: 'destructive',
+        });
+      }
+
       // Invalidate queries to refresh all tabs
       queryClient.invalidateQueries({ queryKey: ['approvedMatchesForPitching'] });
       queryClient.invalidateQueries({ queryKey: ['pitchDraftsForReview'] });
@@ -164,6 +208,152 @@ export function usePitchSending() {
     }
   });
 
+  // Send a follow-up as a reply in the original pitch thread via Nylas
+  const sendFollowUpMutation = useMutation({
+    mutationFn: async ({ pitchGenId, stepIndex, subject, body, threadId }: FollowUpSendPayload) => {
+      if (!isEmailConnected) {
+        throw new Error('Please connect your email account first');
+      }
+
+      setSendingPitchIds(prev => new Set(prev).add(pitchGenId));
+      await assertNotBlocked([pitchGenId]);
+
+      const response = await apiRequest(
+        'POST',
+        `/pitches/send-nylas/${pitchGenId}/follow-up`,
+        {
+          follow_up_step: stepIndex,
+          subject,
+          body,
+          reply_to_thread_id: threadId || undefined,
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ 
+          message: 'Failed to send follow-up' 
+        }));
+        throw new Error(errorData.message || errorData.detail || 'Failed to send follow-up');
+      }
+
+      return response.json() as Promise<SendPitchResult>;
+    },
+    onSuccess: (data) => {
+      toast({
+        title: 'Follow-up Sent',
+        description: `Follow-up sent to ${data.recipient_email || 'recipient'} in the original thread`,
+      });
+
+      queryClient.invalidateQueries({ queryKey: ['sentPitchesStatus'] });
+      queryClient.invalidateQueries({ queryKey: ['/inbox/threads'] });
+    },
+    onError: (error: Error) => {
+      const errorMessage = getErrorMessage(error.message);
+      toast({
+        title: 'Failed to Send Follow-up',
+        description: errorMessage,
+        variant: 'destructive',
+      });
+    },
+    onSettled: (_, __, { pitchGenId }) => {
+      setSendingPitchIds(prev => {
+        const next = new Set(prev);
+        next.delete(pitchGenId);
+        return next;
+      });
+    }
+  });
+
+  // Schedule one or more pitches for later delivery via Nylas
+  const schedulePitchesMutation = useMutation({
+    mutationFn: async ({ items, senderTimezone }: { items: ScheduledSendItem[]; senderTimezone: string }) => {
+      if (!isEmailConnected) {
+        throw new Error('Please connect your email account first');
+      }
+      await assertNotBlocked(items.map(item => item.pitch_gen_id));
+
+      const response = await apiRequest(
+        'POST',
+        '/pitches/schedule-send-nylas',
+        { items, sender_timezone: senderTimezone }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ 
+          message: 'Failed to schedule pitches' 
+        }));
+        throw new Error(errorData.message || errorData.detail || 'Failed to schedule pitches');
+      }
+
+      return response.json();
+    },
+    onSuccess: (_, { items }) => {
+      toast({
+        title: 'Pitches Scheduled',
+        description: `${items.length} pitch${items.length !== 1 ? 'es' : ''} scheduled to send`,
+      });
+
+      queryClient.invalidateQueries({ queryKey: ['pitchesReadyToSend'] });
+      queryClient.invalidateQueries({ queryKey: ['scheduledPitches'] });
+    },
+    onError: (error: Error) => {
+      const errorMessage = getErrorMessage(error.message);
+      toast({
+        title: 'Scheduling Failed',
+        description: errorMessage,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  // Move a scheduled pitch to a new send time
+  const reschedulePitchMutation = useMutation({
+    mutationFn: async ({ pitch_gen_id, send_at }: ScheduledSendItem) => {
+      await assertNotBlocked([pitch_gen_id]);
+      const response = await apiRequest('PATCH', `/pitches/scheduled/${pitch_gen_id}`, { send_at });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ 
+          message: 'Failed to reschedule pitch' 
+        }));
+        throw new Error(errorData.message || errorData.detail || 'Failed to reschedule pitch');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'Pitch Rescheduled', description: 'The send time has been updated' });
+      queryClient.invalidateQueries({ queryKey: ['scheduledPitches'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Reschedule Failed', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  // Cancel a scheduled send and return the pitch to Ready to Send
+  const cancelScheduledMutation = useMutation({
+    mutationFn: async (pitchGenId: number) => {
+      const response = await apiRequest('DELETE', `/pitches/scheduled/${pitchGenId}`);
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ 
+          message: 'Failed to cancel scheduled send' 
+        }));
+        throw new Error(errorData.message || errorData.detail || 'Failed to cancel scheduled send');
+      }
+
+      return response.status === 204 ? null : response.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'Scheduled Send Cancelled', description: 'The pitch is back in Ready to Send' });
+      queryClient.invalidateQueries({ queryKey: ['scheduledPitches'] });
+      queryClient.invalidateQueries({ queryKey: ['pitchesReadyToSend'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Cancel Failed', description: error.message, variant: 'destructive' });
+    }
+  });
+
   // Connect email (redirect to OAuth)
   const connectEmail = () => {
     apiRequest('POST', '/inbox/nylas/connect')
@@ -239,11 +429,16 @@ export function usePitchSending() {
     sendPitch: (pitchGenId: number, recipientEmail?: string) => 
       sendPitchMutation.mutate({ pitchGenId, recipientEmail }),
     sendBatch: sendBatchMutation.mutate,
+    sendFollowUp: sendFollowUpMutation.mutate,
+    schedulePitches: schedulePitchesMutation.mutate,
+    reschedulePitch: reschedulePitchMutation.mutate,
+    cancelScheduledPitch: cancelScheduledMutation.mutate,
     connectEmail,
     disconnectEmail: disconnectEmailMutation.mutate,
     
     // Loading states
-    isSending: sendPitchMutation.isPending || sendBatchMutation.isPending,
+    isSending: sendPitchMutation.isPending || sendBatchMutation.isPending || sendFollowUpMutation.isPending,
+    isScheduling: schedulePitchesMutation.isPending || reschedulePitchMutation.isPending,
     isDisconnecting: disconnectEmailMutation.isPending,
     isPitchSending,
     sendingPitchIds: Array.from(sendingPitchIds),
@@ -251,6 +446,10 @@ export function usePitchSending() {
     // Mutations for advanced usage
     sendPitchMutation,
     sendBatchMutation,
+    sendFollowUpMutation,
+    schedulePitchesMutation,
+    reschedulePitchMutation,
+    cancelScheduledMutation,
     disconnectEmailMutation,
   };
 }
@@ -0,0 +1,87 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import type { Media } from '@/types/media';
+import type { Campaign } from '@/types/campaign';
+import type { PitchVariableContext } from '@/lib/pitchVariables';
+import { applyMediaKitVariant } from '@/lib/mediaKitVariants';
+import { useMediaKitVariants } from '@/hooks/useMediaKitVariants';
+
+export interface PitchVariableMatch {
+  match_id: number;
+  media_id?: number | null;
+  campaign_id?: string | null;
+  media_name?: string | null;
+  campaign_name?: string | null;
+  client_name?: string | null;
+  media_kit_variant_id?: string | null; // {{media_kit_url}} links to this variant instead of the base kit
+}
+
+interface EpisodeSummary {
+  episode_id: number;
+  title?: string | null;
+  publish_date?: string | null;
+  episode_summary?: string | null;
+  ai_episode_summary?: string | null;
+}
+
+async function fetchJson<T>(path: string, fallbackMessage: string, allowNotFound = false): Promise<T | null> {
+  const response = await apiRequest('GET', path);
+  if (allowNotFound && response.status === 404) return null;
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ detail: fallbackMessage }));
+    throw new Error(errorData.detail || fallbackMessage);
+  }
+  return response.json();
+}
+
+// Loads the media, campaign, latest episode and media kit a match's merge variables resolve against
+export function usePitchVariableContext(match: PitchVariableMatch | null | undefined) {
+  const mediaId = match?.media_id;
+  const campaignId = match?.campaign_id;
+
+  const { data: media, isLoading: isLoadingMedia } = useQuery<Media | null>({
+    queryKey: ['/media/', mediaId],
+    queryFn: () => fetchJson<Media>(`/media/${mediaId}`, 'Failed to fetch media details'),
+    enabled: !!mediaId,
+  });
+
+  const { data: episodes, isLoading: isLoadingEpisodes } = useQuery<EpisodeSummary[] | null>({
+    queryKey: ['/episodes/', { media_id: mediaId }],
+    queryFn: () => fetchJson<EpisodeSummary[]>(`/episodes/?media_id=${mediaId}`, 'Failed to fetch episodes'),
+    enabled: !!mediaId,
+  });
+
+  const { data: campaign, isLoading: isLoadingCampaign } = useQuery<Campaign | null>({
+    queryKey: ['/campaigns/', campaignId],
+    queryFn: () => fetchJson<Campaign>(`/campaigns/${campaignId}`, 'Failed to fetch campaign'),
+    enabled: !!campaignId,
+  });
+
+  const { data: mediaKit, isLoading: isLoadingMediaKit } = useQuery<PitchVariableContext['mediaKit']>({
+    queryKey: ['/campaigns/', campaignId, '/media-kit'],
+    queryFn: () => fetchJson(`/campaigns/${campaignId}/media-kit`, 'Failed to fetch media kit.', true),
+    enabled: !!campaignId,
+    retry: 1,
+  });
+
+  const variantId = match?.media_kit_variant_id;
+  const { data: variants, isLoading: isLoadingVariants } = useMediaKitVariants(variantId ? campaignId : null);
+  const variant = variantId ? variants?.find(v => v.variant_id === variantId) : null;
+
+  const recentEpisode = (episodes || [])
+    .filter(ep => ep.publish_date)
+    .sort((a, b) => new Date(b.publish_date!).getTime() - new Date(a.publish_date!).getTime())[0] || episodes?.[0] || null;
+
+  const context: PitchVariableContext = {
+    match: match || null,
+    media: media || null,
+    campaign: campaign || null,
+    recentEpisode,
+    mediaKit: mediaKit ? applyMediaKitVariant(mediaKit, variant) : null,
+  };
+
+  return {
+    context,
+    isLoading: !!match && (isLoadingMedia || isLoadingEpisodes || isLoadingCampaign || isLoadingMediaKit || (!!variantId && isLoadingVariants)),
+  };
+}
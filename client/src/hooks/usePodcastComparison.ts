@@ -0,0 +1,35 @@
+import { useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { MAX_COMPARISON_ITEMS, type ComparisonItem } from '@/lib/podcastComparison';
+
+// Selection state for the compare bar and dialog; items are keyed by media_id so the same show can't be picked twice
+export function usePodcastComparison() {
+  const { toast } = useToast();
+  const [items, setItems] = useState<ComparisonItem[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const isSelected = (mediaId: number) => items.some(item => item.media_id === mediaId);
+
+  const toggle = (item: ComparisonItem) => {
+    if (isSelected(item.media_id)) {
+      setItems(prev => prev.filter(selected => selected.media_id !== item.media_id));
+      return;
+    }
+    if (items.length >= MAX_COMPARISON_ITEMS) {
+      toast({ title: 'Comparison is full', description: `You can compare up to ${MAX_COMPARISON_ITEMS} podcasts at a time.` });
+      return;
+    }
+    setItems(prev => [...prev, item]);
+  };
+
+  // Keeps decisions made in the dialog visible on the columns without refetching the host list
+  const update = (mediaId: number, changes: Partial<ComparisonItem>) =>
+    setItems(prev => prev.map(item => (item.media_id === mediaId ? { ...item, ...changes } : item)));
+
+  const clear = () => {
+    setItems([]);
+    setIsOpen(false);
+  };
+
+  return { items, isSelected, toggle, update, clear, isOpen, setIsOpen };
+}
@@ -0,0 +1,28 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { queryClient } from '@/lib/queryClient';
+import { invalidateForEvent, realtime } from '@/lib/realtime';
+
+// Opens the shared connection while signed in and keeps the query cache in step with pushed events
+export function useRealtimeConnection(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) return;
+    const unsubscribe = realtime.subscribe(event => invalidateForEvent(queryClient, event));
+    realtime.start();
+    return () => {
+      unsubscribe();
+      realtime.stop();
+    };
+  }, [enabled]);
+}
+
+export function useRealtimeTransport() {
+  return useSyncExternalStore(
+    (onChange) => realtime.onTransportChange(onChange),
+    () => realtime.transport,
+  );
+}
+
+// Use as a query's refetchInterval: no polling while pushes arrive, the old interval while they don't
+export function usePollingFallback(intervalMs: number): number | false {
+  return useRealtimeTransport() === 'offline' ? intervalMs : false;
+}
@@ -0,0 +1,24 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { sortTestimonials } from '@/lib/testimonials';
+import type { MediaKitTestimonial } from '@/types/mediaKit';
+
+export function getTestimonialsQueryKey(campaignId: string | null | undefined) {
+  return ['/campaigns/', campaignId, '/testimonials'];
+}
+
+// Every testimonial for a campaign, including the pending moderation queue
+export function useTestimonials(campaignId: string | null | undefined) {
+  return useQuery<MediaKitTestimonial[]>({
+    queryKey: getTestimonialsQueryKey(campaignId),
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/campaigns/${campaignId}/testimonials`);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ detail: 'Failed to fetch testimonials.' }));
+        throw new Error(errorData.detail || 'Failed to fetch testimonials.');
+      }
+      return sortTestimonials(await response.json());
+    },
+    enabled: !!campaignId,
+  });
+}
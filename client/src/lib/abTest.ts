@@ -0,0 +1,45 @@
+// client/src/lib/abTest.ts
+// Helpers for splitting pitch batches across templates and comparing their results.
+
+export const MIN_SAMPLE_SIZE = 30; // Below this per variant, rates are too noisy to compare
+
+export function createAbTestId(): string {
+  return `ab-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+// Shuffles the items, then deals them round-robin so each variant gets an even, random share
+export function splitAcrossVariants<T>(items: T[], variants: string[]): { item: T; variant: string }[] {
+  if (variants.length === 0) return [];
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled.map((item, i) => ({ item, variant: variants[i % variants.length] }));
+}
+
+// Abramowitz & Stegun 7.1.26 approximation of the standard normal CDF
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// Two-sided two-proportion z-test; returns null when either sample is empty or the pooled rate is degenerate
+export function twoProportionPValue(successesA: number, totalA: number, successesB: number, totalB: number): number | null {
+  if (totalA === 0 || totalB === 0) return null;
+  const pooled = (successesA + successesB) / (totalA + totalB);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / totalA + 1 / totalB));
+  if (standardError === 0) return null;
+  const z = (successesA / totalA - successesB / totalB) / standardError;
+  return 2 * (1 - normalCdf(Math.abs(z)));
+}
+
+export type SignificanceLevel = "leader" | "significant" | "trending" | "not_significant" | "insufficient_data";
+
+export function getSignificance(pValue: number | null, sampleA: number, sampleB: number): SignificanceLevel {
+  if (sampleA < MIN_SAMPLE_SIZE || sampleB < MIN_SAMPLE_SIZE || pValue === null) return "insufficient_data";
+  if (pValue < 0.05) return "significant";
+  if (pValue < 0.2) return "trending";
+  return "not_significant";
+}
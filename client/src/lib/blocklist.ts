@@ -0,0 +1,104 @@
+// client/src/lib/blocklist.ts
+// Matching podcasts against the do-not-pitch blocklist, and the send-time check against it.
+import { apiRequest } from "@/lib/queryClient";
+import type { BlockedPitch, BlocklistEntry, BlocklistMatchType } from "@/types/blocklist";
+
+export const BLOCKLIST_MATCH_TYPE_LABELS: Record<BlocklistMatchType, { label: string; placeholder: string }> = {
+  media: { label: "Podcast", placeholder: "Media ID, e.g. 1234" },
+  host: { label: "Host", placeholder: "Host name, e.g. Jane Doe" },
+  domain: { label: "Domain", placeholder: "example.com" },
+  email: { label: "Contact email", placeholder: "host@example.com" },
+};
+
+// Whatever the current screen knows about a show; missing fields simply can't match
+export interface BlocklistTarget {
+  media_id?: number | null;
+  host_names?: string[] | null;
+  website?: string | null;
+  contact_email?: string | null;
+  campaign_id?: string | null;
+}
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+export function normalizeDomain(value: string | null | undefined): string {
+  if (!value) return "";
+  const host = value.includes("@") ? value.split("@").pop()! : value;
+  return normalize(host).replace(/^[a-z]+:\/\//, "").replace(/^www\./, "").split(/[/?#:]/)[0];
+}
+
+export function isBlocklistEntryActive(entry: BlocklistEntry, now: Date = new Date()): boolean {
+  return !entry.expires_at || new Date(entry.expires_at) > now;
+}
+
+function entryMatches(entry: BlocklistEntry, target: BlocklistTarget): boolean {
+  // Campaign-scoped entries only apply to that campaign's matches
+  if (entry.campaign_id && entry.campaign_id !== target.campaign_id) return false;
+  switch (entry.match_type) {
+    case "media":
+      return target.media_id !== null && target.media_id !== undefined && String(target.media_id) === entry.value.trim();
+    case "host":
+      return (target.host_names || []).some(name => normalize(name) === normalize(entry.value));
+    case "domain": {
+      const domain = normalizeDomain(entry.value);
+      return [target.website, target.contact_email].some(value => {
+        const candidate = normalizeDomain(value);
+        return !!candidate && (candidate === domain || candidate.endsWith(`.${domain}`));
+      });
+    }
+    case "email":
+      return !!target.contact_email && normalize(target.contact_email) === normalize(entry.value);
+    default:
+      return false;
+  }
+}
+
+// Campaign-specific entries win over agency-wide ones so the more specific reason is shown
+export function findBlocklistMatch(entries: BlocklistEntry[] | undefined, target: BlocklistTarget): BlocklistEntry | null {
+  const matches = (entries || []).filter(entry => isBlocklistEntryActive(entry) && entryMatches(entry, target));
+  return matches.find(entry => entry.campaign_id) || matches[0] || null;
+}
+
+export function describeBlocklistEntry(entry: BlocklistEntry): string {
+  const scope = entry.campaign_id ? `for ${entry.campaign_name || "this campaign"}` : "agency-wide";
+  const until = entry.expires_at ? ` until ${new Date(entry.expires_at).toLocaleDateString()}` : "";
+  return `Do not pitch (${scope}${until}): ${entry.reason}`;
+}
+
+// The backend resolves each pitch's show, host and contact email, which the send buttons don't have
+export async function checkPitchesAgainstBlocklist(pitchGenIds: number[]): Promise<BlockedPitch[]> {
+  const res = await apiRequest("POST", "/blocklist/check-pitches", { pitch_gen_ids: pitchGenIds });
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({ detail: "Could not check the do-not-pitch list" }));
+    throw new Error(errorData.detail || "Could not check the do-not-pitch list");
+  }
+  const data: { blocked: BlockedPitch[] } = await res.json();
+  return data.blocked || [];
+}
+
+export interface BlockedScheduledSends {
+  cancelled: BlockedPitch[];
+  failed: BlockedPitch[]; // Still queued; someone has to cancel these by hand
+}
+
+// Scheduled sends were only checked when they were queued, so a new entry has to pull any that now match
+export async function cancelBlockedScheduledSends(): Promise<BlockedScheduledSends> {
+  const res = await apiRequest("GET", "/pitches/?pitch_state__in=scheduled");
+  if (!res.ok) throw new Error("Could not load scheduled sends to check against the do-not-pitch list");
+  const scheduled: { pitch_gen_id: number }[] = await res.json();
+  if (scheduled.length === 0) return { cancelled: [], failed: [] };
+
+  const blocked = await checkPitchesAgainstBlocklist(scheduled.map(pitch => pitch.pitch_gen_id));
+  const results = await Promise.all(blocked.map(async item => {
+    const cancelRes = await apiRequest("DELETE", `/pitches/scheduled/${item.pitch_gen_id}`).catch(() => null);
+    return { item, ok: !!cancelRes?.ok };
+  }));
+  return {
+    cancelled: results.filter(result => result.ok).map(result => result.item),
+    failed: results.filter(result => !result.ok).map(result => result.item),
+  };
+}
+
+export function describeBlockedPitches(blocked: BlockedPitch[]): string {
+  return blocked.map(item => `${item.media_name || `Pitch ${item.pitch_gen_id}`}: ${item.entry.reason}`).join("; ");
+}
@@ -0,0 +1,97 @@
+// client/src/lib/emailDates.ts
+// Pulls likely recording dates out of free-text email bodies (booking confirmations etc.).
+import { addDays, format, isValid, startOfDay } from "date-fns";
+
+export interface ParsedEmailDate {
+  date: Date;
+  dateKey: string; // YYYY-MM-DD, the format placement date fields use
+  time?: string; // e.g. "2:30 PM" when a time was mentioned next to the date
+  source: string; // The text the date was read from
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const MONTH_PATTERN = "(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)";
+const TIME_RE = /\b(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)/i;
+
+export function htmlToText(html: string): string {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  return (doc.body.textContent || "").replace(/\s+/g, " ").trim();
+}
+
+function monthIndex(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+}
+
+// Dates without a year are assumed to be the next occurrence after the email was sent
+function withInferredYear(month: number, day: number, year: number | null, reference: Date): Date {
+  if (year !== null) return new Date(year < 100 ? 2000 + year : year, month, day);
+  const candidate = new Date(reference.getFullYear(), month, day);
+  return candidate < addDays(reference, -1) ? new Date(reference.getFullYear() + 1, month, day) : candidate;
+}
+
+function findTimeNear(text: string, index: number, length: number): string | undefined {
+  const window = text.slice(index + length, index + length + 30);
+  const match = TIME_RE.exec(window);
+  if (!match) return undefined;
+  const meridiem = match[3].replace(/\./g, "").toUpperCase();
+  return `${Number(match[1])}:${match[2] || "00"} ${meridiem}`;
+}
+
+export function extractEmailDates(text: string, reference: Date = new Date()): ParsedEmailDate[] {
+  const found: { index: number; date: Date; source: string; length: number }[] = [];
+  const push = (index: number, date: Date, source: string) => {
+    if (isValid(date)) found.push({ index, date, source, length: source.length });
+  };
+
+  // 2025-03-14
+  for (const m of Array.from(text.matchAll(/\b(\d{4})-(\d{2})-(\d{2})\b/g))) {
+    push(m.index ?? 0, new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3])), m[0]);
+  }
+  // March 14th, 2025 / Mar 14
+  for (const m of Array.from(text.matchAll(new RegExp(`\\b${MONTH_PATTERN}\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?\\b`, "gi")))) {
+    push(m.index ?? 0, withInferredYear(monthIndex(m[1]), Number(m[2]), m[3] ? Number(m[3]) : null, reference), m[0]);
+  }
+  // 14th March 2025 / 14 Mar
+  for (const m of Array.from(text.matchAll(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN}\\.?(?:,?\\s+(\\d{4}))?\\b`, "gi")))) {
+    push(m.index ?? 0, withInferredYear(monthIndex(m[2]), Number(m[1]), m[3] ? Number(m[3]) : null, reference), m[0]);
+  }
+  // 3/14/2025 or 3/14 (US order, which is what most hosts we pitch use)
+  for (const m of Array.from(text.matchAll(/\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?\b/g))) {
+    const month = Number(m[1]) - 1;
+    const day = Number(m[2]);
+    if (month > 11 || day > 31) continue;
+    push(m.index ?? 0, withInferredYear(month, day, m[3] ? Number(m[3]) : null, reference), m[0]);
+  }
+  // tomorrow / (next) Tuesday, both read as the coming occurrence
+  for (const m of Array.from(text.matchAll(/\b(tomorrow|(?:next\s+|this\s+)?(?:sunday|monday|tuesday|wednesday|thursday|friday|saturday))\b/gi))) {
+    const phrase = m[1].toLowerCase();
+    if (phrase === "tomorrow") {
+      push(m.index ?? 0, addDays(reference, 1), m[0]);
+      continue;
+    }
+    // "Tuesday, March 14" is already covered by the explicit date
+    const following = text.slice((m.index ?? 0) + m[0].length, (m.index ?? 0) + m[0].length + 16);
+    if (new RegExp(`^,?\\s*(?:the\\s+)?(?:${MONTH_PATTERN}|\\d{1,2}\\b)`, "i").test(following)) continue;
+    const target = WEEKDAYS.indexOf(phrase.replace(/^(next|this)\s+/, ""));
+    const offset = (target - reference.getDay() + 7) % 7 || 7;
+    push(m.index ?? 0, addDays(reference, offset), m[0]);
+  }
+
+  // Upcoming dates first (in the order they appear), since a confirmation mostly looks forward
+  const today = startOfDay(reference).getTime();
+  const seen = new Set<string>();
+  return found
+    .sort((a, b) => Number(a.date.getTime() < today) - Number(b.date.getTime() < today) || a.index - b.index)
+    .map(({ index, date, source, length }) => ({
+      date,
+      dateKey: format(date, "yyyy-MM-dd"),
+      time: findTimeNear(text, index, length),
+      source,
+    }))
+    .filter(parsed => {
+      if (seen.has(parsed.dateKey)) return false;
+      seen.add(parsed.dateKey);
+      return true;
+    });
+}
@@ -0,0 +1,110 @@
+// client/src/lib/inboxRules.ts
+// Saved inbox view resolution and client-side auto-labelling rules.
+import { endOfDay, startOfDay, startOfMonth, startOfWeek, subDays } from "date-fns";
+import type { EmailThread, InboxDateRange, InboxFilters, InboxLabelRule, SavedInboxView } from "@/types/inbox";
+
+export const DATE_RANGE_LABELS: Record<InboxDateRange, string> = {
+  today: "Today",
+  this_week: "This week",
+  last_7_days: "Last 7 days",
+  this_month: "This month",
+};
+
+export const CLASSIFICATION_OPTIONS: { value: NonNullable<InboxLabelRule["conditions"]["classification"]>; label: string }[] = [
+  { value: "booking_confirmation", label: "Booking confirmation" },
+  { value: "pitch_response", label: "Pitch response" },
+  { value: "question", label: "Question" },
+  { value: "follow_up", label: "Follow-up" },
+  { value: "rejection", label: "Rejection" },
+  { value: "general", label: "General" },
+];
+
+// Turns a saved view into concrete thread filters, resolving relative dates against `now`
+export function resolveViewFilters(view: SavedInboxView, now: Date = new Date()): InboxFilters {
+  const filters: InboxFilters = { ...view.filters };
+  if (view.date_range) {
+    const from = {
+      today: startOfDay(now),
+      this_week: startOfWeek(now, { weekStartsOn: 1 }),
+      last_7_days: startOfDay(subDays(now, 6)),
+      this_month: startOfMonth(now),
+    }[view.date_range];
+    filters.date_from = from.toISOString();
+    filters.date_to = endOfDay(now).toISOString();
+  }
+  return filters;
+}
+
+export function describeRule(rule: InboxLabelRule): string {
+  const { conditions, actions } = rule;
+  const when: string[] = [];
+  if (conditions.classification) when.push(`classification = ${conditions.classification}`);
+  if (conditions.min_confidence != null) when.push(`confidence > ${conditions.min_confidence}`);
+  if (conditions.priority) when.push(`priority = ${conditions.priority}`);
+  if (conditions.from_contains) when.push(`from contains "${conditions.from_contains}"`);
+  if (conditions.subject_contains) when.push(`subject contains "${conditions.subject_contains}"`);
+  const then: string[] = [];
+  if (actions.add_labels?.length) then.push(`label ${actions.add_labels.join(", ")}`);
+  if (actions.star) then.push("star");
+  return `If ${when.join(" and ") || "any thread"}, ${then.join(" and ") || "do nothing"}`;
+}
+
+export function threadMatchesRule(thread: EmailThread, rule: InboxLabelRule): boolean {
+  const { conditions } = rule;
+  const classification = thread.classification;
+  if (conditions.classification && classification?.category !== conditions.classification) return false;
+  if (conditions.min_confidence != null && (classification?.confidence ?? 0) <= conditions.min_confidence) return false;
+  if (conditions.priority && classification?.priority !== conditions.priority) return false;
+  if (conditions.from_contains) {
+    const needle = conditions.from_contains.toLowerCase();
+    if (!thread.participants.some(p => p.email.toLowerCase().includes(needle) || p.name?.toLowerCase().includes(needle))) return false;
+  }
+  if (conditions.subject_contains && !thread.subject?.toLowerCase().includes(conditions.subject_contains.toLowerCase())) return false;
+  return true;
+}
+
+export interface PendingRuleActions {
+  threadId: string;
+  ruleIds: string[]; // Rules running on this thread for the first time; recorded once their actions go through
+  addLabels: string[];
+  star: boolean;
+}
+
+// Thread id -> ids of the rules that have already run on it
+export type ProcessedRuleRuns = Record<string, string[]>;
+
+// Each rule acts on a thread once: a label or star the user later removes stays removed.
+// Labels and stars the thread already has are skipped, but the rule still counts as run.
+export function getPendingRuleActions(threads: EmailThread[], rules: InboxLabelRule[], processed: ProcessedRuleRuns): PendingRuleActions[] {
+  const enabledRules = rules.filter(rule => rule.enabled);
+  if (enabledRules.length === 0) return [];
+  const pending: PendingRuleActions[] = [];
+  threads.forEach(thread => {
+    const alreadyRun = new Set(processed[thread.id] || []);
+    const newRules = enabledRules.filter(rule => !alreadyRun.has(rule.id) && threadMatchesRule(thread, rule));
+    if (newRules.length === 0) return;
+    const existing = new Set(thread.labels || []);
+    const addLabels = new Set<string>();
+    let star = false;
+    newRules.forEach(rule => {
+      rule.actions.add_labels?.forEach(label => { if (!existing.has(label)) addLabels.add(label); });
+      if (rule.actions.star && !thread.starred) star = true;
+    });
+    pending.push({ threadId: thread.id, ruleIds: newRules.map(rule => rule.id), addLabels: Array.from(addLabels), star });
+  });
+  return pending;
+}
+
+const ruleRunsStorageKey = (personId: number) => `inbox-rule-runs-${personId}`;
+
+export function loadProcessedRuleRuns(personId: number): ProcessedRuleRuns {
+  try {
+    return JSON.parse(localStorage.getItem(ruleRunsStorageKey(personId)) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+export function saveProcessedRuleRuns(personId: number, runs: ProcessedRuleRuns) {
+  localStorage.setItem(ruleRunsStorageKey(personId), JSON.stringify(runs));
+}
@@ -0,0 +1,136 @@
+// client/src/lib/keywordReview.ts
+// Turns the chatbot's extracted keywords into a reviewable list: grouping, provenance, merging and the approved set.
+
+export interface ExtractedData {
+  keywords?: {
+    explicit: string[];
+    implicit: string[];
+    contextual: string[];
+  };
+  entities?: {
+    companies: string[];
+    roles: string[];
+  };
+}
+
+export type ReviewKeywordType = "explicit" | "implicit" | "contextual" | "company" | "role";
+export type ReviewKeywordStatus = "pending" | "accepted" | "rejected";
+
+export interface ReviewKeyword {
+  id: string;
+  text: string;
+  extractedText: string; // As the assistant produced it, before any edit
+  type: ReviewKeywordType;
+  status: ReviewKeywordStatus;
+  sourceMessage: string | null; // The user's message the keyword was pulled from, when it can be traced
+  mergedFrom?: string[];
+}
+
+export const KEYWORD_TYPE_LABELS: Record<ReviewKeywordType, { label: string; description: string }> = {
+  explicit: { label: "Mentioned directly", description: "Terms you used yourself" },
+  implicit: { label: "Inferred", description: "Topics the assistant read between the lines" },
+  contextual: { label: "Context", description: "Industry and audience around your answers" },
+  company: { label: "Companies", description: "Organizations you mentioned" },
+  role: { label: "Roles", description: "Titles and roles you mentioned" },
+};
+
+export const KEYWORD_TYPE_ORDER: ReviewKeywordType[] = ["explicit", "implicit", "contextual", "company", "role"];
+
+// Explicit keywords start accepted; everything the model inferred waits for the client
+const DEFAULT_STATUS: Record<ReviewKeywordType, ReviewKeywordStatus> = {
+  explicit: "accepted",
+  implicit: "pending",
+  contextual: "pending",
+  company: "pending",
+  role: "pending",
+};
+
+export const normalizeKeyword = (text: string) => text.trim().toLowerCase().replace(/\s+/g, " ");
+
+export function flattenExtractedKeywords(data: ExtractedData | null | undefined): { text: string; type: ReviewKeywordType }[] {
+  if (!data) return [];
+  const groups: [ReviewKeywordType, string[] | undefined][] = [
+    ["explicit", data.keywords?.explicit],
+    ["implicit", data.keywords?.implicit],
+    ["contextual", data.keywords?.contextual],
+    ["company", data.entities?.companies],
+    ["role", data.entities?.roles],
+  ];
+  const seen = new Set<string>();
+  return groups.flatMap(([type, values]) => (values || [])
+    .filter(value => {
+      const key = normalizeKeyword(value);
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(text => ({ text: text.trim(), type })));
+}
+
+// Keywords present in `next` but not `previous`; used to pin each keyword to the message that produced it
+export function diffExtractedKeywords(previous: ExtractedData | null | undefined, next: ExtractedData | null | undefined): string[] {
+  const before = new Set(flattenExtractedKeywords(previous).map(item => normalizeKeyword(item.text)));
+  return flattenExtractedKeywords(next).map(item => normalizeKeyword(item.text)).filter(key => !before.has(key));
+}
+
+// Fallback for resumed conversations, where per-message provenance wasn't recorded
+function findSourceMessage(keyword: string, userMessages: string[]): string | null {
+  const needle = normalizeKeyword(keyword);
+  return userMessages.find(message => normalizeKeyword(message).includes(needle)) || null;
+}
+
+// Rebuilds the review list from the latest extraction, keeping decisions and edits the client already made
+export function buildReviewKeywords(
+  data: ExtractedData | null | undefined,
+  sources: Record<string, string>,
+  userMessages: string[],
+  previous: ReviewKeyword[] = [],
+): ReviewKeyword[] {
+  const decided = new Map<string, ReviewKeyword>();
+  previous.forEach(item => {
+    [item.text, item.extractedText, ...(item.mergedFrom || [])].forEach(text => decided.set(normalizeKeyword(text), item));
+  });
+
+  const result: ReviewKeyword[] = [];
+  const included = new Set<string>();
+  flattenExtractedKeywords(data).forEach(({ text, type }) => {
+    const key = normalizeKeyword(text);
+    const item = decided.get(key) || {
+      id: `${type}:${key}`,
+      text,
+      extractedText: text,
+      type,
+      status: DEFAULT_STATUS[type],
+      sourceMessage: sources[key] || findSourceMessage(text, userMessages),
+    };
+    if (included.has(item.id)) return;
+    result.push(item);
+    included.add(item.id);
+  });
+  // Merged keywords survive even if the assistant later drops one of their parts
+  return [...result, ...previous.filter(item => item.mergedFrom?.length && !included.has(item.id))];
+}
+
+// Collapses several keywords into one accepted keyword that sits where the first of them was
+export function mergeReviewKeywords(items: ReviewKeyword[], ids: string[], text: string): ReviewKeyword[] {
+  const merging = items.filter(item => ids.includes(item.id));
+  if (merging.length < 2) return items;
+  const first = merging[0];
+  const merged: ReviewKeyword = {
+    id: `merged:${normalizeKeyword(text)}`,
+    text: text.trim(),
+    extractedText: first.extractedText,
+    type: first.type,
+    status: "accepted",
+    sourceMessage: merging.find(item => item.sourceMessage)?.sourceMessage || null,
+    mergedFrom: merging.flatMap(item => item.mergedFrom || [item.extractedText]),
+  };
+  return items.flatMap(item => {
+    if (item.id === first.id) return [merged];
+    return ids.includes(item.id) ? [] : [item];
+  });
+}
+
+export function getApprovedKeywords(items: ReviewKeyword[]): string[] {
+  return Array.from(new Set(items.filter(item => item.status === "accepted").map(item => normalizeKeyword(item.text))));
+}
@@ -0,0 +1,170 @@
+// client/src/lib/mediaDuplicates.ts
+// Groups media records that are probably the same show, and picks default survivors and field values for merging them.
+import type { DuplicateCluster, DuplicateReason, MergeCandidateMedia, MergeFieldKey } from "@/types/mediaMerge";
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  name: "Same name",
+  rss_url: "Same RSS feed",
+  itunes_id: "Same Apple Podcasts ID",
+  podcast_spotify_id: "Same Spotify ID",
+  website: "Same website",
+};
+
+export const MERGE_FIELDS: { key: MergeFieldKey; label: string }[] = [
+  { key: "name", label: "Name" },
+  { key: "rss_url", label: "RSS feed" },
+  { key: "website", label: "Website" },
+  { key: "itunes_id", label: "Apple Podcasts ID" },
+  { key: "podcast_spotify_id", label: "Spotify ID" },
+  { key: "contact_email", label: "Contact email" },
+  { key: "host_names", label: "Hosts" },
+  { key: "category", label: "Category" },
+  { key: "language", label: "Language" },
+  { key: "image_url", label: "Cover image" },
+  { key: "description", label: "Description" },
+];
+
+export const PROVENANCE_SOURCE_LABELS: Record<string, string> = {
+  manual: "Manually verified",
+  api_listennotes: "Listen Notes",
+  api_podscan: "PodScan",
+  llm_discovery: "AI discovered",
+};
+
+export const describeSource = (source: string | null | undefined) =>
+  source ? PROVENANCE_SOURCE_LABELS[source] || source.replace(/_/g, " ") : "Unknown source";
+
+// --- Normalisation ---
+
+// "The Growth Show Podcast" and "growth show" are the same show for matching purposes
+export function normalizeMediaName(name: string | null | undefined): string {
+  if (!name) return "";
+  return name
+    .toLowerCase()
+    .normalize("NFKD").replace(/[\u0300-\u036f]/g, "")
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9 ]+/g, " ")
+    .replace(/\b(the|podcast|show|pod)\b/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function normalizeUrlKey(url: string | null | undefined): string {
+  if (!url) return "";
+  return url.trim().toLowerCase()
+    .replace(/^[a-z]+:\/\//, "")
+    .replace(/^www\./, "")
+    .replace(/[?#].*$/, "")
+    .replace(/\/+$/, "");
+}
+
+// Shared hosting landing pages say nothing about the show itself
+const GENERIC_WEBSITE_HOSTS = ["anchor.fm", "podcasters.spotify.com", "buzzsprout.com", "podbean.com", "libsyn.com", "spreaker.com", "linktr.ee"];
+
+function websiteKey(website: string | null | undefined): string {
+  const key = normalizeUrlKey(website);
+  return GENERIC_WEBSITE_HOSTS.includes(key) ? "" : key;
+}
+
+const MIN_NAME_KEY_LENGTH = 4;
+
+const KEY_EXTRACTORS: Record<DuplicateReason, (media: MergeCandidateMedia) => string> = {
+  name: media => {
+    const key = normalizeMediaName(media.name);
+    return key.length >= MIN_NAME_KEY_LENGTH ? key : "";
+  },
+  rss_url: media => normalizeUrlKey(media.rss_url),
+  itunes_id: media => (media.itunes_id || "").trim(),
+  podcast_spotify_id: media => (media.podcast_spotify_id || "").trim(),
+  website: media => websiteKey(media.website),
+};
+
+// --- Clustering ---
+
+// Union-find over shared identifiers, so A~B by RSS and B~C by Spotify ID end up as one cluster of three.
+// Names are weaker evidence and don't chain: they only group records no identifier has already tied to anything.
+export function clusterDuplicateMedia(mediaList: MergeCandidateMedia[]): DuplicateCluster[] {
+  const parent = mediaList.map((_, index) => index);
+  const find = (index: number): number => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+  const reasonsByRoot = new Map<number, Set<DuplicateReason>>();
+  const linkReasons: { index: number; reason: DuplicateReason }[] = [];
+
+  const linkByKey = (reason: DuplicateReason, candidates: number[]) => {
+    const firstByKey = new Map<string, number>();
+    candidates.forEach(index => {
+      const key = KEY_EXTRACTORS[reason](mediaList[index]);
+      if (!key) return;
+      const first = firstByKey.get(key);
+      if (first === undefined) {
+        firstByKey.set(key, index);
+      } else {
+        parent[find(index)] = find(first);
+        linkReasons.push({ index, reason });
+      }
+    });
+  };
+
+  const allIndexes = mediaList.map((_, index) => index);
+  (Object.keys(KEY_EXTRACTORS) as DuplicateReason[]).filter(reason => reason !== "name").forEach(reason => linkByKey(reason, allIndexes));
+  const componentSizes = new Map<number, number>();
+  allIndexes.forEach(index => {
+    const root = find(index);
+    componentSizes.set(root, (componentSizes.get(root) || 0) + 1);
+  });
+  linkByKey("name", allIndexes.filter(index => componentSizes.get(find(index)) === 1));
+
+  linkReasons.forEach(({ index, reason }) => {
+    const root = find(index);
+    reasonsByRoot.set(root, (reasonsByRoot.get(root) || new Set()).add(reason));
+  });
+
+  const groups = new Map<number, MergeCandidateMedia[]>();
+  mediaList.forEach((media, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) || []), media]);
+  });
+
+  return Array.from(groups, ([root, media]) => ({ root, media }))
+    .filter(group => group.media.length > 1)
+    .map(({ root, media }) => ({
+      key: media.map(item => item.media_id).sort((a, b) => a - b).join("-"),
+      media: [...media].sort((a, b) => a.media_id - b.media_id),
+      reasons: Array.from(reasonsByRoot.get(root) || []),
+    }))
+    // Hard identifiers first: a shared feed or platform ID is far stronger evidence than a similar name
+    .sort((a, b) => clusterStrength(b) - clusterStrength(a) || b.media.length - a.media.length);
+}
+
+const clusterStrength = (cluster: DuplicateCluster) =>
+  cluster.reasons.reduce((total, reason) => total + (reason === "name" ? 1 : reason === "website" ? 2 : 4), 0);
+
+// --- Merge defaults ---
+
+export const relatedRecordCount = (media: MergeCandidateMedia) =>
+  media.match_count + media.pitch_count + media.placement_count + media.episode_count;
+
+// The record most of the work already points at survives, so fewer rows have to move; ties go to the oldest
+export function pickDefaultSurvivor(cluster: DuplicateCluster): MergeCandidateMedia {
+  return [...cluster.media].sort((a, b) =>
+    relatedRecordCount(b) - relatedRecordCount(a) || new Date(a.created_at).getTime() - new Date(b.created_at).getTime(),
+  )[0];
+}
+
+export const isEmptyMergeValue = (value: unknown) =>
+  value === null || value === undefined || (typeof value === "string" && !value.trim()) || (Array.isArray(value) && value.length === 0);
+
+// Per field: a manually verified value anywhere wins, then the survivor's own value, then the most confident other source
+export function getDefaultFieldSources(cluster: DuplicateCluster, survivorId: number): Record<MergeFieldKey, number> {
+  return Object.fromEntries(MERGE_FIELDS.map(({ key }) => {
+    const withValue = cluster.media.filter(media => !isEmptyMergeValue(media[key]));
+    const manual = withValue.find(media => media.provenance?.[key]?.source === "manual");
+    const survivor = withValue.find(media => media.media_id === survivorId);
+    const mostConfident = [...withValue].sort((a, b) => (b.provenance?.[key]?.confidence ?? 0) - (a.provenance?.[key]?.confidence ?? 0))[0];
+    return [key, (manual || survivor || mostConfident)?.media_id ?? survivorId];
+  })) as Record<MergeFieldKey, number>;
+}
+
+export const formatMergeValue = (value: unknown): string => {
+  if (isEmptyMergeValue(value)) return "—";
+  return Array.isArray(value) ? value.join(", ") : String(value);
+};
@@ -0,0 +1,99 @@
+// client/src/lib/mediaKitAccess.ts
+// Share-link access for public media kits: the ?access= token, password unlock grants and the gate errors.
+import { apiRequest } from "@/lib/queryClient";
+import type { MediaKitGateReason, MediaKitShareLink, PublicMediaKitData } from "@/types/mediaKit";
+
+export const MEDIA_KIT_ACCESS_PARAM = "access";
+
+const GRANT_STORAGE_PREFIX = "media-kit-grant:";
+
+// Thrown by fetchPublicMediaKit; `gate` is set when the kit exists but the visitor can't see it yet
+export type MediaKitAccessError = Error & { status?: number; gate?: MediaKitGateReason };
+
+export function getShareLinkUrl(slug: string, token: string): string {
+  return `${window.location.origin}/media-kit/${slug}?${MEDIA_KIT_ACCESS_PARAM}=${encodeURIComponent(token)}`;
+}
+
+export function getShareLinkStatus(link: Pick<MediaKitShareLink, "revoked_at" | "expires_at">): "active" | "expired" | "revoked" {
+  if (link.revoked_at) return "revoked";
+  if (link.expires_at && new Date(link.expires_at).getTime() <= Date.now()) return "expired";
+  return "active";
+}
+
+// Unlock grants live for the browser tab only, so a shared computer doesn't stay unlocked
+function getStoredGrant(slug: string): string | null {
+  try {
+    return sessionStorage.getItem(`${GRANT_STORAGE_PREFIX}${slug}`);
+  } catch {
+    return null;
+  }
+}
+
+function storeGrant(slug: string, grant: string) {
+  try {
+    sessionStorage.setItem(`${GRANT_STORAGE_PREFIX}${slug}`, grant);
+  } catch {
+    // Storage blocked: the visitor will be asked for the password again on reload
+  }
+}
+
+export async function fetchPublicMediaKit(slug: string, accessToken?: string | null): Promise<PublicMediaKitData> {
+  const params = new URLSearchParams();
+  if (accessToken) params.set(MEDIA_KIT_ACCESS_PARAM, accessToken);
+  const grant = getStoredGrant(slug);
+  if (grant) params.set("grant", grant);
+  const query = params.toString();
+
+  const response = await apiRequest("GET", `/public/media-kit/${slug}${query ? `?${query}` : ""}`);
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ detail: "Failed to fetch media kit." }));
+    const message = response.status === 404 ? "Media kit not found or not public." : errorData.detail || "Failed to fetch media kit.";
+    const error: MediaKitAccessError = new Error(message);
+    error.status = response.status;
+    if (response.status === 401 || response.status === 403) error.gate = errorData.gate || "link_required";
+    throw error;
+  }
+  const data: PublicMediaKitData = await response.json();
+  if (!data.is_public) {
+    const error: MediaKitAccessError = new Error("This media kit is not public.");
+    error.status = 404;
+    throw error;
+  }
+  return data;
+}
+
+// A revocable link for one pitch recipient, so a links-only kit can go out in a pitch without hitting the gate
+export async function createRecipientShareLink(
+  mediaKitId: string,
+  recipient: { name?: string | null; email?: string | null }
+): Promise<MediaKitShareLink> {
+  const response = await apiRequest("POST", `/media-kits/${mediaKitId}/share-links`, {
+    recipient_name: recipient.name || null,
+    recipient_email: recipient.email || null,
+    password: null,
+    expires_at: null,
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ detail: "Failed to create share link." }));
+    throw new Error(errorData.detail || "Failed to create share link.");
+  }
+  return response.json();
+}
+
+export async function revokeShareLink(mediaKitId: string, linkId: string): Promise<void> {
+  const response = await apiRequest("PATCH", `/media-kits/${mediaKitId}/share-links/${linkId}`, { revoked: true });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ detail: "Failed to revoke share link." }));
+    throw new Error(errorData.detail || "Failed to revoke share link.");
+  }
+}
+
+export async function unlockMediaKit(slug: string, accessToken: string | null, password: string): Promise<void> {
+  const response = await apiRequest("POST", `/public/media-kit/${slug}/unlock`, { access_token: accessToken, password });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ detail: "Incorrect password." }));
+    throw new Error(errorData.detail || "Incorrect password.");
+  }
+  const { grant } = await response.json();
+  storeGrant(slug, grant);
+}
@@ -0,0 +1,157 @@
+// client/src/lib/mediaKitAnalytics.ts
+// Anonymous visitor tracking for the public media kit page, plus the per-pitch ?ref= token pitch links carry.
+import { API_BASE_URL, apiRequest } from "@/lib/queryClient";
+import type { MediaKitVisitEventType } from "@/types/mediaKit";
+
+export const MEDIA_KIT_REF_PARAM = "ref";
+
+const VISITOR_STORAGE_KEY = "media-kit-visitor-id";
+const FLUSH_DELAY_MS = 2000;
+const SECTION_VISIBLE_RATIO = 0.4;
+
+interface MediaKitVisitEvent {
+  type: MediaKitVisitEventType;
+  section?: string;
+  url?: string;
+  duration_seconds?: number;
+  occurred_at: string;
+}
+
+// Opaque token the backend ties to the pitch created with it, so follow-ups get their own and views can't be forged
+export async function mintPitchRefToken(matchId: number): Promise<string> {
+  const res = await apiRequest("POST", "/media-kits/pitch-refs", { match_id: matchId });
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({ detail: "Failed to create media kit tracking link" }));
+    throw new Error(errorData.detail || "Failed to create media kit tracking link");
+  }
+  const data: { ref_token: string } = await res.json();
+  return data.ref_token;
+}
+
+export function withPitchRef(url: string, token: string): string {
+  const separator = url.includes("?") ? "&" : "?";
+  return `${url}${separator}${MEDIA_KIT_REF_PARAM}=${encodeURIComponent(token)}`;
+}
+
+function randomId(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) return crypto.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function getVisitorId(): string {
+  try {
+    const existing = localStorage.getItem(VISITOR_STORAGE_KEY);
+    if (existing) return existing;
+    const id = randomId();
+    localStorage.setItem(VISITOR_STORAGE_KEY, id);
+    return id;
+  } catch {
+    // Storage blocked (private mode, embedded browsers): count the visit without repeat-visitor linking
+    return randomId();
+  }
+}
+
+/**
+ * Starts recording a visit to /media-kit/:slug and returns a cleanup function.
+ * Events are batched and sent with sendBeacon so they survive the tab closing.
+ */
+export function startMediaKitTracking(
+  root: HTMLElement,
+  options: { slug: string; pitchToken?: string | null; accessToken?: string | null }
+): () => void {
+  const endpoint = `${API_BASE_URL}/public/media-kit/${options.slug}/events`;
+  const visit = {
+    visit_id: randomId(),
+    visitor_id: getVisitorId(),
+    pitch_token: options.pitchToken || null,
+    access_token: options.accessToken || null, // Share link, so views can be credited to its recipient
+    referrer: document.referrer || null,
+  };
+
+  let queue: MediaKitVisitEvent[] = [];
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  const seenSections = new Set<string>();
+
+  // Only time the tab is actually visible counts towards time on page
+  let visibleMs = 0;
+  let visibleSince: number | null = document.visibilityState === "visible" ? Date.now() : null;
+  const secondsOnPage = () => Math.round((visibleMs + (visibleSince ? Date.now() - visibleSince : 0)) / 1000);
+
+  const flush = () => {
+    if (flushTimer) {
+      clearTimeout(flushTimer);
+      flushTimer = null;
+    }
+    if (queue.length === 0) return;
+    // text/plain keeps the beacon a "simple" request, so no CORS preflight is needed
+    const body = JSON.stringify({ ...visit, events: queue });
+    queue = [];
+    const sent = typeof navigator.sendBeacon === "function" && navigator.sendBeacon(endpoint, new Blob([body], { type: "text/plain" }));
+    if (!sent) {
+      fetch(endpoint, { method: "POST", body, keepalive: true, headers: { "Content-Type": "text/plain" } }).catch(() => {});
+    }
+  };
+
+  const track = (event: Omit<MediaKitVisitEvent, "occurred_at">) => {
+    queue.push({ ...event, occurred_at: new Date().toISOString() });
+    if (!flushTimer) flushTimer = setTimeout(flush, FLUSH_DELAY_MS);
+  };
+
+  // Durations are cumulative for the visit; the backend keeps the latest one
+  const recordTimeOnPage = () => {
+    const seconds = secondsOnPage();
+    if (seconds > 0) track({ type: "time_on_page", duration_seconds: seconds });
+  };
+
+  track({ type: "view" });
+
+  const observer = typeof IntersectionObserver !== "undefined"
+    ? new IntersectionObserver(entries => {
+        entries.forEach(entry => {
+          const section = (entry.target as HTMLElement).dataset.kitSection;
+          if (!entry.isIntersecting || !section || seenSections.has(section)) return;
+          seenSections.add(section);
+          track({ type: "section_view", section });
+          observer?.unobserve(entry.target);
+        });
+      }, { threshold: SECTION_VISIBLE_RATIO })
+    : null;
+  root.querySelectorAll<HTMLElement>("[data-kit-section]").forEach(el => observer?.observe(el));
+
+  const handleClick = (event: MouseEvent) => {
+    const target = (event.target as HTMLElement | null)?.closest<HTMLAnchorElement>("[data-kit-track]");
+    if (!target) return;
+    track({ type: target.dataset.kitTrack as MediaKitVisitEventType, url: target.href || undefined });
+    // The visitor is usually leaving the page
+    flush();
+  };
+
+  const handleVisibility = () => {
+    if (document.visibilityState === "hidden") {
+      if (visibleSince) visibleMs += Date.now() - visibleSince;
+      visibleSince = null;
+      recordTimeOnPage();
+      flush();
+    } else if (!visibleSince) {
+      visibleSince = Date.now();
+    }
+  };
+
+  const handlePageHide = () => {
+    recordTimeOnPage();
+    flush();
+  };
+
+  root.addEventListener("click", handleClick);
+  document.addEventListener("visibilitychange", handleVisibility);
+  window.addEventListener("pagehide", handlePageHide);
+
+  return () => {
+    root.removeEventListener("click", handleClick);
+    document.removeEventListener("visibilitychange", handleVisibility);
+    window.removeEventListener("pagehide", handlePageHide);
+    observer?.disconnect();
+    recordTimeOnPage();
+    flush();
+  };
+}
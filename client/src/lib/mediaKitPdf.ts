@@ -0,0 +1,302 @@
+// client/src/lib/mediaKitPdf.ts
+// Builds a downloadable one-sheet (spilling onto a second page when needed) from media kit data.
+// Everything is drawn with jsPDF so the file downloads directly instead of going through the print dialog.
+import QRCode from "qrcode";
+import type { jsPDF as JsPDF } from "jspdf";
+import { getShareLinkUrl } from "@/lib/mediaKitAccess";
+import type { MediaKitAccessMode } from "@/types/mediaKit";
+
+// Accepts both the public media kit payload and the editor's campaign media kit
+export interface MediaKitPdfSource {
+  slug?: string | null;
+  access_mode?: MediaKitAccessMode | null;
+  title?: string | null;
+  tagline?: string | null;
+  headline?: string | null;
+  client_full_name?: string | null;
+  client_email?: string | null;
+  client_website?: string | null;
+  full_bio_content?: string | null;
+  summary_bio_content?: string | null;
+  short_bio_content?: string | null;
+  talking_points?: Array<{ title?: string; topic?: string; description?: string | null }> | null;
+  key_achievements?: string[] | null;
+  sample_questions?: string[] | null;
+  previous_appearances?: Array<{ title?: string | null; outlet?: string | null; date?: string | null }> | null;
+  person_social_links?: Array<{ platform?: string; handle?: string | null; url?: string | null }> | null;
+  headshot_image_url?: string | null;
+  headshot_image_urls?: Array<{ url: string }> | null;
+  image_urls?: { headshot_url?: string | null } | null;
+}
+
+const PAGE_WIDTH = 612; // US Letter in points
+const PAGE_HEIGHT = 792;
+const MARGIN = 40;
+const HEADER_HEIGHT = 150;
+const FOOTER_HEIGHT = 36;
+const COLUMN_GAP = 24;
+const SIDE_COLUMN_WIDTH = 180;
+const MAX_PAGES = 2;
+const DARK = "#1e293b";
+const MUTED = "#64748b";
+const ACCENT = "#2563eb";
+
+export function getMediaKitPublicUrl(slug: string): string {
+  return `${window.location.origin}/media-kit/${slug}`;
+}
+
+// Links-only kits turn the bare URL away at the gate, so they only get a link when there is a share link to use
+export function getMediaKitPdfLinkUrl(kit: MediaKitPdfSource, accessToken?: string | null): string | null {
+  if (!kit.slug) return null;
+  if (accessToken) return getShareLinkUrl(kit.slug, accessToken);
+  return kit.access_mode === "links_only" ? null : getMediaKitPublicUrl(kit.slug);
+}
+
+export function getMediaKitHeadshotUrl(kit: MediaKitPdfSource): string | null {
+  return kit.headshot_image_url || kit.headshot_image_urls?.[0]?.url || kit.image_urls?.headshot_url || null;
+}
+
+// Bios are stored as markdown; the PDF only needs the words
+function stripMarkdown(text: string): string {
+  return text
+    .replace(/\*\*(Full|Summary|Short) Bio:\*\*/gi, "")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/^#+\s*/gm, "")
+    .replace(/[*_`>]/g, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// Draws the headshot into a circular, centre-cropped JPEG. Returns null when the host blocks cross-origin reads.
+function loadCircularImage(url: string, size = 360): Promise<string | null> {
+  return new Promise(resolve => {
+    const image = new Image();
+    image.crossOrigin = "anonymous";
+    image.onload = () => {
+      try {
+        const canvas = document.createElement("canvas");
+        canvas.width = size;
+        canvas.height = size;
+        const ctx = canvas.getContext("2d");
+        if (!ctx) return resolve(null);
+        ctx.fillStyle = DARK;
+        ctx.fillRect(0, 0, size, size);
+        ctx.beginPath();
+        ctx.arc(size / 2, size / 2, size / 2, 0, Math.PI * 2);
+        ctx.clip();
+        const side = Math.min(image.naturalWidth, image.naturalHeight);
+        ctx.drawImage(
+          image,
+          (image.naturalWidth - side) / 2,
+          (image.naturalHeight - side) / 2,
+          side,
+          side,
+          0,
+          0,
+          size,
+          size,
+        );
+        resolve(canvas.toDataURL("image/jpeg", 0.9));
+      } catch {
+        resolve(null); // Tainted canvas
+      }
+    };
+    image.onerror = () => resolve(null);
+    image.src = url;
+  });
+}
+
+interface Column {
+  x: number;
+  width: number;
+  page: number;
+  y: number;
+}
+
+// Writes flowing text into a column, moving to the next page when it runs out of room
+class ColumnWriter {
+  truncated = false;
+
+  constructor(private doc: JsPDF, private column: Column) {}
+
+  private get bottom() {
+    return PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT;
+  }
+
+  private ensureSpace(height: number): boolean {
+    if (this.column.y + height <= this.bottom) return true;
+    if (this.column.page >= MAX_PAGES) {
+      this.truncated = true;
+      return false;
+    }
+    this.column.page += 1;
+    if (this.doc.getNumberOfPages() < this.column.page) this.doc.addPage();
+    this.column.y = MARGIN;
+    return true;
+  }
+
+  heading(text: string) {
+    if (this.truncated || !this.ensureSpace(30)) return;
+    this.doc.setPage(this.column.page);
+    this.column.y += 6;
+    this.doc.setFont("helvetica", "bold").setFontSize(11).setTextColor(ACCENT);
+    this.doc.text(text.toUpperCase(), this.column.x, this.column.y + 10);
+    this.doc.setDrawColor(ACCENT).setLineWidth(0.75);
+    this.doc.line(this.column.x, this.column.y + 15, this.column.x + this.column.width, this.column.y + 15);
+    this.column.y += 24;
+  }
+
+  paragraph(text: string, options: { size?: number; bold?: boolean; color?: string; indent?: number; gapAfter?: number; bullet?: boolean } = {}) {
+    if (this.truncated) return;
+    const { size = 9.5, bold = false, color = DARK, indent = 0, gapAfter = 6, bullet = false } = options;
+    const lineHeight = size * 1.35;
+    const bulletIndent = bullet ? 10 : 0;
+    this.doc.setFont("helvetica", bold ? "bold" : "normal").setFontSize(size);
+    const lines: string[] = this.doc.splitTextToSize(text, this.column.width - indent - bulletIndent);
+
+    lines.forEach((line, index) => {
+      if (this.truncated) return;
+      if (!this.ensureSpace(lineHeight)) {
+        // Mark the cut so readers know the rest lives on the web version
+        this.doc.setPage(this.column.page);
+        this.doc.setFont("helvetica", "italic").setFontSize(8).setTextColor(MUTED);
+        this.doc.text("Continued in the online media kit", this.column.x, this.bottom + 10);
+        return;
+      }
+      this.doc.setPage(this.column.page);
+      this.doc.setFont("helvetica", bold ? "bold" : "normal").setFontSize(size).setTextColor(color);
+      if (bullet && index === 0) this.doc.text("•", this.column.x + indent, this.column.y + size);
+      this.doc.text(line, this.column.x + indent + bulletIndent, this.column.y + size);
+      this.column.y += lineHeight;
+    });
+    this.column.y += gapAfter;
+  }
+}
+
+function drawHeader(doc: JsPDF, kit: MediaKitPdfSource, headshot: string | null, qrCode: string | null) {
+  doc.setFillColor(DARK);
+  doc.rect(0, 0, PAGE_WIDTH, HEADER_HEIGHT, "F");
+
+  const photoSize = 96;
+  const photoY = (HEADER_HEIGHT - photoSize) / 2;
+  const name = kit.client_full_name || kit.title || "Media Kit";
+  if (headshot) {
+    doc.addImage(headshot, "JPEG", MARGIN, photoY, photoSize, photoSize);
+  } else {
+    const initials = name.split(/\s+/).filter(Boolean).map(part => part[0]).slice(0, 2).join("").toUpperCase();
+    doc.setFillColor("#475569");
+    doc.circle(MARGIN + photoSize / 2, photoY + photoSize / 2, photoSize / 2, "F");
+    doc.setFont("helvetica", "bold").setFontSize(32).setTextColor("#ffffff");
+    doc.text(initials || "P", MARGIN + photoSize / 2, photoY + photoSize / 2 + 11, { align: "center" });
+  }
+
+  const qrSize = 84;
+  const textX = MARGIN + photoSize + 20;
+  const textWidth = PAGE_WIDTH - textX - MARGIN - (qrCode ? qrSize + 16 : 0);
+  doc.setFont("helvetica", "bold").setFontSize(24).setTextColor("#ffffff");
+  const nameLines: string[] = doc.splitTextToSize(name, textWidth);
+  doc.text(nameLines.slice(0, 2), textX, 58);
+
+  const tagline = stripMarkdown(kit.tagline || kit.headline || "Podcast Guest");
+  doc.setFont("helvetica", "normal").setFontSize(11).setTextColor("#cbd5e1");
+  const taglineLines: string[] = doc.splitTextToSize(tagline, textWidth);
+  doc.text(taglineLines.slice(0, 3), textX, 58 + nameLines.slice(0, 2).length * 26);
+
+  if (qrCode) {
+    const qrX = PAGE_WIDTH - MARGIN - qrSize;
+    const qrY = (HEADER_HEIGHT - qrSize) / 2 - 6;
+    doc.setFillColor("#ffffff");
+    doc.roundedRect(qrX - 4, qrY - 4, qrSize + 8, qrSize + 8, 4, 4, "F");
+    doc.addImage(qrCode, "PNG", qrX, qrY, qrSize, qrSize);
+    doc.setFont("helvetica", "normal").setFontSize(7.5).setTextColor("#cbd5e1");
+    doc.text("Scan for the full media kit", qrX + qrSize / 2, qrY + qrSize + 16, { align: "center" });
+  }
+}
+
+function drawFooters(doc: JsPDF, kit: MediaKitPdfSource, publicUrl: string | null) {
+  const socials = (kit.person_social_links || [])
+    .map(link => link.handle || link.url)
+    .filter((value): value is string => !!value)
+    .slice(0, 4);
+  const contact = [kit.client_email, kit.client_website, ...socials].filter(Boolean).join("   ·   ");
+  const pageCount = doc.getNumberOfPages();
+
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    const y = PAGE_HEIGHT - MARGIN + 4;
+    doc.setDrawColor("#e2e8f0").setLineWidth(0.5);
+    doc.line(MARGIN, y - 16, PAGE_WIDTH - MARGIN, y - 16);
+    doc.setFont("helvetica", "normal").setFontSize(8).setTextColor(MUTED);
+    if (contact) doc.text(doc.splitTextToSize(contact, PAGE_WIDTH - MARGIN * 2 - 60)[0], MARGIN, y);
+    if (pageCount > 1) doc.text(`${page} / ${pageCount}`, PAGE_WIDTH - MARGIN, y, { align: "right" });
+    if (publicUrl) {
+      doc.setTextColor(ACCENT);
+      doc.textWithLink(publicUrl.replace(/^https?:\/\//, ""), MARGIN, y + 11, { url: publicUrl });
+    }
+  }
+}
+
+export async function buildMediaKitPdf(kit: MediaKitPdfSource, accessToken?: string | null): Promise<JsPDF> {
+  const { jsPDF } = await import("jspdf");
+  const doc = new jsPDF({ unit: "pt", format: "letter" });
+  const publicUrl = getMediaKitPdfLinkUrl(kit, accessToken);
+  const headshotUrl = getMediaKitHeadshotUrl(kit);
+
+  const [headshot, qrCode] = await Promise.all([
+    headshotUrl ? loadCircularImage(headshotUrl) : Promise.resolve(null),
+    publicUrl ? QRCode.toDataURL(publicUrl, { margin: 0, width: 300, errorCorrectionLevel: "M" }) : Promise.resolve(null),
+  ]);
+
+  drawHeader(doc, kit, headshot, qrCode);
+
+  const top = HEADER_HEIGHT + 24;
+  const mainWidth = PAGE_WIDTH - MARGIN * 2 - SIDE_COLUMN_WIDTH - COLUMN_GAP;
+  const main = new ColumnWriter(doc, { x: MARGIN, width: mainWidth, page: 1, y: top });
+  const side = new ColumnWriter(doc, { x: MARGIN + mainWidth + COLUMN_GAP, width: SIDE_COLUMN_WIDTH, page: 1, y: top });
+
+  const bio = stripMarkdown(kit.summary_bio_content || kit.full_bio_content || kit.short_bio_content || "");
+  if (bio) {
+    main.heading("About");
+    bio.split(/\n\s*\n/).forEach(paragraph => main.paragraph(paragraph.replace(/\s*\n\s*/g, " ")));
+  }
+
+  const talkingPoints = (kit.talking_points || []).filter(point => point.title || point.topic);
+  if (talkingPoints.length > 0) {
+    main.heading("Talking Points");
+    talkingPoints.forEach(point => {
+      main.paragraph(stripMarkdown(point.title || point.topic || ""), { bold: true, size: 10, gapAfter: 2 });
+      if (point.description) main.paragraph(stripMarkdown(point.description), { color: "#334155", gapAfter: 8 });
+    });
+  }
+
+  if (kit.sample_questions?.length) {
+    main.heading("Sample Interview Questions");
+    kit.sample_questions.forEach(question => main.paragraph(stripMarkdown(question), { bullet: true, gapAfter: 3 }));
+  }
+
+  if (kit.key_achievements?.length) {
+    side.heading("Key Achievements");
+    kit.key_achievements.forEach(achievement => side.paragraph(stripMarkdown(achievement), { bullet: true, size: 9, gapAfter: 4 }));
+  }
+
+  const appearances = (kit.previous_appearances || []).filter(appearance => appearance.title || appearance.outlet);
+  if (appearances.length > 0) {
+    side.heading("As Heard On");
+    appearances.forEach(appearance => {
+      side.paragraph(appearance.outlet || appearance.title || "", { bold: true, size: 9, gapAfter: 1 });
+      const detail = [appearance.outlet && appearance.title, appearance.date].filter(Boolean).join(" · ");
+      if (detail) side.paragraph(detail, { size: 8, color: MUTED, gapAfter: 5 });
+    });
+  }
+
+  drawFooters(doc, kit, publicUrl);
+  doc.setProperties({ title: `${kit.client_full_name || kit.title || "Media Kit"} – One-Sheet` });
+  return doc;
+}
+
+export async function downloadMediaKitPdf(kit: MediaKitPdfSource, accessToken?: string | null): Promise<void> {
+  const doc = await buildMediaKitPdf(kit, accessToken);
+  const baseName = kit.slug || (kit.client_full_name || kit.title || "media-kit").toLowerCase().replace(/[^a-z0-9]+/g, "-");
+  doc.save(`${baseName}-one-sheet.pdf`);
+}
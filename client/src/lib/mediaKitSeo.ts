@@ -0,0 +1,200 @@
+// client/src/lib/mediaKitSeo.ts
+// Per-kit page metadata (Open Graph, Twitter card, robots, schema.org Person JSON-LD) and the crawler snapshot.
+// Runs in the browser and in the prerender middleware (server/mediaKitPrerender.ts), so it must stay free of DOM
+// access and runtime "@/..." imports.
+import type { PublicMediaKitData } from "@/types/mediaKit";
+
+export const MEDIA_KIT_SITE_NAME = "Podcast Guest Launch";
+const DESCRIPTION_MAX_LENGTH = 200;
+
+export interface MediaKitSeo {
+  title: string;
+  description: string;
+  canonicalUrl: string;
+  imageUrl: string | null;
+  imageAlt: string;
+  robots: string;
+  jsonLd: Record<string, unknown> | null;
+}
+
+export interface MediaKitHeadTag {
+  tag: "meta" | "link";
+  attrs: Record<string, string>;
+}
+
+export function toPlainText(text?: string | null): string {
+  if (!text) return "";
+  return text
+    .replace(/\*\*(Full|Summary|Short) Bio:\*\*/gi, "")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/^#+\s*/gm, "")
+    .replace(/[*_`>]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength - 1);
+  return `${cut.slice(0, Math.max(cut.lastIndexOf(" "), maxLength / 2))}…`;
+}
+
+function getName(kit: PublicMediaKitData): string {
+  return kit.client_full_name || kit.title || "Podcast Guest";
+}
+
+function getHeadshotUrl(kit: PublicMediaKitData): string | null {
+  return kit.headshot_image_url || kit.headshot_image_urls?.[0]?.url || kit.image_urls?.headshot_url || null;
+}
+
+// Link previews want a 1200×630 card; the headshot alone is the fallback until one has been generated
+function getShareImageUrl(kit: PublicMediaKitData): string | null {
+  return kit.image_urls?.share_image_url || getHeadshotUrl(kit) || kit.image_urls?.cover_image_url || null;
+}
+
+function getSameAs(kit: PublicMediaKitData): string[] {
+  const urls = [
+    kit.client_website,
+    kit.client_linkedin_profile_url,
+    kit.client_twitter_profile_url,
+    kit.client_instagram_profile_url,
+    kit.client_tiktok_profile_url,
+    ...(kit.person_social_links || []).map(link => link.url),
+  ];
+  return Array.from(new Set(urls.filter((url): url is string => !!url && /^https?:\/\//i.test(url))));
+}
+
+export function buildPersonJsonLd(kit: PublicMediaKitData, pageUrl: string): Record<string, unknown> {
+  const description = toPlainText(kit.short_bio_content || kit.summary_bio_content || kit.headline);
+  const topics = [...(kit.talking_points || []).map(point => point.title), ...(kit.keywords || [])].filter(Boolean);
+  const appearances = (kit.previous_appearances || []).filter(app => app.url);
+  const sameAs = getSameAs(kit);
+  const image = getHeadshotUrl(kit);
+
+  // Undefined keys drop out when serialised
+  return {
+    "@context": "https://schema.org",
+    "@type": "Person",
+    name: getName(kit),
+    url: pageUrl,
+    description: description || undefined,
+    jobTitle: kit.tagline || undefined,
+    image: image || undefined,
+    email: kit.client_email ? `mailto:${kit.client_email}` : undefined,
+    sameAs: sameAs.length ? sameAs : undefined,
+    knowsAbout: topics.length ? Array.from(new Set(topics)) : undefined,
+    subjectOf: appearances.length
+      ? appearances.map(app => ({
+          "@type": "CreativeWork",
+          name: app.title || app.outlet || "Appearance",
+          url: app.url,
+          datePublished: app.date || undefined,
+          publisher: app.outlet ? { "@type": "Organization", name: app.outlet } : undefined,
+        }))
+      : undefined,
+  };
+}
+
+// kit is null when the kit is missing or private; those pages still get a title but are kept out of search.
+// Kits restricted to share links are kept out too, and don't reveal their details in link previews.
+export function getMediaKitSeo(kit: PublicMediaKitData | null, pageUrl: string): MediaKitSeo {
+  if (!kit || !kit.is_public || kit.access_mode === "links_only") {
+    return {
+      title: kit?.is_public ? `${kit.title || getName(kit)} | Podcast Guest Media Kit` : "Media Kit Not Found",
+      description: "",
+      canonicalUrl: pageUrl,
+      imageUrl: null,
+      imageAlt: "",
+      robots: "noindex, nofollow",
+      jsonLd: null,
+    };
+  }
+
+  const name = getName(kit);
+  const description = truncate(
+    toPlainText(kit.headline || kit.short_bio_content || kit.summary_bio_content || kit.introduction) ||
+      `${name} is available as a podcast guest. See topics, past appearances and how to book.`,
+    DESCRIPTION_MAX_LENGTH,
+  );
+
+  return {
+    title: `${kit.title || name} | Podcast Guest Media Kit`,
+    description,
+    canonicalUrl: pageUrl,
+    imageUrl: getShareImageUrl(kit),
+    imageAlt: `${name} – podcast guest media kit`,
+    robots: "index, follow",
+    jsonLd: buildPersonJsonLd(kit, pageUrl),
+  };
+}
+
+export function getMediaKitHeadTags(seo: MediaKitSeo): MediaKitHeadTag[] {
+  const meta = (key: "name" | "property", value: string, content: string): MediaKitHeadTag => ({ tag: "meta", attrs: { [key]: value, content } });
+  const tags: MediaKitHeadTag[] = [meta("name", "robots", seo.robots)];
+  if (!seo.jsonLd) return tags;
+
+  tags.push(
+    meta("name", "description", seo.description),
+    { tag: "link", attrs: { rel: "canonical", href: seo.canonicalUrl } },
+    meta("property", "og:type", "profile"),
+    meta("property", "og:site_name", MEDIA_KIT_SITE_NAME),
+    meta("property", "og:title", seo.title),
+    meta("property", "og:description", seo.description),
+    meta("property", "og:url", seo.canonicalUrl),
+    meta("name", "twitter:card", seo.imageUrl ? "summary_large_image" : "summary"),
+    meta("name", "twitter:title", seo.title),
+    meta("name", "twitter:description", seo.description),
+  );
+  if (seo.imageUrl) {
+    tags.push(
+      meta("property", "og:image", seo.imageUrl),
+      meta("property", "og:image:alt", seo.imageAlt),
+      meta("name", "twitter:image", seo.imageUrl),
+      meta("name", "twitter:image:alt", seo.imageAlt),
+    );
+  }
+  return tags;
+}
+
+export function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+}
+
+// "<" is escaped so bio text can never close the script tag early
+export function serializeJsonLd(jsonLd: Record<string, unknown>): string {
+  return JSON.stringify(jsonLd).replace(/</g, "\\u003c");
+}
+
+export function renderMediaKitHeadHtml(seo: MediaKitSeo): string {
+  const tags = getMediaKitHeadTags(seo).map(({ tag, attrs }) =>
+    `<${tag} ${Object.entries(attrs).map(([key, value]) => `${key}="${escapeHtml(value)}"`).join(" ")} data-kit-head />`
+  );
+  if (seo.jsonLd) tags.push(`<script type="application/ld+json" data-kit-head>${serializeJsonLd(seo.jsonLd)}</script>`);
+  return [`<title>${escapeHtml(seo.title)}</title>`, ...tags].join("\n    ");
+}
+
+// Plain, unstyled markup of the kit's text for crawlers that don't run JavaScript; React replaces it on load
+export function renderMediaKitSnapshotHtml(kit: PublicMediaKitData): string {
+  const name = getName(kit);
+  const parts: string[] = [`<h1>${escapeHtml(name)}</h1>`];
+  if (kit.headline) parts.push(`<p>${escapeHtml(toPlainText(kit.headline))}</p>`);
+  const bio = toPlainText(kit.full_bio_content || kit.summary_bio_content || kit.short_bio_content);
+  if (bio) parts.push(`<h2>About ${escapeHtml(name)}</h2>`, `<p>${escapeHtml(bio)}</p>`);
+
+  const list = (heading: string, items: string[]) => {
+    if (items.length) parts.push(`<h2>${heading}</h2>`, `<ul>${items.map(item => `<li>${item}</li>`).join("")}</ul>`);
+  };
+  list("Talking Points", (kit.talking_points || []).map(point =>
+    `<strong>${escapeHtml(point.title)}</strong>${point.description ? ` – ${escapeHtml(toPlainText(point.description))}` : ""}`
+  ));
+  list("Key Achievements", (kit.key_achievements || []).map(item => escapeHtml(toPlainText(item))));
+  list("Previous Appearances", (kit.previous_appearances || []).map(app => {
+    const label = escapeHtml(app.title || app.outlet || "Appearance");
+    return app.url ? `<a href="${escapeHtml(app.url)}">${label}</a>` : label;
+  }));
+  list("Sample Interview Questions", (kit.sample_questions || []).map(question => escapeHtml(question)));
+
+  return `<main data-kit-snapshot>${parts.join("")}</main>`;
+}
@@ -0,0 +1,172 @@
+// client/src/lib/mediaKitShareImage.ts
+// Draws the 1200×630 social share card (name, headline, headshot) in the kit's theme colours and uploads it.
+import { apiRequest } from "@/lib/queryClient";
+import { getMediaKitTheme } from "@/lib/mediaKitThemes";
+import { MEDIA_KIT_SITE_NAME, toPlainText } from "@/lib/mediaKitSeo";
+import type { PublicMediaKitData } from "@/types/mediaKit";
+
+export const SHARE_IMAGE_WIDTH = 1200;
+export const SHARE_IMAGE_HEIGHT = 630;
+
+const PADDING = 72;
+const HEADSHOT_SIZE = 380;
+const FONT_FAMILY = "Poppins, Helvetica, Arial, sans-serif";
+
+function loadImage(url: string): Promise<HTMLImageElement | null> {
+  return new Promise(resolve => {
+    const image = new Image();
+    image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = () => resolve(null);
+    image.src = url;
+  });
+}
+
+function wrapLines(ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width <= maxWidth || !line) {
+      line = candidate;
+      continue;
+    }
+    lines.push(line);
+    line = word;
+    if (lines.length === maxLines) break;
+  }
+  if (line && lines.length < maxLines) lines.push(line);
+  // Ellipsis on the last line when the text didn't fit
+  const used = lines.join(" ").length;
+  if (used < text.trim().length && lines.length) {
+    let last = lines[lines.length - 1];
+    while (last && ctx.measureText(`${last}…`).width > maxWidth) last = last.slice(0, -1);
+    lines[lines.length - 1] = `${last.trimEnd()}…`;
+  }
+  return lines;
+}
+
+function drawHeadshot(ctx: CanvasRenderingContext2D, image: HTMLImageElement | null, initials: string, x: number, y: number, accent: string) {
+  const radius = HEADSHOT_SIZE / 2;
+  ctx.save();
+  ctx.beginPath();
+  ctx.arc(x + radius, y + radius, radius, 0, Math.PI * 2);
+  ctx.closePath();
+  ctx.fillStyle = accent;
+  ctx.fill();
+  if (image) {
+    ctx.clip();
+    const side = Math.min(image.naturalWidth, image.naturalHeight);
+    ctx.drawImage(image, (image.naturalWidth - side) / 2, (image.naturalHeight - side) / 2, side, side, x, y, HEADSHOT_SIZE, HEADSHOT_SIZE);
+  } else {
+    ctx.fillStyle = "#ffffff";
+    ctx.font = `600 140px ${FONT_FAMILY}`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(initials, x + radius, y + radius + 6);
+  }
+  ctx.restore();
+}
+
+export async function renderMediaKitShareImage(kit: PublicMediaKitData): Promise<Blob> {
+  const theme = getMediaKitTheme(kit.theme_preference);
+  const [background, text, accent] = theme.swatches;
+  const name = kit.client_full_name || kit.title || "Podcast Guest";
+  const headline = toPlainText(kit.headline || kit.tagline || kit.short_bio_content);
+  const initials = name.split(/\s+/).map(part => part[0]).filter(Boolean).slice(0, 2).join("").toUpperCase();
+  const headshotUrl = kit.headshot_image_url || kit.headshot_image_urls?.[0]?.url || kit.image_urls?.headshot_url;
+
+  // Make sure the web font is ready, otherwise the first render falls back to Arial
+  await document.fonts?.load(`700 64px ${FONT_FAMILY}`).catch(() => undefined);
+  const headshot = headshotUrl ? await loadImage(headshotUrl) : null;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = SHARE_IMAGE_WIDTH;
+  canvas.height = SHARE_IMAGE_HEIGHT;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported in this browser");
+
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, SHARE_IMAGE_WIDTH, SHARE_IMAGE_HEIGHT);
+  ctx.fillStyle = accent;
+  ctx.fillRect(0, SHARE_IMAGE_HEIGHT - 16, SHARE_IMAGE_WIDTH, 16);
+
+  const headshotX = SHARE_IMAGE_WIDTH - PADDING - HEADSHOT_SIZE;
+  drawHeadshot(ctx, headshot, initials || "P", headshotX, (SHARE_IMAGE_HEIGHT - HEADSHOT_SIZE) / 2, accent);
+
+  const textWidth = headshotX - PADDING * 2;
+  ctx.textAlign = "left";
+  ctx.textBaseline = "top";
+  ctx.fillStyle = accent;
+  ctx.font = `600 24px ${FONT_FAMILY}`;
+  ctx.fillText("PODCAST GUEST MEDIA KIT", PADDING, PADDING);
+
+  ctx.fillStyle = text;
+  ctx.font = `700 64px ${FONT_FAMILY}`;
+  const nameLines = wrapLines(ctx, name, textWidth, 2);
+  let y = PADDING + 64;
+  nameLines.forEach(line => {
+    ctx.fillText(line, PADDING, y);
+    y += 76;
+  });
+
+  if (headline) {
+    ctx.globalAlpha = 0.85;
+    ctx.font = `400 32px ${FONT_FAMILY}`;
+    y += 16;
+    wrapLines(ctx, headline, textWidth, nameLines.length > 1 ? 3 : 4).forEach(line => {
+      ctx.fillText(line, PADDING, y);
+      y += 44;
+    });
+    ctx.globalAlpha = 1;
+  }
+
+  ctx.fillStyle = text;
+  ctx.globalAlpha = 0.6;
+  ctx.font = `500 22px ${FONT_FAMILY}`;
+  ctx.textBaseline = "bottom";
+  ctx.fillText(MEDIA_KIT_SITE_NAME, PADDING, SHARE_IMAGE_HEIGHT - PADDING + 16);
+  ctx.globalAlpha = 1;
+
+  return new Promise((resolve, reject) => {
+    try {
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Could not create the share image"))), "image/png");
+    } catch {
+      // The headshot host doesn't allow CORS, which taints the canvas; retry with initials instead
+      if (headshot) resolve(renderMediaKitShareImage({ ...kit, headshot_image_url: null, headshot_image_urls: null, image_urls: { ...kit.image_urls, headshot_url: null } }));
+      else reject(new Error("Could not create the share image"));
+    }
+  });
+}
+
+async function expectOk(response: Response, fallbackMessage: string) {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ detail: fallbackMessage }));
+    throw new Error(errorData.detail || fallbackMessage);
+  }
+  return response.json();
+}
+
+// Same storage flow as ImageUpload: presigned PUT, then register the file and save it on the kit
+export async function uploadMediaKitShareImage(blob: Blob, campaignId: string, slug?: string | null): Promise<string> {
+  const uploadContext = "media_kit_share";
+  const { uploadUrl, objectKey, finalUrl } = await expectOk(
+    await apiRequest("POST", "/storage/generate-upload-url", { fileName: `share-card-${slug || campaignId}.png`, uploadContext }),
+    "Failed to get an upload URL",
+  );
+
+  const s3Response = await fetch(uploadUrl, { method: "PUT", headers: { "Content-Type": "image/png" }, body: blob, mode: "cors" });
+  if (!s3Response.ok) throw new Error(`Upload failed: ${s3Response.status} ${s3Response.statusText}`);
+
+  const completeData = await expectOk(
+    await apiRequest("POST", "/storage/upload-complete", { objectKey, uploadContext, campaignId }),
+    "Failed to complete upload",
+  );
+  const fileUrl: string = completeData.fileUrl || finalUrl;
+
+  await expectOk(
+    await apiRequest("POST", `/campaigns/${campaignId}/media-kit/images`, { image_url: fileUrl, image_type: "share" }),
+    "Failed to save the share image",
+  );
+  return fileUrl;
+}
@@ -0,0 +1,182 @@
+// client/src/lib/mediaKitThemes.ts
+// Registry of public media kit themes. A theme controls typography, palette, the hero treatment and
+// the order sections appear in; `theme_preference` on the media kit stores the theme id.
+import type { PublicMediaKitData } from "@/types/mediaKit";
+
+export type MediaKitSectionId =
+  | "about"
+  | "at_a_glance"
+  | "social"
+  | "appearances"
+  | "talking_points"
+  | "questions"
+  | "testimonials"
+  | "cta";
+
+// image_overlay: banner behind a tinted overlay · solid: flat colour, no image
+// split: text on colour with the banner alongside · minimal: centred, banner only as a thin strip when uploaded
+export type MediaKitHeroStyle = "image_overlay" | "solid" | "split" | "minimal";
+
+export interface MediaKitTheme {
+  id: string;
+  name: string;
+  description: string;
+  hero: MediaKitHeroStyle;
+  sectionOrder: MediaKitSectionId[];
+  swatches: string[]; // Shown in the theme picker
+  classes: {
+    page: string;
+    hero: string;
+    heroOverlay: string;
+    heroName: string;
+    heroTagline: string;
+    heroSocial: string;
+    headshot: string;
+    main: string;
+    heading: string;
+    body: string;
+    muted: string;
+    card: string;
+    accent: string;
+    cta: string;
+    ctaHeading: string;
+    ctaText: string;
+    ctaButton: string;
+    footer: string;
+  };
+}
+
+export const DEFAULT_MEDIA_KIT_THEME_ID = "modern";
+export const DEFAULT_BANNER_URL =
+  "https://images.unsplash.com/photo-1507646871303-366937386fba?q=80&w=2070&auto=format&fit=crop&ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D";
+
+export const MEDIA_KIT_THEMES: MediaKitTheme[] = [
+  {
+    id: "modern",
+    name: "Modern",
+    description: "Photo banner with a dark overlay and clean sans-serif type.",
+    hero: "image_overlay",
+    sectionOrder: ["about", "at_a_glance", "social", "appearances", "talking_points", "questions", "testimonials", "cta"],
+    swatches: ["#1e293b", "#f1f5f9", "#3b82f6"],
+    classes: {
+      page: "bg-slate-200 font-sans",
+      hero: "bg-slate-800 text-white",
+      heroOverlay: "bg-slate-900/70 backdrop-blur-sm",
+      heroName: "text-4xl sm:text-5xl md:text-6xl font-extrabold tracking-tight text-white filter drop-shadow-lg",
+      heroTagline: "text-xl sm:text-2xl text-slate-200 filter drop-shadow-md",
+      heroSocial: "text-slate-300 hover:text-white",
+      headshot: "rounded-full border-4 border-slate-300 shadow-2xl",
+      main: "bg-white -mt-12 md:-mt-20 rounded-t-xl shadow-2xl",
+      heading: "text-3xl font-bold text-slate-800 tracking-tight",
+      body: "text-slate-700",
+      muted: "text-slate-500",
+      card: "bg-slate-50 border-slate-200",
+      accent: "text-primary",
+      cta: "bg-slate-800 rounded-xl shadow-2xl",
+      ctaHeading: "text-white",
+      ctaText: "text-slate-300",
+      ctaButton: "bg-white hover:bg-slate-200 text-slate-800",
+      footer: "bg-slate-900 text-slate-400 border-slate-700",
+    },
+  },
+  {
+    id: "classic",
+    name: "Classic",
+    description: "Serif headings on warm paper tones with the banner beside the intro.",
+    hero: "split",
+    sectionOrder: ["about", "talking_points", "appearances", "at_a_glance", "testimonials", "questions", "social", "cta"],
+    swatches: ["#44403c", "#fafaf9", "#b45309"],
+    classes: {
+      page: "bg-stone-100 font-serif",
+      hero: "bg-stone-800 text-stone-50",
+      heroOverlay: "bg-stone-900/40",
+      heroName: "text-4xl sm:text-5xl font-bold tracking-normal text-stone-50",
+      heroTagline: "text-lg sm:text-xl italic text-stone-200",
+      heroSocial: "text-stone-300 hover:text-amber-300",
+      headshot: "rounded-lg border-4 border-stone-200 shadow-xl",
+      main: "bg-stone-50 mt-8 rounded-lg shadow-lg border border-stone-200",
+      heading: "text-3xl font-bold text-stone-800 border-b border-stone-300 pb-2",
+      body: "text-stone-700",
+      muted: "text-stone-500",
+      card: "bg-white border-stone-200",
+      accent: "text-amber-700",
+      cta: "bg-stone-800 rounded-lg shadow-lg",
+      ctaHeading: "text-stone-50",
+      ctaText: "text-stone-300",
+      ctaButton: "bg-amber-600 hover:bg-amber-700 text-white",
+      footer: "bg-stone-900 text-stone-400 border-stone-700",
+    },
+  },
+  {
+    id: "minimal",
+    name: "Minimal",
+    description: "White space, thin borders and no background imagery.",
+    hero: "minimal",
+    sectionOrder: ["about", "talking_points", "questions", "appearances", "at_a_glance", "testimonials", "social", "cta"],
+    swatches: ["#ffffff", "#171717", "#a3a3a3"],
+    classes: {
+      page: "bg-white font-sans",
+      hero: "bg-white text-neutral-900",
+      heroOverlay: "",
+      heroName: "text-4xl sm:text-5xl font-semibold tracking-tight text-neutral-900",
+      heroTagline: "text-lg sm:text-xl text-neutral-500",
+      heroSocial: "text-neutral-400 hover:text-neutral-900",
+      headshot: "rounded-full border border-neutral-200",
+      main: "bg-white",
+      heading: "text-2xl font-semibold text-neutral-900 tracking-tight",
+      body: "text-neutral-700",
+      muted: "text-neutral-500",
+      card: "bg-white border-neutral-200 shadow-none",
+      accent: "text-neutral-900",
+      cta: "bg-white border border-neutral-200 rounded-lg",
+      ctaHeading: "text-neutral-900",
+      ctaText: "text-neutral-500",
+      ctaButton: "bg-neutral-900 hover:bg-neutral-700 text-white",
+      footer: "bg-white text-neutral-400 border-neutral-200",
+    },
+  },
+  {
+    id: "bold",
+    name: "Bold",
+    description: "Saturated gradient over the banner, heavy uppercase headings, stats first.",
+    hero: "image_overlay",
+    sectionOrder: ["at_a_glance", "appearances", "about", "talking_points", "testimonials", "questions", "social", "cta"],
+    swatches: ["#18181b", "#c026d3", "#4f46e5"],
+    classes: {
+      page: "bg-zinc-950 font-sans",
+      hero: "bg-zinc-900 text-white",
+      heroOverlay: "bg-gradient-to-r from-fuchsia-700/85 to-indigo-800/85",
+      heroName: "text-5xl sm:text-6xl md:text-7xl font-black uppercase tracking-tight text-white",
+      heroTagline: "text-xl sm:text-2xl font-semibold text-fuchsia-100",
+      heroSocial: "text-fuchsia-100 hover:text-white",
+      headshot: "rounded-2xl border-4 border-white shadow-2xl rotate-2",
+      main: "bg-white -mt-12 md:-mt-16 rounded-2xl shadow-2xl",
+      heading: "text-3xl md:text-4xl font-black uppercase tracking-tight text-zinc-900",
+      body: "text-zinc-700",
+      muted: "text-zinc-500",
+      card: "bg-zinc-50 border-zinc-200 border-l-4 border-l-fuchsia-600",
+      accent: "text-fuchsia-600",
+      cta: "bg-gradient-to-r from-fuchsia-700 to-indigo-800 rounded-2xl shadow-2xl",
+      ctaHeading: "text-white uppercase",
+      ctaText: "text-fuchsia-100",
+      ctaButton: "bg-white hover:bg-fuchsia-50 text-fuchsia-700",
+      footer: "bg-zinc-950 text-zinc-500 border-zinc-800",
+    },
+  },
+];
+
+export function getMediaKitTheme(themeId?: string | null): MediaKitTheme {
+  // 'dark_banner_only' predates the registry: the modern theme without its photo
+  if (themeId === "dark_banner_only") {
+    const modern = MEDIA_KIT_THEMES[0];
+    return { ...modern, hero: "solid" };
+  }
+  return MEDIA_KIT_THEMES.find(theme => theme.id === themeId) || MEDIA_KIT_THEMES[0];
+}
+
+// A custom banner wins; otherwise only the photo-led hero styles fall back to the stock image
+export function getMediaKitBannerUrl(mediaKit: Pick<PublicMediaKitData, "image_urls">, theme: MediaKitTheme): string | null {
+  const custom = mediaKit.image_urls?.cover_image_url;
+  if (custom) return custom;
+  return theme.hero === "image_overlay" || theme.hero === "split" ? DEFAULT_BANNER_URL : null;
+}
@@ -0,0 +1,29 @@
+// client/src/lib/mediaKitVariants.ts
+// Audience variants of a campaign's media kit: which sections can be overridden and how a variant merges over the base.
+import type { MediaKitSectionKey, MediaKitVariant } from "@/types/mediaKit";
+
+// Sections that change with the audience; images, social links and appearances always come from the base kit
+export const VARIANT_SECTIONS: MediaKitSectionKey[] = ["header", "intro", "bio", "talking_points", "questions", "cta"];
+
+export function applyMediaKitVariant<T extends object>(base: T, variant: MediaKitVariant | null | undefined): T {
+  if (!variant) return base;
+  const overrides = VARIANT_SECTIONS.reduce<Record<string, unknown>>(
+    (merged, section) => ({ ...merged, ...(variant.overrides[section] || {}) }),
+    {},
+  );
+  return { ...base, ...overrides, slug: variant.slug };
+}
+
+export function getOverriddenSections(variant: Pick<MediaKitVariant, "overrides">): MediaKitSectionKey[] {
+  return VARIANT_SECTIONS.filter(section => !!variant.overrides[section]);
+}
+
+export function slugifyVariantName(baseSlug: string, name: string): string {
+  const suffix = name
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return suffix ? `${baseSlug}-${suffix}` : baseSlug;
+}
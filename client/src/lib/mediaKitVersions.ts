@@ -0,0 +1,74 @@
+// client/src/lib/mediaKitVersions.ts
+// Which fields belong to each media kit editor section, and how a saved section reads as plain text for diffing.
+import type { MediaKitSectionKey, MediaKitSectionVersion } from "@/types/mediaKit";
+
+export const MEDIA_KIT_SECTIONS: Record<MediaKitSectionKey, { label: string; fields: string[] }> = {
+  header: { label: "Header Information", fields: ["title", "headline"] },
+  intro: { label: "Custom Introduction", fields: ["custom_intro"] },
+  bio: { label: "Bio Content", fields: ["full_bio_content", "summary_bio_content", "short_bio_content"] },
+  talking_points: { label: "Talking Points", fields: ["talking_points"] },
+  cta: { label: "Call to Action", fields: ["call_to_action_text", "call_to_action_url"] },
+  social_links: { label: "Social Media Links", fields: ["person_social_links"] },
+  achievements: { label: "Key Achievements", fields: ["key_achievements"] },
+  appearances: { label: "Previous Appearances", fields: ["previous_appearances"] },
+  testimonials: { label: "Testimonials", fields: ["testimonials_section"] },
+  questions: { label: "Sample Interview Questions", fields: ["sample_questions"] },
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "Title",
+  headline: "Headline",
+  full_bio_content: "Full bio",
+  summary_bio_content: "Summary bio",
+  short_bio_content: "Short bio",
+  call_to_action_text: "Button text",
+  call_to_action_url: "Button URL",
+};
+
+export function pickSectionContent(section: MediaKitSectionKey, source: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(MEDIA_KIT_SECTIONS[section].fields.map(field => [field, source[field] ?? null]));
+}
+
+function listItemToText(section: MediaKitSectionKey, item: unknown): string {
+  if (typeof item === "string") return `• ${item}`;
+  if (!item || typeof item !== "object") return "";
+  const record = item as Record<string, string | null | undefined>;
+  if (section === "social_links") return `• ${record.platform || "Link"}: ${record.url || record.handle || ""}`;
+  if (section === "talking_points") {
+    const heading = record.topic || record.title || "";
+    return record.description ? `• ${heading}\n  ${record.description}` : `• ${heading}`;
+  }
+  // Previous appearances
+  const meta = [record.outlet, record.date].filter(Boolean).join(", ");
+  return [`• ${record.title || record.outlet || "Appearance"}${meta ? ` (${meta})` : ""}`, record.description, record.url]
+    .filter(Boolean)
+    .join("\n  ");
+}
+
+export function sectionContentToText(section: MediaKitSectionKey, content: Record<string, unknown>): string {
+  const fields = MEDIA_KIT_SECTIONS[section].fields;
+  return fields
+    .map(field => {
+      const value = content[field];
+      const text = Array.isArray(value)
+        ? value.map(item => listItemToText(section, item)).filter(Boolean).join("\n")
+        : value == null ? "" : String(value);
+      // Single-field sections don't need a label
+      return fields.length > 1 ? `${FIELD_LABELS[field] || field}:\n${text}` : text;
+    })
+    .join("\n\n")
+    .trim();
+}
+
+export function getVersionSourceLabel(version: Pick<MediaKitSectionVersion, "source" | "source_detail">): string {
+  switch (version.source) {
+    case "ai":
+      return version.source_detail ? `AI · ${version.source_detail.replace(/_/g, " ")}` : "AI generated";
+    case "gdoc":
+      return "Google Doc";
+    case "restore":
+      return "Restored";
+    default:
+      return "Manual edit";
+  }
+}
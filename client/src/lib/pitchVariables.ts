@@ -0,0 +1,226 @@
+// client/src/lib/pitchVariables.ts
+// Registry of merge variables usable in pitch templates and hand-written pitches.
+import type { Media } from "@/types/media";
+import type { Campaign } from "@/types/campaign";
+import { withPitchRef } from "@/lib/mediaKitAnalytics";
+import { getShareLinkUrl } from "@/lib/mediaKitAccess";
+import type { MediaKitAccessMode } from "@/types/mediaKit";
+
+export type PitchVariableType = "text" | "url" | "date";
+
+export interface PitchVariableContext {
+  match?: { match_id: number; media_name?: string | null; campaign_name?: string | null; client_name?: string | null } | null;
+  media?: Partial<Media> | null;
+  campaign?: Partial<Campaign> | null;
+  recentEpisode?: { title?: string | null; publish_date?: string | null; episode_summary?: string | null; ai_episode_summary?: string | null } | null;
+  mediaKit?: {
+    media_kit_id?: string | null;
+    slug?: string | null;
+    access_mode?: MediaKitAccessMode | null;
+    headline?: string | null;
+    short_bio_content?: string | null;
+    talking_points?: { topic: string }[] | null;
+  } | null;
+  mediaKitRefToken?: string | null; // Minted when the pitch is created; previews link to the untagged kit
+  mediaKitAccessToken?: string | null; // Recipient's share link, minted with the pitch when the kit is links-only
+}
+
+export interface PitchVariable {
+  key: string;
+  label: string;
+  description: string;
+  type: PitchVariableType;
+  group: "Podcast" | "Client" | "Campaign" | "AI";
+  aiOnly?: boolean; // Filled by the backend during AI generation, not resolvable in the browser
+  resolve?: (ctx: PitchVariableContext) => string | null | undefined;
+}
+
+const firstName = (name?: string | null) => name?.trim().split(/\s+/)[0] || null;
+const isUrl = (value?: string | null) => !!value && /^https?:\/\//i.test(value.trim());
+
+function getTopAngle(ctx: PitchVariableContext): string | null {
+  const kitTopic = ctx.mediaKit?.talking_points?.[0]?.topic;
+  if (kitTopic) return kitTopic;
+  const angles = ctx.campaign?.campaign_angles;
+  // campaign_angles is often a GDoc link; only use it when it holds the text itself
+  if (angles && !isUrl(angles)) return angles.split("\n").map(line => line.replace(/^[-*\d.\s]+/, "").trim()).find(Boolean) || null;
+  return null;
+}
+
+function getTalkingPoint(ctx: PitchVariableContext, index: number): string | null {
+  return ctx.mediaKit?.talking_points?.[index]?.topic || null;
+}
+
+function getMediaKitUrl(ctx: PitchVariableContext): string | null {
+  if (ctx.mediaKit?.slug) {
+    const url = ctx.mediaKitAccessToken
+      ? getShareLinkUrl(ctx.mediaKit.slug, ctx.mediaKitAccessToken)
+      : `${window.location.origin}/media-kit/${ctx.mediaKit.slug}`;
+    // Tagged per pitch so visits from it show up in the kit's analytics
+    return ctx.mediaKitRefToken ? withPitchRef(url, ctx.mediaKitRefToken) : url;
+  }
+  return ctx.campaign?.media_kit_url || null;
+}
+
+export const PITCH_VARIABLES: PitchVariable[] = [
+  // Podcast
+  { key: "podcast_name", label: "Podcast name", description: "Name of the podcast/media.", type: "text", group: "Podcast",
+    resolve: ctx => ctx.media?.name || ctx.match?.media_name },
+  { key: "host_first_name", label: "Host first name", description: "First name of the first listed host.", type: "text", group: "Podcast",
+    resolve: ctx => firstName(ctx.media?.host_names?.[0]) },
+  { key: "host_name", label: "Host name", description: "Podcast host's full name (if available).", type: "text", group: "Podcast",
+    resolve: ctx => ctx.media?.host_names?.[0] },
+  { key: "podcast_category", label: "Podcast category", description: "Primary category of the podcast.", type: "text", group: "Podcast",
+    resolve: ctx => ctx.media?.category },
+  { key: "podcast_website", label: "Podcast website", description: "The podcast's website.", type: "url", group: "Podcast",
+    resolve: ctx => ctx.media?.website },
+  { key: "recent_episode_title", label: "Recent episode title", description: "Title of the most recent episode.", type: "text", group: "Podcast",
+    resolve: ctx => ctx.recentEpisode?.title },
+  { key: "recent_episode_date", label: "Recent episode date", description: "Publish date of the most recent episode.", type: "date", group: "Podcast",
+    resolve: ctx => ctx.recentEpisode?.publish_date ? new Date(ctx.recentEpisode.publish_date).toLocaleDateString(undefined, { month: "long", day: "numeric" }) : null },
+  { key: "episode_title", label: "Episode title", description: "Title of a relevant episode (defaults to the most recent).", type: "text", group: "Podcast",
+    resolve: ctx => ctx.recentEpisode?.title },
+  { key: "episode_summary", label: "Episode summary", description: "Short summary of a relevant episode.", type: "text", group: "Podcast",
+    resolve: ctx => ctx.recentEpisode?.episode_summary },
+  // Client
+  { key: "client_name", label: "Client name", description: "Your client's full name.", type: "text", group: "Client",
+    resolve: ctx => ctx.match?.client_name },
+  { key: "client_first_name", label: "Client first name", description: "Your client's first name.", type: "text", group: "Client",
+    resolve: ctx => firstName(ctx.match?.client_name) },
+  { key: "client_top_angle", label: "Client top angle", description: "The client's leading talking point or angle.", type: "text", group: "Client",
+    resolve: getTopAngle },
+  { key: "client_bio_summary", label: "Client bio summary", description: "A summary of your client's bio.", type: "text", group: "Client",
+    resolve: ctx => ctx.mediaKit?.short_bio_content || (isUrl(ctx.campaign?.campaign_bio) ? null : ctx.campaign?.campaign_bio) },
+  { key: "client_key_talking_point_1", label: "Talking point 1", description: "First key talking point from the media kit.", type: "text", group: "Client",
+    resolve: ctx => getTalkingPoint(ctx, 0) },
+  { key: "client_key_talking_point_2", label: "Talking point 2", description: "Second key talking point from the media kit.", type: "text", group: "Client",
+    resolve: ctx => getTalkingPoint(ctx, 1) },
+  { key: "client_key_talking_point_3", label: "Talking point 3", description: "Third key talking point from the media kit.", type: "text", group: "Client",
+    resolve: ctx => getTalkingPoint(ctx, 2) },
+  { key: "media_kit_url", label: "Media kit URL", description: "Public URL to the client's media kit.", type: "url", group: "Client",
+    resolve: getMediaKitUrl },
+  { key: "link_to_client_media_kit", label: "Media kit link", description: "Same as media_kit_url.", type: "url", group: "Client",
+    resolve: getMediaKitUrl },
+  // Campaign
+  { key: "campaign_name", label: "Campaign name", description: "Name of the campaign.", type: "text", group: "Campaign",
+    resolve: ctx => ctx.campaign?.campaign_name || ctx.match?.campaign_name },
+  { key: "campaign_goal", label: "Campaign goal", description: "The primary goal of the client's campaign.", type: "text", group: "Campaign",
+    resolve: ctx => ctx.campaign?.goal_note },
+  // AI (resolved server-side during generation)
+  { key: "ai_summary_of_best_episode", label: "AI episode summary", description: "AI-generated summary of a relevant episode.", type: "text", group: "AI", aiOnly: true },
+  { key: "specific_pitch_angle", label: "Specific pitch angle", description: "An angle tailored for this outreach.", type: "text", group: "AI", aiOnly: true },
+  { key: "latest_news_from_podcast", label: "Latest podcast news", description: "Recent updates or news about the podcast.", type: "text", group: "AI", aiOnly: true },
+];
+
+const VARIABLES_BY_KEY = new Map(PITCH_VARIABLES.map(v => [v.key, v]));
+const VARIABLE_RE = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+export function templateUsesVariable(text: string, key: string): boolean {
+  return Array.from(text.matchAll(VARIABLE_RE)).some(match => match[1] === key);
+}
+
+// Every variable that renders the media kit link, aliases included
+export const MEDIA_KIT_URL_VARIABLES = PITCH_VARIABLES.filter(v => v.resolve === getMediaKitUrl).map(v => v.key);
+
+export function templateLinksMediaKit(text: string): boolean {
+  return MEDIA_KIT_URL_VARIABLES.some(key => templateUsesVariable(text, key));
+}
+
+export function getPitchVariable(key: string): PitchVariable | undefined {
+  return VARIABLES_BY_KEY.get(key);
+}
+
+export function formatVariableToken(key: string): string {
+  return `{{${key}}}`;
+}
+
+export interface VariableLintIssue {
+  key: string;
+  raw: string; // Exact text as written, for in-place fixes
+  index: number;
+  reason: "unknown" | "single_brace" | "ai_only";
+  suggestion?: string;
+}
+
+// Closest known key by edit distance, for "did you mean" hints on typos
+function suggestVariable(key: string): string | undefined {
+  let best: { key: string; distance: number } | undefined;
+  PITCH_VARIABLES.forEach(v => {
+    const distance = levenshtein(key.toLowerCase(), v.key);
+    if (!best || distance < best.distance) best = { key: v.key, distance };
+  });
+  return best && best.distance <= Math.max(2, Math.floor(key.length / 4)) ? best.key : undefined;
+}
+
+function levenshtein(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const temp = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = temp;
+    }
+  }
+  return row[b.length];
+}
+
+// allowAiVariables=false is for hand-written text, where nothing will fill AI-only variables
+export function lintTemplate(text: string, options: { allowAiVariables?: boolean } = {}): VariableLintIssue[] {
+  const { allowAiVariables = true } = options;
+  const issues: VariableLintIssue[] = [];
+  for (const match of Array.from(text.matchAll(VARIABLE_RE))) {
+    const key = match[1];
+    const variable = VARIABLES_BY_KEY.get(key);
+    if (!variable) {
+      issues.push({ key, raw: match[0], index: match.index ?? 0, reason: "unknown", suggestion: suggestVariable(key) });
+    } else if (variable.aiOnly && !allowAiVariables) {
+      issues.push({ key, raw: match[0], index: match.index ?? 0, reason: "ai_only" });
+    }
+  }
+  // Single-brace placeholders are a common slip and would otherwise go out verbatim
+  for (const match of Array.from(text.matchAll(/(^|[^{])(\{(\w+)\})(?!\})/g))) {
+    if (VARIABLES_BY_KEY.has(match[3])) {
+      issues.push({ key: match[3], raw: match[2], index: (match.index ?? 0) + match[1].length, reason: "single_brace", suggestion: match[3] });
+    }
+  }
+  return issues.sort((a, b) => a.index - b.index);
+}
+
+export type RenderedSegment =
+  | { kind: "text"; text: string }
+  | { kind: "value"; text: string; key: string }
+  | { kind: "missing" | "unknown" | "ai"; text: string; key: string };
+
+export function renderTemplateSegments(text: string, ctx: PitchVariableContext): RenderedSegment[] {
+  const segments: RenderedSegment[] = [];
+  let lastIndex = 0;
+  for (const match of Array.from(text.matchAll(VARIABLE_RE))) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) segments.push({ kind: "text", text: text.slice(lastIndex, index) });
+    const key = match[1];
+    const variable = VARIABLES_BY_KEY.get(key);
+    if (!variable) {
+      segments.push({ kind: "unknown", text: match[0], key });
+    } else if (variable.aiOnly) {
+      segments.push({ kind: "ai", text: match[0], key });
+    } else {
+      const value = variable.resolve?.(ctx);
+      segments.push(value ? { kind: "value", text: value, key } : { kind: "missing", text: match[0], key });
+    }
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < text.length) segments.push({ kind: "text", text: text.slice(lastIndex) });
+  return segments;
+}
+
+// Substitutes every resolvable variable; unresolved tokens are left in place and reported
+export function renderTemplate(text: string, ctx: PitchVariableContext): { text: string; unresolved: string[] } {
+  const unresolved = new Set<string>();
+  const rendered = renderTemplateSegments(text, ctx).map(segment => {
+    if (segment.kind !== "text" && segment.kind !== "value") unresolved.add(segment.key);
+    return segment.text;
+  }).join("");
+  return { text: rendered, unresolved: Array.from(unresolved) };
+}
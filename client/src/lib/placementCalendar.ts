@@ -0,0 +1,168 @@
+// client/src/lib/placementCalendar.ts
+// Turns placement date fields into calendar events and serialises them as iCalendar (.ics)
+
+export type PlacementDateField = "meeting_date" | "call_date" | "recording_date" | "go_live_date";
+
+export interface CalendarPlacement {
+  placement_id: number;
+  media_id: number;
+  media_name?: string | null;
+  campaign_name?: string | null;
+  client_name?: string | null;
+  current_status?: string | null;
+  meeting_date?: string | null;
+  call_date?: string | null;
+  recording_date?: string | null;
+  go_live_date?: string | null;
+  episode_link?: string | null;
+}
+
+export interface PlacementCalendarEvent {
+  id: string;
+  placement: CalendarPlacement;
+  field: PlacementDateField;
+  dayKey: string; // YYYY-MM-DD in the viewer's timezone
+  raw: string;
+  hasTime: boolean;
+}
+
+export const placementDateFieldLabels: Record<PlacementDateField, string> = {
+  meeting_date: "Meeting",
+  call_date: "Call",
+  recording_date: "Recording",
+  go_live_date: "Go Live",
+};
+
+const DATE_ONLY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function getBrowserTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+// Date-only values are calendar days and never shift; full timestamps are bucketed by the viewer's timezone
+export function toDayKey(value: string | Date, timezone: string): string {
+  if (typeof value === "string" && DATE_ONLY_RE.test(value)) return value;
+  const date = typeof value === "string" ? new Date(value) : value;
+  try {
+    return new Intl.DateTimeFormat("en-CA", { timeZone: timezone, year: "numeric", month: "2-digit", day: "2-digit" }).format(date);
+  } catch (e) {
+    // Unknown timezone strings fall back to the browser's zone
+    return new Intl.DateTimeFormat("en-CA", { year: "numeric", month: "2-digit", day: "2-digit" }).format(date);
+  }
+}
+
+export function formatEventTime(event: PlacementCalendarEvent, timezone: string): string | null {
+  if (!event.hasTime) return null;
+  try {
+    return new Intl.DateTimeFormat(undefined, { timeZone: timezone, hour: "numeric", minute: "2-digit" }).format(new Date(event.raw));
+  } catch (e) {
+    return new Intl.DateTimeFormat(undefined, { hour: "numeric", minute: "2-digit" }).format(new Date(event.raw));
+  }
+}
+
+export function buildPlacementEvents(placements: CalendarPlacement[], timezone: string): PlacementCalendarEvent[] {
+  const fields = Object.keys(placementDateFieldLabels) as PlacementDateField[];
+  const events: PlacementCalendarEvent[] = [];
+  placements.forEach(placement => {
+    fields.forEach(field => {
+      const raw = placement[field];
+      if (!raw) return;
+      const hasTime = !DATE_ONLY_RE.test(raw) && raw.includes("T") && !raw.endsWith("T00:00:00");
+      events.push({
+        id: `${placement.placement_id}-${field}`,
+        placement,
+        field,
+        dayKey: toDayKey(hasTime ? raw : raw.split("T")[0], timezone),
+        raw,
+        hasTime,
+      });
+    });
+  });
+  return events;
+}
+
+export function getEventTitle(event: PlacementCalendarEvent): string {
+  return `${placementDateFieldLabels[event.field]}: ${event.placement.media_name || `Media ID: ${event.placement.media_id}`}`;
+}
+
+// --- iCalendar serialisation (RFC 5545) ---
+function escapeIcsText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+function foldIcsLine(line: string): string {
+  if (line.length <= 75) return line;
+  const chunks: string[] = [];
+  for (let i = 0; i < line.length; i += 74) {
+    chunks.push((i === 0 ? "" : " ") + line.slice(i, i + 74));
+  }
+  return chunks.join("\r\n");
+}
+
+function toIcsUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function toIcsDate(dayKey: string): string {
+  return dayKey.replace(/-/g, "");
+}
+
+function nextDayKey(dayKey: string): string {
+  const [y, m, d] = dayKey.split("-").map(Number);
+  const next = new Date(Date.UTC(y, m - 1, d + 1));
+  return next.toISOString().split("T")[0];
+}
+
+export function buildPlacementIcs(events: PlacementCalendarEvent[], options: { calendarName: string; timezone: string }): string {
+  const stamp = toIcsUtc(new Date());
+  const lines: string[] = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Podcast Guest Launch//Placements//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(options.calendarName)}`,
+    `X-WR-TIMEZONE:${options.timezone}`,
+  ];
+
+  events.forEach(event => {
+    const { placement } = event;
+    const description = [
+      placement.campaign_name && `Campaign: ${placement.campaign_name}`,
+      placement.client_name && `Client: ${placement.client_name}`,
+      placement.current_status && `Status: ${placement.current_status}`,
+      placement.episode_link && `Episode: ${placement.episode_link}`,
+    ].filter(Boolean).join("\n");
+
+    lines.push("BEGIN:VEVENT");
+    lines.push(`UID:placement-${placement.placement_id}-${event.field}@podcastguestlaunch.com`);
+    lines.push(`DTSTAMP:${stamp}`);
+    if (event.hasTime) {
+      const start = new Date(event.raw);
+      lines.push(`DTSTART:${toIcsUtc(start)}`);
+      lines.push(`DTEND:${toIcsUtc(new Date(start.getTime() + 60 * 60 * 1000))}`);
+    } else {
+      lines.push(`DTSTART;VALUE=DATE:${toIcsDate(event.dayKey)}`);
+      lines.push(`DTEND;VALUE=DATE:${toIcsDate(nextDayKey(event.dayKey))}`);
+    }
+    lines.push(`SUMMARY:${escapeIcsText(getEventTitle(event))}`);
+    if (description) lines.push(`DESCRIPTION:${escapeIcsText(description)}`);
+    if (placement.episode_link) lines.push(`URL:${placement.episode_link}`);
+    lines.push("END:VEVENT");
+  });
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
+
+export function downloadIcsFile(content: string, filename: string) {
+  const blob = new Blob([content], { type: "text/calendar;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename.endsWith(".ics") ? filename : `${filename}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
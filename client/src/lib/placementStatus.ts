@@ -0,0 +1,29 @@
+// client/src/lib/placementStatus.ts
+import type { ElementType } from "react";
+import { Clock, MessageSquare, Eye, CheckCircle, Calendar, PlayCircle, ExternalLink, X, AlertCircle } from "lucide-react";
+
+export interface PlacementStatusConfig {
+  label: string;
+  icon: ElementType;
+  color: string;
+  dotColor: string;
+}
+
+// Shared by PlacementTracking and CampaignDetail so both views colour statuses the same way
+export const statusConfig: Record<string, PlacementStatusConfig> = {
+  pending: { label: "Pending", icon: Clock, color: "bg-gray-100 text-gray-700", dotColor: "bg-gray-500" },
+  responded: { label: "Responded", icon: MessageSquare, color: "bg-blue-100 text-blue-800", dotColor: "bg-blue-500" },
+  interested: { label: "Interested", icon: Eye, color: "bg-teal-100 text-teal-800", dotColor: "bg-teal-500" },
+  form_submitted: { label: "Form Submitted", icon: CheckCircle, color: "bg-cyan-100 text-cyan-800", dotColor: "bg-cyan-500" },
+  meeting_booked: { label: "Meeting Booked", icon: Calendar, color: "bg-purple-100 text-purple-800", dotColor: "bg-purple-500" },
+  recording_booked: { label: "Recording Booked", icon: Calendar, color: "bg-indigo-100 text-indigo-800", dotColor: "bg-indigo-500" },
+  recorded: { label: "Recorded", icon: PlayCircle, color: "bg-pink-100 text-pink-800", dotColor: "bg-pink-500" },
+  live: { label: "Live", icon: ExternalLink, color: "bg-green-100 text-green-800", dotColor: "bg-green-500" },
+  paid: { label: "Paid", icon: CheckCircle, color: "bg-emerald-100 text-emerald-800", dotColor: "bg-emerald-500" },
+  rejected: { label: "Rejected", icon: X, color: "bg-red-100 text-red-800", dotColor: "bg-red-500" },
+  default: { label: "Unknown", icon: AlertCircle, color: "bg-gray-100 text-gray-700", dotColor: "bg-gray-400" },
+};
+
+export function getStatusConfig(status?: string | null): PlacementStatusConfig {
+  return statusConfig[status || 'default'] || statusConfig.default;
+}
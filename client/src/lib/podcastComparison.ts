@@ -0,0 +1,107 @@
+// client/src/lib/podcastComparison.ts
+// Row definitions and best-value logic for the side-by-side podcast comparison, plus the shared approve/reject call.
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import type { Media } from "@/types/media";
+
+export const MAX_COMPARISON_ITEMS = 4;
+export const MIN_COMPARISON_ITEMS = 2;
+
+// One column: the podcast plus whatever match context the page it was picked from knows about
+export interface ComparisonItem {
+  media_id: number;
+  media_name?: string | null;
+  match_id?: number | null;
+  review_task_id?: number | null;
+  campaign_id?: string | null;
+  status?: string | null;
+  vetting_score?: number | null;
+  matched_keywords?: string[] | null;
+}
+
+export type ComparisonDecision = "approved" | "rejected";
+
+export interface ComparisonRow {
+  key: string;
+  label: string;
+  group: "Quality" | "Reach" | "Ratings" | "Activity" | "Match";
+  value: (media: Media | undefined, item: ComparisonItem) => number | null; // What "best" is judged on; null when not comparable
+  format: (media: Media | undefined, item: ComparisonItem) => string | string[];
+}
+
+const percent = (value: number | null | undefined) => (value === null || value === undefined ? null : Math.round(value * 100));
+const showPercent = (value: number | null | undefined) => (value === null || value === undefined ? "N/A" : `${Math.round(value * 100)}%`);
+const showNumber = (value: number | null | undefined) => (value === null || value === undefined ? "N/A" : value.toLocaleString());
+const showRating = (average: number | null | undefined, count: number | null | undefined) =>
+  average === null || average === undefined ? "N/A" : `${average.toFixed(1)} ★${count ? ` (${count.toLocaleString()})` : ""}`;
+
+export const COMPARISON_ROWS: ComparisonRow[] = [
+  {
+    key: "quality_score", label: "Quality score", group: "Quality",
+    value: media => percent(media?.quality_score),
+    format: media => (media?.quality_score === null || media?.quality_score === undefined ? "N/A" : `${Math.round(media.quality_score * 100)}/100`),
+  },
+  { key: "quality_score_recency", label: "Recency", group: "Quality", value: media => percent(media?.quality_score_recency), format: media => showPercent(media?.quality_score_recency) },
+  { key: "quality_score_frequency", label: "Frequency", group: "Quality", value: media => percent(media?.quality_score_frequency), format: media => showPercent(media?.quality_score_frequency) },
+  { key: "quality_score_audience", label: "Audience", group: "Quality", value: media => percent(media?.quality_score_audience), format: media => showPercent(media?.quality_score_audience) },
+  { key: "quality_score_social", label: "Social", group: "Quality", value: media => percent(media?.quality_score_social), format: media => showPercent(media?.quality_score_social) },
+  { key: "listen_score", label: "Listen Score", group: "Reach", value: media => media?.listen_score ?? null, format: media => showNumber(media?.listen_score) },
+  { key: "audience_size", label: "Audience size", group: "Reach", value: media => media?.audience_size ?? null, format: media => showNumber(media?.audience_size) },
+  {
+    key: "itunes_rating", label: "Apple Podcasts rating", group: "Ratings",
+    value: media => media?.itunes_rating_average ?? null,
+    format: media => showRating(media?.itunes_rating_average, media?.itunes_rating_count),
+  },
+  {
+    key: "spotify_rating", label: "Spotify rating", group: "Ratings",
+    value: media => media?.spotify_rating_average ?? null,
+    format: media => showRating(media?.spotify_rating_average, media?.spotify_rating_count),
+  },
+  { key: "total_episodes", label: "Total episodes", group: "Activity", value: media => media?.total_episodes ?? null, format: media => showNumber(media?.total_episodes) },
+  {
+    key: "last_posted_at", label: "Last episode", group: "Activity",
+    value: media => (media?.last_posted_at ? new Date(media.last_posted_at).getTime() : null),
+    format: media => (media?.last_posted_at ? formatDistanceToNow(new Date(media.last_posted_at), { addSuffix: true }) : "N/A"),
+  },
+  { key: "host_names", label: "Hosts", group: "Activity", value: () => null, format: media => (media?.host_names?.length ? media.host_names : "N/A") },
+  {
+    key: "vetting_score", label: "Vetting score", group: "Match",
+    value: (_, item) => item.vetting_score ?? null,
+    format: (_, item) => (item.vetting_score === null || item.vetting_score === undefined ? "N/A" : `${Math.round(item.vetting_score)}/100`),
+  },
+  {
+    key: "matched_keywords", label: "Matched keywords", group: "Match",
+    value: (_, item) => (item.matched_keywords ? item.matched_keywords.length : null),
+    format: (_, item) => (item.matched_keywords?.length ? item.matched_keywords : "None"),
+  },
+];
+
+// Column indexes holding the row's highest value; empty when fewer than two columns have a value or they're all tied
+export function getBestColumns(values: (number | null)[]): Set<number> {
+  const present = values.filter((value): value is number => value !== null);
+  if (present.length < 2) return new Set();
+  const best = Math.max(...present);
+  if (present.every(value => value === best)) return new Set();
+  return new Set(values.flatMap((value, index) => (value === best ? [index] : [])));
+}
+
+// Same branching as the match lists: the review task when there is one, else the match suggestion itself
+export async function decideComparisonItem(item: ComparisonItem, decision: ComparisonDecision, note: string) {
+  let res: Response;
+  if (item.review_task_id) {
+    res = await apiRequest("POST", `/review-tasks/${item.review_task_id}/approve`, { status: decision, notes: note });
+  } else if (item.match_id) {
+    res = decision === "approved"
+      ? await apiRequest("PATCH", `/match-suggestions/${item.match_id}/approve`)
+      : await apiRequest("PATCH", `/match-suggestions/${item.match_id}`, { status: "rejected_by_client" });
+  } else {
+    throw new Error("This podcast isn't a match suggestion yet, so it can't be approved or rejected here.");
+  }
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({ detail: "Action failed" }));
+    throw new Error(errorData.detail || "Action failed");
+  }
+}
+
+export const canDecideComparisonItem = (item: ComparisonItem) =>
+  !!(item.review_task_id || item.match_id) && (!item.status || item.status.startsWith("pending"));
@@ -0,0 +1,125 @@
+// client/src/lib/podcastIntake.ts
+// Reads RSS, Apple Podcasts and Spotify links (pasted or from a CSV) into intake items for the manual "Add podcast" flow.
+import type { PodcastIntakeIdentifier, PodcastIntakeItem, PodcastSourceType } from "@/types/podcastIntake";
+
+export const MAX_INTAKE_ITEMS = 200;
+
+export const PODCAST_SOURCE_LABELS: Record<PodcastSourceType, string> = {
+  rss: "RSS feed",
+  apple: "Apple Podcasts",
+  spotify: "Spotify",
+};
+
+export const INTAKE_IDENTIFIER_LABELS: Record<PodcastIntakeIdentifier, string> = {
+  itunes_id: "Apple Podcasts ID",
+  rss_url: "RSS feed",
+  podcast_spotify_id: "Spotify ID",
+};
+
+const APPLE_ID_PATTERN = /podcasts\.apple\.com\/.*\bid(\d+)/i;
+const SPOTIFY_SHOW_PATTERN = /open\.spotify\.com\/(?:[a-z-]+\/)?show\/([A-Za-z0-9]+)/i;
+
+// Trailing slashes and casing in the host don't make a different feed
+const normalizeUrl = (url: URL) => `${url.protocol}//${url.host.toLowerCase()}${url.pathname.replace(/\/+$/, "")}${url.search}`;
+
+export function parsePodcastUrl(input: string): PodcastIntakeItem | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+  let url: URL;
+  try {
+    url = new URL(/^[a-z]+:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    return null;
+  }
+  if (!["http:", "https:"].includes(url.protocol) || !url.hostname.includes(".")) return null;
+
+  const apple = trimmed.match(APPLE_ID_PATTERN);
+  if (apple) return { url: trimmed, source_type: "apple", itunes_id: apple[1] };
+  const spotify = trimmed.match(SPOTIFY_SHOW_PATTERN);
+  if (spotify) return { url: trimmed, source_type: "spotify", podcast_spotify_id: spotify[1] };
+  if (/spotify\.com|apple\.com/i.test(url.hostname)) return null; // Episode or profile links rather than a show
+  return { url: trimmed, source_type: "rss", rss_url: normalizeUrl(url) };
+}
+
+const identityKey = (item: PodcastIntakeItem) =>
+  item.itunes_id ? `itunes:${item.itunes_id}` : item.podcast_spotify_id ? `spotify:${item.podcast_spotify_id}` : `rss:${item.rss_url}`;
+
+export interface ParsedIntake {
+  items: PodcastIntakeItem[];
+  invalid: string[]; // Lines or cells that aren't a podcast link
+  duplicates: number; // Repeats within this batch, dropped before sending
+}
+
+function collect(values: string[]): ParsedIntake {
+  const seen = new Set<string>();
+  const result: ParsedIntake = { items: [], invalid: [], duplicates: 0 };
+  values.map(value => value.trim()).filter(Boolean).forEach(value => {
+    const item = parsePodcastUrl(value);
+    if (!item) {
+      result.invalid.push(value);
+    } else if (seen.has(identityKey(item))) {
+      result.duplicates += 1;
+    } else {
+      seen.add(identityKey(item));
+      result.items.push(item);
+    }
+  });
+  return result;
+}
+
+export const parsePodcastLinks = (text: string): ParsedIntake => collect(text.split(/[\s,]+/));
+
+// Minimal RFC 4180 reader: quoted fields may hold commas, newlines and doubled quotes
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+// Columns we read links from when the CSV has a header row; anything else (notes, host names) is ignored
+const LINK_COLUMNS = ["url", "link", "rss_url", "rss", "feed", "apple_url", "apple_podcasts_url", "itunes_url", "spotify_url"];
+
+export function parsePodcastCsv(text: string): ParsedIntake {
+  const rows = parseCsvRows(text);
+  if (rows.length === 0) return { items: [], invalid: [], duplicates: 0 };
+  const header = rows[0].map(cell => cell.trim().toLowerCase().replace(/\s+/g, "_"));
+  const linkColumns = header.flatMap((name, index) => (LINK_COLUMNS.includes(name) ? [index] : []));
+  if (linkColumns.length === 0) {
+    // No recognised header: treat every cell that looks like a link as one
+    return collect(rows.flat().filter(cell => /[./]/.test(cell)));
+  }
+  // One podcast per row; the first filled link column wins so a row with both Apple and RSS links isn't counted twice
+  return collect(rows.slice(1).map(cells => linkColumns.map(index => cells[index] || "").find(value => value.trim()) || ""));
+}
@@ -2,7 +2,7 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
 // VITE_API_BASE_URL should be "http://localhost:8000" from .env
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || "http://localhost:8000";
+export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || "http://localhost:8000";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
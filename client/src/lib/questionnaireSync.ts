@@ -0,0 +1,116 @@
+// client/src/lib/questionnaireSync.ts
+// Maps what the onboarding chatbot extracts onto questionnaire form fields, and tracks which fields it filled.
+import type { ExtractedData } from "@/lib/keywordReview";
+
+// Profile fields the chatbot accumulates in extracted_data alongside keywords; every part may be missing mid-conversation
+export interface ChatProfileData extends ExtractedData {
+  contact_info?: {
+    full_name?: string;
+    email?: string;
+    phone?: string;
+    website?: string;
+    social_media?: { platform: string; handle: string }[];
+  };
+  professional_bio?: {
+    about_work?: string;
+    expertise_topics?: string[] | string;
+    achievements?: string[] | string;
+  };
+  metrics?: {
+    years_experience?: string | number;
+    keynote_engagements?: string | number;
+    email_subscribers?: string | number;
+  };
+  media_experience?: {
+    previous_appearances?: { show_name: string; link?: string }[];
+  };
+  topics?: {
+    suggested?: string[];
+    key_messages?: string[];
+  };
+  stories?: { subject?: string; result?: string }[];
+  promotion?: {
+    preferred_intro?: string;
+    items_to_promote?: string[] | string;
+    best_contact?: string;
+  };
+  ideal_podcast?: string;
+}
+
+// Dotted react-hook-form path -> value, e.g. { "contactInfo.fullName": "Jane Doe" }
+export type QuestionnaireFieldValues<P extends string = string> = Partial<Record<P, unknown>>;
+
+const joinList = (value: string[] | string | undefined, separator = ", ") =>
+  Array.isArray(value) ? value.filter(Boolean).join(separator) : value || "";
+
+const toText = (value: string | number | undefined) => (value === undefined || value === null ? "" : String(value));
+
+function buildChatFields(data: ChatProfileData) {
+  const stories = (data.stories || [])
+    .map(story => [story.subject, story.result].filter(Boolean).join(": "))
+    .filter(Boolean);
+
+  return {
+    "contactInfo.fullName": data.contact_info?.full_name || "",
+    "contactInfo.email": data.contact_info?.email || "",
+    "contactInfo.phone": data.contact_info?.phone || "",
+    "contactInfo.website": data.contact_info?.website || "",
+    "contactInfo.socialMedia": data.contact_info?.social_media || [],
+    "professionalBio.aboutWork": data.professional_bio?.about_work || "",
+    // Fall back to the explicit keywords when the bio itself has no expertise list yet
+    "professionalBio.expertiseTopics": joinList(data.professional_bio?.expertise_topics) || joinList(data.keywords?.explicit),
+    "professionalBio.achievements": joinList(data.professional_bio?.achievements, "\n"),
+    "atAGlanceStats.yearsOfExperience": toText(data.metrics?.years_experience),
+    "atAGlanceStats.keynoteEngagements": toText(data.metrics?.keynote_engagements),
+    "atAGlanceStats.emailSubscribers": toText(data.metrics?.email_subscribers),
+    "mediaExperience.previousAppearances": (data.media_experience?.previous_appearances || [])
+      .map(appearance => ({ showName: appearance.show_name, link: appearance.link || "" })),
+    "suggestedTopics.topics": joinList(data.topics?.suggested, "\n"),
+    "suggestedTopics.keyStoriesOrMessages": [...(data.topics?.key_messages || []), ...stories].join("\n"),
+    "promotionPrefs.preferredIntro": data.promotion?.preferred_intro || "",
+    "promotionPrefs.itemsToPromote": joinList(data.promotion?.items_to_promote),
+    "promotionPrefs.bestContactForHosts": data.promotion?.best_contact || "",
+    "finalNotes.idealPodcastDescription": data.ideal_podcast || "",
+  };
+}
+
+export type QuestionnaireChatPath = keyof ReturnType<typeof buildChatFields>;
+
+export function mapChatDataToQuestionnaire(data: ChatProfileData | null | undefined): QuestionnaireFieldValues<QuestionnaireChatPath> {
+  if (!data) return {};
+  return Object.fromEntries(Object.entries(buildChatFields(data)).filter(([, value]) => !isEmptyFieldValue(value)));
+}
+
+export function isEmptyFieldValue(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length === 0;
+  return value === undefined || value === null || (typeof value === "string" && value.trim() === "");
+}
+
+export const sameFieldValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Which chat values to write into the form: empty fields, or fields still holding an earlier chat value the client never touched
+export function getChatFieldUpdates<P extends string>(
+  mapped: QuestionnaireFieldValues<P>,
+  getCurrent: (path: P) => unknown,
+  aiFilled: QuestionnaireFieldValues<P>,
+): QuestionnaireFieldValues<P> {
+  return Object.fromEntries((Object.entries(mapped) as [P, unknown][]).filter(([path, value]) => {
+    const current = getCurrent(path);
+    if (sameFieldValue(current, value)) return false;
+    return isEmptyFieldValue(current) || (path in aiFilled && sameFieldValue(current, aiFilled[path]));
+  })) as QuestionnaireFieldValues<P>;
+}
+
+const aiFilledStorageKey = (campaignId: string) => `questionnaire-ai-filled-${campaignId}`;
+
+export function loadAiFilledFields<P extends string>(campaignId: string): QuestionnaireFieldValues<P> {
+  try {
+    return JSON.parse(localStorage.getItem(aiFilledStorageKey(campaignId)) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+export function saveAiFilledFields<P extends string>(campaignId: string, fields: QuestionnaireFieldValues<P>) {
+  localStorage.setItem(aiFilledStorageKey(campaignId), JSON.stringify(fields));
+}
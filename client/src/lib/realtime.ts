@@ -0,0 +1,183 @@
+// client/src/lib/realtime.ts
+// Single shared push connection to the backend. Prefers a WebSocket, drops to Server-Sent Events when
+// the socket can't be opened, and reports "offline" so queries can go back to polling.
+import type { QueryClient, QueryKey } from "@tanstack/react-query";
+import { API_BASE_URL } from "./queryClient";
+
+export type RealtimeEventType = "discovery.updated" | "task.updated" | "pitch.updated" | "inbox.updated";
+export type RealtimeTransport = "websocket" | "sse" | "offline";
+
+export interface RealtimeEvent {
+  type: RealtimeEventType;
+  campaign_id?: string;
+  task_id?: string;
+  pitch_id?: number;
+  thread_id?: string;
+}
+
+type EventListener = (event: RealtimeEvent) => void;
+type TransportListener = (transport: RealtimeTransport) => void;
+
+const WS_URL = `${API_BASE_URL.replace(/^http/, "ws")}/ws/events`;
+const SSE_URL = `${API_BASE_URL}/events/stream`;
+const EVENT_TYPES: RealtimeEventType[] = ["discovery.updated", "task.updated", "pitch.updated", "inbox.updated"];
+const MAX_RETRY_DELAY = 60 * 1000;
+
+// Query keys each event makes stale. Prefix matching applies, so ["sentPitchesStatus"] covers every filter combination.
+export function getInvalidatedKeys(event: RealtimeEvent): QueryKey[] {
+  switch (event.type) {
+    case "discovery.updated":
+      return event.campaign_id
+        ? [
+            [`/match-suggestions/campaigns/${event.campaign_id}/discoveries/status`],
+            ["campaignMatchesDetail", event.campaign_id],
+            ["/review-tasks/enhanced"],
+          ]
+        : [["/review-tasks/enhanced"]];
+    case "task.updated":
+      return [["/tasks/"]];
+    case "pitch.updated":
+      return [
+        ["approvedMatchesForPitching"],
+        ["pitchDraftsForReview"],
+        ["pitchesReadyToSend"],
+        ["scheduledPitches"],
+        ["sentPitchesStatus"],
+        ["/pitches/"],
+        ["/pitches/metrics"],
+      ];
+    case "inbox.updated":
+      // Events without a thread are account-level (grant connected/expired, sync finished)
+      return event.thread_id
+        ? [["/inbox/threads"], [`/inbox/threads/${event.thread_id}`]]
+        : [["/inbox/threads"], ["/inbox/nylas-status"]];
+    default:
+      return [];
+  }
+}
+
+function parseEvent(raw: string): RealtimeEvent | null {
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && EVENT_TYPES.includes(parsed.type) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+class RealtimeConnection {
+  private socket: WebSocket | null = null;
+  private source: EventSource | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryCount = 0;
+  private active = false;
+  private eventListeners = new Set<EventListener>();
+  private transportListeners = new Set<TransportListener>();
+  transport: RealtimeTransport = "offline";
+
+  start() {
+    if (this.active) return;
+    this.active = true;
+    this.connectWebSocket();
+  }
+
+  stop() {
+    this.active = false;
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    this.closeTransports();
+    this.setTransport("offline");
+  }
+
+  subscribe(listener: EventListener) {
+    this.eventListeners.add(listener);
+    return () => { this.eventListeners.delete(listener); };
+  }
+
+  onTransportChange(listener: TransportListener) {
+    this.transportListeners.add(listener);
+    return () => { this.transportListeners.delete(listener); };
+  }
+
+  private setTransport(transport: RealtimeTransport) {
+    if (this.transport === transport) return;
+    this.transport = transport;
+    this.transportListeners.forEach(listener => listener(transport));
+  }
+
+  private emit(raw: string) {
+    const event = parseEvent(raw);
+    if (event) this.eventListeners.forEach(listener => listener(event));
+  }
+
+  private closeTransports() {
+    if (this.socket) {
+      this.socket.onclose = null;
+      this.socket.close();
+      this.socket = null;
+    }
+    if (this.source) {
+      this.source.close();
+      this.source = null;
+    }
+  }
+
+  private connectWebSocket() {
+    if (typeof WebSocket === "undefined") {
+      this.connectEventSource();
+      return;
+    }
+    let opened = false;
+    const socket = new WebSocket(WS_URL);
+    this.socket = socket;
+    socket.onopen = () => {
+      opened = true;
+      this.retryCount = 0;
+      this.setTransport("websocket");
+    };
+    socket.onmessage = (message) => this.emit(String(message.data));
+    socket.onclose = () => {
+      this.socket = null;
+      if (!this.active) return;
+      // A socket that never opened is usually blocked by a proxy; SSE tends to get through
+      if (opened) this.scheduleReconnect();
+      else this.connectEventSource();
+    };
+  }
+
+  private connectEventSource() {
+    if (typeof EventSource === "undefined") {
+      this.scheduleReconnect();
+      return;
+    }
+    const source = new EventSource(SSE_URL, { withCredentials: true });
+    this.source = source;
+    source.onopen = () => {
+      this.retryCount = 0;
+      this.setTransport("sse");
+    };
+    source.onmessage = (message) => this.emit(message.data);
+    source.onerror = () => {
+      // EventSource retries on its own forever; we'd rather back off and try the socket again
+      source.close();
+      this.source = null;
+      if (this.active) this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect() {
+    this.setTransport("offline");
+    const delay = Math.min(1000 * 2 ** this.retryCount, MAX_RETRY_DELAY);
+    this.retryCount += 1;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      if (this.active) this.connectWebSocket();
+    }, delay);
+  }
+}
+
+export const realtime = new RealtimeConnection();
+
+export function invalidateForEvent(client: QueryClient, event: RealtimeEvent) {
+  getInvalidatedKeys(event).forEach(queryKey => client.invalidateQueries({ queryKey }));
+}
@@ -0,0 +1,248 @@
+// client/src/lib/reviewFacets.ts
+// Facet filters, counts and sorting for the match review queues, and their round trip through the URL query string.
+
+// Podcast fields the enhanced review tasks and discovery matches carry for faceting
+export interface FacetMedia {
+  category?: string | null;
+  language?: string | null;
+  audience_size?: number | null;
+  listen_score?: number | null;
+  last_posted_at?: string | null;
+}
+
+// What a queue item looks like to the facet panel; pages map their own rows onto this
+export interface FacetableItem {
+  vetting_score?: number | null;
+  match_score?: number | null;
+  discovery_keyword?: string | null;
+  matched_keywords?: string[] | null;
+  media?: FacetMedia | null;
+}
+
+export type AudienceBucket = "under_1k" | "1k_10k" | "10k_50k" | "50k_plus" | "unknown";
+
+export const AUDIENCE_BUCKETS: { value: AudienceBucket; label: string; min: number; max: number }[] = [
+  { value: "under_1k", label: "Under 1K", min: 0, max: 1000 },
+  { value: "1k_10k", label: "1K – 10K", min: 1000, max: 10000 },
+  { value: "10k_50k", label: "10K – 50K", min: 10000, max: 50000 },
+  { value: "50k_plus", label: "50K+", min: 50000, max: Infinity },
+  { value: "unknown", label: "Unknown", min: NaN, max: NaN },
+];
+
+export const POSTED_WITHIN_OPTIONS = [7, 30, 90, 180];
+
+export type FacetSort = "default" | "vetting_desc" | "vetting_asc" | "match_desc" | "match_asc" | "audience_desc" | "listen_desc" | "recent";
+
+export const FACET_SORT_LABELS: Record<FacetSort, string> = {
+  default: "Default Order",
+  vetting_desc: "Vetting Score: High to Low",
+  vetting_asc: "Vetting Score: Low to High",
+  match_desc: "Match Score: High to Low",
+  match_asc: "Match Score: Low to High",
+  audience_desc: "Largest Audience",
+  listen_desc: "Highest Listen Score",
+  recent: "Most Recently Posted",
+};
+
+export interface FacetFilters {
+  scoreMin: number; // Vetting score, 0–100
+  scoreMax: number;
+  categories: string[];
+  languages: string[];
+  audience: AudienceBucket[];
+  postedWithinDays: number | null;
+  keywords: string[];
+  sort: FacetSort;
+}
+
+export const SCORE_RANGE = { min: 0, max: 100 };
+
+export const createEmptyFacetFilters = (sort: FacetSort = "default"): FacetFilters => ({
+  scoreMin: SCORE_RANGE.min,
+  scoreMax: SCORE_RANGE.max,
+  categories: [],
+  languages: [],
+  audience: [],
+  postedWithinDays: null,
+  keywords: [],
+  sort,
+});
+
+export const countActiveFacets = (filters: FacetFilters) =>
+  (filters.scoreMin > SCORE_RANGE.min || filters.scoreMax < SCORE_RANGE.max ? 1 : 0)
+  + filters.categories.length + filters.languages.length + filters.audience.length
+  + (filters.postedWithinDays ? 1 : 0) + filters.keywords.length;
+
+// --- URL round trip ---
+// Multi-value facets repeat their key (?category=Business&category=Education) so values may contain commas
+
+const PARAM = {
+  scoreMin: "score_min",
+  scoreMax: "score_max",
+  categories: "category",
+  languages: "language",
+  audience: "audience",
+  postedWithinDays: "posted_within",
+  keywords: "keyword",
+  sort: "sort",
+} as const;
+
+const clampScore = (value: string | null, fallback: number) => {
+  const parsed = value === null ? NaN : Number(value);
+  return Number.isFinite(parsed) ? Math.min(SCORE_RANGE.max, Math.max(SCORE_RANGE.min, parsed)) : fallback;
+};
+
+// A reversed range means the bounds went in the wrong boxes (or a hand-edited link), not "match nothing"
+export const orderScoreRange = (min: number, max: number): Pick<FacetFilters, "scoreMin" | "scoreMax"> =>
+  min > max ? { scoreMin: max, scoreMax: min } : { scoreMin: min, scoreMax: max };
+
+export function parseFacetFilters(search: string, defaultSort: FacetSort = "default"): FacetFilters {
+  const params = new URLSearchParams(search);
+  const posted = Number(params.get(PARAM.postedWithinDays));
+  const sort = params.get(PARAM.sort);
+  return {
+    ...orderScoreRange(clampScore(params.get(PARAM.scoreMin), SCORE_RANGE.min), clampScore(params.get(PARAM.scoreMax), SCORE_RANGE.max)),
+    categories: params.getAll(PARAM.categories),
+    languages: params.getAll(PARAM.languages),
+    audience: params.getAll(PARAM.audience).filter((value): value is AudienceBucket => AUDIENCE_BUCKETS.some(bucket => bucket.value === value)),
+    postedWithinDays: Number.isInteger(posted) && posted > 0 ? posted : null,
+    keywords: params.getAll(PARAM.keywords),
+    sort: sort && Object.prototype.hasOwnProperty.call(FACET_SORT_LABELS, sort) ? (sort as FacetSort) : defaultSort,
+  };
+}
+
+// Rewrites only the facet keys, so unrelated params like ?match_id= survive; defaults are left out to keep links short
+export function serializeFacetFilters(filters: FacetFilters, search: string, defaultSort: FacetSort = "default"): string {
+  const params = new URLSearchParams(search);
+  Object.values(PARAM).forEach(key => params.delete(key));
+  if (filters.scoreMin > SCORE_RANGE.min) params.set(PARAM.scoreMin, String(filters.scoreMin));
+  if (filters.scoreMax < SCORE_RANGE.max) params.set(PARAM.scoreMax, String(filters.scoreMax));
+  filters.categories.forEach(value => params.append(PARAM.categories, value));
+  filters.languages.forEach(value => params.append(PARAM.languages, value));
+  filters.audience.forEach(value => params.append(PARAM.audience, value));
+  if (filters.postedWithinDays) params.set(PARAM.postedWithinDays, String(filters.postedWithinDays));
+  filters.keywords.forEach(value => params.append(PARAM.keywords, value));
+  if (filters.sort !== defaultSort) params.set(PARAM.sort, filters.sort);
+  return params.toString();
+}
+
+// --- Matching ---
+
+type FacetKey = "score" | "categories" | "languages" | "audience" | "posted" | "keywords";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getAudienceBucket(size: number | null | undefined): AudienceBucket {
+  if (size === null || size === undefined) return "unknown";
+  return AUDIENCE_BUCKETS.find(bucket => size >= bucket.min && size < bucket.max)?.value ?? "unknown";
+}
+
+export const getItemKeywords = (item: FacetableItem) =>
+  Array.from(new Set([item.discovery_keyword, ...(item.matched_keywords || [])].filter((value): value is string => !!value)));
+
+const isPostedWithin = (item: FacetableItem, days: number, now: number) =>
+  !!item.media?.last_posted_at && now - new Date(item.media.last_posted_at).getTime() <= days * DAY_MS;
+
+function matchesFacet(item: FacetableItem, filters: FacetFilters, facet: FacetKey, now: number): boolean {
+  switch (facet) {
+    case "score": {
+      if (filters.scoreMin <= SCORE_RANGE.min && filters.scoreMax >= SCORE_RANGE.max) return true;
+      // Unscored items only survive a range that still starts at zero
+      if (item.vetting_score === null || item.vetting_score === undefined) return filters.scoreMin <= SCORE_RANGE.min;
+      return item.vetting_score >= filters.scoreMin && item.vetting_score <= filters.scoreMax;
+    }
+    case "categories":
+      return !filters.categories.length || filters.categories.includes(item.media?.category || "");
+    case "languages":
+      return !filters.languages.length || filters.languages.includes(item.media?.language || "");
+    case "audience":
+      return !filters.audience.length || filters.audience.includes(getAudienceBucket(item.media?.audience_size));
+    case "posted":
+      return !filters.postedWithinDays || isPostedWithin(item, filters.postedWithinDays, now);
+    case "keywords": {
+      // Any of the chosen keywords is enough, so adding a chip widens rather than narrows
+      if (!filters.keywords.length) return true;
+      const keywords = getItemKeywords(item).map(keyword => keyword.toLowerCase());
+      return filters.keywords.some(keyword => keywords.includes(keyword.toLowerCase()));
+    }
+  }
+}
+
+const FACET_KEYS: FacetKey[] = ["score", "categories", "languages", "audience", "posted", "keywords"];
+
+const matchesAllFacets = (item: FacetableItem, filters: FacetFilters, now: number, except?: FacetKey) =>
+  FACET_KEYS.every(facet => facet === except || matchesFacet(item, filters, facet, now));
+
+export function applyFacetFilters<T>(items: T[], filters: FacetFilters, toFacetable: (item: T) => FacetableItem): T[] {
+  const now = Date.now();
+  return items.filter(item => matchesAllFacets(toFacetable(item), filters, now));
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface FacetCounts {
+  matching: number;
+  categories: FacetCount[];
+  languages: FacetCount[];
+  audience: Record<AudienceBucket, number>;
+  postedWithin: Record<number, number>;
+  keywords: FacetCount[];
+}
+
+const tally = (values: string[]): FacetCount[] => {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+// Each facet is counted against the items every *other* facet lets through, so a count is what you'd get by ticking it
+export function getFacetCounts<T>(items: T[], filters: FacetFilters, toFacetable: (item: T) => FacetableItem): FacetCounts {
+  const now = Date.now();
+  const facetable = items.map(toFacetable);
+  const passingAllBut = (facet: FacetKey) => facetable.filter(item => matchesAllFacets(item, filters, now, facet));
+
+  const forAudience = passingAllBut("audience");
+  const forPosted = passingAllBut("posted");
+  return {
+    matching: facetable.filter(item => matchesAllFacets(item, filters, now)).length,
+    categories: tally(passingAllBut("categories").map(item => item.media?.category || "").filter(Boolean)),
+    languages: tally(passingAllBut("languages").map(item => item.media?.language || "").filter(Boolean)),
+    audience: Object.fromEntries(AUDIENCE_BUCKETS.map(bucket => [
+      bucket.value,
+      forAudience.filter(item => getAudienceBucket(item.media?.audience_size) === bucket.value).length,
+    ])) as Record<AudienceBucket, number>,
+    postedWithin: Object.fromEntries(POSTED_WITHIN_OPTIONS.map(days => [days, forPosted.filter(item => isPostedWithin(item, days, now)).length])),
+    keywords: tally(passingAllBut("keywords").flatMap(getItemKeywords)),
+  };
+}
+
+// --- Sorting ---
+
+const byNumber = (value: (item: FacetableItem) => number | null | undefined, direction: 1 | -1) =>
+  (a: FacetableItem, b: FacetableItem) => {
+    const left = value(a);
+    const right = value(b);
+    // Missing values always sink to the bottom, whichever way the sort runs
+    if (left === null || left === undefined) return right === null || right === undefined ? 0 : 1;
+    if (right === null || right === undefined) return -1;
+    return (left - right) * direction;
+  };
+
+const SORT_COMPARATORS: Record<Exclude<FacetSort, "default">, (a: FacetableItem, b: FacetableItem) => number> = {
+  vetting_desc: byNumber(item => item.vetting_score, -1),
+  vetting_asc: byNumber(item => item.vetting_score, 1),
+  match_desc: byNumber(item => item.match_score, -1),
+  match_asc: byNumber(item => item.match_score, 1),
+  audience_desc: byNumber(item => item.media?.audience_size, -1),
+  listen_desc: byNumber(item => item.media?.listen_score, -1),
+  recent: byNumber(item => (item.media?.last_posted_at ? new Date(item.media.last_posted_at).getTime() : null), -1),
+};
+
+export function sortFacetItems<T>(items: T[], sort: FacetSort, toFacetable: (item: T) => FacetableItem): T[] {
+  if (sort === "default") return items;
+  const compare = SORT_COMPARATORS[sort];
+  return [...items].sort((a, b) => compare(toFacetable(a), toFacetable(b)));
+}
@@ -0,0 +1,126 @@
+// client/src/lib/sendSchedule.ts
+// Timezone helpers for scheduled pitch sending. All returned Dates are absolute instants.
+
+// Country-code TLDs that reliably point at a single business timezone
+const TLD_TIMEZONES: Record<string, string> = {
+  uk: "Europe/London",
+  ie: "Europe/Dublin",
+  au: "Australia/Sydney",
+  nz: "Pacific/Auckland",
+  ca: "America/Toronto",
+  de: "Europe/Berlin",
+  fr: "Europe/Paris",
+  es: "Europe/Madrid",
+  it: "Europe/Rome",
+  nl: "Europe/Amsterdam",
+  se: "Europe/Stockholm",
+  in: "Asia/Kolkata",
+  sg: "Asia/Singapore",
+  za: "Africa/Johannesburg",
+  br: "America/Sao_Paulo",
+  mx: "America/Mexico_City",
+};
+
+export function isValidTimezone(timezone?: string | null): timezone is string {
+  if (!timezone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+export function getSenderTimezone(userTimezone?: string | null): string {
+  return isValidTimezone(userTimezone) ? userTimezone : Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+// Best guess at where a host reads email: an explicit timezone wins, then the recipient's country TLD, then the sender's zone
+export function guessHostTimezone(options: { hostTimezone?: string | null; recipientEmail?: string | null; fallback: string }): string {
+  if (isValidTimezone(options.hostTimezone)) return options.hostTimezone;
+  const domain = options.recipientEmail?.split("@")[1]?.toLowerCase();
+  const tld = domain?.split(".").pop();
+  if (tld && TLD_TIMEZONES[tld]) return TLD_TIMEZONES[tld];
+  return options.fallback;
+}
+
+function getZonedParts(date: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone, hourCycle: "h23",
+    year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit", second: "2-digit", weekday: "short",
+  }).formatToParts(date);
+  const get = (type: string) => parts.find(p => p.type === type)?.value || "0";
+  return {
+    year: Number(get("year")), month: Number(get("month")), day: Number(get("day")),
+    hour: Number(get("hour")), minute: Number(get("minute")), second: Number(get("second")),
+    weekday: get("weekday"),
+  };
+}
+
+function getTimezoneOffsetMs(date: Date, timezone: string): number {
+  const p = getZonedParts(date, timezone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// Wall-clock time in `timezone` -> absolute instant
+export function zonedTimeToUtc(year: number, month: number, day: number, hour: number, minute: number, timezone: string): Date {
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const offset = getTimezoneOffsetMs(new Date(guess), timezone);
+  const result = new Date(guess - offset);
+  // Re-check once in case the guess and the result straddle a DST change
+  const correctedOffset = getTimezoneOffsetMs(result, timezone);
+  return correctedOffset === offset ? result : new Date(guess - correctedOffset);
+}
+
+// Parses the value of an <input type="datetime-local"> as wall-clock time in `timezone`
+export function parseLocalDateTimeInput(value: string, timezone: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/.exec(value);
+  if (!match) return null;
+  const [, y, m, d, h, min] = match.map(Number);
+  return zonedTimeToUtc(y, m, d, h, min, timezone);
+}
+
+// Inverse of parseLocalDateTimeInput, for pre-filling the input
+export function toLocalDateTimeInput(date: Date, timezone: string): string {
+  const p = getZonedParts(date, timezone);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}`;
+}
+
+export function getNextWeekdayMorning(timezone: string, hour = 9, from: Date = new Date()): Date {
+  const today = getZonedParts(from, timezone);
+  for (let offset = 0; offset < 8; offset++) {
+    const probe = new Date(Date.UTC(today.year, today.month - 1, today.day + offset));
+    const weekday = probe.getUTCDay();
+    if (weekday === 0 || weekday === 6) continue;
+    const candidate = zonedTimeToUtc(probe.getUTCFullYear(), probe.getUTCMonth() + 1, probe.getUTCDate(), hour, 0, timezone);
+    if (candidate.getTime() > from.getTime()) return candidate;
+  }
+  return zonedTimeToUtc(today.year, today.month, today.day + 1, hour, 0, timezone);
+}
+
+// Spreads sends out with random gaps so a batch doesn't arrive as a blast
+export function staggerSendTimes(start: Date, count: number, minGapMinutes: number, maxGapMinutes: number): Date[] {
+  const times: Date[] = [];
+  let current = start.getTime();
+  const min = Math.max(0, Math.min(minGapMinutes, maxGapMinutes));
+  const max = Math.max(minGapMinutes, maxGapMinutes);
+  for (let i = 0; i < count; i++) {
+    times.push(new Date(current));
+    const gapMinutes = min + Math.random() * (max - min);
+    current += Math.round(gapMinutes * 60 * 1000);
+  }
+  return times;
+}
+
+export function formatInTimezone(date: Date | string, timezone: string): string {
+  const value = typeof date === "string" ? new Date(date) : date;
+  try {
+    return new Intl.DateTimeFormat(undefined, {
+      timeZone: timezone, weekday: "short", month: "short", day: "numeric", hour: "numeric", minute: "2-digit", timeZoneName: "short",
+    }).format(value);
+  } catch (e) {
+    return value.toLocaleString();
+  }
+}
@@ -0,0 +1,55 @@
+// client/src/lib/testimonials.ts
+// Structured testimonials: when a host can be asked for one, the public form link and its submit calls.
+import { apiRequest } from "@/lib/queryClient";
+import type { MediaKitTestimonial, TestimonialRequestInfo } from "@/types/mediaKit";
+
+// A host is only asked once the episode has actually been recorded
+export const TESTIMONIAL_REQUEST_STATUSES = ["recorded", "live"];
+
+export type TestimonialSubmission = Pick<MediaKitTestimonial, "quote" | "author_name" | "author_role" | "media_url" | "avatar_url">;
+
+export function canRequestTestimonial(placementStatus?: string | null): boolean {
+  return !!placementStatus && TESTIMONIAL_REQUEST_STATUSES.includes(placementStatus);
+}
+
+// Hosts type these links in; anything but a plain web link (javascript:, data:) would run as script in an href or src
+export function isWebUrl(url?: string | null): url is string {
+  return !!url && /^https?:\/\//i.test(url.trim());
+}
+
+export function validateTestimonialUrls(submission: Pick<TestimonialSubmission, "media_url" | "avatar_url">): string | null {
+  if (submission.media_url && !isWebUrl(submission.media_url)) return "The episode link must start with http:// or https://.";
+  if (submission.avatar_url && !isWebUrl(submission.avatar_url)) return "The photo URL must start with http:// or https://.";
+  return null;
+}
+
+export function getTestimonialFormUrl(token: string): string {
+  return `${window.location.origin}/testimonial/${encodeURIComponent(token)}`;
+}
+
+// Approved first, then newest; the public kit only ever gets approved ones
+export function sortTestimonials(testimonials: MediaKitTestimonial[]): MediaKitTestimonial[] {
+  return [...testimonials].sort((a, b) => {
+    if (a.status !== b.status) return a.status === "approved" ? -1 : b.status === "approved" ? 1 : 0;
+    return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+  });
+}
+
+export async function fetchTestimonialRequest(token: string): Promise<TestimonialRequestInfo> {
+  const response = await apiRequest("GET", `/public/testimonial-requests/${encodeURIComponent(token)}`);
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ detail: "This testimonial link is not valid." }));
+    throw new Error(response.status === 404 ? "This testimonial link is not valid." : errorData.detail || "Failed to load the testimonial form.");
+  }
+  return response.json();
+}
+
+export async function submitTestimonial(token: string, submission: TestimonialSubmission): Promise<void> {
+  const invalidUrl = validateTestimonialUrls(submission);
+  if (invalidUrl) throw new Error(invalidUrl);
+  const response = await apiRequest("POST", `/public/testimonial-requests/${encodeURIComponent(token)}`, submission);
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ detail: "Failed to submit testimonial." }));
+    throw new Error(errorData.detail || "Failed to submit testimonial.");
+  }
+}
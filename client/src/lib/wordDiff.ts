@@ -0,0 +1,83 @@
+// client/src/lib/wordDiff.ts
+// Word-level diff (longest common subsequence over word/whitespace tokens) for showing text changes inline.
+
+export interface DiffPart {
+  type: "equal" | "added" | "removed";
+  text: string;
+}
+
+// Above this many LCS cells the changed middle is shown as a plain replace instead
+const MAX_LCS_CELLS = 1_500_000;
+
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter(token => token.length > 0);
+}
+
+function pushPart(parts: DiffPart[], type: DiffPart["type"], text: string) {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) last.text += text;
+  else parts.push({ type, text });
+}
+
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Trim the shared prefix/suffix first; edits are usually local so this keeps the table small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const parts: DiffPart[] = [];
+  if (start > 0) pushPart(parts, "equal", a.slice(0, start).join(""));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    if (midA.length) pushPart(parts, "removed", midA.join(""));
+    if (midB.length) pushPart(parts, "added", midB.join(""));
+  } else {
+    // lengths[i][j] = LCS length of midA[i..] and midB[j..]
+    const lengths: Uint32Array[] = Array.from({ length: midA.length + 1 }, () => new Uint32Array(midB.length + 1));
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lengths[i][j] = midA[i] === midB[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        pushPart(parts, "equal", midA[i]);
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        pushPart(parts, "removed", midA[i++]);
+      } else {
+        pushPart(parts, "added", midB[j++]);
+      }
+    }
+    while (i < midA.length) pushPart(parts, "removed", midA[i++]);
+    while (j < midB.length) pushPart(parts, "added", midB[j++]);
+  }
+
+  if (endA < a.length) pushPart(parts, "equal", a.slice(endA).join(""));
+  return parts;
+}
+
+export function countChangedWords(parts: DiffPart[]): { added: number; removed: number } {
+  const count = (text: string) => text.split(/\s+/).filter(Boolean).length;
+  return parts.reduce(
+    (totals, part) => {
+      if (part.type === "added") totals.added += count(part.text);
+      if (part.type === "removed") totals.removed += count(part.text);
+      return totals;
+    },
+    { added: 0, removed: 0 },
+  );
+}
@@ -15,11 +15,13 @@ import { z } from "zod";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { 
-  Users, Plus, Edit, Trash2, KeyRound, Search, Briefcase, Settings as SettingsIcon, Eye, EyeOff, CheckCircle, RefreshCw
+  Users, Plus, Edit, Trash2, KeyRound, Search, Briefcase, Settings as SettingsIcon, Eye, EyeOff, CheckCircle, RefreshCw, GitMerge
 } from "lucide-react";
+import { Link } from "wouter";
 import { Skeleton } from "@/components/ui/skeleton";
 import CreateCampaignDialog, { PersonForClientSelection as PersonForCampaignDialogs } from "@/components/dialogs/CreateCampaignDialog";
 import EditCampaignDialog from "@/components/dialogs/EditCampaignDialog";
+import { BlocklistManager } from "@/components/admin/BlocklistManager";
 
 
 // --- Person Schemas (Align with backend: podcast_outreach/api/schemas/person_schemas.py) ---
@@ -730,6 +732,9 @@ export default function AdminPanel() {
           <h1 className="text-2xl font-bold text-gray-900">Admin Panel</h1>
           <p className="text-gray-600">Manage People, Campaigns, and System Settings</p>
         </div>
+        <Link href="/admin/media-duplicates">
+          <Button variant="outline"><GitMerge className="h-4 w-4 mr-2" />Duplicate Media</Button>
+        </Link>
         {/* Add Create Person Dialog Trigger here */}
       </div>
 
@@ -821,6 +826,8 @@ export default function AdminPanel() {
         </CardContent>
       </Card>
 
+      <BlocklistManager campaigns={campaignsWithClientNames} />
+
       {isEditPersonDialogOpen && editingPerson && (
         <EditPersonDialog
           person={editingPerson}
@@ -17,6 +17,8 @@ interface Campaign {
 export default function Analytics() {
   const { user } = useAuth();
   const [selectedCampaignId, setSelectedCampaignId] = useState<string>('all');
+  // Linked from PitchTemplates to show a single template's results
+  const [highlightTemplateId] = useState(() => new URLSearchParams(window.location.search).get('template') || undefined);
   
   // Fetch available campaigns
   const { data: campaigns } = useQuery<Campaign[]>({
@@ -133,6 +135,7 @@ export default function Analytics() {
         <TabsContent value="pitches" className="space-y-6">
           <PitchAnalyticsDashboard 
             campaignId={selectedCampaignId === 'all' ? undefined : selectedCampaignId} 
+            highlightTemplateId={highlightTemplateId}
           />
         </TabsContent>
 
@@ -18,6 +18,18 @@ import {
 import { Skeleton } from "@/components/ui/skeleton"; // For loading states
 import { MatchIntelligenceCard } from "@/components/MatchIntelligenceCard";
 import { PitchReviewCard } from "@/components/PitchReviewCard";
+import { ComparisonBar, CompareToggle } from "@/components/comparison/ComparisonBar";
+import { PodcastComparisonDialog } from "@/components/comparison/PodcastComparisonDialog";
+import { usePodcastComparison } from "@/hooks/usePodcastComparison";
+import type { ComparisonItem } from "@/lib/podcastComparison";
+import { useBlocklist } from "@/hooks/useBlocklist";
+import { findBlocklistMatch } from "@/lib/blocklist";
+import type { BlocklistEntry } from "@/types/blocklist";
+import { FacetPanel } from "@/components/facets/FacetPanel";
+import { useFacetFilters } from "@/hooks/useFacetFilters";
+import { applyFacetFilters, getFacetCounts, sortFacetItems, type FacetMedia, type FacetSort, type FacetableItem } from "@/lib/reviewFacets";
+import type { Media } from "@/types/media";
+import type { Campaign } from "@/types/campaign";
 
 export interface ReviewTask {
   review_task_id: number;
@@ -56,6 +68,7 @@ export interface ReviewTask {
   podcast_facebook_url?: string | null;
   podcast_youtube_url?: string | null;
   podcast_tiktok_url?: string | null;
+  media?: FacetMedia | null; // Category, language and reach fields for the facet panel
   // Pitch review specific fields
   pitch_body_full?: string;
   pitch_subject_line?: string;
@@ -79,77 +92,6 @@ export interface MatchSuggestion { // MatchSuggestionInDB
   media_name?: string; // Fallback - make it optional since it might not always be present
 }
 
-// --- From podcast_outreach/api/schemas/media_schemas.py ---
-export interface Media { // MediaInDB
-  media_id: number;
-  name: string | null;
-  title?: string | null;
-  rss_url?: string | null;
-  rss_feed_url?: string | null;
-  website?: string | null;
-  description?: string | null;
-  ai_description?: string | null;
-  contact_email?: string | null;
-  language?: string | null;
-  category?: string | null;
-  image_url?: string | null;
-  company_id?: number | null;
-  avg_downloads?: number | null;
-  audience_size?: number | null;
-  total_episodes?: number | null;
-  itunes_id?: string | null;
-  podcast_spotify_id?: string | null;
-  listen_score?: number | null;
-  listen_score_global_rank?: number | null;
-  itunes_rating_average?: number | null;
-  itunes_rating_count?: number | null;
-  spotify_rating_average?: number | null;
-  spotify_rating_count?: number | null;
-  fetched_episodes?: boolean;
-  source_api?: string | null;
-  api_id?: string | null; // ID from the source_api
-  last_posted_at?: string | null; // ISO datetime string
-  podcast_twitter_url?: string | null;
-  podcast_linkedin_url?: string | null;
-  podcast_instagram_url?: string | null;
-  podcast_facebook_url?: string | null;
-  podcast_youtube_url?: string | null;
-  podcast_tiktok_url?: string | null;
-  podcast_other_social_url?: string | null;
-  host_names?: string[] | null; // From your DB schema
-  // --- Fields for Match Intelligence Card ---
-  quality_score?: number | null;
-  quality_score_recency?: number | null;
-  quality_score_frequency?: number | null;
-  quality_score_audience?: number | null;
-  quality_score_social?: number | null;
-  // embedding is omitted
-  created_at: string; // ISO datetime string
-}
-
-// --- From podcast_outreach/api/schemas/campaign_schemas.py ---
-export interface Campaign { // CampaignInDB
-  campaign_id: string; // UUID string
-  person_id: number;
-  attio_client_id?: string | null; // UUID string
-  campaign_name: string;
-  campaign_type?: string | null;
-  campaign_bio?: string | null; // Link to GDoc or text
-  campaign_angles?: string | null; // Link to GDoc or text
-  campaign_keywords?: string[] | null;
-  compiled_social_posts?: string | null;
-  podcast_transcript_link?: string | null;
-  compiled_articles_link?: string | null;
-  mock_interview_trancript?: string | null;
-  // embedding is omitted
-  start_date?: string | null; // ISO date string
-  end_date?: string | null; // ISO date string
-  goal_note?: string | null;
-  media_kit_url?: string | null;
-  instantly_campaign_id?: string | null; // Added from your backend schema
-  created_at: string; // ISO datetime string
-}
-
 // --- From podcast_outreach/api/schemas/person_schemas.py ---
 export interface Person { // PersonInDB
   person_id: number;
@@ -195,7 +137,7 @@ const reviewTaskStatusConfig = {
 };
 
 // --- ReviewTaskItem Component ---
-function ReviewTaskItem({ task }: { task: ReviewTask }) {
+function ReviewTaskItem({ task, blockEntry }: { task: ReviewTask; blockEntry?: BlocklistEntry | null }) {
   const { toast } = useToast();
   const tanstackQueryClient = useTanstackQueryClient();
 
@@ -355,6 +297,7 @@ function ReviewTaskItem({ task }: { task: ReviewTask }) {
         onApprove={() => handleApprove()} // `handleApprove` already knows the context
         onReject={() => handleReject()}   // `handleReject` already knows the context
         isActionPending={isActionPending}
+        blockEntry={blockEntry}
       />
     );
   }
@@ -472,6 +415,8 @@ function ReviewTaskItem({ task }: { task: ReviewTask }) {
 
 // --- Main Approvals Page Component ---
 const ITEMS_PER_PAGE = 10;
+const SORT_OPTIONS: FacetSort[] = ["default", "vetting_desc", "vetting_asc", "audience_desc", "listen_desc", "recent"];
+const toFacetableTask = (task: ReviewTask): FacetableItem => task;
 
 export default function Approvals() {
   const { user } = useAuth();
@@ -479,9 +424,13 @@ export default function Approvals() {
   const [statusFilter, setStatusFilter] = useState("pending");
   const [taskTypeFilter, setTaskTypeFilter] = useState<"all" | "match_suggestion">("match_suggestion");
   const [currentPage, setCurrentPage] = useState(1);
+  const comparison = usePodcastComparison();
+  const { filters, setFilters, clearFilters, shareUrl } = useFacetFilters();
   
   // Determine if user is a client
   const isClient = user?.role?.toLowerCase() === 'client';
+  // Staff only: clients' review tasks come back with blocked shows already removed
+  const { data: blocklist } = useBlocklist(!isClient);
 
   interface PaginatedReviewTasks {
     items: ReviewTask[];
@@ -519,8 +468,10 @@ export default function Approvals() {
     ? allTasksData 
     : allTasksData?.filter(task => task.status === statusFilter);
   
-  // Client-side pagination
-  const allTasks = allDataResponse || [];
+  // Facets narrow the status-filtered list before paginating; their counts come from that same list
+  const statusFilteredTasks = allDataResponse || [];
+  const facetCounts = getFacetCounts(statusFilteredTasks, filters, toFacetableTask);
+  const allTasks = sortFacetItems(applyFacetFilters(statusFilteredTasks, filters, toFacetableTask), filters.sort, toFacetableTask);
   const totalTasks = allTasks.length;
   const totalPages = Math.ceil(totalTasks / ITEMS_PER_PAGE);
   
@@ -573,7 +524,7 @@ export default function Approvals() {
 
   useEffect(() => {
     setCurrentPage(1);
-  }, [statusFilter, taskTypeFilter]);
+  }, [statusFilter, taskTypeFilter, filters]);
 
   if (error) {
     return (
@@ -678,6 +629,18 @@ export default function Approvals() {
             </div>
           </div>
 
+          {statusFilteredTasks.length > 0 && (
+            <FacetPanel
+              filters={filters}
+              counts={facetCounts}
+              onChange={setFilters}
+              onClear={clearFilters}
+              shareUrl={shareUrl}
+              sortOptions={SORT_OPTIONS}
+              totalCount={statusFilteredTasks.length}
+            />
+          )}
+
           {isLoading ? ( 
             <div className="space-y-4">
               <div className="flex items-center justify-center py-4">
@@ -720,9 +683,39 @@ export default function Approvals() {
                 </div>
               )}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6">
-                {displayedTasks.map((task) => (
-                  <ReviewTaskItem key={task.review_task_id} task={task} />
-                ))}
+                {displayedTasks.map((task) => {
+                  if (task.task_type !== 'match_suggestion' || !task.media_id) {
+                    return <ReviewTaskItem key={task.review_task_id} task={task} />;
+                  }
+                  const blockEntry = findBlocklistMatch(blocklist, {
+                    media_id: task.media_id,
+                    host_names: task.host_names,
+                    website: task.media_website,
+                    campaign_id: task.campaign_id,
+                  });
+                  const compareItem: ComparisonItem = {
+                    media_id: task.media_id,
+                    media_name: task.media_name,
+                    match_id: task.related_id,
+                    review_task_id: task.review_task_id,
+                    campaign_id: task.campaign_id,
+                    status: task.status,
+                    vetting_score: task.vetting_score,
+                    matched_keywords: task.matched_keywords,
+                  };
+                  return (
+                    <div key={task.review_task_id} className="space-y-1.5">
+                      <div className="flex justify-end">
+                        <CompareToggle
+                          id={`compare-${task.review_task_id}`}
+                          checked={comparison.isSelected(task.media_id)}
+                          onCheckedChange={() => comparison.toggle(compareItem)}
+                        />
+                      </div>
+                      <ReviewTaskItem task={task} blockEntry={blockEntry} />
+                    </div>
+                  );
+                })}
               </div>
             </div>
           )}
@@ -755,6 +748,19 @@ export default function Approvals() {
           )}
         </CardContent>
       </Card>
+
+      <ComparisonBar
+        items={comparison.items}
+        onRemove={comparison.toggle}
+        onCompare={() => comparison.setIsOpen(true)}
+        onClear={comparison.clear}
+      />
+      <PodcastComparisonDialog
+        open={comparison.isOpen}
+        onOpenChange={comparison.setIsOpen}
+        items={comparison.items}
+        onItemDecided={(item, decision) => comparison.update(item.media_id, { status: decision })}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -17,6 +17,11 @@ import { Separator } from "@/components/ui/separator"; // Added Separator
 import { useState } from "react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { CampaignFunnel } from "@/components/CampaignFunnel";
+import { PlacementCalendar } from "@/components/placements/PlacementCalendar";
+import { getStatusConfig } from "@/lib/placementStatus";
+import { ComparisonBar, CompareToggle } from "@/components/comparison/ComparisonBar";
+import { PodcastComparisonDialog } from "@/components/comparison/PodcastComparisonDialog";
+import { usePodcastComparison } from "@/hooks/usePodcastComparison";
 
 // --- Interfaces (Ensure these match your actual backend responses) ---
 interface CampaignDetailData {
@@ -51,6 +56,8 @@ interface MatchSuggestionForCampaign {
   status: string; // 'pending', 'approved', 'rejected', 'pending_internal_review'
   ai_reasoning?: string | null;
   match_score?: number | null;
+  vetting_score?: number | null;
+  matched_keywords?: string[] | null;
   created_at: string;
   review_task_id?: number | null; // Added to support review-tasks endpoint
 }
@@ -72,6 +79,10 @@ interface PlacementForCampaign { // Simplified from PlacementInDB
   media_id: number; // Added media_id for fetching media details if needed
   media_name?: string | null; // Joined from media table
   current_status?: string | null;
+  status_ts?: string | null;
+  meeting_date?: string | null;
+  call_date?: string | null;
+  recording_date?: string | null;
   go_live_date?: string | null;
   episode_link?: string | null;
   created_at: string;
@@ -280,6 +291,7 @@ function PodcastMatchesTab({ campaignId, userRole }: { campaignId: string; userR
   const { toast } = useToast();
   const tanstackQueryClient = useTanstackQueryClient();
   const [sortOrder, setSortOrder] = useState<'desc' | 'asc' | 'none'>('desc'); // For sorting
+  const comparison = usePodcastComparison();
 
   const { data: rawMatches = [], isLoading, error } = useQuery<MatchSuggestionForCampaign[]>({
     queryKey: ["campaignMatchesDetail", campaignId],
@@ -398,7 +410,23 @@ function PodcastMatchesTab({ campaignId, userRole }: { campaignId: string; userR
               <Card key={match.match_id} className="p-4">
                 <div className="flex flex-col sm:flex-row justify-between sm:items-center">
                   <div className="mb-2 sm:mb-0 flex-1">
-                    <h4 className="font-semibold text-md">{match.media_name || `Media ID: ${match.media_id}`}</h4>
+                    <div className="flex items-center gap-3">
+                      <h4 className="font-semibold text-md">{match.media_name || `Media ID: ${match.media_id}`}</h4>
+                      <CompareToggle
+                        id={`compare-match-${match.match_id}`}
+                        checked={comparison.isSelected(match.media_id)}
+                        onCheckedChange={() => comparison.toggle({
+                          media_id: match.media_id,
+                          media_name: match.media_name,
+                          match_id: match.match_id,
+                          review_task_id: match.review_task_id,
+                          campaign_id: campaignId,
+                          status: match.status,
+                          vetting_score: match.vetting_score,
+                          matched_keywords: match.matched_keywords,
+                        })}
+                      />
+                    </div>
                     <div className="text-xs text-gray-500 flex items-center gap-x-2 flex-wrap mt-0.5">
                         <span>Status: <Badge variant={match.status === 'approved' ? 'default' : 'outline'} className={`capitalize text-xs px-1.5 py-0.5 ${match.status === 'approved' ? 'bg-green-100 text-green-700' : ''}`}>{match.status.replace('_', ' ')}</Badge></span>
                         {typeof match.match_score === 'number' && (
@@ -437,6 +465,18 @@ function PodcastMatchesTab({ campaignId, userRole }: { campaignId: string; userR
             ))}
           </div>
         )}
+        <ComparisonBar
+          items={comparison.items}
+          onRemove={comparison.toggle}
+          onCompare={() => comparison.setIsOpen(true)}
+          onClear={comparison.clear}
+        />
+        <PodcastComparisonDialog
+          open={comparison.isOpen}
+          onOpenChange={comparison.setIsOpen}
+          items={comparison.items}
+          onItemDecided={(item, decision) => comparison.update(item.media_id, { status: decision })}
+        />
       </CardContent>
     </Card>
   );
@@ -493,7 +533,8 @@ function PitchesTab({ campaignId, userRole }: { campaignId: string; userRole: st
   );
 }
 
-function PlacementsTab({ campaignId, userRole }: { campaignId: string; userRole: string | null }) {
+function PlacementsTab({ campaignId, campaignName, userRole }: { campaignId: string; campaignName: string; userRole: string | null }) {
+  const [view, setView] = useState<'list' | 'calendar'>('list');
   const { data: placements = [], isLoading, error } = useQuery<PlacementForCampaign[]>({
     queryKey: ["campaignPlacements", campaignId],
     queryFn: async () => {
@@ -517,14 +558,31 @@ function PlacementsTab({ campaignId, userRole }: { campaignId: string; userRole:
 
   return (
     <Card>
-      <CardHeader><CardTitle>Placements & Bookings</CardTitle><CardDescription>Confirmed podcast appearances for this campaign.</CardDescription></CardHeader>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle>Placements & Bookings</CardTitle>
+            <CardDescription>Confirmed podcast appearances for this campaign.</CardDescription>
+          </div>
+          <div className="flex items-center rounded-md border p-0.5">
+            <Button variant={view === 'list' ? 'secondary' : 'ghost'} size="sm" className="h-7 px-2" onClick={() => setView('list')}>List</Button>
+            <Button variant={view === 'calendar' ? 'secondary' : 'ghost'} size="sm" className="h-7 px-2" onClick={() => setView('calendar')}>Calendar</Button>
+          </div>
+        </div>
+      </CardHeader>
       <CardContent>
-        {placements.length === 0 ? <p>No placements recorded for this campaign yet.</p> : (
+        {view === 'calendar' ? (
+          <PlacementCalendar
+            placements={placements.map(p => ({ ...p, campaign_name: campaignName }))}
+            calendarName={`${campaignName} Placements`}
+            compact
+          />
+        ) : placements.length === 0 ? <p>No placements recorded for this campaign yet.</p> : (
           <div className="space-y-2">
             {placements.map(placement => (
               <Card key={placement.placement_id} className="p-3">
                 <p className="font-medium text-sm">{placement.media_name || `Media ID: ${placement.media_id}`}</p>
-                <p className="text-xs">Status: <Badge>{placement.current_status || "N/A"}</Badge></p>
+                <p className="text-xs">Status: <Badge className={getStatusConfig(placement.current_status).color}>{placement.current_status ? getStatusConfig(placement.current_status).label : "N/A"}</Badge></p>
                 {placement.go_live_date && <p className="text-xs text-gray-500">Go-Live: {new Date(placement.go_live_date + 'T00:00:00').toLocaleDateString()}</p>}
                 {placement.episode_link && <a href={placement.episode_link} target="_blank" rel="noopener noreferrer" className="text-xs text-primary hover:underline">Listen to Episode <PlayCircle className="inline h-3 w-3"/></a>}
                 {userRole !== 'client' && (
@@ -708,7 +766,7 @@ export default function CampaignDetail({ campaignIdParam }: CampaignDetailProps)
           <PitchesTab campaignId={campaign.campaign_id} userRole={user?.role || null} />
         </TabsContent>
         <TabsContent value="placements" className="mt-6">
-          <PlacementsTab campaignId={campaign.campaign_id} userRole={user?.role || null} />
+          <PlacementsTab campaignId={campaign.campaign_id} campaignName={campaign.campaign_name} userRole={user?.role || null} />
         </TabsContent>
       </Tabs>
     </div>
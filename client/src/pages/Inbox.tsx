@@ -20,15 +20,21 @@ import {
   ChevronLeft,
   ChevronRight,
   Settings,
-  ExternalLink
+  ExternalLink,
+  Wand2
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
-import type { EmailThread, InboxFilters, NylasAuthStatus } from '@/types/inbox';
+import type { EmailThread, InboxFilters, NylasAuthStatus, SavedInboxView } from '@/types/inbox';
 import ThreadView from '@/components/inbox/ThreadView';
 import ComposeModal from '@/components/inbox/ComposeModal';
 import NylasConnect from '@/components/inbox/NylasConnect';
+import SavedViews from '@/components/inbox/SavedViews';
+import LabelRulesDialog from '@/components/inbox/LabelRulesDialog';
 import { useToast } from '@/hooks/use-toast';
+import { useInboxAutoLabel } from '@/hooks/useInboxAutoLabel';
+import { usePollingFallback } from '@/hooks/useRealtime';
+import { resolveViewFilters } from '@/lib/inboxRules';
 
 export default function Inbox() {
   const [selectedThread, setSelectedThread] = useState<string | null>(null);
@@ -38,12 +44,15 @@ export default function Inbox() {
   const [filters, setFilters] = useState<InboxFilters>({
     folder: 'inbox'
   });
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [isRulesOpen, setIsRulesOpen] = useState(false);
   const { toast } = useToast();
+  const nylasStatusPolling = usePollingFallback(30000);
 
   // Check Nylas connection status
   const { data: nylasStatus } = useQuery<NylasAuthStatus>({
     queryKey: ['/inbox/nylas-status'],
-    refetchInterval: 30000, // Check every 30 seconds
+    refetchInterval: nylasStatusPolling, // Check every 30 seconds while realtime updates are unavailable
   });
 
   // Fetch email threads
@@ -59,6 +68,8 @@ export default function Inbox() {
   // Ensure threads is always an array (double safety)
   const threads = Array.isArray(threadsData) ? threadsData : [];
   
+  useInboxAutoLabel(threads, nylasStatus?.connected === true);
+
   // Debug logging
   console.log('Inbox Debug - threadsData:', threadsData, 'threads:', threads, 'isArray:', Array.isArray(threads));
   if (!Array.isArray(threads)) {
@@ -110,10 +121,19 @@ export default function Inbox() {
 
   const handleFolderChange = (folder: string) => {
     setActiveFolder(folder);
+    setActiveViewId(null);
     setFilters(prev => ({ ...prev, folder }));
     setSelectedThread(null);
   };
 
+  const handleSelectView = (view: SavedInboxView) => {
+    setActiveViewId(view.id);
+    setActiveFolder(view.filters.folder || 'inbox');
+    setSearchQuery(view.filters.search || '');
+    setFilters(resolveViewFilters(view));
+    setSelectedThread(null);
+  };
+
   const getClassificationBadge = (classification?: string) => {
     if (!classification) return null;
     
@@ -168,7 +188,7 @@ export default function Inbox() {
                 onClick={() => handleFolderChange(folder.id)}
                 className={cn(
                   'w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm transition-colors',
-                  activeFolder === folder.id 
+                  activeFolder === folder.id && !activeViewId
                     ? 'bg-primary text-primary-foreground' 
                     : 'hover:bg-gray-100 text-gray-700'
                 )}
@@ -190,10 +210,13 @@ export default function Inbox() {
               {['booking_confirmation', 'question', 'follow_up', 'pitch_response'].map(type => (
                 <button
                   key={type}
-                  onClick={() => setFilters(prev => ({ 
-                    ...prev, 
-                    classification: prev.classification === type ? undefined : type 
-                  }))}
+                  onClick={() => {
+                    setActiveViewId(null);
+                    setFilters(prev => ({ 
+                      ...prev, 
+                      classification: prev.classification === type ? undefined : type 
+                    }));
+                  }}
                   className={cn(
                     'w-full flex items-center gap-2 px-3 py-1.5 rounded text-xs transition-colors',
                     filters.classification === type 
@@ -209,6 +232,13 @@ export default function Inbox() {
               ))}
             </div>
           </div>
+
+          <SavedViews
+            activeViewId={activeViewId}
+            currentFilters={filters}
+            onSelectView={handleSelectView}
+            onDeleteView={(viewId) => { if (viewId === activeViewId) setActiveViewId(null); }}
+          />
         </ScrollArea>
 
         <div className="p-4 border-t">
@@ -219,13 +249,23 @@ export default function Inbox() {
               ) : null}
               {nylasStatus?.last_sync ? `Synced ${format(new Date(nylasStatus.last_sync), 'HH:mm')}` : 'Syncing...'}
             </span>
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => refetchThreads()}
-            >
-              <RefreshCw className="w-3 h-3" />
-            </Button>
+            <div className="flex items-center">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsRulesOpen(true)}
+                title="Auto-labelling rules"
+              >
+                <Wand2 className="w-3 h-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => refetchThreads()}
+              >
+                <RefreshCw className="w-3 h-3" />
+              </Button>
+            </div>
           </div>
         </div>
       </div>
@@ -310,6 +350,9 @@ export default function Inbox() {
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-2">
                         {getClassificationBadge(thread.classification?.category)}
+                        {thread.labels?.map((label: string) => (
+                          <Badge key={label} variant="outline" className="text-xs">{label}</Badge>
+                        ))}
                         {thread.message_count > 1 && (
                           <span className="text-xs text-gray-500">
                             {thread.message_count} messages
@@ -342,6 +385,8 @@ export default function Inbox() {
         )}
       </div>
 
+      <LabelRulesDialog isOpen={isRulesOpen} onClose={() => setIsRulesOpen(false)} />
+
       {/* Compose Modal */}
       {isComposeOpen && (
         <ComposeModal
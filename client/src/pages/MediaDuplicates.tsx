@@ -0,0 +1,313 @@
+// client/src/pages/MediaDuplicates.tsx
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ArrowLeft, CheckCircle2, Copy, ExternalLink, GitMerge, Loader2, RefreshCw, Search } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+import {
+  DUPLICATE_REASON_LABELS, MERGE_FIELDS, clusterDuplicateMedia, describeSource, formatMergeValue,
+  getDefaultFieldSources, isEmptyMergeValue, pickDefaultSurvivor,
+} from "@/lib/mediaDuplicates";
+import type { DuplicateCluster, MediaMergeRequest, MediaMergeResponse, MergeCandidateMedia, MergeFieldKey } from "@/types/mediaMerge";
+
+const MERGE_CANDIDATES_QUERY_KEY = ["/media/merge-candidates"];
+
+const RELATED_COUNTS: { key: "match_count" | "pitch_count" | "placement_count" | "episode_count"; label: string }[] = [
+  { key: "match_count", label: "matches" },
+  { key: "pitch_count", label: "pitches" },
+  { key: "placement_count", label: "placements" },
+  { key: "episode_count", label: "episodes" },
+];
+
+function ClusterMergePanel({ cluster, onMerged }: { cluster: DuplicateCluster; onMerged: () => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [survivorId, setSurvivorId] = useState(() => pickDefaultSurvivor(cluster).media_id);
+  const [fieldSources, setFieldSources] = useState(() => getDefaultFieldSources(cluster, survivorId));
+  // Records a reviewer has taken out of this merge, e.g. a different show that only shares a name
+  const [excludedIds, setExcludedIds] = useState<number[]>([]);
+
+  const withoutExcluded = (excluded: number[]): DuplicateCluster =>
+    ({ ...cluster, media: cluster.media.filter(media => !excluded.includes(media.media_id)) });
+
+  // Changing the survivor re-derives the defaults; explicit picks made before that are dropped on purpose
+  const chooseSurvivor = (mediaId: number) => {
+    const nextExcluded = excludedIds.filter(id => id !== mediaId);
+    setSurvivorId(mediaId);
+    setExcludedIds(nextExcluded);
+    setFieldSources(getDefaultFieldSources(withoutExcluded(nextExcluded), mediaId));
+  };
+
+  // Fields sourced from a record that's been left out fall back to the defaults among the rest; other picks stay
+  const toggleIncluded = (mediaId: number) => {
+    const nextExcluded = excludedIds.includes(mediaId) ? excludedIds.filter(id => id !== mediaId) : [...excludedIds, mediaId];
+    const defaults = getDefaultFieldSources(withoutExcluded(nextExcluded), survivorId);
+    setExcludedIds(nextExcluded);
+    setFieldSources(prev => Object.fromEntries(MERGE_FIELDS.map(({ key }) =>
+      [key, nextExcluded.includes(prev[key]) ? defaults[key] : prev[key]])) as Record<MergeFieldKey, number>);
+  };
+
+  const mergedAway = cluster.media.filter(media => media.media_id !== survivorId && !excludedIds.includes(media.media_id));
+  const moving = RELATED_COUNTS.map(({ key, label }) => ({
+    label,
+    count: mergedAway.reduce((total, media) => total + media[key], 0),
+  }));
+
+  const mergeMutation = useMutation({
+    mutationFn: async (payload: MediaMergeRequest): Promise<MediaMergeResponse> => {
+      const res = await apiRequest("POST", "/media/merge", payload);
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({ detail: "Failed to merge media" }));
+        throw new Error(errorData.detail || "Failed to merge media");
+      }
+      return res.json();
+    },
+    onSuccess: (data, payload) => {
+      const { matches, pitches, placements, episodes } = data.repointed;
+      toast({
+        title: "Media Merged",
+        description: `Moved ${matches} matches, ${pitches} pitches, ${placements} placements and ${episodes} episodes to media #${data.media_id}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: MERGE_CANDIDATES_QUERY_KEY });
+      [payload.surviving_media_id, ...payload.merged_media_ids].forEach(mediaId => queryClient.removeQueries({ queryKey: ["/media/", mediaId] }));
+      queryClient.invalidateQueries({ queryKey: ["/review-tasks/enhanced"] });
+      onMerged();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Merge Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleMerge = () => {
+    const sourceOf = (key: MergeFieldKey) => cluster.media.find(media => media.media_id === fieldSources[key]);
+    const payload: MediaMergeRequest = {
+      surviving_media_id: survivorId,
+      merged_media_ids: mergedAway.map(media => media.media_id),
+      field_values: Object.fromEntries(MERGE_FIELDS.map(({ key }) => [key, sourceOf(key)?.[key] ?? null])),
+      field_sources: fieldSources,
+    };
+    const ids = payload.merged_media_ids.map(id => `#${id}`).join(", ");
+    if (window.confirm(`Merge ${ids} into #${survivorId}? The merged records are removed and this can't be undone.`)) {
+      mergeMutation.mutate(payload);
+    }
+  };
+
+  const columnTemplate = { gridTemplateColumns: `minmax(120px, 150px) repeat(${cluster.media.length}, minmax(200px, 1fr))` };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-1.5">
+        {cluster.reasons.map(reason => <Badge key={reason} variant="secondary" className="text-xs">{DUPLICATE_REASON_LABELS[reason]}</Badge>)}
+      </div>
+
+      <div className="overflow-x-auto">
+        <div className="grid min-w-max text-sm" style={columnTemplate}>
+          <div />
+          {cluster.media.map(media => {
+            const isSurvivor = media.media_id === survivorId;
+            const isExcluded = excludedIds.includes(media.media_id);
+            return (
+              <div key={media.media_id} className={cn("border-b p-3 space-y-1.5", isSurvivor && "bg-green-50", isExcluded && "opacity-50")}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-semibold">#{media.media_id}</span>
+                  <Link href={`/media/${media.media_id}`} className="text-xs text-primary hover:underline inline-flex items-center">
+                    Open <ExternalLink className="ml-0.5 h-3 w-3" />
+                  </Link>
+                </div>
+                <p className="text-xs text-gray-500">
+                  From {describeSource(media.source_api)} · added {new Date(media.created_at).toLocaleDateString()}
+                </p>
+                <p className="text-xs text-gray-600">
+                  {RELATED_COUNTS.map(({ key, label }) => `${media[key]} ${label}`).join(" · ")}
+                </p>
+                <Button
+                  size="sm"
+                  variant={isSurvivor ? "default" : "outline"}
+                  className="w-full h-7 text-xs"
+                  onClick={() => chooseSurvivor(media.media_id)}
+                >
+                  {isSurvivor ? <><CheckCircle2 className="mr-1 h-3.5 w-3.5" />Surviving Record</> : "Keep This Record"}
+                </Button>
+                <label className={cn("flex items-center gap-1.5 text-xs text-gray-600", isSurvivor ? "cursor-default" : "cursor-pointer")}>
+                  <Checkbox
+                    checked={!isExcluded}
+                    disabled={isSurvivor}
+                    onCheckedChange={() => toggleIncluded(media.media_id)}
+                  />
+                  Include in merge
+                </label>
+              </div>
+            );
+          })}
+
+          {MERGE_FIELDS.map(({ key, label }) => [
+            <div key={`${key}-label`} className="border-b px-3 py-2 text-gray-600">{label}</div>,
+            ...cluster.media.map(media => {
+              const value = media[key];
+              const provenance = media.provenance?.[key];
+              const isChosen = fieldSources[key] === media.media_id;
+              const isEmpty = isEmptyMergeValue(value);
+              const isExcluded = excludedIds.includes(media.media_id);
+              return (
+                <button
+                  key={`${key}-${media.media_id}`}
+                  type="button"
+                  disabled={isEmpty || isExcluded}
+                  onClick={() => setFieldSources(prev => ({ ...prev, [key]: media.media_id }))}
+                  className={cn(
+                    "border-b px-3 py-2 text-left transition-colors",
+                    isChosen ? "bg-blue-50 ring-1 ring-inset ring-blue-300" : "hover:bg-gray-50",
+                    (isEmpty || isExcluded) && "cursor-default text-gray-400 hover:bg-transparent",
+                  )}
+                >
+                  {key === "image_url" && !isEmpty ? (
+                    <img src={String(value)} alt="" className="h-12 w-12 rounded object-cover" />
+                  ) : (
+                    <span className={cn("block break-words", key === "description" && "line-clamp-3 text-xs")}>{formatMergeValue(value)}</span>
+                  )}
+                  {!isEmpty && (
+                    <span className="mt-0.5 block text-[11px] text-gray-500">
+                      {provenance
+                        ? `${describeSource(provenance.source)} · ${Math.round(provenance.confidence * 100)}% · ${new Date(provenance.updated_at).toLocaleDateString()}`
+                        : "No provenance recorded"}
+                    </span>
+                  )}
+                </button>
+              );
+            }),
+          ])}
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-md border bg-gray-50 p-3">
+        <p className="text-sm text-gray-700">
+          Merging {mergedAway.length} record{mergedAway.length === 1 ? "" : "s"} into #{survivorId} moves{" "}
+          {moving.map(({ label, count }) => `${count} ${label}`).join(", ")}. Highlighted values are kept.
+          {excludedIds.length > 0 && ` ${excludedIds.length} record${excludedIds.length === 1 ? " is" : "s are"} left out and stay as they are.`}
+        </p>
+        <Button onClick={handleMerge} disabled={mergedAway.length === 0 || mergeMutation.isPending} className="flex-shrink-0">
+          {mergeMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <GitMerge className="mr-2 h-4 w-4" />}
+          Merge {mergedAway.length + 1} Records
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function MediaDuplicates() {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const { data: candidates = [], isLoading, error, refetch, isFetching } = useQuery<MergeCandidateMedia[]>({
+    queryKey: MERGE_CANDIDATES_QUERY_KEY,
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/media/merge-candidates");
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ detail: "Failed to fetch media" }));
+        throw new Error(errorData.detail || "Failed to fetch media");
+      }
+      return response.json();
+    },
+  });
+
+  const clusters = useMemo(() => clusterDuplicateMedia(candidates), [candidates]);
+  const visibleClusters = clusters.filter(cluster =>
+    !searchTerm || cluster.media.some(media =>
+      (media.name || "").toLowerCase().includes(searchTerm.toLowerCase()) || String(media.media_id) === searchTerm.trim()));
+  const selectedCluster = clusters.find(cluster => cluster.key === selectedKey) || null;
+
+  // Keep a cluster open; after a merge (or on first load) move on to the first remaining one
+  useEffect(() => {
+    if (!selectedCluster && visibleClusters.length > 0) setSelectedKey(visibleClusters[0].key);
+  }, [selectedCluster, visibleClusters]);
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-6 p-4 md:p-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Link href="/admin" className="text-sm text-gray-500 hover:text-gray-700 inline-flex items-center mb-1">
+            <ArrowLeft className="h-4 w-4 mr-1" />Admin Panel
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2"><Copy className="h-6 w-6" />Duplicate Media</h1>
+          <p className="text-sm text-gray-600">
+            Shows found more than once across Listen Notes, PodScan and AI discovery. Merge them so matches, pitches, placements and episodes live on one record.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+          <RefreshCw className={cn("h-4 w-4 mr-2", isFetching && "animate-spin")} />Rescan
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="grid gap-4 md:grid-cols-[280px_1fr]">
+          <Skeleton className="h-96 w-full" />
+          <Skeleton className="h-96 w-full" />
+        </div>
+      ) : error ? (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="p-6 text-red-700">Error loading media: {(error as Error).message}</CardContent>
+        </Card>
+      ) : clusters.length === 0 ? (
+        <Card>
+          <CardContent className="p-10 text-center text-gray-500">
+            <CheckCircle2 className="h-10 w-10 text-green-500 mx-auto mb-3" />
+            No likely duplicates found across {candidates.length} media records.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-[280px_1fr] items-start">
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">{clusters.length} Possible Duplicate{clusters.length === 1 ? "" : "s"}</CardTitle>
+              <div className="relative">
+                <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input placeholder="Filter by name or ID..." value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} className="pl-9 text-sm" />
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-1 max-h-[65vh] overflow-y-auto">
+              {visibleClusters.map(cluster => (
+                <button
+                  key={cluster.key}
+                  type="button"
+                  onClick={() => setSelectedKey(cluster.key)}
+                  className={cn(
+                    "w-full rounded-md border p-2 text-left text-sm transition-colors",
+                    cluster.key === selectedKey ? "border-primary bg-primary/5" : "hover:bg-gray-50",
+                  )}
+                >
+                  <p className="font-medium truncate">{cluster.media[0].name || `Media #${cluster.media[0].media_id}`}</p>
+                  <p className="text-xs text-gray-500">
+                    {cluster.media.length} records · {cluster.reasons.map(reason => DUPLICATE_REASON_LABELS[reason]).join(", ")}
+                  </p>
+                </button>
+              ))}
+              {visibleClusters.length === 0 && <p className="text-sm text-gray-500 text-center py-4">No clusters match.</p>}
+            </CardContent>
+          </Card>
+
+          {selectedCluster && (
+            <Card>
+              <CardHeader>
+                <CardTitle>{selectedCluster.media[0].name || `Media #${selectedCluster.media[0].media_id}`}</CardTitle>
+                <CardDescription>
+                  Pick the record to keep, then click any value to carry it over. Each value shows where it came from.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ClusterMergePanel key={selectedCluster.key} cluster={selectedCluster} onMerged={() => setSelectedKey(null)} />
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -15,13 +15,17 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Send, Edit3, Check, X, ListChecks, MailCheck, MailOpen, RefreshCw, ExternalLink, Eye, MessageSquare, Filter, Search, Lightbulb, Info, Save, LinkIcon, SendHorizontal, CheckSquare } from "lucide-react";
+import { Send, Edit3, Check, X, ListChecks, MailCheck, MailOpen, RefreshCw, ExternalLink, Eye, MessageSquare, Filter, Search, Lightbulb, Info, Save, LinkIcon, SendHorizontal, CheckSquare, CalendarClock, FlaskConical, Ban } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Link, useLocation } from "wouter";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { PitchTemplate } from "@/pages/PitchTemplates.tsx"; // Added .tsx extension
 import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { createAbTestId, splitAcrossVariants } from "@/lib/abTest";
 import { usePitchSending } from "@/hooks/usePitchSending";
+import { usePollingFallback } from "@/hooks/useRealtime";
 import { EmailStatusBadge } from "@/components/pitch/EmailStatusBadge";
 import { SendPitchButton } from "@/components/pitch/SendPitchButton";
 import { BatchSendButton } from "@/components/pitch/BatchSendButton";
@@ -29,7 +33,13 @@ import { usePitchCapabilities } from "@/hooks/usePitchCapabilities";
 import { UpgradePrompt } from "@/components/pitch/UpgradePrompt";
 import { ManualPitchEditor } from "@/components/pitch/ManualPitchEditor";
 import { RecipientEmailEditor } from "@/components/pitch/RecipientEmailEditor";
+import { FollowUpSequencePanel } from "@/components/pitch/FollowUpSequencePanel";
+import { ScheduleSendDialog } from "@/components/pitch/ScheduleSendDialog";
+import { MediaKitVariantSelect } from "@/components/mediaKit/MediaKitVariantSelect";
+import { formatInTimezone, getSenderTimezone } from "@/lib/sendSchedule";
 import { useAuth } from "@/hooks/useAuth";
+import { useBlocklist } from "@/hooks/useBlocklist";
+import { describeBlocklistEntry, findBlocklistMatch } from "@/lib/blocklist";
 
 // --- Interfaces (Aligned with expected enriched backend responses) ---
 
@@ -40,10 +50,19 @@ interface ApprovedMatchForPitching { // From GET /match-suggestions/?status=appr
   status: string;
   media_name?: string | null;
   media_website?: string | null;
+  host_names?: string[] | null;
+  contact_email?: string | null;
   campaign_name?: string | null;
   client_name?: string | null;
 }
 
+interface BatchGenerateItem { // POST /pitches/generate-batch
+  match_id: number;
+  pitch_template_id: string;
+  ab_test_id?: string; // Groups the split so results can be compared per template
+  media_kit_variant_id?: string | null; // Audience variant linked as {{media_kit_url}}
+}
+
 interface EpisodeAnalysisData { // Define placeholder for expected data structure
   episode_id?: number;
   title?: string | null;
@@ -78,6 +97,8 @@ interface PitchReadyToSend { // From GET /pitches/?pitch_state=ready_to_send (en
   draft_text?: string | null; // Fallback from pitch_generations
   subject_line?: string | null; // From pitches table
   recipient_email?: string | null; // Recipient email address
+  host_timezone?: string | null; // Host's timezone when known, used for "next weekday morning" scheduling
+  scheduled_send_at?: string | null; // Set once the pitch is queued in the "scheduled" state
   media_name?: string | null;
   campaign_name?: string | null;
   client_name?: string | null;
@@ -86,6 +107,7 @@ interface PitchReadyToSend { // From GET /pitches/?pitch_state=ready_to_send (en
 
 interface SentPitchStatus { // From GET /pitches/?pitch_state__in=... (enriched)
   pitch_id: number;
+  pitch_gen_id?: number | null;
   media_id: number;
   campaign_id: string;
   pitch_state?: string | null;
@@ -97,6 +119,8 @@ interface SentPitchStatus { // From GET /pitches/?pitch_state__in=... (enriched)
   campaign_name?: string | null;
   client_name?: string | null;
   media_website?: string | null; // Added for context
+  nylas_thread_id?: string | null; // Thread the original pitch went out in, follow-ups reply into it
+  follow_ups_sent?: number | null;
 }
 
 // const pitchTemplateOptions = [ // REMOVE THIS
@@ -156,21 +180,40 @@ function CampaignSelector({ selectedCampaignId, onCampaignChange, isClient }: {
 // --- Tab Components ---
 
 function ReadyForDraftTab({
-    approvedMatches, onGenerate, onGenerateBatch, isLoadingGenerateForMatchId, isLoadingBatchGenerate, templates, isLoadingMatches, canUseAI, isFreePlan
+    approvedMatches, onGenerate, onGenerateBatch, isLoadingGenerateForMatchId, isLoadingBatchGenerate, templates, isLoadingMatches, canUseAI, isFreePlan, isClient
 }: {
     approvedMatches: ApprovedMatchForPitching[];
-    onGenerate: (matchId: number, templateId: string) => void;
-    onGenerateBatch: (items: { match_id: number; pitch_template_id: string }[]) => void;
+    onGenerate: (matchId: number, templateId: string, mediaKitVariantId?: string | null) => void;
+    onGenerateBatch: (items: BatchGenerateItem[]) => void;
     isLoadingGenerateForMatchId: number | null;
     isLoadingBatchGenerate: boolean;
     templates: PitchTemplate[];
     isLoadingMatches: boolean;
     canUseAI?: boolean;
     isFreePlan?: boolean;
+    isClient?: boolean;
 }) {
     const [selectedTemplateId, setSelectedTemplateId] = useState<string>("manual");
     const [selectedMatchIds, setSelectedMatchIds] = useState<number[]>([]);
     const [selectAll, setSelectAll] = useState(false);
+    const [isAbTest, setIsAbTest] = useState(false);
+    const [abTemplateIds, setAbTemplateIds] = useState<string[]>([]);
+    const [variantByMatch, setVariantByMatch] = useState<Record<number, string | null>>({});
+    // Clients' approved matches already come back without blocked shows; staff check them here
+    const { data: blocklist, error: blocklistError, refetch: refetchBlocklist } = useBlocklist(!isClient);
+    // Until the list is in, staff can't draft at all rather than risk pitching a show that's on it
+    const isBlocklistPending = !isClient && !blocklist;
+
+    // Blocked shows can't be drafted for at all, individually or in a batch
+    const getBlockEntry = (match: ApprovedMatchForPitching) =>
+        findBlocklistMatch(blocklist, {
+            media_id: match.media_id,
+            host_names: match.host_names,
+            website: match.media_website,
+            contact_email: match.contact_email,
+            campaign_id: match.campaign_id,
+        });
+    const pitchableMatches = approvedMatches.filter(match => !getBlockEntry(match));
 
     // Filter out subject_line_v1 template
     const filteredTemplates = templates.filter(t => t.template_id !== "subject_line_v1");
@@ -185,7 +228,7 @@ function ReadyForDraftTab({
     const handleSelectAll = (checked: boolean) => {
         setSelectAll(checked);
         if (checked) {
-            setSelectedMatchIds(approvedMatches.map(m => m.match_id));
+            setSelectedMatchIds(pitchableMatches.map(m => m.match_id));
         } else {
             setSelectedMatchIds([]);
         }
@@ -200,12 +243,31 @@ function ReadyForDraftTab({
         }
     };
 
+    const toggleAbTemplate = (templateId: string, checked: boolean) => {
+        setAbTemplateIds(prev => checked ? [...prev, templateId] : prev.filter(id => id !== templateId));
+    };
+
+    const isAbTestReady = isAbTest && abTemplateIds.length >= 2 && selectedMatchIds.length >= abTemplateIds.length;
+
     const handleBatchGenerate = () => {
         if (selectedMatchIds.length === 0 || !selectedTemplateId) return;
-        const batchItems = selectedMatchIds.map(match_id => ({
-            match_id,
-            pitch_template_id: selectedTemplateId
-        }));
+        let batchItems: BatchGenerateItem[];
+        if (isAbTest) {
+            if (!isAbTestReady) return;
+            const abTestId = createAbTestId();
+            batchItems = splitAcrossVariants(selectedMatchIds, abTemplateIds).map(({ item, variant }) => ({
+                match_id: item,
+                pitch_template_id: variant,
+                ab_test_id: abTestId,
+                media_kit_variant_id: variantByMatch[item] ?? null,
+            }));
+        } else {
+            batchItems = selectedMatchIds.map(match_id => ({
+                match_id,
+                pitch_template_id: selectedTemplateId,
+                media_kit_variant_id: variantByMatch[match_id] ?? null,
+            }));
+        }
         onGenerateBatch(batchItems);
         setSelectedMatchIds([]);
         setSelectAll(false);
@@ -269,7 +331,7 @@ function ReadyForDraftTab({
                         <Checkbox 
                             checked={selectAll}
                             onCheckedChange={handleSelectAll}
-                            disabled={isLoadingBatchGenerate}
+                            disabled={isBlocklistPending || isLoadingBatchGenerate}
                         />
                         <span className="text-sm text-gray-600">
                             {selectedMatchIds.length === 0 
@@ -281,26 +343,77 @@ function ReadyForDraftTab({
                         size="sm"
                         variant="default"
                         onClick={handleBatchGenerate}
-                        disabled={selectedMatchIds.length === 0 || !selectedTemplateId || isLoadingBatchGenerate || !canUseAI}
+                        disabled={isBlocklistPending || selectedMatchIds.length === 0 || !selectedTemplateId || isLoadingBatchGenerate || !canUseAI || (isAbTest && !isAbTestReady)}
                         className="bg-primary hover:bg-primary/90"
                     >
                         {isLoadingBatchGenerate ? (
                             <><RefreshCw className="h-4 w-4 animate-spin mr-1.5"/> Generating...</>
+                        ) : isAbTest ? (
+                            <><FlaskConical className="h-4 w-4 mr-1.5"/> Generate A/B Split ({selectedMatchIds.length})</>
                         ) : (
                             <><Lightbulb className="h-4 w-4 mr-1.5"/> {canUseAI ? `Generate Selected (${selectedMatchIds.length})` : 'AI Generation (Premium)'}</>
                         )}
                     </Button>
                 </div>
             </div>
+
+            {canUseAI && filteredTemplates.length >= 2 && (
+                <div className="rounded-md border p-3 space-y-3">
+                    <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                            <FlaskConical className="h-4 w-4 text-primary" />
+                            <Label htmlFor="ab-test-toggle" className="font-medium">A/B test templates</Label>
+                            <span className="text-xs text-gray-500">Split the selected matches evenly and at random across templates</span>
+                        </div>
+                        <Switch id="ab-test-toggle" checked={isAbTest} onCheckedChange={setIsAbTest} disabled={isLoadingBatchGenerate} />
+                    </div>
+                    {isAbTest && (
+                        <div className="space-y-2">
+                            <div className="flex flex-wrap gap-x-4 gap-y-2">
+                                {filteredTemplates.map(template => (
+                                    <label key={template.template_id} className="flex items-center gap-2 text-sm">
+                                        <Checkbox
+                                            checked={abTemplateIds.includes(template.template_id)}
+                                            onCheckedChange={(checked) => toggleAbTemplate(template.template_id, checked as boolean)}
+                                        />
+                                        {template.template_id}
+                                    </label>
+                                ))}
+                            </div>
+                            <p className="text-xs text-gray-500">
+                                {abTemplateIds.length < 2
+                                    ? 'Pick at least two templates to compare.'
+                                    : selectedMatchIds.length < abTemplateIds.length
+                                        ? `Select at least ${abTemplateIds.length} matches so every template gets one.`
+                                        : `About ${Math.floor(selectedMatchIds.length / abTemplateIds.length)} pitch${Math.floor(selectedMatchIds.length / abTemplateIds.length) !== 1 ? 'es' : ''} per template. Compare results under Analytics → Pitch Analytics → Templates.`}
+                            </p>
+                        </div>
+                    )}
+                </div>
+            )}
             
+            {isBlocklistPending && (
+                <div className={`rounded-md border p-3 text-sm flex items-center justify-between gap-3 ${blocklistError ? 'border-red-200 bg-red-50 text-red-700' : 'text-gray-600'}`}>
+                    <span className="flex items-center gap-1.5">
+                        {blocklistError ? <Ban className="h-4 w-4 flex-shrink-0"/> : <RefreshCw className="h-4 w-4 animate-spin flex-shrink-0"/>}
+                        {blocklistError
+                            ? `Drafting is paused because the do-not-pitch list couldn't be loaded: ${(blocklistError as Error).message}`
+                            : 'Checking matches against the do-not-pitch list...'}
+                    </span>
+                    {blocklistError && <Button size="sm" variant="outline" onClick={() => refetchBlocklist()}>Retry</Button>}
+                </div>
+            )}
+
             <div className="space-y-3 max-h-[55vh] overflow-y-auto pr-2">
-                {approvedMatches.map((match) => (
-                    <Card key={match.match_id} className="p-4 hover:shadow-md transition-shadow">
+                {approvedMatches.map((match) => {
+                    const blockEntry = getBlockEntry(match);
+                    return (
+                    <Card key={match.match_id} className={`p-4 hover:shadow-md transition-shadow ${blockEntry ? 'border-red-200 bg-red-50/50' : ''}`}>
                         <div className="flex items-start space-x-3">
                             <Checkbox
                                 checked={selectedMatchIds.includes(match.match_id)}
                                 onCheckedChange={(checked) => handleSelectMatch(match.match_id, checked as boolean)}
-                                disabled={isLoadingBatchGenerate || isLoadingGenerateForMatchId === match.match_id}
+                                disabled={isBlocklistPending || !!blockEntry || isLoadingBatchGenerate || isLoadingGenerateForMatchId === match.match_id}
                                 className="mt-1"
                             />
                             <div className="flex-1 flex flex-col sm:flex-row justify-between sm:items-center">
@@ -315,20 +428,34 @@ function ReadyForDraftTab({
                                             <ExternalLink className="h-3 w-3 mr-1"/> Visit Podcast
                                         </a>
                                     )}
+                                    {blockEntry && (
+                                        <p className="text-xs text-red-700 font-medium mt-1.5 flex items-start gap-1">
+                                            <Ban className="h-3.5 w-3.5 mt-px flex-shrink-0"/> {describeBlocklistEntry(blockEntry)}
+                                        </p>
+                                    )}
+                                </div>
+                                <div className="flex flex-col sm:flex-row gap-2 sm:items-center">
+                                    <MediaKitVariantSelect
+                                        campaignId={match.campaign_id}
+                                        value={variantByMatch[match.match_id] ?? null}
+                                        onChange={(variantId) => setVariantByMatch(prev => ({ ...prev, [match.match_id]: variantId }))}
+                                        disabled={isLoadingBatchGenerate || isLoadingGenerateForMatchId === match.match_id}
+                                    />
+                                    <Button
+                                        size="sm"
+                                        onClick={() => onGenerate(match.match_id, canUseAI ? selectedTemplateId : "manual", variantByMatch[match.match_id] ?? null)}
+                                        disabled={isBlocklistPending || !!blockEntry || isLoadingBatchGenerate || isLoadingGenerateForMatchId === match.match_id}
+                                        className="bg-primary text-primary-foreground hover:bg-primary/90 w-full sm:w-auto"
+                                    >
+                                        {isLoadingGenerateForMatchId === match.match_id ? <RefreshCw className="h-4 w-4 animate-spin mr-1"/> : <Lightbulb className="h-4 w-4 mr-1"/>}
+                                        {canUseAI ? 'Generate Pitch' : 'Create Manual Pitch'}
+                                    </Button>
                                 </div>
-                                <Button
-                                    size="sm"
-                                    onClick={() => onGenerate(match.match_id, canUseAI ? selectedTemplateId : "manual")}
-                                    disabled={isLoadingBatchGenerate || isLoadingGenerateForMatchId === match.match_id}
-                                    className="bg-primary text-primary-foreground hover:bg-primary/90 w-full sm:w-auto"
-                                >
-                                    {isLoadingGenerateForMatchId === match.match_id ? <RefreshCw className="h-4 w-4 animate-spin mr-1"/> : <Lightbulb className="h-4 w-4 mr-1"/>}
-                                    {canUseAI ? 'Generate Pitch' : 'Create Manual Pitch'}
-                                </Button>
                             </div>
                         </div>
                     </Card>
-                ))}
+                    );
+                })}
             </div>
         </div>
     );
@@ -483,10 +610,56 @@ function DraftsReviewTab({
     );
 }
 
+function ScheduledPitchesList({ pitches, onReschedule }: {
+    pitches: PitchReadyToSend[];
+    onReschedule: (pitch: PitchReadyToSend) => void;
+}) {
+    const { user } = useAuth();
+    const { cancelScheduledPitch, cancelScheduledMutation } = usePitchSending();
+    const senderTimezone = getSenderTimezone(user?.timezone);
+    const sorted = [...pitches].sort((a, b) => new Date(a.scheduled_send_at || 0).getTime() - new Date(b.scheduled_send_at || 0).getTime());
+
+    return (
+        <div className="rounded-lg border">
+            <div className="flex items-center px-3 py-2 bg-gray-50 border-b text-sm font-medium text-gray-700">
+                <CalendarClock className="h-4 w-4 mr-2 text-primary" />
+                Scheduled ({pitches.length})
+            </div>
+            <div className="divide-y">
+                {sorted.map(pitch => (
+                    <div key={pitch.pitch_gen_id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 px-3 py-2.5">
+                        <div className="min-w-0">
+                            <p className="text-sm font-medium text-gray-800 truncate">{pitch.media_name || `Media ID: ${pitch.media_id}`}</p>
+                            <p className="text-xs text-gray-500 truncate">
+                                {pitch.subject_line || "No subject"} · {pitch.scheduled_send_at ? formatInTimezone(pitch.scheduled_send_at, senderTimezone) : "Time pending"}
+                            </p>
+                        </div>
+                        <div className="flex gap-2 flex-shrink-0">
+                            <Button size="sm" variant="outline" onClick={() => onReschedule(pitch)}>
+                                <CalendarClock className="h-3.5 w-3.5 mr-1"/> Reschedule
+                            </Button>
+                            <Button
+                                size="sm"
+                                variant="ghost"
+                                className="text-red-600 hover:text-red-700"
+                                onClick={() => cancelScheduledPitch(pitch.pitch_gen_id)}
+                                disabled={cancelScheduledMutation.isPending && cancelScheduledMutation.variables === pitch.pitch_gen_id}
+                            >
+                                <X className="h-3.5 w-3.5 mr-1"/> Cancel
+                            </Button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
+
 function ReadyToSendTab({
-    pitches, onSend, onBulkSend, onPreview, isLoadingSendForPitchId, isLoadingBulkSend, isLoadingPitches
+    pitches, scheduledPitches, onSend, onBulkSend, onPreview, isLoadingSendForPitchId, isLoadingBulkSend, isLoadingPitches
 }: {
     pitches: PitchReadyToSend[];
+    scheduledPitches: PitchReadyToSend[];
     onSend: (pitchGenId: number) => void;
     onBulkSend: (pitchGenIds: number[]) => void;
     onPreview: (pitch: PitchReadyToSend) => void;
@@ -497,6 +670,7 @@ function ReadyToSendTab({
     const [selectedPitchGenIds, setSelectedPitchGenIds] = useState<number[]>([]);
     const [selectAll, setSelectAll] = useState(false);
     const [pitchEmails, setPitchEmails] = useState<Record<number, string>>({});
+    const [scheduleTarget, setScheduleTarget] = useState<{ pitches: PitchReadyToSend[]; mode: 'schedule' | 'reschedule' } | null>(null);
 
     const handleSelectAll = (checked: boolean) => {
         setSelectAll(checked);
@@ -526,8 +700,25 @@ function ReadyToSendTab({
     if (isLoadingPitches) {
         return <div className="space-y-3"><Skeleton className="h-28 w-full" /><Skeleton className="h-28 w-full" /></div>;
     }
+    const scheduleDialog = (
+        <ScheduleSendDialog
+            open={!!scheduleTarget}
+            onOpenChange={(open) => !open && setScheduleTarget(null)}
+            pitches={(scheduleTarget?.pitches || []).map(p => ({ ...p, recipient_email: pitchEmails[p.pitch_gen_id] || p.recipient_email }))}
+            mode={scheduleTarget?.mode}
+            onScheduled={() => { setSelectedPitchGenIds([]); setSelectAll(false); }}
+        />
+    );
     if (!pitches || pitches.length === 0) {
-        return <div className="text-center py-8 text-gray-500"><Info className="mx-auto h-10 w-10 mb-2"/>No pitches currently approved and ready to send.</div>;
+        return (
+            <div className="space-y-4">
+                <div className="text-center py-8 text-gray-500"><Info className="mx-auto h-10 w-10 mb-2"/>No pitches currently approved and ready to send.</div>
+                {scheduledPitches.length > 0 && (
+                    <ScheduledPitchesList pitches={scheduledPitches} onReschedule={(pitch) => setScheduleTarget({ pitches: [pitch], mode: 'reschedule' })} />
+                )}
+                {scheduleDialog}
+            </div>
+        );
     }
     
     return (
@@ -546,19 +737,29 @@ function ReadyToSendTab({
                             : `${selectedPitchGenIds.length} of ${pitches.length} selected`}
                     </span>
                 </div>
-                <Button
-                    size="sm"
-                    variant="default"
-                    onClick={handleBulkSend}
-                    disabled={selectedPitchGenIds.length === 0 || isLoadingBulkSend}
-                    className="bg-blue-600 hover:bg-blue-700"
-                >
-                    {isLoadingBulkSend ? (
-                        <><RefreshCw className="h-4 w-4 animate-spin mr-1.5"/> Sending...</>
-                    ) : (
-                        <><SendHorizontal className="h-4 w-4 mr-1.5"/> Send Selected ({selectedPitchGenIds.length})</>
-                    )}
-                </Button>
+                <div className="flex gap-2">
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setScheduleTarget({ pitches: pitches.filter(p => selectedPitchGenIds.includes(p.pitch_gen_id)), mode: 'schedule' })}
+                        disabled={selectedPitchGenIds.length === 0 || isLoadingBulkSend}
+                    >
+                        <CalendarClock className="h-4 w-4 mr-1.5"/> Schedule Selected
+                    </Button>
+                    <Button
+                        size="sm"
+                        variant="default"
+                        onClick={handleBulkSend}
+                        disabled={selectedPitchGenIds.length === 0 || isLoadingBulkSend}
+                        className="bg-blue-600 hover:bg-blue-700"
+                    >
+                        {isLoadingBulkSend ? (
+                            <><RefreshCw className="h-4 w-4 animate-spin mr-1.5"/> Sending...</>
+                        ) : (
+                            <><SendHorizontal className="h-4 w-4 mr-1.5"/> Send Selected ({selectedPitchGenIds.length})</>
+                        )}
+                    </Button>
+                </div>
             </div>
 
             {/* Pitch Cards */}
@@ -606,6 +807,14 @@ function ReadyToSendTab({
                                     >
                                         <Eye className="h-3.5 w-3.5 mr-1"/> Preview
                                     </Button>
+                                    <Button
+                                        size="sm"
+                                        variant="outline"
+                                        onClick={() => setScheduleTarget({ pitches: [pitch], mode: 'schedule' })}
+                                        disabled={isLoadingBulkSend || isLoadingSendForPitchId === pitch.pitch_gen_id}
+                                    >
+                                        <CalendarClock className="h-3.5 w-3.5 mr-1"/> Schedule
+                                    </Button>
                                     <Button
                                         size="sm"
                                         className="bg-blue-600 hover:bg-blue-700 text-white"
@@ -621,6 +830,11 @@ function ReadyToSendTab({
                     </Card>
                 ))}
             </div>
+
+            {scheduledPitches.length > 0 && (
+                <ScheduledPitchesList pitches={scheduledPitches} onReschedule={(pitch) => setScheduleTarget({ pitches: [pitch], mode: 'reschedule' })} />
+            )}
+            {scheduleDialog}
         </div>
     );
 }
@@ -633,6 +847,8 @@ function SentPitchesTab({ pitches, isLoadingPitches }: { pitches: SentPitchStatu
         return <div className="text-center py-8 text-gray-500"><Info className="mx-auto h-10 w-10 mb-2"/>No pitches have been sent yet.</div>;
     }
     return (
+        <div className="space-y-4">
+        <FollowUpSequencePanel pitches={pitches} isLoadingPitches={isLoadingPitches} />
         <div className="border rounded-lg overflow-x-auto">
             <Table>
                 <TableHeader className="bg-gray-50">
@@ -643,6 +859,7 @@ function SentPitchesTab({ pitches, isLoadingPitches }: { pitches: SentPitchStatu
                         <TableHead>Status</TableHead>
                         <TableHead>Sent At</TableHead>
                         <TableHead>Replied At</TableHead>
+                        <TableHead>Follow-ups</TableHead>
                     </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -661,11 +878,13 @@ function SentPitchesTab({ pitches, isLoadingPitches }: { pitches: SentPitchStatu
                             <TableCell><Badge variant={pitch.pitch_state === 'replied' || pitch.pitch_state === 'replied_interested' ? 'default' : 'secondary'} className="capitalize text-xs">{pitch.pitch_state?.replace('_', ' ') || "N/A"}</Badge></TableCell>
                             <TableCell className="text-xs text-gray-500">{pitch.send_ts ? new Date(pitch.send_ts).toLocaleString() : "-"}</TableCell>
                             <TableCell className="text-xs text-gray-500">{pitch.reply_ts ? new Date(pitch.reply_ts).toLocaleString() : "-"}</TableCell>
+                            <TableCell className="text-xs text-gray-500">{pitch.follow_ups_sent || 0}</TableCell>
                         </TableRow>
                     ))}
                 </TableBody>
             </Table>
         </div>
+        </div>
     );
 }
 
@@ -684,7 +903,7 @@ export default function PitchOutreach() {
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [previewPitch, setPreviewPitch] = useState<PitchReadyToSend | null>(null);
   const [isPreviewModalOpen, setIsPreviewModalOpen] = useState(false);
-  const [manualPitchMatch, setManualPitchMatch] = useState<ApprovedMatchForPitching | null>(null);
+  const [manualPitchMatch, setManualPitchMatch] = useState<(ApprovedMatchForPitching & { media_kit_variant_id?: string | null }) | null>(null);
   const [isManualEditorOpen, setIsManualEditorOpen] = useState(false);
   const [editingRecipientEmail, setEditingRecipientEmail] = useState(false);
   const [tempRecipientEmail, setTempRecipientEmail] = useState("");
@@ -790,7 +1009,24 @@ export default function PitchOutreach() {
   });
   const pitchesReadyToSend = pitchesReadyData || [];
 
+  // 3b. Fetch Scheduled Pitches (queued for a future send time)
+  const { data: scheduledPitchesData } = useQuery<PitchReadyToSend[]>({
+    queryKey: ["scheduledPitches", selectedCampaignFilter, isClient],
+    queryFn: async ({ queryKey }) => {
+      const [, campaignId, clientOnly] = queryKey as [string, string | null, boolean];
+      let url = `/pitches/?pitch_state__in=scheduled`;
+      if (campaignId) url += `&campaign_id=${campaignId}`;
+      if (clientOnly) url += `&client_only=true`;
+      const response = await apiRequest("GET", url);
+      if (!response.ok) throw new Error("Failed to fetch scheduled pitches");
+      return response.json();
+    },
+    staleTime: 1000 * 60 * 1,
+  });
+  const scheduledPitches = scheduledPitchesData || [];
+
   // 4. Fetch Sent Pitches
+  const sentPitchesPolling = usePollingFallback(1000 * 60 * 5);
   const { data: sentPitchesData, isLoading: isLoadingSentPitches, error: sentPitchesError } = useQuery<SentPitchStatus[]>({
     queryKey: ["sentPitchesStatus", selectedCampaignFilter, isClient],
     queryFn: async ({ queryKey }) => {
@@ -807,7 +1043,7 @@ export default function PitchOutreach() {
       if (!response.ok) throw new Error("Failed to fetch sent pitches");
       return response.json();
     },
-    refetchInterval: 1000 * 60 * 5, // Refetch every 5 minutes
+    refetchInterval: sentPitchesPolling, // Refetch every 5 minutes while pitch events aren't being pushed
   });
   const sentPitches = sentPitchesData || [];
 
@@ -815,9 +1051,9 @@ export default function PitchOutreach() {
   // --- Mutations ---
   // AI Generation mutation (for paid users)
   const generatePitchDraftMutation = useMutation({
-    mutationFn: async ({ matchId, pitch_template_id }: { matchId: number; pitch_template_id: string }) => {
+    mutationFn: async ({ matchId, pitch_template_id, media_kit_variant_id }: { matchId: number; pitch_template_id: string; media_kit_variant_id?: string | null }) => {
       setIsLoadingGenerateForMatchId(matchId);
-      const response = await apiRequest("POST", "/pitches/generate", { match_id: matchId, pitch_template_id: pitch_template_id });
+      const response = await apiRequest("POST", "/pitches/generate", { match_id: matchId, pitch_template_id: pitch_template_id, media_kit_variant_id: media_kit_variant_id ?? null });
       if (!response.ok) { const errorData = await response.json().catch(() => ({ detail: "Failed to generate pitch draft." })); throw new Error(errorData.detail); }
       return response.json();
     },
@@ -831,7 +1067,7 @@ export default function PitchOutreach() {
   });
 
   const generateBatchPitchDraftsMutation = useMutation({
-    mutationFn: async (items: { match_id: number; pitch_template_id: string }[]) => {
+    mutationFn: async (items: BatchGenerateItem[]) => {
       setIsLoadingBatchGenerate(true);
       const response = await apiRequest("POST", "/pitches/generate-batch", items);
       if (!response.ok) { 
@@ -977,14 +1213,14 @@ export default function PitchOutreach() {
   };
 
 
-  const handleGeneratePitch = (matchId: number, templateId: string) => {
+  const handleGeneratePitch = (matchId: number, templateId: string, mediaKitVariantId?: string | null) => {
     // Find the match for this ID
     const match = approvedMatches.find(m => m.match_id === matchId);
     
     // If it's manual creation or user doesn't have AI access, open manual editor
     if (templateId === "manual" || !canUseAI) {
       if (match) {
-        setManualPitchMatch(match);
+        setManualPitchMatch({ ...match, media_kit_variant_id: mediaKitVariantId ?? null });
         setIsManualEditorOpen(true);
       }
       return;
@@ -995,9 +1231,9 @@ export default function PitchOutreach() {
       toast({ title: "Template Required", description: "Please select a pitch template.", variant: "destructive"}); 
       return; 
     }
-    generatePitchDraftMutation.mutate({ matchId, pitch_template_id: templateId });
+    generatePitchDraftMutation.mutate({ matchId, pitch_template_id: templateId, media_kit_variant_id: mediaKitVariantId });
   };
-  const handleGenerateBatchPitches = (items: { match_id: number; pitch_template_id: string }[]) => {
+  const handleGenerateBatchPitches = (items: BatchGenerateItem[]) => {
     if (!canUseAI) {
       toast({ title: "Premium Feature", description: "Batch AI pitch generation requires a Premium subscription.", variant: "destructive"});
       return;
@@ -1014,6 +1250,7 @@ export default function PitchOutreach() {
     tanstackQueryClient.invalidateQueries({ queryKey: ["approvedMatchesForPitching"] });
     tanstackQueryClient.invalidateQueries({ queryKey: ["pitchDraftsForReview"] });
     tanstackQueryClient.invalidateQueries({ queryKey: ["pitchesReadyToSend"] });
+    tanstackQueryClient.invalidateQueries({ queryKey: ["scheduledPitches"] });
     tanstackQueryClient.invalidateQueries({ queryKey: ["sentPitchesStatus"] });
   };
   const handleSaveEditedDraft = (pitchGenId: number, data: EditDraftFormData) => { updatePitchDraftMutation.mutate({ pitchGenId, data }); };
@@ -1095,7 +1332,7 @@ export default function PitchOutreach() {
         <TabsList className="grid w-full grid-cols-2 md:grid-cols-4 gap-1">
           <TabsTrigger value="readyForDraft"><Lightbulb className="mr-1.5 h-4 w-4"/>Ready for Draft ({isLoadingApprovedMatches ? '...' : approvedMatches.length})</TabsTrigger>
           <TabsTrigger value="draftsReview"><Edit3 className="mr-1.5 h-4 w-4"/>Review Drafts ({isLoadingPitchDrafts ? '...' : pitchDraftsForReview.length})</TabsTrigger>
-          <TabsTrigger value="readyToSend"><MailCheck className="mr-1.5 h-4 w-4"/>Ready to Send ({isLoadingReadyToSend ? '...' : pitchesReadyToSend.length})</TabsTrigger>
+          <TabsTrigger value="readyToSend"><MailCheck className="mr-1.5 h-4 w-4"/>Ready to Send ({isLoadingReadyToSend ? '...' : pitchesReadyToSend.length}{scheduledPitches.length > 0 ? ` + ${scheduledPitches.length} scheduled` : ''})</TabsTrigger>
           <TabsTrigger value="sentPitches"><MailOpen className="mr-1.5 h-4 w-4"/>Sent Pitches ({isLoadingSentPitches ? '...' : sentPitches.length})</TabsTrigger>
         </TabsList>
 
@@ -1110,6 +1347,7 @@ export default function PitchOutreach() {
             isLoadingMatches={isLoadingApprovedMatches || isLoadingTemplates}
             canUseAI={canUseAI}
             isFreePlan={isFreePlan}
+            isClient={isClient}
           />
           {approvedMatchesError && <p className="text-red-500 mt-2">Error loading approved matches: {(approvedMatchesError as Error).message}</p>}
           {templatesError && <p className="text-red-500 mt-2">Error loading pitch templates: {(templatesError as Error).message}</p>}
@@ -1132,6 +1370,7 @@ export default function PitchOutreach() {
         <TabsContent value="readyToSend" className="mt-6">
            <ReadyToSendTab
              pitches={pitchesReadyToSend}
+             scheduledPitches={scheduledPitches}
              onSend={handleSendPitch}
              onBulkSend={handleBulkSendPitches}
              onPreview={handlePreviewPitch}
@@ -7,14 +7,18 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogTrigger, DialogClose, DialogDescription } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Plus, Edit, Trash2, FileText, Info } from "lucide-react";
+import { Plus, Edit, Trash2, FileText, Info, BarChart3 } from "lucide-react";
+import { Link } from "wouter";
+import type { PitchMetrics } from "@/types/inbox";
 import { Skeleton } from "@/components/ui/skeleton";
+import { VariableTextField } from "@/components/pitch/VariableTextField";
+import { TemplatePreviewPanel } from "@/components/pitch/TemplatePreviewPanel";
+import { PITCH_VARIABLES, formatVariableToken, lintTemplate } from "@/lib/pitchVariables";
 
 // Schema for the form (matches PitchTemplateCreate/Update from backend)
 const pitchTemplateFormSchema = z.object({
@@ -23,7 +27,9 @@ const pitchTemplateFormSchema = z.object({
   target_media_type: z.string().optional().nullable(),
   language_code: z.string().optional().nullable(),
   tone: z.string().optional().nullable(),
-  prompt_body: z.string().min(50, "Prompt body must be at least 50 characters."),
+  prompt_body: z.string()
+    .min(50, "Prompt body must be at least 50 characters.")
+    .refine(body => !lintTemplate(body).some(issue => issue.reason === "unknown"), "Fix or remove unknown variables before saving."),
   // created_by will be set by backend based on logged-in user
 });
 type PitchTemplateFormData = z.infer<typeof pitchTemplateFormSchema>;
@@ -88,11 +94,24 @@ function PitchTemplateForm({
           name="prompt_body"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Prompt Body (with placeholders like {'{{podcast_name}}'}, {'{{client_name}}'}) *</FormLabel>
-              <FormControl>
-                <Textarea placeholder="Dear {host_name},nI loved your episode on {episode_title}..." {...field} rows={10} />
-              </FormControl>
-              <FormMessage />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <FormControl>
+                    <VariableTextField
+                      label={<FormLabel>Prompt Body (type {'{{'} for variables) *</FormLabel>}
+                      value={field.value}
+                      onChange={field.onChange}
+                      multiline
+                      rows={14}
+                      placeholder={"Hi {{host_first_name}},\nI loved your episode {{recent_episode_title}}..."}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </div>
+                <div className="min-h-[300px]">
+                  <TemplatePreviewPanel text={field.value} />
+                </div>
+              </div>
             </FormItem>
           )}
         />
@@ -244,6 +263,12 @@ export default function PitchTemplatesPage() {
     }
   };
 
+  // Per-template outcomes, used to summarise each row and link to the full comparison
+  const { data: pitchMetrics } = useQuery<PitchMetrics>({
+    queryKey: ["/pitches/metrics"],
+  });
+  const templateResults = new Map((pitchMetrics?.by_template || []).map(result => [result.template_id, result]));
+
   if (isLoading) return <div className="p-6"><Skeleton className="h-10 w-1/3 mb-4" /><Skeleton className="h-64 w-full" /></div>;
   if (error) return <div className="p-6 text-red-500">Error loading pitch templates: {(error as Error).message}</div>;
 
@@ -253,20 +278,11 @@ export default function PitchTemplatesPage() {
       <Card className="bg-blue-50 border-blue-200">
         <CardHeader><CardTitle className="text-blue-700 flex items-center gap-2"><Info className="h-5 w-5"/>Using Placeholders in Prompt Body</CardTitle></CardHeader>
         <CardContent className="text-sm text-blue-600 space-y-1">
-            <p>In your "Prompt Body", you can use placeholders that will be dynamically filled with data from the client's campaign and the target media. Examples:</p>
+            <p>In your "Prompt Body", you can use placeholders that will be dynamically filled with data from the client's campaign and the target media. Type <code>{'{{'}</code> in the editor to autocomplete them:</p>
             <ul className="list-disc list-inside pl-4 space-y-0.5">
-                <li><code>{`{{podcast_name}}`}</code> - Name of the podcast/media.</li>
-                <li><code>{`{{host_name}}`}</code> - Podcast host's name (if available).</li>
-                <li><code>{`{{episode_title}}`}</code> - Title of a relevant episode (if applicable).</li>
-                <li><code>{`{{episode_summary}}`}</code> - Short summary of a relevant episode.</li>
-                <li><code>{`{{ai_summary_of_best_episode}}`}</code> - AI-generated summary of a relevant episode.</li>
-                <li><code>{`{{client_name}}`}</code> - Your client's full name.</li>
-                <li><code>{`{{client_bio_summary}}`}</code> - A summary of your client's bio (from campaign).</li>
-                <li><code>{`{{client_key_talking_point_1}}`}</code>, <code>{`{{client_key_talking_point_2}}`}</code>, etc. - Key talking points.</li>
-                <li><code>{`{{link_to_client_media_kit}}`}</code> - Public URL to the client's media kit.</li>
-                <li><code>{`{{campaign_goal}}`}</code> - The primary goal of the client's campaign.</li>
-                <li><code>{`{{specific_pitch_angle}}`}</code> - A specific angle tailored for this outreach (can be auto-suggested).</li>
-                <li><code>{`{{latest_news_from_podcast}}`}</code> - Recent updates or news about the podcast.</li>
+                {PITCH_VARIABLES.map(variable => (
+                  <li key={variable.key}><code>{formatVariableToken(variable.key)}</code> - {variable.description}{variable.aiOnly ? " (filled by AI)" : ""}</li>
+                ))}
             </ul>
             <p className="mt-2">The system will attempt to replace these with actual data before sending the prompt to the AI for final pitch generation. Ensure your placeholders match what the backend expects.</p>
         </CardContent>
@@ -282,7 +298,7 @@ export default function PitchTemplatesPage() {
               <Plus className="mr-2 h-4 w-4" /> Create New Template
             </Button>
           </DialogTrigger>
-          <DialogContent className="max-w-2xl">
+          <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>{editingTemplate ? "Edit Pitch Template" : "Create New Pitch Template"}</DialogTitle>
               <DialogDescription>
@@ -316,12 +332,13 @@ export default function PitchTemplatesPage() {
                   <TableHead>Target Media</TableHead>
                   <TableHead>Language</TableHead>
                   <TableHead className="min-w-[300px]">Prompt Snippet</TableHead>
+                  <TableHead>Results</TableHead>
                   <TableHead className="text-right w-[100px]">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {templates.length === 0 ? (
-                  <TableRow><TableCell colSpan={7} className="text-center py-10 text-gray-500">
+                  <TableRow><TableCell colSpan={8} className="text-center py-10 text-gray-500">
                     <FileText className="mx-auto h-12 w-12 text-gray-400 mb-3" />
                     No pitch templates created yet.
                     </TableCell></TableRow>
@@ -336,6 +353,14 @@ export default function PitchTemplatesPage() {
                       <TableCell className="max-w-xs truncate" title={template.prompt_body}>
                         {template.prompt_body.substring(0, 80)}{template.prompt_body.length > 80 ? "..." : ""}
                       </TableCell>
+                      <TableCell onClick={(e) => e.stopPropagation()}>
+                        <Link href={`/analytics?template=${encodeURIComponent(template.template_id)}`} className="inline-flex items-center text-sm text-primary hover:underline whitespace-nowrap">
+                          <BarChart3 className="h-4 w-4 mr-1" />
+                          {templateResults.get(template.template_id)
+                            ? `${templateResults.get(template.template_id)!.reply_rate.toFixed(1)}% replies (n=${templateResults.get(template.template_id)!.total_sent})`
+                            : "View results"}
+                        </Link>
+                      </TableCell>
                       <TableCell className="text-right">
                         <Button variant="ghost" size="icon" onClick={(e) => { e.stopPropagation(); setEditingTemplate(template); setIsFormOpen(true); }} className="mr-1 h-8 w-8">
                           <Edit className="h-4 w-4" />
@@ -16,11 +16,17 @@ import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient as appQueryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
+import { statusConfig } from "@/lib/placementStatus";
+import { PlacementCalendar } from "@/components/placements/PlacementCalendar";
+import { TestimonialRequestDialog } from "@/components/placements/TestimonialRequestDialog";
+import { canRequestTestimonial } from "@/lib/testimonials";
 import { 
   TrendingUp, Calendar, Users, PlayCircle, BarChart3, Download, ExternalLink, Podcast as PodcastIcon, 
-  Eye, Share2, MessageSquare, Search, Filter, Plus, Edit, CheckCircle, Clock, AlertCircle, Check, X, Trash2, AlertTriangle
+  Eye, Share2, MessageSquare, Search, Filter, Plus, Edit, CheckCircle, Clock, AlertCircle, Check, X, Trash2, AlertTriangle,
+  LayoutGrid, List, CalendarDays, MessageSquareQuote
 } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
+import { differenceInDays } from "date-fns";
 
 // --- Interfaces (align with backend schemas) ---
 interface Placement { // Matches PlacementInDB from backend
@@ -83,21 +89,6 @@ const placementFormSchema = z.object({
 type PlacementFormData = z.infer<typeof placementFormSchema>;
 
 
-const statusConfig: Record<string, { label: string; icon: React.ElementType; color: string; dotColor: string }> = {
-  pending: { label: "Pending", icon: Clock, color: "bg-gray-100 text-gray-700", dotColor: "bg-gray-500" },
-  responded: { label: "Responded", icon: MessageSquare, color: "bg-blue-100 text-blue-800", dotColor: "bg-blue-500" },
-  interested: { label: "Interested", icon: Eye, color: "bg-teal-100 text-teal-800", dotColor: "bg-teal-500" },
-  form_submitted: { label: "Form Submitted", icon: CheckCircle, color: "bg-cyan-100 text-cyan-800", dotColor: "bg-cyan-500" },
-  meeting_booked: { label: "Meeting Booked", icon: Calendar, color: "bg-purple-100 text-purple-800", dotColor: "bg-purple-500" },
-  recording_booked: { label: "Recording Booked", icon: Calendar, color: "bg-indigo-100 text-indigo-800", dotColor: "bg-indigo-500" },
-  recorded: { label: "Recorded", icon: PlayCircle, color: "bg-pink-100 text-pink-800", dotColor: "bg-pink-500" },
-  live: { label: "Live", icon: ExternalLink, color: "bg-green-100 text-green-800", dotColor: "bg-green-500" },
-  paid: { label: "Paid", icon: CheckCircle, color: "bg-emerald-100 text-emerald-800", dotColor: "bg-emerald-500" },
-  rejected: { label: "Rejected", icon: X, color: "bg-red-100 text-red-800", dotColor: "bg-red-500" },
-  default: { label: "Unknown", icon: AlertCircle, color: "bg-gray-100 text-gray-700", dotColor: "bg-gray-400" },
-};
-
-
 // --- Placement Form Dialog (Create/Edit) ---
 function PlacementFormDialog({
   placement, open, onOpenChange, onSuccess, campaigns, mediaItems
@@ -275,10 +266,11 @@ function PlacementFormDialog({
 
 
 // --- Placement Table ---
-function PlacementTable({ placements, onEdit, onDelete, userRole }: { 
+function PlacementTable({ placements, onEdit, onDelete, onRequestTestimonial, userRole }: { 
     placements: Placement[]; 
     onEdit: (placement: Placement) => void;
     onDelete: (placementId: number) => void;
+    onRequestTestimonial: (placement: Placement) => void;
     userRole?: string | null;
 }) {
   return (
@@ -330,6 +322,9 @@ function PlacementTable({ placements, onEdit, onDelete, userRole }: {
                 {userRole !== 'client' && (
                     <TableCell className="text-right">
                     <div className="flex items-center justify-end space-x-1">
+                        {canRequestTestimonial(placement.current_status) && (
+                            <Button size="sm" variant="outline" onClick={() => onRequestTestimonial(placement)} title="Request Testimonial"><MessageSquareQuote className="h-3 w-3" /></Button>
+                        )}
                         <Button size="sm" variant="outline" onClick={() => onEdit(placement)} title="Edit Placement"><Edit className="h-3 w-3" /></Button>
                         {userRole === 'admin' && // Only admin can delete
                             <Button size="sm" variant="destructive" onClick={() => onDelete(placement.placement_id)} title="Delete Placement"><Trash2 className="h-3 w-3" /></Button>
@@ -346,6 +341,105 @@ function PlacementTable({ placements, onEdit, onDelete, userRole }: {
   );
 }
 
+// --- Kanban Board (staff/admin) ---
+function getDaysInStatus(placement: Placement): number | null {
+  const since = placement.status_ts || placement.created_at;
+  if (!since) return null;
+  return Math.max(0, differenceInDays(new Date(), new Date(since)));
+}
+
+function PlacementKanbanBoard({ placements, onEdit, onStatusChange, onRequestTestimonial }: {
+    placements: Placement[];
+    onEdit: (placement: Placement) => void;
+    onRequestTestimonial: (placement: Placement) => void;
+    onStatusChange: (placement: Placement, newStatus: string) => void;
+}) {
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const columns = Object.entries(statusConfig).filter(([key]) => key !== 'default');
+
+  const handleDrop = (statusKey: string) => {
+    const placement = placements.find(p => p.placement_id === draggedId);
+    setDraggedId(null);
+    setDropTarget(null);
+    if (!placement || (placement.current_status || 'pending') === statusKey) return;
+    onStatusChange(placement, statusKey);
+  };
+
+  return (
+    <div className="flex gap-3 overflow-x-auto pb-4">
+      {columns.map(([statusKey, config]) => {
+        const columnPlacements = placements.filter(p => (p.current_status || 'pending') === statusKey);
+        const StatusIcon = config.icon;
+        return (
+          <div
+            key={statusKey}
+            className={`flex-shrink-0 w-64 rounded-lg border bg-gray-50 flex flex-col transition-colors ${dropTarget === statusKey ? 'border-primary bg-primary/5' : ''}`}
+            onDragOver={(e) => { e.preventDefault(); setDropTarget(statusKey); }}
+            onDragLeave={() => setDropTarget(prev => prev === statusKey ? null : prev)}
+            onDrop={(e) => { e.preventDefault(); handleDrop(statusKey); }}
+          >
+            <div className="flex items-center justify-between px-3 py-2 border-b">
+              <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <span className={`h-2 w-2 rounded-full ${config.dotColor}`} />
+                <StatusIcon className="h-3.5 w-3.5" />
+                {config.label}
+              </div>
+              <Badge variant="secondary" className="text-xs">{columnPlacements.length}</Badge>
+            </div>
+            <div className="flex-1 p-2 space-y-2 min-h-[120px]">
+              {columnPlacements.map(placement => {
+                const daysInStatus = getDaysInStatus(placement);
+                return (
+                  <div
+                    key={placement.placement_id}
+                    draggable
+                    onDragStart={(e) => {
+                      // Firefox only starts a drag when some data is set
+                      e.dataTransfer.setData("text/plain", String(placement.placement_id));
+                      e.dataTransfer.effectAllowed = "move";
+                      setDraggedId(placement.placement_id);
+                    }}
+                    onDragEnd={() => { setDraggedId(null); setDropTarget(null); }}
+                    className={`rounded-md border bg-white p-3 shadow-sm cursor-grab active:cursor-grabbing hover:shadow-md transition-shadow ${draggedId === placement.placement_id ? 'opacity-50' : ''}`}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <p className="font-medium text-sm text-gray-900 line-clamp-2">{placement.media_name || `Media ID: ${placement.media_id}`}</p>
+                      <div className="flex flex-shrink-0">
+                        {canRequestTestimonial(placement.current_status) && (
+                          <Button size="sm" variant="ghost" className="h-6 w-6 p-0" onClick={() => onRequestTestimonial(placement)} title="Request Testimonial">
+                            <MessageSquareQuote className="h-3 w-3" />
+                          </Button>
+                        )}
+                        <Button size="sm" variant="ghost" className="h-6 w-6 p-0" onClick={() => onEdit(placement)} title="Edit Placement">
+                          <Edit className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1 truncate">{placement.client_name || placement.campaign_name || `Campaign ID: ${placement.campaign_id.substring(0,8)}...`}</p>
+                    <div className="flex items-center justify-between mt-2 text-xs text-gray-500">
+                      {daysInStatus !== null && (
+                        <span className="flex items-center" title="Days in current status">
+                          <Clock className="h-3 w-3 mr-1" />
+                          {daysInStatus}d
+                        </span>
+                      )}
+                      {placement.recording_date && (
+                        <span title="Recording date">Rec: {new Date(placement.recording_date + 'T00:00:00').toLocaleDateString()}</span>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 // --- Card View for Clients ---
 function ClientPlacementCard({ placement }: { placement: Placement }) {
   const currentStatusKey = placement.current_status || 'default';
@@ -403,6 +497,8 @@ export default function PlacementTracking() {
   const [campaignFilter, setCampaignFilter] = useState<string | "all">("all");
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingPlacement, setEditingPlacement] = useState<Placement | null>(null);
+  const [viewMode, setViewMode] = useState<'table' | 'board' | 'calendar'>('table');
+  const [testimonialPlacement, setTestimonialPlacement] = useState<Placement | null>(null);
 
   const { toast } = useToast();
   const tanstackQueryClient = useTanstackQueryClient();
@@ -472,6 +568,41 @@ export default function PlacementTracking() {
     }
   });
 
+  // Optimistically move the card, rolling back to the cached list if the PUT fails
+  const updateStatusMutation = useMutation({
+    mutationFn: async ({ placement, newStatus }: { placement: Placement; newStatus: string }) => {
+      const response = await apiRequest("PUT", `/placements/${placement.placement_id}`, { current_status: newStatus });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ detail: "Failed to update placement status" }));
+        throw new Error(errorData.detail || "Failed to update placement status");
+      }
+      return response.json();
+    },
+    onMutate: async ({ placement, newStatus }) => {
+      await tanstackQueryClient.cancelQueries({ queryKey: placementsQueryKey });
+      const previousData = tanstackQueryClient.getQueryData<{items: Placement[], total: number}>(placementsQueryKey);
+      tanstackQueryClient.setQueryData<{items: Placement[], total: number}>(placementsQueryKey, old => old ? {
+        ...old,
+        items: old.items.map(p => p.placement_id === placement.placement_id
+          ? { ...p, current_status: newStatus, status_ts: new Date().toISOString() }
+          : p),
+      } : old);
+      return { previousData };
+    },
+    onSuccess: (_, { placement, newStatus }) => {
+      toast({ title: "Status Updated", description: `${placement.media_name || 'Placement'} moved to ${(statusConfig[newStatus] || statusConfig.default).label}.` });
+    },
+    onError: (error: any, _, context) => {
+      if (context?.previousData) {
+        tanstackQueryClient.setQueryData(placementsQueryKey, context.previousData);
+      }
+      toast({ title: "Error", description: error.message || "Failed to update placement status.", variant: "destructive" });
+    },
+    onSettled: () => {
+      tanstackQueryClient.invalidateQueries({ queryKey: ["/placements/"] });
+    }
+  });
+
   const handleDelete = (placementId: number) => {
     if (window.confirm("Are you sure you want to delete this placement record?")) {
       deletePlacementMutation.mutate(placementId);
@@ -573,14 +704,27 @@ export default function PlacementTracking() {
               )}
             </div>
 
-            {user?.role !== 'client' && (
-                <div className="flex items-center space-x-2 mt-2 md:mt-0">
-                <Button variant="outline" size="sm">
-                    <Download className="h-4 w-4 mr-2" />
-                    Export
-                </Button>
+            <div className="flex items-center space-x-2 mt-2 md:mt-0">
+                <div className="flex items-center rounded-md border p-0.5">
+                    <Button variant={viewMode === 'table' ? 'secondary' : 'ghost'} size="sm" className="h-7 px-2" onClick={() => setViewMode('table')} title={user?.role === 'client' ? "Card view" : "Table view"}>
+                        <List className="h-4 w-4" />
+                    </Button>
+                    {user?.role !== 'client' && (
+                        <Button variant={viewMode === 'board' ? 'secondary' : 'ghost'} size="sm" className="h-7 px-2" onClick={() => setViewMode('board')} title="Board view">
+                            <LayoutGrid className="h-4 w-4" />
+                        </Button>
+                    )}
+                    <Button variant={viewMode === 'calendar' ? 'secondary' : 'ghost'} size="sm" className="h-7 px-2" onClick={() => setViewMode('calendar')} title="Calendar view">
+                        <CalendarDays className="h-4 w-4" />
+                    </Button>
                 </div>
-            )}
+                {user?.role !== 'client' && (
+                    <Button variant="outline" size="sm">
+                        <Download className="h-4 w-4 mr-2" />
+                        Export
+                    </Button>
+                )}
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -595,7 +739,18 @@ export default function PlacementTracking() {
             <AlertTriangle className="inline h-5 w-5 mr-2" />
             Error loading placements: {(placementsError as Error).message}
         </div>
-      ) : filteredPlacements.length === 0 ? (
+      ) : viewMode === 'calendar' ? (
+        <Card>
+          <CardContent className="p-4 md:p-6">
+            <PlacementCalendar
+              placements={filteredPlacements}
+              calendarName={campaignFilter === "all"
+                ? "All Placements"
+                : `${campaignsForFilter.find(c => c.campaign_id === campaignFilter)?.campaign_name || "Campaign"} Placements`}
+            />
+          </CardContent>
+        </Card>
+      ) : filteredPlacements.length === 0 && !(viewMode === 'board' && user?.role !== 'client') ? (
         <div className="text-center py-12">
           <PodcastIcon className="h-12 w-12 text-gray-400 mx-auto mb-4" />
           <h3 className="text-lg font-medium text-gray-900">No placements found</h3>
@@ -605,6 +760,13 @@ export default function PlacementTracking() {
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {filteredPlacements.map(p => <ClientPlacementCard key={p.placement_id} placement={p} />)}
         </div>
+      ) : viewMode === 'board' ? (
+        <PlacementKanbanBoard
+          placements={filteredPlacements}
+          onEdit={handleEdit}
+          onStatusChange={(placement, newStatus) => updateStatusMutation.mutate({ placement, newStatus })}
+          onRequestTestimonial={setTestimonialPlacement}
+        />
       ) : (
         <div>
           <div className="flex items-center justify-between mb-4">
@@ -616,6 +778,7 @@ export default function PlacementTracking() {
             placements={filteredPlacements} 
             onEdit={handleEdit} 
             onDelete={handleDelete}
+            onRequestTestimonial={setTestimonialPlacement}
             userRole={user?.role}
           />
         </div>
@@ -634,6 +797,14 @@ export default function PlacementTracking() {
           mediaItems={mediaItemsForForm}
         />
       )}
+
+      {user?.role !== 'client' && (
+        <TestimonialRequestDialog
+          placement={testimonialPlacement}
+          open={!!testimonialPlacement}
+          onOpenChange={(open) => { if (!open) setTestimonialPlacement(null); }}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -10,10 +10,23 @@ import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
-import { Search, ExternalLink, Lightbulb, Info, AlertTriangle, CheckSquare, Send, RefreshCw, ArrowRight, CheckCircle } from "lucide-react";
+import { Search, ExternalLink, Lightbulb, Info, AlertTriangle, CheckSquare, Send, RefreshCw, ArrowRight, CheckCircle, Clock, Columns, Ban, Plus } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { addWeeks, formatDistanceStrict, startOfTomorrow, startOfWeek } from "date-fns";
+import { UpgradePrompt } from "@/components/pitch/UpgradePrompt";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Link } from "wouter";
 import DiscoveryProgressTracker from "@/components/DiscoveryProgressTracker";
+import { AddPodcastDialog } from "@/components/discovery/AddPodcastDialog";
+import { ComparisonBar, CompareToggle } from "@/components/comparison/ComparisonBar";
+import { PodcastComparisonDialog } from "@/components/comparison/PodcastComparisonDialog";
+import { usePodcastComparison } from "@/hooks/usePodcastComparison";
+import { MAX_COMPARISON_ITEMS, MIN_COMPARISON_ITEMS } from "@/lib/podcastComparison";
+import { useBlocklist } from "@/hooks/useBlocklist";
+import { describeBlocklistEntry, findBlocklistMatch } from "@/lib/blocklist";
+import { FacetPanel } from "@/components/facets/FacetPanel";
+import { useFacetFilters } from "@/hooks/useFacetFilters";
+import { applyFacetFilters, getFacetCounts, sortFacetItems, type FacetMedia, type FacetSort, type FacetableItem } from "@/lib/reviewFacets";
 
 // --- Interfaces (simplified based on usage in your plan) ---
 interface CampaignForDiscovery {
@@ -30,6 +43,75 @@ interface ClientDiscoveryStatus {
   weekly_discovery_allowance: number;
   can_discover_today: boolean;
   can_discover_this_week: boolean;
+  daily_resets_at?: string | null; // ISO datetime
+  weekly_resets_at?: string | null; // ISO datetime
+  upgrade_url?: string | null;
+}
+
+// Staff and admin are never metered
+const UNLIMITED_DISCOVERY_STATUS = {
+  daily_discoveries_used: 0,
+  daily_discovery_allowance: Infinity,
+  weekly_discoveries_used: 0,
+  weekly_discovery_allowance: Infinity,
+  can_discover_today: true,
+  can_discover_this_week: true,
+};
+
+function formatResetCountdown(resetsAt: Date, now: Date): string {
+  if (resetsAt.getTime() <= now.getTime()) return "resetting now";
+  return `resets in ${formatDistanceStrict(resetsAt, now)}`;
+}
+
+function DiscoveryUsageMeter({ status, onReset }: { status: ClientDiscoveryStatus; onReset: () => void }) {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Fall back to local midnight / next Monday if the backend doesn't say when the windows roll over
+  const dailyResetsAt = status.daily_resets_at ? new Date(status.daily_resets_at) : startOfTomorrow();
+  const weeklyResetsAt = status.weekly_resets_at ? new Date(status.weekly_resets_at) : addWeeks(startOfWeek(now, { weekStartsOn: 1 }), 1);
+  const hasPassedReset = (!status.can_discover_today && dailyResetsAt <= now) || (!status.can_discover_this_week && weeklyResetsAt <= now);
+
+  useEffect(() => {
+    if (hasPassedReset) onReset();
+  }, [hasPassedReset]);
+
+  const rows = [
+    { label: "Today", used: status.daily_discoveries_used, allowance: status.daily_discovery_allowance, resetsAt: dailyResetsAt, exhausted: !status.can_discover_today },
+    { label: "This week", used: status.weekly_discoveries_used, allowance: status.weekly_discovery_allowance, resetsAt: weeklyResetsAt, exhausted: !status.can_discover_this_week },
+  ];
+
+  return (
+    <div className="border p-3 rounded-md bg-gray-50 space-y-3">
+      {rows.map(row => {
+        const unlimited = !Number.isFinite(row.allowance);
+        const percent = unlimited || row.allowance <= 0 ? 0 : Math.min(100, (row.used / row.allowance) * 100);
+        return (
+          <div key={row.label} className="space-y-1">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium text-gray-700">{row.label}</span>
+              <span className={row.exhausted ? "text-red-600 font-medium" : "text-gray-600"}>
+                {row.used} / {unlimited ? "Unlimited" : row.allowance} discoveries
+              </span>
+            </div>
+            {!unlimited && (
+              <>
+                <Progress value={percent} className={`h-2 ${row.exhausted ? "[&>div]:bg-red-500" : percent >= 80 ? "[&>div]:bg-orange-500" : ""}`} />
+                <p className="flex items-center text-xs text-gray-500">
+                  <Clock className="h-3 w-3 mr-1" />
+                  {row.exhausted ? "Limit reached, " : ""}{formatResetCountdown(row.resetsAt, now)}
+                </p>
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
 }
 
 interface PodcastPreview { // For client-side display
@@ -48,6 +130,8 @@ interface StaffDiscoveredMatch {
   media_id: number;
   match_score?: number | null;
   matched_keywords?: string[] | null;
+  vetting_score?: number | null;
+  discovery_keyword?: string | null;
   ai_reasoning?: string | null;
   status: string; 
   client_approved?: boolean; // Optional as it might not always be set by this endpoint
@@ -55,11 +139,17 @@ interface StaffDiscoveredMatch {
   created_at: string;
   media_name?: string | null;
   media_website?: string | null;
+  host_names?: string[] | null;
+  contact_email?: string | null;
   campaign_name?: string | null; // Should be populated by backend if possible
   client_name?: string | null;   // Should be populated by backend if possible
+  media?: FacetMedia | null; // Category, language and reach fields for the facet panel
   // Potentially add best_episode_link or similar if backend provides it for AI reasoning context
 }
 
+const STAFF_SORT_OPTIONS: FacetSort[] = ["match_desc", "match_asc", "vetting_desc", "vetting_asc", "audience_desc", "listen_desc", "recent", "default"];
+const toFacetableMatch = (match: StaffDiscoveredMatch): FacetableItem => match;
+
 export default function PodcastDiscovery() {
   const { toast } = useToast();
   const tanstackQueryClient = useTanstackQueryClient();
@@ -68,13 +158,18 @@ export default function PodcastDiscovery() {
 
   const [selectedCampaignId, setSelectedCampaignId] = useState<string | null>(null);
   const [staffDiscoveredMatches, setStaffDiscoveredMatches] = useState<StaffDiscoveredMatch[]>([]);
-  const [sortOrder, setSortOrder] = useState<'desc' | 'asc' | 'none'>('desc'); // For match_score sorting
+  const { filters, setFilters, clearFilters, shareUrl } = useFacetFilters("match_desc"); // Match score first, as before facets
   const [maxMatchesInput, setMaxMatchesInput] = useState<string>(""); // State for max_matches input
   const [showProgressTracker, setShowProgressTracker] = useState(false);
+  const [isAddPodcastOpen, setIsAddPodcastOpen] = useState(false);
+  const comparison = usePodcastComparison();
+  // Staff only: client previews come back from the server with blocked shows already removed
+  const { data: blocklist } = useBlocklist(userRoleLower === 'staff' || userRoleLower === 'admin');
 
   // --- Client-Specific State & Queries ---
   const [clientDiscoveredPodcastPreviews, setClientDiscoveredPodcastPreviews] = useState<PodcastPreview[]>([]);
   const [selectedForReview, setSelectedForReview] = useState<Set<number>>(new Set());
+  const [isPreviewComparisonOpen, setIsPreviewComparisonOpen] = useState(false);
 
   const { data: clientCampaigns = [], isLoading: isLoadingClientCampaigns } = useQuery<CampaignForDiscovery[]>({
     queryKey: ["campaignsForDiscovery", user?.person_id, userRoleLower], 
@@ -92,32 +187,17 @@ export default function PodcastDiscovery() {
     queryKey: ["clientDiscoveryStatus", user?.person_id, userRoleLower], // Added userRoleLower to key
     queryFn: async () => {
       if (userRoleLower !== 'client' || !user?.person_id) {
-        return {
-            person_id: user?.person_id || 0,
-            plan_type: userRoleLower || 'unknown', 
-            daily_discoveries_used: 0,
-            daily_discovery_allowance: Infinity,
-            weekly_discoveries_used: 0,
-            weekly_discovery_allowance: Infinity,
-            can_discover_today: true,
-            can_discover_this_week: true,
-        };
+        return { person_id: user?.person_id || 0, plan_type: userRoleLower || 'unknown', ...UNLIMITED_DISCOVERY_STATUS };
       }
-      // Temporarily return default values until backend endpoint is ready
+      const response = await apiRequest("GET", `/client/discovery-status`);
+      if (!response.ok) throw new Error("Failed to fetch discovery status");
+      const data = await response.json();
+      // JSON has no Infinity; the backend sends null for an unlimited allowance
       return {
-          person_id: user?.person_id || 0,
-          plan_type: 'client', 
-          daily_discoveries_used: 0,
-          daily_discovery_allowance: Infinity,
-          weekly_discoveries_used: 0,
-          weekly_discovery_allowance: Infinity,
-          can_discover_today: true,
-          can_discover_this_week: true,
+        ...data,
+        daily_discovery_allowance: data.daily_discovery_allowance ?? Infinity,
+        weekly_discovery_allowance: data.weekly_discovery_allowance ?? Infinity,
       };
-      // TODO: Re-enable when backend endpoint is ready
-      // const response = await apiRequest("GET", `/client/discovery-status`);
-      // if (!response.ok) throw new Error("Failed to fetch discovery status");
-      // return response.json();
     },
     enabled: !!user && !authLoading,
   });
@@ -126,7 +206,11 @@ export default function PodcastDiscovery() {
   const clientDiscoverPreviewMutation = useMutation({
     mutationFn: async (campaignId: string) => {
           const response = await apiRequest("POST", `/client/client/campaigns/${campaignId}/discover-preview`, {});
-        if (!response.ok) { const errorData = await response.json().catch(() => ({detail: "Failed to get discovery preview"})); throw new Error(errorData.detail);}
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({detail: "Failed to get discovery preview"}));
+          if (response.status === 429) refetchDiscoveryStatus(); // Quota was used up elsewhere; refresh the meter
+          throw new Error(errorData.detail);
+        }
         return response.json();
     },
     onSuccess: (data: PodcastPreview[]) => {
@@ -238,16 +322,15 @@ export default function PodcastDiscovery() {
     }
 
     setStaffDiscoveredMatches([]); 
-    setSortOrder('desc'); 
     staffAdminDiscoverForCampaignMutation.mutate(mutationParams);
   };
 
-  const sortedStaffDiscoveredMatches = [...staffDiscoveredMatches].sort((a, b) => {
-    if (sortOrder === 'none') return 0;
-    const scoreA = a.match_score ?? -1; // Treat null/undefined as lowest score
-    const scoreB = b.match_score ?? -1;
-    return sortOrder === 'desc' ? scoreB - scoreA : scoreA - scoreB;
-  });
+  const staffFacetCounts = getFacetCounts(staffDiscoveredMatches, filters, toFacetableMatch);
+  const sortedStaffDiscoveredMatches = sortFacetItems(
+    applyFacetFilters(staffDiscoveredMatches, filters, toFacetableMatch),
+    filters.sort,
+    toFacetableMatch,
+  );
 
   const handleDiscoveryComplete = () => {
     setShowProgressTracker(false);
@@ -303,13 +386,15 @@ export default function PodcastDiscovery() {
                     ))}
                 </SelectContent>
               </Select>
-              {discoveryStatus && (
-                <div className="text-sm text-gray-600 border p-3 rounded-md bg-gray-50">
-                    <p>Daily Discoveries: {discoveryStatus.daily_discoveries_used} / {discoveryStatus.daily_discovery_allowance === Infinity ? 'Unlimited' : discoveryStatus.daily_discovery_allowance}</p>
-                    <p>Weekly Discoveries: {discoveryStatus.weekly_discoveries_used} / {discoveryStatus.weekly_discovery_allowance === Infinity ? 'Unlimited' : discoveryStatus.weekly_discovery_allowance}</p>
-                    {!discoveryStatus.can_discover_today && <p className="text-orange-600">Daily limit reached.</p>}
-                    {!discoveryStatus.can_discover_this_week && <p className="text-red-600">Weekly limit reached.</p>}
-                </div>
+              {discoveryStatus && <DiscoveryUsageMeter status={discoveryStatus} onReset={() => refetchDiscoveryStatus()} />}
+              {discoveryStatus && !canClientDiscover && discoveryStatus.plan_type === 'free' && (
+                <UpgradePrompt
+                  variant="inline"
+                  title="Discovery Limit Reached"
+                  message={`You've used all of your ${discoveryStatus.can_discover_this_week ? 'daily' : 'weekly'} podcast discoveries on the free plan. Upgrade to discover more podcasts without waiting.`}
+                  features={['Higher daily and weekly discovery limits', 'Full reviews by our team']}
+                  upgradeUrl={discoveryStatus.upgrade_url || undefined}
+                />
               )}
               <Button onClick={handleClientDiscover} disabled={!selectedCampaignId || clientDiscoverPreviewMutation.isPending || !canClientDiscover} className="w-full sm:w-auto bg-primary text-primary-foreground">
                 {clientDiscoverPreviewMutation.isPending ? <><RefreshCw className="mr-2 h-4 w-4 animate-spin"/>Searching...</> : <><Lightbulb className="mr-2 h-4 w-4"/>Find Podcast Previews</>}
@@ -335,9 +420,20 @@ export default function PodcastDiscovery() {
                     </Card>
                 ))}
                  {selectedForReview.size > 0 && (
-                    <Button onClick={handleClientRequestReview} disabled={requestReviewMutation.isPending} className="w-full sm:w-auto bg-green-600 hover:bg-green-700 text-white mt-4">
-                        {requestReviewMutation.isPending ? "Submitting..." : <><Send className="mr-2 h-4 w-4"/>Request Full Review ({selectedForReview.size} Selected)</>}
-                    </Button>
+                    <div className="flex flex-col sm:flex-row gap-2 mt-4">
+                      <Button onClick={handleClientRequestReview} disabled={requestReviewMutation.isPending} className="w-full sm:w-auto bg-green-600 hover:bg-green-700 text-white">
+                          {requestReviewMutation.isPending ? "Submitting..." : <><Send className="mr-2 h-4 w-4"/>Request Full Review ({selectedForReview.size} Selected)</>}
+                      </Button>
+                      {/* Previews aren't matches yet, so the comparison is read-only here */}
+                      <Button
+                        variant="outline"
+                        className="w-full sm:w-auto"
+                        disabled={selectedForReview.size < MIN_COMPARISON_ITEMS || selectedForReview.size > MAX_COMPARISON_ITEMS}
+                        onClick={() => setIsPreviewComparisonOpen(true)}
+                      >
+                        <Columns className="mr-2 h-4 w-4"/>Compare Selected
+                      </Button>
+                    </div>
                 )}
               </CardContent>
             </Card>
@@ -404,14 +500,32 @@ export default function PodcastDiscovery() {
                 >
                   {staffAdminDiscoverForCampaignMutation.isPending ? <><RefreshCw className="mr-2 h-4 w-4 animate-spin"/>Starting Discovery...</> : <><Search className="mr-2 h-4 w-4"/>Run Discovery for Campaign</>}
                 </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setIsAddPodcastOpen(true)}
+                  disabled={!selectedCampaignId}
+                  className="w-full sm:w-auto flex-shrink-0"
+                >
+                  <Plus className="mr-2 h-4 w-4"/>Add Podcast Manually
+                </Button>
               </div>
               <p className="text-xs text-gray-500">
                 Automated discovery pipeline: Podcasts will be discovered → AI analysis → quality vetting → match creation → review tasks generated.
-                Leave Max Matches blank for default behavior (~50 matches).
+                Leave Max Matches blank for default behavior (~50 matches). To add specific shows, use Add Podcast Manually with RSS, Apple Podcasts or Spotify links, or a CSV.
               </p>
             </CardContent>
           </Card>
 
+          {selectedCampaignId && (
+            <AddPodcastDialog
+              open={isAddPodcastOpen}
+              onOpenChange={setIsAddPodcastOpen}
+              campaignId={selectedCampaignId}
+              campaignName={clientCampaigns.find(c => c.campaign_id === selectedCampaignId)?.campaign_name}
+              onPipelineStarted={() => setShowProgressTracker(true)}
+            />
+          )}
+
           {/* Progress Tracker Component */}
           {showProgressTracker && selectedCampaignId && (
             <DiscoveryProgressTracker 
@@ -443,33 +557,54 @@ export default function PodcastDiscovery() {
           {staffDiscoveredMatches.length > 0 && (
             <Card>
               <CardHeader>
-                <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center">
-                  <div>
-                    <CardTitle>Discovery Results & Suggestions Created ({staffDiscoveredMatches.length})</CardTitle>
-                    <CardDescription>
-                      Displaying matches for '{clientCampaigns.find(c => c.campaign_id === selectedCampaignId)?.campaign_name || 'Selected Campaign'}'.
-                    </CardDescription>
-                  </div>
-                  <div className="mt-2 sm:mt-0">
-                    <Select value={sortOrder} onValueChange={(value) => setSortOrder(value as typeof sortOrder)}>
-                      <SelectTrigger className="w-full sm:w-[180px] text-xs h-9">
-                        <SelectValue placeholder="Sort by score" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="desc">Score: High to Low</SelectItem>
-                        <SelectItem value="asc">Score: Low to High</SelectItem>
-                        <SelectItem value="none">Default Order</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
+                <CardTitle>Discovery Results & Suggestions Created ({staffDiscoveredMatches.length})</CardTitle>
+                <CardDescription>
+                  Displaying matches for '{clientCampaigns.find(c => c.campaign_id === selectedCampaignId)?.campaign_name || 'Selected Campaign'}'.
+                </CardDescription>
+                <div className="pt-3">
+                  <FacetPanel
+                    filters={filters}
+                    counts={staffFacetCounts}
+                    onChange={setFilters}
+                    onClear={clearFilters}
+                    shareUrl={shareUrl}
+                    sortOptions={STAFF_SORT_OPTIONS}
+                    totalCount={staffDiscoveredMatches.length}
+                  />
                 </div>
               </CardHeader>
               <CardContent className="space-y-3 max-h-[70vh] overflow-y-auto pr-2">
-                {sortedStaffDiscoveredMatches.map(match => ( 
-                    <Card key={match.match_id} className="p-4 text-sm border rounded-lg shadow-sm hover:shadow-md transition-shadow">
+                {sortedStaffDiscoveredMatches.length === 0 && (
+                  <p className="text-sm text-gray-500 text-center py-6">No results match these filters.</p>
+                )}
+                {sortedStaffDiscoveredMatches.map(match => {
+                    const blockEntry = findBlocklistMatch(blocklist, {
+                      media_id: match.media_id,
+                      host_names: match.host_names,
+                      website: match.media_website,
+                      contact_email: match.contact_email,
+                      campaign_id: match.campaign_id,
+                    });
+                    return (
+                    <Card key={match.match_id} className={`p-4 text-sm border rounded-lg shadow-sm hover:shadow-md transition-shadow ${blockEntry ? 'border-red-200 bg-red-50/50' : ''}`}>
                         <div className="flex flex-col sm:flex-row justify-between">
                             <div className="flex-1 mb-2 sm:mb-0">
-                                <h4 className="font-semibold text-gray-800">{match.media_name || `Media ID: ${match.media_id}`}</h4>
+                                <div className="flex items-center gap-3">
+                                    <h4 className="font-semibold text-gray-800">{match.media_name || `Media ID: ${match.media_id}`}</h4>
+                                    <CompareToggle
+                                        id={`compare-discovered-${match.match_id}`}
+                                        checked={comparison.isSelected(match.media_id)}
+                                        onCheckedChange={() => comparison.toggle({
+                                            media_id: match.media_id,
+                                            media_name: match.media_name,
+                                            match_id: match.match_id,
+                                            campaign_id: match.campaign_id,
+                                            status: match.status,
+                                            vetting_score: match.vetting_score,
+                                            matched_keywords: match.matched_keywords,
+                                        })}
+                                    />
+                                </div>
                                 <p className="text-xs text-gray-500">
                                     Campaign: {match.campaign_name || 'N/A'} (Client: {match.client_name || 'N/A'})
                                 </p>
@@ -483,6 +618,11 @@ export default function PodcastDiscovery() {
                                         <ExternalLink className="inline h-3 w-3 mr-1"/>Visit Website
                                     </a>
                                 )}
+                                {blockEntry && (
+                                    <p className="text-xs text-red-700 font-medium mt-1 flex items-start gap-1">
+                                        <Ban className="h-3.5 w-3.5 mt-px flex-shrink-0"/>{describeBlocklistEntry(blockEntry)}
+                                    </p>
+                                )}
                             </div>
                             <div className="flex-shrink-0 sm:text-right">
                                 {typeof match.match_score === 'number' && (
@@ -527,13 +667,37 @@ export default function PodcastDiscovery() {
                             </Link>
                         </div>
                     </Card>
-                ))}
+                    );
+                })}
               </CardContent>
             </Card>
           )}
         </>
       )}
 
+      <ComparisonBar
+        items={comparison.items}
+        onRemove={comparison.toggle}
+        onCompare={() => comparison.setIsOpen(true)}
+        onClear={comparison.clear}
+      />
+      <PodcastComparisonDialog
+        open={comparison.isOpen}
+        onOpenChange={comparison.setIsOpen}
+        items={comparison.items}
+        onItemDecided={(item, decision) => {
+          comparison.update(item.media_id, { status: decision });
+          setStaffDiscoveredMatches(prev => prev.map(match => (match.media_id === item.media_id ? { ...match, status: decision } : match)));
+        }}
+      />
+      <PodcastComparisonDialog
+        open={isPreviewComparisonOpen}
+        onOpenChange={setIsPreviewComparisonOpen}
+        items={clientDiscoveredPodcastPreviews
+          .filter(podcast => selectedForReview.has(podcast.media_id))
+          .map(podcast => ({ media_id: podcast.media_id, media_name: podcast.name }))}
+        allowDecisions={false}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -1,7 +1,7 @@
 // client/src/pages/Questionnaire.tsx
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, createContext, useContext } from "react";
 import { useQuery, useMutation, useQueryClient as useTanstackQueryClient } from "@tanstack/react-query";
-import { useForm } from "react-hook-form";
+import { get, useForm, useWatch, type Path, type PathValue } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
@@ -13,7 +13,7 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient as appQueryClient } from "@/lib/queryClient";
-import { ClipboardList, CheckCircle, Save, AlertTriangle, Info, Plus, X, Upload, ChevronLeft, ChevronRight, MessageSquare, FileText } from "lucide-react";
+import { ClipboardList, CheckCircle, Save, AlertTriangle, Info, Plus, X, Upload, ChevronLeft, ChevronRight, MessageSquare, FileText, Sparkles } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
@@ -21,6 +21,11 @@ import { Progress } from "@/components/ui/progress";
 import { ImageUpload } from "@/components/ImageUpload";
 import { ChatInterface } from "@/components/chat/ChatInterface";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  mapChatDataToQuestionnaire, getChatFieldUpdates, isEmptyFieldValue, sameFieldValue, loadAiFilledFields, saveAiFilledFields,
+  type ChatProfileData, type QuestionnaireFieldValues,
+} from "@/lib/questionnaireSync";
+import { isWebUrl } from "@/lib/testimonials";
 
 // Define Campaign interface to match backend (simplified for this context)
 interface ClientCampaign {
@@ -49,6 +54,14 @@ const speakingClipSchema = z.object({
   link: z.string().url("Must be a valid URL")
 });
 
+// Testimonial Entry (becomes a structured testimonial on the media kit)
+const testimonialSchema = z.object({
+  quote: z.string().min(1, "Quote is required"),
+  author: z.string().min(1, "Author is required"),
+  role: z.string().optional(),
+  link: z.string().url("Must be a valid URL").refine(isWebUrl, "Link must start with http:// or https://").optional().or(z.literal(""))
+});
+
 // Asset Entry
 const assetSchema = z.object({
   title: z.string().min(1, "Title is required"),
@@ -87,7 +100,8 @@ const questionnaireSchema = z.object({
     loveToBeAsked: z.string().optional()   // For "Sample Questions" section
   }),
   socialProof: z.object({
-    testimonials: z.string().optional(), // For "Testimonials" section
+    testimonialEntries: z.array(testimonialSchema).optional(), // Structured testimonials for the media kit cards
+    testimonials: z.string().optional(), // Free-text extras for the "Testimonials" section
     // notableStats from existing schema can be used for general stats if needed beyond At-a-Glance
     notableStats: z.string().optional() 
   }),
@@ -107,6 +121,7 @@ const questionnaireSchema = z.object({
 });
 
 type QuestionnaireFormData = z.infer<typeof questionnaireSchema>;
+type QuestionnairePath = Path<QuestionnaireFormData>;
 
 // Platform options for social media
 const socialPlatforms = [
@@ -127,6 +142,9 @@ const sections = [
   { id: 'finalNotes', title: 'Final Notes', description: 'Any additional information or questions.' }
 ];
 
+// Fields the chat assistant filled in, with the value it wrote; shared with the section components for the "AI-filled" marker
+const AiFilledContext = createContext<QuestionnaireFieldValues<QuestionnairePath>>({});
+
 interface QuestionnaireProps {
   campaignId: string | null;
   onSuccessfulSubmit?: () => void;
@@ -159,6 +177,13 @@ export default function Questionnaire({ campaignId, onSuccessfulSubmit, isOnboar
     }
   }, [mode, campaignId]);
 
+  const [aiFilled, setAiFilled] = useState<QuestionnaireFieldValues<QuestionnairePath>>({});
+  const [chatDraft, setChatDraft] = useState<Record<string, unknown> | null>(null);
+
+  useEffect(() => {
+    setAiFilled(campaignId ? loadAiFilledFields(campaignId) : {});
+  }, [campaignId]);
+
   const { data: existingQuestionnaire, isLoading: isLoadingQuestionnaire, refetch: refetchQuestionnaire } = useQuery<QuestionnaireFormData | null>({
     queryKey: ["campaignQuestionnaireData", campaignId],
     queryFn: async () => {
@@ -206,7 +231,7 @@ export default function Questionnaire({ campaignId, onSuccessfulSubmit, isOnboar
       mediaExperience: { previousAppearances: [], speakingClips: [] },
       suggestedTopics: { topics: "", keyStoriesOrMessages: "" },
       sampleQuestions: { frequentlyAsked: "", loveToBeAsked: "" },
-      socialProof: { testimonials: "", notableStats: "" },
+      socialProof: { testimonialEntries: [], testimonials: "", notableStats: "" },
       assets: { otherAssets: [] },
       promotionPrefs: { preferredIntro: "", itemsToPromote: "", bestContactForHosts: "" },
       finalNotes: { idealPodcastDescription: "", anythingElse: "", questionsOrConcerns: "" }
@@ -225,6 +250,33 @@ export default function Questionnaire({ campaignId, onSuccessfulSubmit, isOnboar
     }
   });
 
+  // Chat -> form: copy what the assistant has extracted so far into the fields the client hasn't answered themselves
+  const handleChatExtractedData = useCallback((data: ChatProfileData) => {
+    if (!campaignId) return;
+    const updates = getChatFieldUpdates<QuestionnairePath>(mapChatDataToQuestionnaire(data), path => form.getValues(path), aiFilled);
+    if (Object.keys(updates).length === 0) return;
+    (Object.entries(updates) as [QuestionnairePath, PathValue<QuestionnaireFormData, QuestionnairePath>][])
+      .forEach(([path, value]) => form.setValue(path, value, { shouldDirty: true }));
+    const next = { ...aiFilled, ...updates };
+    setAiFilled(next);
+    saveAiFilledFields(campaignId, next);
+  }, [aiFilled, campaignId, form]);
+
+  // Form -> chat: persist the draft and hand the answered sections to the assistant so it can skip them
+  const handleModeChange = (value: string) => {
+    if (!value || value === mode) return;
+    if (value === 'chat') {
+      const values = form.getValues();
+      if (form.formState.isDirty && campaignId) saveDraftMutation.mutate(values);
+      const answered = Object.entries(values).filter(([, section]) =>
+        section && typeof section === 'object' && Object.values(section).some(v => !isEmptyFieldValue(v)));
+      setChatDraft(answered.length > 0 ? Object.fromEntries(answered) : null);
+    } else if (form.formState.isDirty && campaignId) {
+      saveDraftMutation.mutate(form.getValues());
+    }
+    setMode(value as 'form' | 'chat');
+  };
+
   // Auto-save every 30 seconds if form is dirty
   useEffect(() => {
     const interval = setInterval(() => {
@@ -274,7 +326,7 @@ export default function Questionnaire({ campaignId, onSuccessfulSubmit, isOnboar
         mediaExperience: { previousAppearances: [], speakingClips: [] },
         suggestedTopics: { topics: "", keyStoriesOrMessages: "" },
         sampleQuestions: { frequentlyAsked: "", loveToBeAsked: "" },
-        socialProof: { testimonials: "", notableStats: "" },
+        socialProof: { testimonialEntries: [], testimonials: "", notableStats: "" },
         assets: { otherAssets: [] },
         promotionPrefs: { preferredIntro: "", itemsToPromote: "", bestContactForHosts: "" },
         finalNotes: { idealPodcastDescription: "", anythingElse: "", questionsOrConcerns: "" }
@@ -359,6 +411,16 @@ export default function Questionnaire({ campaignId, onSuccessfulSubmit, isOnboar
     form.setValue('mediaExperience.speakingClips', current.filter((_, i) => i !== index));
   };
 
+  const addTestimonialEntry = () => {
+    const current = form.getValues('socialProof.testimonialEntries') || [];
+    form.setValue('socialProof.testimonialEntries', [...current, { quote: "", author: "", role: "", link: "" }]);
+  };
+
+  const removeTestimonialEntry = (index: number) => {
+    const current = form.getValues('socialProof.testimonialEntries') || [];
+    form.setValue('socialProof.testimonialEntries', current.filter((_, i) => i !== index));
+  };
+
   const addOtherAsset = () => {
     const current = form.getValues('assets.otherAssets') || [];
     form.setValue('assets.otherAssets', [...current, { title: "", url: "" }]);
@@ -460,7 +522,7 @@ export default function Questionnaire({ campaignId, onSuccessfulSubmit, isOnboar
                 Choose how you'd like to provide your information
               </CardDescription>
             </div>
-            <ToggleGroup type="single" value={mode} onValueChange={(value) => value && setMode(value as 'form' | 'chat')}>
+            <ToggleGroup type="single" value={mode} onValueChange={handleModeChange}>
               <ToggleGroupItem value="form" aria-label="Form mode">
                 <FileText className="mr-2 h-4 w-4" />
                 Questionnaire
@@ -490,6 +552,9 @@ export default function Questionnaire({ campaignId, onSuccessfulSubmit, isOnboar
                   <p className="text-sm text-green-700">
                     Just have a natural conversation! The AI will guide you through the process. Remember, you can edit everything in your media kit after it's generated, so don't stress about perfect answers.
                   </p>
+                  <p className="text-sm text-green-700">
+                    Your answers carry over to the questionnaire, so you can switch to the form at any point to review or finish them.
+                  </p>
                 </div>
               </div>
             </CardContent>
@@ -499,6 +564,8 @@ export default function Questionnaire({ campaignId, onSuccessfulSubmit, isOnboar
             campaignId={campaignId} 
             onComplete={handleChatComplete}
             isOnboarding={isOnboarding}
+            questionnaireDraft={chatDraft}
+            onExtractedDataChange={handleChatExtractedData}
           />
         </div>
       ) : (
@@ -544,7 +611,12 @@ export default function Questionnaire({ campaignId, onSuccessfulSubmit, isOnboar
 
       {/* Main Form */}
       <Form {...form}>
+        <AiFilledContext.Provider value={aiFilled}>
         <form className="space-y-6">
+          {Object.keys(aiFilled).length > 0 && (
+            <ChatSyncSummary aiFilled={aiFilled} currentSection={currentSection} onSelectSection={setCurrentSection} />
+          )}
+
           <Card>
             <CardHeader>
               <CardTitle>{currentSectionData.title}</CardTitle>
@@ -558,7 +630,7 @@ export default function Questionnaire({ campaignId, onSuccessfulSubmit, isOnboar
               {currentSection === 3 && <MediaExperienceSection form={form} addPreviousAppearance={addPreviousAppearance} removePreviousAppearance={removePreviousAppearance} addSpeakingClip={addSpeakingClip} removeSpeakingClip={removeSpeakingClip} />}
               {currentSection === 4 && <SuggestedTopicsSection form={form} />}
               {currentSection === 5 && <SampleQuestionsSection form={form} />}
-              {currentSection === 6 && <SocialProofSection form={form} />}
+              {currentSection === 6 && <SocialProofSection form={form} addTestimonialEntry={addTestimonialEntry} removeTestimonialEntry={removeTestimonialEntry} />}
               {currentSection === 7 && <AssetsSection form={form} addOtherAsset={addOtherAsset} removeOtherAsset={removeOtherAsset} />}
               {currentSection === 8 && <PromotionPrefsSection form={form} />}
               {currentSection === 9 && <FinalNotesSection form={form} />}
@@ -623,6 +695,7 @@ export default function Questionnaire({ campaignId, onSuccessfulSubmit, isOnboar
             </div>
           </div>
         </form>
+        </AiFilledContext.Provider>
       </Form>
         </>
       )}
@@ -630,6 +703,84 @@ export default function Questionnaire({ campaignId, onSuccessfulSubmit, isOnboar
   );
 }
 
+// Summarizes the chat hand-off: how many fields the assistant filled and which sections still need the client
+function ChatSyncSummary({ aiFilled, currentSection, onSelectSection }: {
+  aiFilled: QuestionnaireFieldValues<QuestionnairePath>;
+  currentSection: number;
+  onSelectSection: (index: number) => void;
+}) {
+  const values = useWatch<QuestionnaireFormData>();
+  const filledCount = Object.entries(aiFilled).filter(([path, value]) => sameFieldValue(get(values, path), value)).length;
+
+  const sectionStates = sections.map((section, index) => {
+    const sectionValues = values[section.id as keyof QuestionnaireFormData];
+    const schema = questionnaireSchema.shape[section.id as keyof QuestionnaireFormData];
+    const isEmpty = !sectionValues || Object.values(sectionValues).every(v => isEmptyFieldValue(v));
+    return { ...section, index, incomplete: !schema.safeParse(sectionValues).success, isEmpty };
+  });
+  const incomplete = sectionStates.filter(section => section.incomplete);
+  const notCovered = sectionStates.filter(section => !section.incomplete && section.isEmpty);
+
+  const renderSectionButton = (section: typeof sectionStates[number], variant: 'destructive' | 'outline') => (
+    <Button
+      key={section.id}
+      type="button"
+      size="sm"
+      variant={section.index === currentSection ? 'default' : variant}
+      className="h-7 text-xs"
+      onClick={() => onSelectSection(section.index)}
+    >
+      {section.title}
+    </Button>
+  );
+
+  return (
+    <Card className="bg-purple-50 border-purple-200">
+      <CardContent className="pt-6 space-y-3">
+        <div className="flex items-start space-x-3">
+          <Sparkles className="h-5 w-5 text-purple-600 mt-0.5 flex-shrink-0" />
+          <div className="space-y-1">
+            <p className="text-sm font-medium text-purple-900">
+              {filledCount} field{filledCount !== 1 ? 's were' : ' was'} filled from your chat with the assistant
+            </p>
+            <p className="text-sm text-purple-700">
+              Look for the AI-filled marker and adjust anything that doesn't sound like you. Editing a field keeps your version.
+            </p>
+          </div>
+        </div>
+        {incomplete.length > 0 && (
+          <div className="space-y-1.5">
+            <p className="text-xs font-medium text-red-700 flex items-center gap-1">
+              <AlertTriangle className="h-3.5 w-3.5" />
+              Still needed before you can generate your media kit
+            </p>
+            <div className="flex flex-wrap gap-2">{incomplete.map(section => renderSectionButton(section, 'destructive'))}</div>
+          </div>
+        )}
+        {notCovered.length > 0 && (
+          <div className="space-y-1.5">
+            <p className="text-xs font-medium text-gray-600">Optional sections the chat didn't cover</p>
+            <div className="flex flex-wrap gap-2">{notCovered.map(section => renderSectionButton(section, 'outline'))}</div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Shown next to a field label while the field still holds the value the chat assistant put there
+function AiFilledMarker({ name }: { name: QuestionnairePath }) {
+  const aiFilled = useContext(AiFilledContext);
+  const value = useWatch<QuestionnaireFormData>({ name });
+  if (!(name in aiFilled) || !sameFieldValue(value, aiFilled[name])) return null;
+  return (
+    <Badge variant="secondary" className="ml-2 bg-purple-100 text-purple-800 text-xs font-normal">
+      <Sparkles className="w-3 h-3 mr-1" />
+      AI-filled
+    </Badge>
+  );
+}
+
 // Section Components
 function ContactInfoSection({ form, socialPlatforms, addSocialMedia, removeSocialMedia }: any) {
   const socialMediaFields = form.watch('contactInfo.socialMedia') || [];
@@ -639,14 +790,14 @@ function ContactInfoSection({ form, socialPlatforms, addSocialMedia, removeSocia
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <FormField control={form.control} name="contactInfo.fullName" render={({ field }) => (
           <FormItem>
-            <FormLabel>Full Name *</FormLabel>
+            <FormLabel>Full Name *<AiFilledMarker name="contactInfo.fullName" /></FormLabel>
             <FormControl><Input placeholder="John Doe" {...field} /></FormControl>
             <FormMessage />
           </FormItem>
         )} />
         <FormField control={form.control} name="contactInfo.email" render={({ field }) => (
           <FormItem>
-            <FormLabel>Email Address *</FormLabel>
+            <FormLabel>Email Address *<AiFilledMarker name="contactInfo.email" /></FormLabel>
             <FormControl><Input type="email" placeholder="you@example.com" {...field} /></FormControl>
             <FormMessage />
           </FormItem>
@@ -656,14 +807,14 @@ function ContactInfoSection({ form, socialPlatforms, addSocialMedia, removeSocia
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <FormField control={form.control} name="contactInfo.phone" render={({ field }) => (
           <FormItem>
-            <FormLabel>Phone Number (Optional)</FormLabel>
+            <FormLabel>Phone Number (Optional)<AiFilledMarker name="contactInfo.phone" /></FormLabel>
             <FormControl><Input type="tel" placeholder="555-1234" {...field} /></FormControl>
             <FormMessage />
           </FormItem>
         )} />
         <FormField control={form.control} name="contactInfo.website" render={({ field }) => (
           <FormItem>
-            <FormLabel>Your Primary Website (Optional)</FormLabel>
+            <FormLabel>Your Primary Website (Optional)<AiFilledMarker name="contactInfo.website" /></FormLabel>
             <FormControl><Input type="url" placeholder="https://yourwebsite.com" {...field} /></FormControl>
             <FormMessage />
           </FormItem>
@@ -671,7 +822,7 @@ function ContactInfoSection({ form, socialPlatforms, addSocialMedia, removeSocia
       </div>
       
       <div>
-        <FormLabel className="text-base font-medium">Social Media Handles</FormLabel>
+        <FormLabel className="text-base font-medium">Social Media Handles<AiFilledMarker name="contactInfo.socialMedia" /></FormLabel>
         <FormDescription>Add your social media profiles to help podcast hosts find and promote you</FormDescription>
         
         <div className="mt-3 space-y-3">
@@ -723,7 +874,7 @@ function ProfessionalBioSection({ form }: any) {
     <div className="space-y-4">
       <FormField control={form.control} name="professionalBio.aboutWork" render={({ field }) => (
         <FormItem>
-          <FormLabel>About You & Your Work *</FormLabel>
+          <FormLabel>About You & Your Work *<AiFilledMarker name="professionalBio.aboutWork" /></FormLabel>
           <FormDescription>
             In a few sentences, tell us about yourself and your work. Don't worry about wording—just share what you do and what you're passionate about.
           </FormDescription>
@@ -740,7 +891,7 @@ function ProfessionalBioSection({ form }: any) {
 
       <FormField control={form.control} name="professionalBio.expertiseTopics" render={({ field }) => (
         <FormItem>
-          <FormLabel>Main Areas of Expertise *</FormLabel>
+          <FormLabel>Main Areas of Expertise *<AiFilledMarker name="professionalBio.expertiseTopics" /></FormLabel>
           <FormDescription>
             What are your main areas of expertise or topics you love to talk about? (List a few, e.g., SaaS Growth, Leadership, AI in Marketing)
           </FormDescription>
@@ -757,7 +908,7 @@ function ProfessionalBioSection({ form }: any) {
 
       <FormField control={form.control} name="professionalBio.achievements" render={({ field }) => (
         <FormItem>
-          <FormLabel>Unique Experiences or Achievements (Optional)</FormLabel>
+          <FormLabel>Unique Experiences or Achievements (Optional)<AiFilledMarker name="professionalBio.achievements" /></FormLabel>
           <FormDescription>
             Are there any unique experiences or achievements you'd like to highlight? (e.g., awards won, significant projects, unique background)
           </FormDescription>
@@ -781,7 +932,7 @@ function AtAGlanceStatsSection({ form }: any) {
     <div className="space-y-4">
       <FormField control={form.control} name="atAGlanceStats.keynoteEngagements" render={({ field }) => (
         <FormItem>
-          <FormLabel>Keynote Engagements (Optional)</FormLabel>
+          <FormLabel>Keynote Engagements (Optional)<AiFilledMarker name="atAGlanceStats.keynoteEngagements" /></FormLabel>
           <FormDescription>e.g., "150+" or "Over 100 keynotes delivered"</FormDescription>
           <FormControl><Input placeholder="150+" {...field} /></FormControl>
           <FormMessage />
@@ -790,7 +941,7 @@ function AtAGlanceStatsSection({ form }: any) {
 
       <FormField control={form.control} name="atAGlanceStats.yearsOfExperience" render={({ field }) => (
         <FormItem>
-          <FormLabel>Years of Experience (Optional)</FormLabel>
+          <FormLabel>Years of Experience (Optional)<AiFilledMarker name="atAGlanceStats.yearsOfExperience" /></FormLabel>
           <FormDescription>In your primary field, e.g., "10+" or "Over a decade"</FormDescription>
           <FormControl><Input placeholder="10+" {...field} /></FormControl>
           <FormMessage />
@@ -799,7 +950,7 @@ function AtAGlanceStatsSection({ form }: any) {
 
       <FormField control={form.control} name="atAGlanceStats.emailSubscribers" render={({ field }) => (
         <FormItem>
-          <FormLabel>Email Subscribers (Optional)</FormLabel>
+          <FormLabel>Email Subscribers (Optional)<AiFilledMarker name="atAGlanceStats.emailSubscribers" /></FormLabel>
           <FormDescription>If applicable, e.g., "100k+" or "Community of 100,000+"</FormDescription>
           <FormControl><Input placeholder="100k+" {...field} /></FormControl>
           <FormMessage />
@@ -816,7 +967,7 @@ function MediaExperienceSection({ form, addPreviousAppearance, removePreviousApp
   return (
     <div className="space-y-6">
       <div>
-        <FormLabel className="text-base font-medium">Previous Podcast Appearances</FormLabel>
+        <FormLabel className="text-base font-medium">Previous Podcast Appearances<AiFilledMarker name="mediaExperience.previousAppearances" /></FormLabel>
         <FormDescription>
           Have you been a guest on any podcasts or media before? If yes, please share links to your favorite appearances.
         </FormDescription>
@@ -899,7 +1050,7 @@ function SuggestedTopicsSection({ form }: any) {
     <div className="space-y-4">
       <FormField control={form.control} name="suggestedTopics.topics" render={({ field }) => (
         <FormItem>
-          <FormLabel>Potential Podcast Topics *</FormLabel>
+          <FormLabel>Potential Podcast Topics *<AiFilledMarker name="suggestedTopics.topics" /></FormLabel>
           <FormDescription>
             List 3-5 topics you'd be excited to discuss on a podcast. Be specific!
           </FormDescription>
@@ -916,7 +1067,7 @@ function SuggestedTopicsSection({ form }: any) {
 
       <FormField control={form.control} name="suggestedTopics.keyStoriesOrMessages" render={({ field }) => (
         <FormItem>
-          <FormLabel>Key Stories or Messages (Optional)</FormLabel>
+          <FormLabel>Key Stories or Messages (Optional)<AiFilledMarker name="suggestedTopics.keyStoriesOrMessages" /></FormLabel>
           <FormDescription>
             Are there any specific stories, lessons, or messages you want to share with listeners related to these topics?
           </FormDescription>
@@ -974,18 +1125,77 @@ function SampleQuestionsSection({ form }: any) {
   );
 }
 
-function SocialProofSection({ form }: any) {
+function SocialProofSection({ form, addTestimonialEntry, removeTestimonialEntry }: any) {
+  const testimonialEntries = form.watch('socialProof.testimonialEntries') || [];
+
   return (
     <div className="space-y-4">
+      <div>
+        <FormLabel className="text-base font-medium">Testimonials (Optional)</FormLabel>
+        <FormDescription>
+          Do you have testimonials or positive feedback from previous podcast hosts, clients, or audiences? Add each one with who said it and they'll appear as cards on your media kit.
+        </FormDescription>
+
+        <div className="mt-3 space-y-3">
+          {testimonialEntries.map((_: any, index: number) => (
+            <div key={index} className="border rounded-lg p-3 space-y-2">
+              <div className="flex gap-2 items-start">
+                <FormField control={form.control} name={`socialProof.testimonialEntries.${index}.quote`} render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormControl>
+                      <Textarea placeholder="'Sarah was an incredible guest - our audience loved her practical insights!'" rows={3} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+                <Button type="button" variant="outline" size="sm" onClick={() => removeTestimonialEntry(index)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                <FormField control={form.control} name={`socialProof.testimonialEntries.${index}.author`} render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input placeholder="Author (e.g., John Smith)" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+                <FormField control={form.control} name={`socialProof.testimonialEntries.${index}.role`} render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input placeholder="Role (e.g., Host, Marketing Mastery)" {...field} />
+                    </FormControl>
+                  </FormItem>
+                )} />
+                <FormField control={form.control} name={`socialProof.testimonialEntries.${index}.link`} render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input placeholder="https://podcast-or-episode-link.com" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <Button type="button" variant="outline" onClick={addTestimonialEntry} className="mt-3 flex items-center gap-2">
+          <Plus className="h-4 w-4" />
+          Add Testimonial
+        </Button>
+      </div>
+
       <FormField control={form.control} name="socialProof.testimonials" render={({ field }) => (
         <FormItem>
-          <FormLabel>Testimonials/Reviews (Optional)</FormLabel>
+          <FormLabel>Other Reviews or Links (Optional)</FormLabel>
           <FormDescription>
-            Do you have any testimonials, reviews, or positive feedback from previous podcast hosts, clients, or audiences? Please share them here or provide links.
+            Anything that doesn't fit a single quote, such as review pages or press mentions.
           </FormDescription>
           <FormControl>
             <Textarea 
-              placeholder="'Sarah was an incredible guest - our audience loved her practical insights and engaging stories. We saw our highest engagement rates after her episode!' - John Smith, Host of Marketing Mastery Podcast"
+              placeholder="• 4.9 stars from 120 reviews on Speaker Hub: https://...&#10;• Quoted in Inc. on remote team culture"
               rows={4}
               {...field} 
             />
@@ -1077,7 +1287,7 @@ function PromotionPrefsSection({ form }: any) {
     <div className="space-y-4">
       <FormField control={form.control} name="promotionPrefs.preferredIntro" render={({ field }) => (
         <FormItem>
-          <FormLabel>Preferred Introduction *</FormLabel>
+          <FormLabel>Preferred Introduction *<AiFilledMarker name="promotionPrefs.preferredIntro" /></FormLabel>
           <FormDescription>
             How would you like to be introduced on podcasts? (e.g., 'Founder of X, helping Y achieve Z', or a short, punchy intro)
           </FormDescription>
@@ -1094,7 +1304,7 @@ function PromotionPrefsSection({ form }: any) {
 
       <FormField control={form.control} name="promotionPrefs.itemsToPromote" render={({ field }) => (
         <FormItem>
-          <FormLabel>Items to Promote (Optional)</FormLabel>
+          <FormLabel>Items to Promote (Optional)<AiFilledMarker name="promotionPrefs.itemsToPromote" /></FormLabel>
           <FormDescription>
             Are there specific products, services, projects, or a book you want to promote during appearances?
           </FormDescription>
@@ -1111,7 +1321,7 @@ function PromotionPrefsSection({ form }: any) {
 
       <FormField control={form.control} name="promotionPrefs.bestContactForHosts" render={({ field }) => (
         <FormItem>
-          <FormLabel>Best Contact for Hosts *</FormLabel>
+          <FormLabel>Best Contact for Hosts *<AiFilledMarker name="promotionPrefs.bestContactForHosts" /></FormLabel>
           <FormDescription>
             What's the best way for podcast hosts to contact you or your team for booking inquiries?
           </FormDescription>
@@ -1145,7 +1355,7 @@ function FinalNotesSection({ form }: any) {
 
       <FormField control={form.control} name="finalNotes.idealPodcastDescription" render={({ field }) => (
         <FormItem>
-          <FormLabel className="text-base font-medium">Ideal Podcast Preferences (Optional)</FormLabel>
+          <FormLabel className="text-base font-medium">Ideal Podcast Preferences (Optional)<AiFilledMarker name="finalNotes.idealPodcastDescription" /></FormLabel>
           <FormDescription className="space-y-3">
             <div>
               Help us find your perfect podcast matches by describing shows that align with your expertise.
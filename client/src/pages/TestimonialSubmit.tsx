@@ -0,0 +1,162 @@
+// client/src/pages/TestimonialSubmit.tsx
+import { useEffect, useState, type ChangeEvent } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { CheckCircle, Clock, Link2Off, Loader2, Quote } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { fetchTestimonialRequest, submitTestimonial, type TestimonialSubmission } from "@/lib/testimonials";
+import type { TestimonialRequestInfo } from "@/types/mediaKit";
+
+const MAX_QUOTE_LENGTH = 600;
+
+function StatusCard({ icon: Icon, title, description }: { icon: typeof Quote; title: string; description: string }) {
+  return (
+    <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md shadow-xl">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-3 flex h-12 w-12 items-center justify-center rounded-full bg-primary/10">
+            <Icon className="h-6 w-6 text-primary" />
+          </div>
+          <CardTitle>{title}</CardTitle>
+          <CardDescription>{description}</CardDescription>
+        </CardHeader>
+      </Card>
+    </div>
+  );
+}
+
+// Public page a host reaches from the testimonial request email; no login, the token identifies the placement
+export default function TestimonialSubmit() {
+  const params = useParams<{ token: string }>();
+  const token = params.token;
+  const [form, setForm] = useState<Record<keyof TestimonialSubmission, string>>({
+    quote: "", author_name: "", author_role: "", media_url: "", avatar_url: "",
+  });
+
+  const { data: request, isLoading, error } = useQuery<TestimonialRequestInfo, Error>({
+    queryKey: ["testimonialRequest", token],
+    queryFn: () => fetchTestimonialRequest(token),
+    enabled: !!token,
+    retry: false,
+  });
+
+  useEffect(() => {
+    document.title = request ? `Testimonial for ${request.guest_name}` : "Share a Testimonial";
+    if (request) {
+      setForm(prev => ({
+        ...prev,
+        author_name: prev.author_name || request.host_name || "",
+        author_role: prev.author_role || (request.media_name ? `Host, ${request.media_name}` : ""),
+        media_url: prev.media_url || request.media_url || "",
+      }));
+    }
+  }, [request]);
+
+  const submitMutation = useMutation({
+    mutationFn: () => submitTestimonial(token, {
+      quote: form.quote.trim(),
+      author_name: form.author_name.trim(),
+      author_role: form.author_role.trim() || null,
+      media_url: form.media_url.trim() || null,
+      avatar_url: form.avatar_url.trim() || null,
+    }),
+  });
+
+  const setField = (field: keyof TestimonialSubmission) => (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4">
+        <Skeleton className="h-96 w-full max-w-lg rounded-lg" />
+      </div>
+    );
+  }
+
+  if (error || !request) {
+    return <StatusCard icon={Link2Off} title="This link is not valid" description={error?.message || "Please check the link you were sent."} />;
+  }
+
+  if (submitMutation.isSuccess || request.submitted) {
+    return (
+      <StatusCard
+        icon={CheckCircle}
+        title="Thank you!"
+        description={`Your testimonial for ${request.guest_name} has been received. It will appear on their media kit once reviewed.`}
+      />
+    );
+  }
+
+  if (request.expired) {
+    return <StatusCard icon={Clock} title="This link has expired" description="Testimonial links are time-limited. Reply to the email you received if you'd still like to share one." />;
+  }
+
+  const guestFirstName = request.guest_name.split(" ")[0];
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4">
+      <Card className="w-full max-w-lg shadow-xl">
+        <CardHeader className="text-center">
+          <Avatar className="mx-auto mb-3 h-16 w-16">
+            {request.guest_headshot_url && <AvatarImage src={request.guest_headshot_url} alt={request.guest_name} />}
+            <AvatarFallback><Quote className="h-6 w-6" /></AvatarFallback>
+          </Avatar>
+          <CardTitle>How was it having {request.guest_name} on {request.media_name || "your show"}?</CardTitle>
+          <CardDescription>A sentence or two is plenty. Once reviewed, it will appear on {guestFirstName}'s media kit.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              submitMutation.mutate();
+            }}
+          >
+            <div className="space-y-1">
+              <Label htmlFor="quote">Your testimonial *</Label>
+              <Textarea
+                id="quote"
+                rows={5}
+                maxLength={MAX_QUOTE_LENGTH}
+                placeholder={`What did your audience get out of the episode with ${guestFirstName}?`}
+                value={form.quote}
+                onChange={setField("quote")}
+                required
+              />
+              <p className="text-xs text-gray-500 text-right">{form.quote.length}/{MAX_QUOTE_LENGTH}</p>
+            </div>
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="author-name">Your name *</Label>
+                <Input id="author-name" value={form.author_name} onChange={setField("author_name")} required />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="author-role">Your role</Label>
+                <Input id="author-role" placeholder="Host, The Growth Show" value={form.author_role} onChange={setField("author_role")} />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="media-url">Link to the episode or podcast</Label>
+              <Input id="media-url" type="url" placeholder="https://" value={form.media_url} onChange={setField("media_url")} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="avatar-url">Photo URL (optional)</Label>
+              <Input id="avatar-url" type="url" placeholder="https://" value={form.avatar_url} onChange={setField("avatar_url")} />
+            </div>
+            {submitMutation.isError && <p className="text-sm text-red-600">{(submitMutation.error as Error).message}</p>}
+            <Button type="submit" className="w-full" disabled={!form.quote.trim() || !form.author_name.trim() || submitMutation.isPending}>
+              {submitMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Submit Testimonial
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
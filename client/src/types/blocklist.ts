@@ -0,0 +1,27 @@
+// Do-not-pitch blocklist types
+
+// What an entry is keyed on; 'host' matches a name in media.host_names, 'domain' the podcast website or contact email domain
+export type BlocklistMatchType = 'media' | 'host' | 'domain' | 'email';
+
+// GET /blocklist/
+export interface BlocklistEntry {
+  blocklist_id: number;
+  match_type: BlocklistMatchType;
+  value: string; // media_id as a string for 'media' entries
+  media_name?: string | null; // Display label for 'media' entries
+  campaign_id?: string | null; // null = agency-wide
+  campaign_name?: string | null;
+  reason: string;
+  expires_at?: string | null; // null = never expires
+  created_by_name?: string | null;
+  created_at: string;
+}
+
+export type BlocklistEntryInput = Pick<BlocklistEntry, 'match_type' | 'value' | 'campaign_id' | 'reason' | 'expires_at'>;
+
+// POST /blocklist/check-pitches
+export interface BlockedPitch {
+  pitch_gen_id: number;
+  media_name?: string | null;
+  entry: BlocklistEntry;
+}
@@ -0,0 +1,24 @@
+// Campaign record types
+
+// --- From podcast_outreach/api/schemas/campaign_schemas.py ---
+export interface Campaign { // CampaignInDB
+  campaign_id: string; // UUID string
+  person_id: number;
+  attio_client_id?: string | null; // UUID string
+  campaign_name: string;
+  campaign_type?: string | null;
+  campaign_bio?: string | null; // Link to GDoc or text
+  campaign_angles?: string | null; // Link to GDoc or text
+  campaign_keywords?: string[] | null;
+  compiled_social_posts?: string | null;
+  podcast_transcript_link?: string | null;
+  compiled_articles_link?: string | null;
+  mock_interview_trancript?: string | null;
+  // embedding is omitted
+  start_date?: string | null; // ISO date string
+  end_date?: string | null; // ISO date string
+  goal_note?: string | null;
+  media_kit_url?: string | null;
+  instantly_campaign_id?: string | null; // Added from your backend schema
+  created_at: string; // ISO datetime string
+}
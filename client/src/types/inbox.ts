@@ -85,6 +85,33 @@ export interface InboxFilters {
   date_to?: string;
 }
 
+export type InboxDateRange = 'today' | 'this_week' | 'last_7_days' | 'this_month';
+
+export interface SavedInboxView {
+  id: string;
+  name: string;
+  filters: InboxFilters;
+  date_range?: InboxDateRange; // Relative range resolved when the view is opened, overrides date_from/date_to
+  created_at?: string;
+}
+
+export interface InboxLabelRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: {
+    classification?: EmailClassification['category'];
+    min_confidence?: number; // 0-1
+    priority?: EmailClassification['priority'];
+    from_contains?: string;
+    subject_contains?: string;
+  };
+  actions: {
+    add_labels?: string[];
+    star?: boolean;
+  };
+}
+
 export interface PitchMetrics {
   total_sent: number;
   open_rate: number;
@@ -98,6 +125,19 @@ export interface PitchMetrics {
     accepted: number;
     rejected: number;
   };
+  by_template?: TemplatePitchMetrics[];
+}
+
+export interface TemplatePitchMetrics {
+  template_id: string;
+  ab_test_ids?: string[]; // A/B batches this template took part in
+  total_sent: number;
+  opened: number;
+  replied: number;
+  accepted: number;
+  open_rate: number;
+  reply_rate: number;
+  acceptance_rate: number;
 }
 
 export interface PlacementMetrics {
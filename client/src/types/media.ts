@@ -0,0 +1,49 @@
+// Media record types
+
+// --- From podcast_outreach/api/schemas/media_schemas.py ---
+export interface Media { // MediaInDB
+  media_id: number;
+  name: string | null;
+  title?: string | null;
+  rss_url?: string | null;
+  rss_feed_url?: string | null;
+  website?: string | null;
+  description?: string | null;
+  ai_description?: string | null;
+  contact_email?: string | null;
+  language?: string | null;
+  category?: string | null;
+  image_url?: string | null;
+  company_id?: number | null;
+  avg_downloads?: number | null;
+  audience_size?: number | null;
+  total_episodes?: number | null;
+  itunes_id?: string | null;
+  podcast_spotify_id?: string | null;
+  listen_score?: number | null;
+  listen_score_global_rank?: number | null;
+  itunes_rating_average?: number | null;
+  itunes_rating_count?: number | null;
+  spotify_rating_average?: number | null;
+  spotify_rating_count?: number | null;
+  fetched_episodes?: boolean;
+  source_api?: string | null;
+  api_id?: string | null; // ID from the source_api
+  last_posted_at?: string | null; // ISO datetime string
+  podcast_twitter_url?: string | null;
+  podcast_linkedin_url?: string | null;
+  podcast_instagram_url?: string | null;
+  podcast_facebook_url?: string | null;
+  podcast_youtube_url?: string | null;
+  podcast_tiktok_url?: string | null;
+  podcast_other_social_url?: string | null;
+  host_names?: string[] | null; // From your DB schema
+  // --- Fields for Match Intelligence Card ---
+  quality_score?: number | null;
+  quality_score_recency?: number | null;
+  quality_score_frequency?: number | null;
+  quality_score_audience?: number | null;
+  quality_score_social?: number | null;
+  // embedding is omitted
+  created_at: string; // ISO datetime string
+}
@@ -0,0 +1,237 @@
+// Media kit related types
+
+// Interface for the data expected from GET /public/media-kit/{slug}
+export interface PublicMediaKitData {
+  media_kit_id: string;
+  campaign_id: string;
+  person_id: number;
+  client_role?: string | null; // e.g., "client", "prospect"
+  title?: string | null; // Main title of the media kit
+  slug?: string | null;
+  is_public?: boolean | null;
+  access_mode?: MediaKitAccessMode | null; // 'links_only' requires a share link even when is_public is true
+  variant_id?: string | null; // Set when the slug belongs to an audience variant; the backend returns it merged over the base kit
+  variant_name?: string | null;
+  theme_preference?: string | null; // e.g., "modern", "classic"
+  
+  tagline?: string | null; // Short tagline under the name in header
+  headline?: string | null; // Larger headline text
+  introduction?: string | null; // Introduction text, might be used if full_bio is not detailed
+  
+  full_bio_content?: string | null; // Can be markdown/HTML
+  summary_bio_content?: string | null; // Shorter bio
+  short_bio_content?: string | null; // Very short bio, possibly for social media
+  bio_source?: 'gdoc' | 'llm_generated' | 'manual' | string | null;
+
+  talking_points?: Array<{
+    title: string; // Changed from 'topic'
+    description?: string;
+    outcome?: string; // Kept for potential future use
+  }> | null;
+  
+  sample_questions?: string[] | null; // Array of question strings
+
+  key_achievements?: string[] | null; // Array of achievement strings
+
+  previous_appearances?: Array<{
+    url?: string | null;
+    date?: string | null;
+    type?: 'previous_appearance' | 'speaking_clip' | string | null; // e.g., podcast, webinar, conference talk
+    title?: string | null; // e.g., "The Student Success Podcast"
+    outlet?: string | null; // Name of the podcast, show, or event series
+    description?: string | null; // Optional: Episode title or talk summary
+  }> | null;
+
+  social_media_stats?: {
+    last_fetched_at?: string | null;
+    linkedin_followers_count?: number | null;
+    twitter_followers_count?: number | null;
+    // Add other platforms as needed
+    // Example structure from provided data:
+    // [platform_name]?: { followers?: number; url?: string; handle?: string };
+  } | null;
+  
+  testimonials_section?: string | null; // Can be markdown/HTML for a full section
+  testimonials?: MediaKitTestimonial[] | null; // Approved testimonials only, in display order
+
+  headshot_image_urls?: Array<{ url: string; alt_text?: string }> | null; // url is primary (legacy)
+  headshot_image_url?: string | null; // New single URL format
+  logo_image_url?: string | null; // Could be client's company or personal logo
+  image_urls?: { headshot_url?: string | null; logo_url?: string | null; cover_image_url?: string | null; share_image_url?: string | null } | null; // Object format; cover_image_url is the custom banner, share_image_url the generated social card
+
+  call_to_action_text?: string | null; // Custom text for the main CTA button
+  call_to_action_url?: string | null; // Custom URL for the CTA button
+  contact_information_for_booking?: string | null; // JSON string with contact details
+  
+  // Client-specific information (often from the Person model)
+  client_full_name?: string | null;
+  client_email?: string | null;
+  client_website?: string | null;
+  client_linkedin_profile_url?: string | null;
+  client_twitter_profile_url?: string | null;
+  client_instagram_profile_url?: string | null;
+  client_tiktok_profile_url?: string | null;
+  
+  // New fields from the provided JSON
+  custom_sections?: Array<{
+    title: string;
+    content: any; // Can be an object or array depending on the section
+  }> | null;
+  
+  person_social_links?: Array<{  // <-- ADDED THIS FIELD
+    platform: string; 
+    handle?: string | null;
+    url?: string | null;
+  }> | null;
+  
+  keywords?: string[] | null;
+  angles_source?: string | null;
+  created_at: string;
+  updated_at: string;
+  campaign_name?: string | null;
+
+  // Simplified at_a_glance specific structure if preferred over custom_sections
+  // This is an alternative to parsing custom_sections if "At a Glance Stats" is always present and structured
+  at_a_glance_stats_custom?: {
+    keynoteEngagements?: string | null;
+    yearsOfExperience?: string | null;
+    emailSubscribers?: string | null;
+    // Add any other common "at a glance" stats
+  } | null;
+}
+
+// Editor sections that are saved (and versioned) independently
+export type MediaKitSectionKey =
+  | 'header'
+  | 'intro'
+  | 'bio'
+  | 'talking_points'
+  | 'cta'
+  | 'social_links'
+  | 'achievements'
+  | 'appearances'
+  | 'testimonials'
+  | 'questions';
+
+export type MediaKitVersionSource = 'manual' | 'ai' | 'gdoc' | 'restore';
+
+// GET /media-kits/{id}/versions?section=
+export interface MediaKitSectionVersion {
+  version_id: string;
+  media_kit_id: string;
+  section: MediaKitSectionKey;
+  content: Record<string, unknown>; // The section's fields exactly as saved
+  source: MediaKitVersionSource;
+  source_detail?: string | null; // Raw bio_source / angles_source for AI and GDoc versions, e.g. "llm_generated"
+  author_name?: string | null;
+  author_person_id?: number | null;
+  restored_from_version_id?: string | null;
+  created_at: string;
+}
+
+export type MediaKitVisitEventType = 'view' | 'section_view' | 'cta_click' | 'appearance_click' | 'time_on_page';
+
+// A visitor is an anonymous browser id; attribution comes from the ?ref= token carried by pitch links
+export interface MediaKitAnalyticsVisitor {
+  visitor_id: string;
+  first_seen_at: string;
+  last_seen_at: string;
+  visit_count: number;
+  total_seconds: number;
+  sections_viewed: string[];
+  cta_clicks: number;
+  appearance_clicks: number;
+  referrer?: string | null;
+  pitch?: {
+    pitch_gen_id?: number | null;
+    match_id: number;
+    media_id?: number | null;
+    media_name?: string | null;
+    subject_line?: string | null;
+    sent_at?: string | null;
+  } | null;
+}
+
+// GET /media-kits/{id}/analytics?days=
+export interface MediaKitAnalytics {
+  range_days: number;
+  totals: {
+    views: number;
+    unique_visitors: number;
+    avg_seconds_on_page: number;
+    cta_clicks: number;
+    appearance_clicks: number;
+    attributed_visitors: number; // Visitors who arrived through a pitch link
+    pitches_sent: number; // Pitches sent in the range, for the open-rate comparison
+  };
+  daily: { date: string; views: number; unique_visitors: number }[];
+  sections: { section: string; views: number }[];
+  visitors: MediaKitAnalyticsVisitor[];
+}
+
+// open: anyone with /media-kit/:slug · links_only: visitors need a share link (?access=<token>)
+export type MediaKitAccessMode = 'open' | 'links_only';
+
+// GET /media-kits/{id}/share-links
+export interface MediaKitShareLink {
+  link_id: string;
+  media_kit_id: string;
+  token: string;
+  label?: string | null;
+  recipient_name?: string | null;
+  recipient_email?: string | null;
+  has_password: boolean;
+  expires_at?: string | null;
+  revoked_at?: string | null;
+  view_count: number;
+  last_viewed_at?: string | null;
+  created_at: string;
+}
+
+// Returned with 401/403 from GET /public/media-kit/{slug} when the visitor has to get past the gate first
+export type MediaKitGateReason = 'link_required' | 'password_required' | 'invalid_link' | 'expired' | 'revoked';
+
+// GET /campaigns/{id}/media-kit/variants: an audience-specific version of the campaign's kit with its own slug.
+// Sections listed in overrides replace the base kit's; everything else is inherited.
+export interface MediaKitVariant {
+  variant_id: string;
+  media_kit_id: string;
+  campaign_id: string;
+  name: string; // e.g. "Founders", "HR leaders"
+  slug: string;
+  audience?: string | null;
+  overrides: Partial<Record<MediaKitSectionKey, Record<string, unknown>>>;
+  created_at: string;
+  updated_at: string;
+}
+
+export type TestimonialStatus = 'pending' | 'approved' | 'rejected';
+export type TestimonialSource = 'manual' | 'questionnaire' | 'host_form';
+
+// GET /campaigns/{id}/testimonials: host/client feedback shown as cards on the public media kit once approved
+export interface MediaKitTestimonial {
+  testimonial_id: string;
+  campaign_id: string;
+  quote: string;
+  author_name: string;
+  author_role?: string | null; // e.g. "Host, The Growth Show"
+  media_name?: string | null;
+  media_url?: string | null;
+  avatar_url?: string | null;
+  status: TestimonialStatus;
+  source: TestimonialSource;
+  placement_id?: number | null; // Set for host form submissions
+  created_at: string;
+  updated_at?: string | null;
+}
+
+// GET /public/testimonial-requests/{token}: what the host sees before writing their testimonial
+export interface TestimonialRequestInfo {
+  guest_name: string;
+  guest_headshot_url?: string | null;
+  media_name?: string | null;
+  media_url?: string | null;
+  host_name?: string | null; // Pre-fills the author field
+  submitted: boolean;
+  expired: boolean;
+}
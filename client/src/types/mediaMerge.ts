@@ -0,0 +1,60 @@
+// Duplicate media detection and merge types
+
+export interface FieldProvenance {
+  source: string; // e.g. 'manual', 'api_listennotes', 'api_podscan', 'llm_discovery'
+  confidence: number;
+  updated_at: string;
+}
+
+// GET /media/merge-candidates: identifying fields plus how much hangs off each record
+export interface MergeCandidateMedia {
+  media_id: number;
+  name: string | null;
+  rss_url?: string | null;
+  website?: string | null;
+  itunes_id?: string | null;
+  podcast_spotify_id?: string | null;
+  contact_email?: string | null;
+  host_names?: string[] | null;
+  description?: string | null;
+  image_url?: string | null;
+  category?: string | null;
+  language?: string | null;
+  source_api?: string | null;
+  created_at: string;
+  provenance?: Record<string, FieldProvenance> | null;
+  match_count: number;
+  pitch_count: number;
+  placement_count: number;
+  episode_count: number;
+}
+
+export type DuplicateReason = 'name' | 'rss_url' | 'itunes_id' | 'podcast_spotify_id' | 'website';
+
+export interface DuplicateCluster {
+  key: string; // Stable while the same records stay grouped
+  media: MergeCandidateMedia[];
+  reasons: DuplicateReason[];
+}
+
+export type MergeFieldKey =
+  | 'name' | 'rss_url' | 'website' | 'itunes_id' | 'podcast_spotify_id' | 'contact_email'
+  | 'host_names' | 'description' | 'image_url' | 'category' | 'language';
+
+// POST /media/merge
+export interface MediaMergeRequest {
+  surviving_media_id: number;
+  merged_media_ids: number[];
+  field_values: Partial<Record<MergeFieldKey, unknown>>;
+  field_sources: Partial<Record<MergeFieldKey, number>>; // Which record each value came from, so its provenance carries over
+}
+
+export interface MediaMergeResponse {
+  media_id: number;
+  repointed: {
+    matches: number;
+    pitches: number;
+    placements: number;
+    episodes: number;
+  };
+}
@@ -0,0 +1,38 @@
+// Manual podcast intake types
+
+export type PodcastSourceType = 'rss' | 'apple' | 'spotify';
+
+// One podcast to add, with whatever identifiers could be read off the link before sending
+export interface PodcastIntakeItem {
+  url: string;
+  source_type: PodcastSourceType;
+  rss_url?: string | null;
+  itunes_id?: string | null;
+  podcast_spotify_id?: string | null;
+}
+
+// POST /match-suggestions/campaigns/{campaign_id}/intake
+export interface PodcastIntakeRequest {
+  podcasts: PodcastIntakeItem[];
+}
+
+export type PodcastIntakeIdentifier = 'itunes_id' | 'rss_url' | 'podcast_spotify_id';
+
+export interface PodcastIntakeResult {
+  url: string;
+  status: 'created' | 'existing' | 'failed';
+  media_id?: number | null;
+  media_name?: string | null;
+  matched_on?: PodcastIntakeIdentifier | null; // Set when an existing media record was reused
+  match_id?: number | null;
+  match_already_existed?: boolean; // The show was already suggested for this campaign
+  error?: string | null;
+}
+
+export interface PodcastIntakeResponse {
+  results: PodcastIntakeResult[];
+  created: number;
+  existing: number;
+  failed: number;
+  pipeline_started: boolean; // Enrichment and vetting were queued for the new matches
+}
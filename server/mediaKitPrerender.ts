@@ -0,0 +1,96 @@
+// server/mediaKitPrerender.ts
+// Vite dev/preview middleware that serves /media-kit/:slug with the kit's share-card tags, JSON-LD and a text
+// snapshot already in the HTML, so link unfurlers (LinkedIn, Slack, email clients) and crawlers that don't run
+// JavaScript see the kit. Everything else falls through to the normal SPA handling.
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { Connect, Plugin } from "vite";
+import { getMediaKitSeo, renderMediaKitHeadHtml, renderMediaKitSnapshotHtml } from "../client/src/lib/mediaKitSeo";
+import type { PublicMediaKitData } from "../client/src/types/mediaKit";
+
+const MEDIA_KIT_PATH = /^\/media-kit\/([^/?#]+)\/?(?:[?#].*)?$/;
+const CACHE_TTL_MS = 60_000;
+const FETCH_TIMEOUT_MS = 3_000;
+
+interface MediaKitPrerenderOptions {
+  apiBaseUrl: string;
+  siteOrigin: string; // e.g. https://www.podcastguestlaunch.com; never taken from the request, since responses are publicly cached
+}
+
+// kit is null when the kit is missing, private or behind a share link/password; status says which
+type LoadedKit = { kit: PublicMediaKitData | null; status: number };
+type CachedKit = LoadedKit & { expiresAt: number };
+
+export function mediaKitPrerender({ apiBaseUrl, siteOrigin }: MediaKitPrerenderOptions): Plugin {
+  const origin = siteOrigin.replace(/\/+$/, "");
+  const cache = new Map<string, CachedKit>();
+
+  // undefined = backend unreachable, serve the plain SPA
+  const loadKit = async (slug: string): Promise<LoadedKit | undefined> => {
+    const cached = cache.get(slug);
+    if (cached && cached.expiresAt > Date.now()) return cached;
+    try {
+      const response = await fetch(`${apiBaseUrl}/public/media-kit/${encodeURIComponent(slug)}`, {
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      });
+      if (!response.ok && ![401, 403, 404].includes(response.status)) return undefined;
+      const data: PublicMediaKitData | null = response.ok ? await response.json() : null;
+      const loaded: LoadedKit = {
+        kit: data?.is_public ? data : null,
+        // 401/403 means restricted to share links or password protected: the page exists, it just isn't indexable
+        status: response.status === 401 || response.status === 403 ? 200 : data?.is_public ? 200 : 404,
+      };
+      cache.set(slug, { ...loaded, expiresAt: Date.now() + CACHE_TTL_MS });
+      return loaded;
+    } catch {
+      return undefined;
+    }
+  };
+
+  const createMiddleware = (getIndexHtml: (url: string) => Promise<string>): Connect.NextHandleFunction =>
+    async (req: IncomingMessage, res: ServerResponse, next: Connect.NextFunction) => {
+      // Any failure goes to next(): a rejection escaping this async handler would take the whole server down
+      try {
+        const match = req.method === "GET" && req.url ? MEDIA_KIT_PATH.exec(req.url) : null;
+        if (!match) return next();
+
+        let slug: string;
+        try {
+          slug = decodeURIComponent(match[1]);
+        } catch {
+          return next(); // Malformed escape such as %E0%A4%A: leave it to the SPA's not-found handling
+        }
+        const loaded = await loadKit(slug);
+        if (!loaded) return next();
+        const { kit, status } = loaded;
+
+        const pageUrl = `${origin}/media-kit/${encodeURIComponent(slug)}`;
+        const seo = getMediaKitSeo(kit, pageUrl);
+        if (!kit && status === 200) seo.title = "Private Media Kit";
+
+        let html = await getIndexHtml(req.url!);
+        html = html.replace(/<title>[\s\S]*?<\/title>/, renderMediaKitHeadHtml(seo));
+        if (seo.jsonLd && kit) html = html.replace('<div id="root"></div>', `<div id="root">${renderMediaKitSnapshotHtml(kit)}</div>`);
+
+        res.statusCode = status;
+        res.setHeader("Content-Type", "text/html; charset=utf-8");
+        res.setHeader("Cache-Control", "public, max-age=60");
+        res.end(html);
+      } catch (error) {
+        next(error);
+      }
+    };
+
+  return {
+    name: "media-kit-prerender",
+    configureServer(server) {
+      const indexPath = resolve(server.config.root, "index.html");
+      server.middlewares.use(createMiddleware(async (url) => server.transformIndexHtml(url, await readFile(indexPath, "utf-8"))));
+    },
+    configurePreviewServer(server) {
+      const indexPath = resolve(server.config.root, server.config.build.outDir, "index.html");
+      server.middlewares.use(createMiddleware(() => readFile(indexPath, "utf-8")));
+    },
+  };
+}
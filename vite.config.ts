@@ -1,6 +1,7 @@
 import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
 import { resolve } from 'node:path'
+import { mediaKitPrerender } from './server/mediaKitPrerender'
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => {
@@ -14,9 +15,13 @@ export default defineConfig(({ mode }) => {
     .map(url => url.trim())
     .map(url => url.replace(/^https?:\/\//, '').replace(/\/.*$/, ''))
     .filter(Boolean)
+
+  // Origin for absolute URLs in prerendered media kit pages; the request's Host header can't be trusted for those
+  const siteOrigin = env.PUBLIC_SITE_URL || `https://${allowedHosts[0] || 'www.podcastguestlaunch.com'}`
   
   return {
-    plugins: [react()],
+    // Serves /media-kit/:slug with per-kit share tags so link previews work without JavaScript
+    plugins: [react(), mediaKitPrerender({ apiBaseUrl: env.VITE_API_BASE_URL || 'http://localhost:8000', siteOrigin })],
     root: resolve(__dirname, 'client'),
     resolve: {
       alias: {